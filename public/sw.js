@@ -0,0 +1,55 @@
+// Service worker for desktop notifications. Shows notifications on behalf of
+// the page (and for Web Push payloads, when a push service is configured) and
+// routes clicks back to an open dashboard tab, or opens one on the linked page.
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(self.clients.claim())
+})
+
+// Push payloads use the same shape as in-app notifications: { id, title, body, link }
+self.addEventListener('push', event => {
+  if (!event.data) return
+
+  let payload
+  try {
+    payload = event.data.json()
+  } catch {
+    payload = { title: 'CryptoSignal', body: event.data.text() }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'CryptoSignal', {
+      body: payload.body,
+      tag: payload.id,
+      icon: '/favicon.svg',
+      data: { link: payload.link }
+    })
+  )
+})
+
+// Deep link for a notification when no tab is open; mirrors paths.coin and
+// paths.signal in src/lib/routes.ts
+function linkUrl(link) {
+  if (link && link.kind === 'coin') return `/coin/${encodeURIComponent(link.coinId)}`
+  if (link && link.kind === 'signal') return `/signal/${encodeURIComponent(link.signalId)}`
+  return '/'
+}
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const link = event.notification.data && event.notification.data.link
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    const client = windows.find(w => new URL(w.url).origin === self.location.origin)
+    if (client) {
+      await client.focus()
+      if (link) client.postMessage({ type: 'notification-click', link })
+      return
+    }
+    await self.clients.openWindow(linkUrl(link))
+  })())
+})
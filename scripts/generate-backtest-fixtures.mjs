@@ -0,0 +1,100 @@
+#!/usr/bin/env node
+// Writes the synthetic candle fixtures the backtester replays offline. The
+// series are seeded random walks that switch between trending, ranging and
+// volatile regimes, so every strategy has something to trade. They are not
+// real market history; regenerate with the same seeds for identical output.
+//
+//   node scripts/generate-backtest-fixtures.mjs
+import { writeFileSync } from 'node:fs'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const OUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '../src/services/backtest/fixtures')
+const START = Date.UTC(2024, 0, 1)
+const HOUR_MS = 60 * 60 * 1000
+const BARS = 1500
+
+const FIXTURES = [
+  { id: 'bitcoin', symbol: 'BTC', seed: 1337, startPrice: 42000, volatility: 0.006, baseVolume: 1.2e9 },
+  { id: 'ethereum', symbol: 'ETH', seed: 2718, startPrice: 2300, volatility: 0.008, baseVolume: 6e8 },
+  { id: 'solana', symbol: 'SOL', seed: 4242, startPrice: 100, volatility: 0.012, baseVolume: 1.5e8 }
+]
+
+// Drift and volatility per bar for each regime
+const REGIMES = {
+  uptrend: { drift: 0.0012, volatility: 1, reversion: 0 },
+  downtrend: { drift: -0.0012, volatility: 1, reversion: 0 },
+  range: { drift: 0, volatility: 0.7, reversion: 0.05 },
+  volatile: { drift: 0, volatility: 2.2, reversion: 0.01 }
+}
+
+function mulberry32(seed) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function gaussian(random) {
+  const u = Math.max(random(), Number.EPSILON)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+function round(value) {
+  return Number(value.toPrecision(8))
+}
+
+function generate({ seed, startPrice, volatility, baseVolume }) {
+  const random = mulberry32(seed)
+  const regimeNames = Object.keys(REGIMES)
+  const candles = []
+
+  let close = startPrice
+  let regime = 'range'
+  let regimeBarsLeft = 0
+  let anchor = startPrice
+
+  for (let i = 0; i < BARS; i++) {
+    if (regimeBarsLeft <= 0) {
+      regime = regimeNames[Math.floor(random() * regimeNames.length)]
+      regimeBarsLeft = 60 + Math.floor(random() * 180)
+      anchor = close
+    }
+    regimeBarsLeft -= 1
+
+    const { drift, volatility: scale, reversion } = REGIMES[regime]
+    const sigma = volatility * scale
+    const pull = reversion * Math.log(anchor / close)
+    const open = close
+    close = open * Math.exp(drift + pull + sigma * gaussian(random))
+
+    const wick = () => Math.abs(gaussian(random)) * sigma * 0.5
+    const high = Math.max(open, close) * (1 + wick())
+    const low = Math.min(open, close) * (1 - wick())
+    const move = Math.abs(Math.log(close / open)) / sigma
+    const volume = baseVolume / 24 * Math.exp(0.3 * gaussian(random)) * (1 + move * 0.5)
+
+    candles.push([START + i * HOUR_MS, round(open), round(high), round(low), round(close), Math.round(volume)])
+  }
+
+  return candles
+}
+
+for (const fixture of FIXTURES) {
+  const file = join(OUT_DIR, `${fixture.id}-1h.json`)
+  const body = {
+    id: fixture.id,
+    symbol: fixture.symbol,
+    interval: '1h',
+    synthetic: true,
+    seed: fixture.seed,
+    // [time, open, high, low, close, volume]
+    candles: generate(fixture)
+  }
+  writeFileSync(file, JSON.stringify(body) + '\n')
+  console.log(`wrote ${file} (${body.candles.length} bars)`)
+}
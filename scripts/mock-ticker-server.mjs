@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+// Local stand-in for the Binance ticker stream, for exercising the dashboard's
+// streaming, reconnect and heartbeat handling without network access.
+//
+//   npm run mock:stream -- --port=9444 --drop-after=60 --silent-after=120
+//   VITE_TICKER_STREAM_URL=ws://localhost:9444/ws npm run dev
+//
+// --drop-after=N    close every connection after N seconds (tests reconnect/backoff)
+// --silent-after=N  keep the socket open but stop sending after N seconds (tests heartbeat)
+import { createHash } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const args = Object.fromEntries(
+  process.argv.slice(2)
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+      const [key, value] = arg.slice(2).split('=')
+      return [key, value ?? 'true']
+    })
+)
+
+const PORT = Number(args.port ?? 9444)
+const DROP_AFTER_MS = args['drop-after'] ? Number(args['drop-after']) * 1000 : null
+const SILENT_AFTER_MS = args['silent-after'] ? Number(args['silent-after']) * 1000 : null
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+const BASE_PRICES = {
+  BTCUSDT: 43250,
+  ETHUSDT: 2650,
+  BNBUSDT: 315.5,
+  SOLUSDT: 98.5,
+  XRPUSDT: 0.62,
+  ADAUSDT: 0.485,
+  DOGEUSDT: 0.082,
+  AVAXUSDT: 36.2,
+  LINKUSDT: 14.7,
+  DOTUSDT: 7.1,
+  LTCUSDT: 71.3
+}
+
+// Random-walk state per symbol, shared by every connection
+const markets = Object.fromEntries(
+  Object.entries(BASE_PRICES).map(([symbol, price]) => [
+    symbol,
+    { open: price, high: price, low: price, close: price, volume: 0 }
+  ])
+)
+
+function stepMarkets() {
+  for (const market of Object.values(markets)) {
+    market.close = Math.max(market.close * (1 + (Math.random() - 0.5) * 0.002), 0.000001)
+    market.high = Math.max(market.high, market.close)
+    market.low = Math.min(market.low, market.close)
+    market.volume += Math.random() * 10
+  }
+}
+
+function encodeFrame(payload, opcode = 0x1) {
+  const body = Buffer.from(payload)
+  let header
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length])
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(body.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(body.length), 2)
+  }
+  return Buffer.concat([header, body])
+}
+
+// Parse as many complete (masked) client frames as the buffer holds
+function decodeFrames(buffer) {
+  const frames = []
+  let offset = 0
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f
+    const masked = (buffer[offset + 1] & 0x80) !== 0
+    let length = buffer[offset + 1] & 0x7f
+    let cursor = offset + 2
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break
+      length = buffer.readUInt16BE(cursor)
+      cursor += 2
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break
+      length = Number(buffer.readBigUInt64BE(cursor))
+      cursor += 8
+    }
+
+    const maskLength = masked ? 4 : 0
+    if (buffer.length < cursor + maskLength + length) break
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null
+    cursor += maskLength
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length))
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+    }
+
+    frames.push({ opcode, payload })
+    offset = cursor + length
+  }
+
+  return { frames, rest: buffer.subarray(offset) }
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' })
+  res.end('WebSocket endpoint: ws://localhost:' + PORT + '/ws\n')
+})
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key']
+  if (!key) {
+    socket.destroy()
+    return
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  )
+
+  const connectedAt = Date.now()
+  const streams = new Set()
+  let pending = Buffer.alloc(0)
+  console.log(`client connected from ${req.socket.remoteAddress}`)
+
+  const send = message => {
+    if (!socket.destroyed) socket.write(encodeFrame(JSON.stringify(message)))
+  }
+
+  const ticker = setInterval(() => {
+    const elapsed = Date.now() - connectedAt
+    if (DROP_AFTER_MS !== null && elapsed >= DROP_AFTER_MS) {
+      console.log('dropping connection (--drop-after)')
+      socket.destroy()
+      return
+    }
+    if (SILENT_AFTER_MS !== null && elapsed >= SILENT_AFTER_MS) return
+
+    for (const stream of streams) {
+      const symbol = stream.split('@')[0].toUpperCase()
+      const market = markets[symbol]
+      if (!market) continue
+      send({
+        e: '24hrMiniTicker',
+        E: Date.now(),
+        s: symbol,
+        c: market.close.toString(),
+        o: market.open.toString(),
+        h: market.high.toString(),
+        l: market.low.toString(),
+        v: market.volume.toFixed(4),
+        q: (market.volume * market.close).toFixed(2)
+      })
+    }
+  }, 1000)
+
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]))
+    pending = rest
+
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame('', 0x8))
+        return
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa))
+        continue
+      }
+      if (opcode !== 0x1) continue
+
+      let message
+      try {
+        message = JSON.parse(payload.toString('utf8'))
+      } catch {
+        continue
+      }
+
+      if (message.method === 'SUBSCRIBE') {
+        message.params.forEach(stream => streams.add(stream))
+      } else if (message.method === 'UNSUBSCRIBE') {
+        message.params.forEach(stream => streams.delete(stream))
+      }
+      send({ result: null, id: message.id })
+      console.log(`${message.method} ${message.params.join(', ')}`)
+    }
+  })
+
+  const cleanup = () => {
+    clearInterval(ticker)
+    console.log('client disconnected')
+  }
+  socket.on('close', cleanup)
+  socket.on('error', () => socket.destroy())
+})
+
+setInterval(stepMarkets, 500)
+
+server.listen(PORT, () => {
+  console.log(`Mock ticker stream listening on ws://localhost:${PORT}/ws`)
+})
@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+// Local stand-in for Slack/Discord/Telegram/custom webhook receivers, for
+// exercising signed deliveries, retries and the delivery log without network
+// access. Point a webhook at http://localhost:9455/<anything>.
+//
+//   npm run mock:webhooks -- --port=9455 --secret=s3cret --fail-first=2
+//
+// --secret=S        verify X-Webhook-Signature with this secret (401 on mismatch)
+// --fail-first=N    answer the first N attempts of every delivery with --status
+// --status=CODE     status used for failures (default 503)
+// --retry-after=S   send Retry-After: S with failures
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { createServer } from 'node:http'
+
+const args = Object.fromEntries(
+  process.argv.slice(2)
+    .filter(arg => arg.startsWith('--'))
+    .map(arg => {
+      const [key, value] = arg.slice(2).split('=')
+      return [key, value ?? 'true']
+    })
+)
+
+const PORT = Number(args.port ?? 9455)
+const SECRET = args.secret ?? null
+const FAIL_FIRST = Number(args['fail-first'] ?? 0)
+const FAIL_STATUS = Number(args.status ?? 503)
+const RETRY_AFTER = args['retry-after'] ?? null
+// Signatures older than this are treated as replays
+const MAX_SKEW_SECONDS = 300
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Webhook-Delivery, X-Webhook-Signature, X-Webhook-Timestamp'
+}
+
+const attemptsByDelivery = new Map()
+
+function verifySignature(req, body) {
+  const signature = req.headers['x-webhook-signature']
+  const timestamp = req.headers['x-webhook-timestamp']
+  if (!signature || !timestamp) return 'missing signature headers'
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) return 'stale timestamp'
+
+  const expected = 'sha256=' + createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')
+  const matches = expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+  return matches ? null : 'signature mismatch'
+}
+
+function respond(res, status, message, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS, ...headers })
+  res.end(JSON.stringify(message))
+}
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    res.end()
+    return
+  }
+  if (req.method !== 'POST') {
+    respond(res, 405, { error: 'POST only' })
+    return
+  }
+
+  const chunks = []
+  req.on('data', chunk => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const deliveryId = req.headers['x-webhook-delivery'] ?? 'unknown'
+    const attempt = (attemptsByDelivery.get(deliveryId) ?? 0) + 1
+    attemptsByDelivery.set(deliveryId, attempt)
+    const label = `${req.url} ${deliveryId} attempt ${attempt}`
+
+    if (SECRET) {
+      const problem = verifySignature(req, body)
+      if (problem) {
+        console.log(`${label}: rejected (${problem})`)
+        respond(res, 401, { error: problem })
+        return
+      }
+    }
+
+    if (attempt <= FAIL_FIRST) {
+      console.log(`${label}: failing with ${FAIL_STATUS} (--fail-first)`)
+      respond(res, FAIL_STATUS, { error: 'simulated failure' }, RETRY_AFTER ? { 'Retry-After': RETRY_AFTER } : {})
+      return
+    }
+
+    let payload
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      console.log(`${label}: rejected (body is not JSON)`)
+      respond(res, 400, { error: 'invalid JSON' })
+      return
+    }
+
+    console.log(`${label}: accepted${SECRET ? ' (signature ok)' : ''}`)
+    console.log(JSON.stringify(payload, null, 2))
+    respond(res, 200, { ok: true })
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock webhook receiver listening on http://localhost:${PORT}`)
+})
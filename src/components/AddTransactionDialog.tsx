@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import type { PortfolioTransaction, TransactionType } from '@/services/portfolio'
+import { Check, ChevronsUpDown, Plus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+const TRANSACTION_TYPES: { value: TransactionType; label: string }[] = [
+  { value: 'buy', label: 'Buy' },
+  { value: 'sell', label: 'Sell' },
+  { value: 'transfer_in', label: 'Transfer in' },
+  { value: 'transfer_out', label: 'Transfer out' },
+  { value: 'fee', label: 'Fee (paid in coin)' }
+]
+
+interface AddTransactionDialogProps {
+  cryptos: { id: string; symbol: string; name: string; currentPrice: number }[]
+  onAdd: (transaction: Omit<PortfolioTransaction, 'id'>) => Promise<PortfolioTransaction | null>
+}
+
+function localDateTime(date = new Date()) {
+  const offset = date.getTimezoneOffset() * 60 * 1000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+export function AddTransactionDialog({ cryptos, onAdd }: AddTransactionDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [coinId, setCoinId] = useState('')
+  const [coinPickerOpen, setCoinPickerOpen] = useState(false)
+  const [type, setType] = useState<TransactionType>('buy')
+  const [quantity, setQuantity] = useState('')
+  const [price, setPrice] = useState('')
+  const [fee, setFee] = useState('')
+  const [timestamp, setTimestamp] = useState(localDateTime())
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const coin = cryptos.find(crypto => crypto.id === coinId)
+  const needsPrice = type !== 'transfer_out' && type !== 'fee'
+
+  const reset = () => {
+    setQuantity('')
+    setPrice('')
+    setFee('')
+    setNotes('')
+    setTimestamp(localDateTime())
+  }
+
+  const selectCoin = (id: string) => {
+    setCoinId(id)
+    setCoinPickerOpen(false)
+    const selected = cryptos.find(crypto => crypto.id === id)
+    if (selected && !price) setPrice(selected.currentPrice.toString())
+  }
+
+  const handleSubmit = async () => {
+    if (!coin) {
+      toast.error('Choose a coin')
+      return
+    }
+    if (!(Number(quantity) > 0)) {
+      toast.error('Quantity must be greater than zero')
+      return
+    }
+
+    setSaving(true)
+    const created = await onAdd({
+      coinId: coin.id,
+      symbol: coin.symbol,
+      type,
+      quantity: Number(quantity),
+      price: needsPrice ? Number(price) || 0 : 0,
+      fee: Number(fee) || 0,
+      timestamp: new Date(timestamp).toISOString(),
+      notes: notes.trim() || undefined
+    })
+    setSaving(false)
+
+    if (created) {
+      toast.success(`Added ${type.replace('_', ' ')} of ${created.quantity} ${created.symbol}`)
+      reset()
+      setOpen(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" className="gap-2">
+          <Plus className="h-4 w-4" />
+          Add Transaction
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Transaction</DialogTitle>
+          <DialogDescription>Record a trade, transfer or fee to keep your holdings up to date.</DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Coin</Label>
+            <Popover open={coinPickerOpen} onOpenChange={setCoinPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" role="combobox" aria-expanded={coinPickerOpen} className="w-full justify-between font-normal">
+                  <span className={cn("truncate", !coin && "text-muted-foreground")}>
+                    {coin ? `${coin.symbol} · ${coin.name}` : 'Select a coin'}
+                  </span>
+                  <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-64 p-0">
+                <Command>
+                  <CommandInput placeholder="Search coins..." />
+                  <CommandList>
+                    <CommandEmpty>No coins found</CommandEmpty>
+                    {cryptos.map(crypto => (
+                      <CommandItem
+                        key={crypto.id}
+                        value={`${crypto.symbol} ${crypto.name} ${crypto.id}`}
+                        onSelect={() => selectCoin(crypto.id)}
+                      >
+                        <Check className={cn("mr-2 h-4 w-4", crypto.id === coinId ? "opacity-100" : "opacity-0")} />
+                        {crypto.symbol} · {crypto.name}
+                      </CommandItem>
+                    ))}
+                  </CommandList>
+                </Command>
+              </PopoverContent>
+            </Popover>
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value: any) => setType(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSACTION_TYPES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tx-quantity">Quantity</Label>
+            <Input id="tx-quantity" type="number" min={0} step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+          </div>
+          {needsPrice && (
+            <div className="space-y-2">
+              <Label htmlFor="tx-price">{type === 'transfer_in' ? 'Cost per Unit (USD)' : 'Price per Unit (USD)'}</Label>
+              <Input id="tx-price" type="number" min={0} step="any" value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+          )}
+          {(type === 'buy' || type === 'sell') && (
+            <div className="space-y-2">
+              <Label htmlFor="tx-fee">Fee (USD)</Label>
+              <Input id="tx-fee" type="number" min={0} step="any" value={fee} onChange={(e) => setFee(e.target.value)} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="tx-date">Date</Label>
+            <Input id="tx-date" type="datetime-local" value={timestamp} onChange={(e) => setTimestamp(e.target.value)} />
+          </div>
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="tx-notes">Notes</Label>
+            <Textarea id="tx-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Optional" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? 'Saving...' : 'Add Transaction'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,338 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  ALERT_CONDITION_LABELS,
+  AlertRuleError,
+  type AlertCombinator,
+  type AlertCondition,
+  type AlertConditionType,
+  type AlertMode,
+  type AlertRule,
+  type AlertRuleInput
+} from '@/services/alerts'
+import type { CandleInterval } from '@/services/candles'
+import { Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const CONDITION_TYPES = Object.keys(ALERT_CONDITION_LABELS) as AlertConditionType[]
+const INDICATOR_INTERVALS: CandleInterval[] = ['15m', '1h', '4h', '1d']
+
+// Form state keeps numbers as typed so partial input like "0." survives
+interface ConditionDraft {
+  type: AlertConditionType
+  coinId: string
+  direction: string
+  value: string
+  windowMinutes: string
+  interval: CandleInterval
+  side: 'BUY' | 'SELL' | 'ANY'
+}
+
+interface AlertRuleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  coins: { id: string; symbol: string; currentPrice: number }[]
+  // Rule being edited; a new rule is created when omitted. Form state is taken
+  // from it on mount, so remount (via key) to edit a different rule
+  rule?: AlertRule
+  onSave: (input: AlertRuleInput) => void
+}
+
+function defaultDraft(type: AlertConditionType, coin?: { id: string; currentPrice: number }): ConditionDraft {
+  const defaults: Record<AlertConditionType, Pick<ConditionDraft, 'direction' | 'value'>> = {
+    price_cross: { direction: 'above', value: coin ? String(Number(coin.currentPrice.toPrecision(3))) : '' },
+    percent_move: { direction: 'either', value: '5' },
+    rsi: { direction: 'above', value: '70' },
+    volume_spike: { direction: '', value: '3' },
+    new_signal: { direction: '', value: '60' }
+  }
+  return { type, coinId: coin?.id ?? '', windowMinutes: '60', interval: '1h', side: 'ANY', ...defaults[type] }
+}
+
+function draftFromCondition(condition: AlertCondition): ConditionDraft {
+  const draft = defaultDraft(condition.type)
+  draft.coinId = condition.coinId
+  switch (condition.type) {
+    case 'price_cross':
+      return { ...draft, direction: condition.direction, value: String(condition.price) }
+    case 'percent_move':
+      return { ...draft, direction: condition.direction, value: String(condition.percent), windowMinutes: String(condition.windowMinutes) }
+    case 'rsi':
+      return { ...draft, direction: condition.comparison, value: String(condition.threshold), interval: condition.interval }
+    case 'volume_spike':
+      return { ...draft, value: String(condition.multiplier), interval: condition.interval }
+    case 'new_signal':
+      return { ...draft, side: condition.side, value: String(condition.minConfidence) }
+  }
+}
+
+function conditionFromDraft(draft: ConditionDraft, symbol: string): AlertCondition {
+  const base = { coinId: draft.coinId, symbol }
+  const value = Number(draft.value)
+  switch (draft.type) {
+    case 'price_cross':
+      return { ...base, type: 'price_cross', direction: draft.direction === 'below' ? 'below' : 'above', price: value }
+    case 'percent_move':
+      return {
+        ...base,
+        type: 'percent_move',
+        direction: draft.direction === 'up' || draft.direction === 'down' ? draft.direction : 'either',
+        percent: value,
+        windowMinutes: Number(draft.windowMinutes)
+      }
+    case 'rsi':
+      return { ...base, type: 'rsi', comparison: draft.direction === 'below' ? 'below' : 'above', threshold: value, interval: draft.interval }
+    case 'volume_spike':
+      return { ...base, type: 'volume_spike', multiplier: value, interval: draft.interval }
+    case 'new_signal':
+      return { ...base, type: 'new_signal', side: draft.side, minConfidence: value || 0 }
+  }
+}
+
+export function AlertRuleDialog({ open, onOpenChange, coins, rule, onSave }: AlertRuleDialogProps) {
+  const [name, setName] = useState(rule?.name ?? '')
+  const [combinator, setCombinator] = useState<AlertCombinator>(rule?.combinator ?? 'AND')
+  const [mode, setMode] = useState<AlertMode>(rule?.mode ?? 'recurring')
+  const [cooldown, setCooldown] = useState(String(rule?.cooldownMinutes ?? 60))
+  const [drafts, setDrafts] = useState<ConditionDraft[]>(() =>
+    rule ? rule.conditions.map(draftFromCondition) : [defaultDraft('price_cross', coins[0])]
+  )
+
+  const updateDraft = (index: number, changes: Partial<ConditionDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)))
+  }
+
+  const changeType = (index: number, type: AlertConditionType) => {
+    const coin = coins.find(c => c.id === drafts[index].coinId)
+    setDrafts(prev => prev.map((draft, i) => (i === index ? defaultDraft(type, coin) : draft)))
+  }
+
+  const handleSave = () => {
+    const symbols = new Map(coins.map(coin => [coin.id, coin.symbol]))
+    const existing = new Map(rule?.conditions.map(condition => [condition.coinId, condition.symbol]) ?? [])
+
+    try {
+      onSave({
+        name,
+        combinator,
+        mode,
+        cooldownMinutes: Number(cooldown) || 0,
+        conditions: drafts.map(draft =>
+          conditionFromDraft(draft, symbols.get(draft.coinId) ?? existing.get(draft.coinId) ?? draft.coinId.toUpperCase())
+        )
+      })
+      onOpenChange(false)
+    } catch (error) {
+      if (error instanceof AlertRuleError) {
+        toast.error(error.message)
+      } else {
+        console.error('Failed to save alert rule:', error)
+        toast.error('Failed to save alert. Please try again.')
+      }
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Alert' : 'New Alert'}</DialogTitle>
+          <DialogDescription>
+            Alerts are checked on every price update. Combine conditions with AND to require all of them, or OR for any.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="alert-name">Name</Label>
+              <Input id="alert-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="BTC breakout" />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={(value: AlertMode) => setMode(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="recurring">Recurring</SelectItem>
+                  <SelectItem value="once">One-shot</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-cooldown">Cooldown (min)</Label>
+              <Input
+                id="alert-cooldown"
+                type="number"
+                min="0"
+                value={cooldown}
+                onChange={(e) => setCooldown(e.target.value)}
+                disabled={mode === 'once'}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Match</span>
+              <Select value={combinator} onValueChange={(value: AlertCombinator) => setCombinator(value)}>
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="AND">All</SelectItem>
+                  <SelectItem value="OR">Any</SelectItem>
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">of these conditions</span>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-2"
+              onClick={() => setDrafts(prev => [...prev, defaultDraft('price_cross', coins[0])])}
+            >
+              <Plus className="h-4 w-4" />
+              Condition
+            </Button>
+          </div>
+
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {drafts.map((draft, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-md border border-border/50 p-2">
+                <Select value={draft.type} onValueChange={(value: AlertConditionType) => changeType(index, value)}>
+                  <SelectTrigger className="w-44 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{ALERT_CONDITION_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={draft.coinId} onValueChange={(value) => updateDraft(index, { coinId: value })}>
+                  <SelectTrigger className="w-28 h-8">
+                    <SelectValue placeholder="Coin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {coins.map(coin => (
+                      <SelectItem key={coin.id} value={coin.id}>{coin.symbol}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {(draft.type === 'price_cross' || draft.type === 'rsi') && (
+                  <Select value={draft.direction} onValueChange={(value) => updateDraft(index, { direction: value })}>
+                    <SelectTrigger className="w-24 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="above">above</SelectItem>
+                      <SelectItem value="below">below</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {draft.type === 'percent_move' && (
+                  <Select value={draft.direction} onValueChange={(value) => updateDraft(index, { direction: value })}>
+                    <SelectTrigger className="w-24 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="either">up/down</SelectItem>
+                      <SelectItem value="up">up</SelectItem>
+                      <SelectItem value="down">down</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {draft.type === 'new_signal' && (
+                  <Select value={draft.side} onValueChange={(value: ConditionDraft['side']) => updateDraft(index, { side: value })}>
+                    <SelectTrigger className="w-24 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="ANY">Any side</SelectItem>
+                      <SelectItem value="BUY">BUY</SelectItem>
+                      <SelectItem value="SELL">SELL</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <div className="flex items-center gap-1">
+                  {draft.type === 'price_cross' && <span className="text-sm text-muted-foreground">USD</span>}
+                  <Input
+                    type="number"
+                    min="0"
+                    step="any"
+                    className="w-24 h-8"
+                    value={draft.value}
+                    onChange={(e) => updateDraft(index, { value: e.target.value })}
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {draft.type === 'percent_move' ? '% in' :
+                     draft.type === 'volume_spike' ? 'x avg' :
+                     draft.type === 'new_signal' ? '% min confidence' : ''}
+                  </span>
+                </div>
+
+                {draft.type === 'percent_move' && (
+                  <Select value={draft.windowMinutes} onValueChange={(value) => updateDraft(index, { windowMinutes: value })}>
+                    <SelectTrigger className="w-20 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="5">5m</SelectItem>
+                      <SelectItem value="15">15m</SelectItem>
+                      <SelectItem value="60">1h</SelectItem>
+                      <SelectItem value="240">4h</SelectItem>
+                      <SelectItem value="1440">24h</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {(draft.type === 'rsi' || draft.type === 'volume_spike') && (
+                  <Select value={draft.interval} onValueChange={(value: CandleInterval) => updateDraft(index, { interval: value })}>
+                    <SelectTrigger className="w-20 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INDICATOR_INTERVALS.map(interval => (
+                        <SelectItem key={interval} value={interval}>{interval}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto h-8 w-8 p-0"
+                  onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                  disabled={drafts.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave}>{rule ? 'Save Changes' : 'Create Alert'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { AlertRuleDialog } from './AlertRuleDialog'
+import {
+  alertEngine,
+  describeCondition,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertSnapshot
+} from '@/services/alerts'
+import { BellRing, Pencil, Plus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface AlertsSheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  alerts: AlertSnapshot
+  coins: { id: string; symbol: string; currentPrice: number }[]
+}
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+export function AlertsSheet({ open, onOpenChange, alerts, coins }: AlertsSheetProps) {
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<AlertRule | undefined>(undefined)
+  const [dialogKey, setDialogKey] = useState(0)
+
+  const openDialog = (rule?: AlertRule) => {
+    setEditing(rule)
+    setDialogKey(key => key + 1)
+    setDialogOpen(true)
+  }
+
+  const saveRule = (input: AlertRuleInput) => {
+    if (editing) {
+      alertEngine.updateRule(editing.id, input)
+      toast.success(`Updated alert "${input.name}"`)
+    } else {
+      alertEngine.createRule(input)
+      toast.success(`Created alert "${input.name}"`)
+    }
+  }
+
+  const deleteRule = (rule: AlertRule) => {
+    alertEngine.deleteRule(rule.id)
+    toast.success(`Deleted alert "${rule.name}"`)
+  }
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              Price Alerts
+            </SheetTitle>
+            <SheetDescription>
+              Get notified when prices, indicators or signals match your rules.
+            </SheetDescription>
+          </SheetHeader>
+
+          <Tabs defaultValue="rules" className="mt-4">
+            <div className="flex items-center justify-between">
+              <TabsList>
+                <TabsTrigger value="rules">Rules ({alerts.rules.length})</TabsTrigger>
+                <TabsTrigger value="history">History</TabsTrigger>
+              </TabsList>
+              <Button size="sm" className="gap-2" onClick={() => openDialog()}>
+                <Plus className="h-4 w-4" />
+                New Alert
+              </Button>
+            </div>
+
+            <TabsContent value="rules">
+              <ScrollArea className="h-[calc(100vh-14rem)] pr-3">
+                <div className="space-y-3">
+                  {alerts.rules.map(rule => (
+                    <div key={rule.id} className={cn("rounded-md border border-border/50 p-3 space-y-2", !rule.enabled && "opacity-60")}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="font-medium truncate">{rule.name}</div>
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            checked={rule.enabled}
+                            onCheckedChange={(checked) => alertEngine.setEnabled(rule.id, checked)}
+                          />
+                          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => openDialog(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => deleteRule(rule)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        {rule.conditions.map((condition, index) => (
+                          <div key={index}>
+                            {index > 0 && <span className="text-xs font-medium text-foreground mr-1">{rule.combinator}</span>}
+                            {describeCondition(condition)}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline" className="text-xs">
+                          {rule.mode === 'once' ? 'One-shot' : `Recurring · ${rule.cooldownMinutes}m cooldown`}
+                        </Badge>
+                        {rule.lastTriggeredAt
+                          ? <span>Fired {rule.triggerCount}× · last {formatDateTime(rule.lastTriggeredAt)}</span>
+                          : <span>Not fired yet</span>}
+                      </div>
+                    </div>
+                  ))}
+                  {!alerts.loading && alerts.rules.length === 0 && (
+                    <div className="text-center py-12 text-muted-foreground">
+                      <p>No alerts yet</p>
+                      <p className="text-sm">Create one to watch price levels, moves, RSI, volume or new signals</p>
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="history">
+              <div className="flex justify-end mb-2">
+                <Button size="sm" variant="ghost" onClick={() => alertEngine.clearHistory()} disabled={alerts.history.length === 0}>
+                  Clear history
+                </Button>
+              </div>
+              <ScrollArea className="h-[calc(100vh-16rem)] pr-3">
+                <div className="space-y-3">
+                  {alerts.history.map(event => (
+                    <div key={event.id} className="rounded-md border border-border/50 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="font-medium truncate">{event.ruleName}</div>
+                        <div className="text-xs text-muted-foreground whitespace-nowrap">{formatDateTime(event.triggeredAt)}</div>
+                      </div>
+                      <ul className="mt-1 text-sm text-muted-foreground">
+                        {event.details.map((detail, index) => <li key={index}>{detail}</li>)}
+                      </ul>
+                    </div>
+                  ))}
+                  {alerts.history.length === 0 && (
+                    <div className="text-center py-12 text-muted-foreground">No alerts have fired yet</div>
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+          </Tabs>
+        </SheetContent>
+      </Sheet>
+
+      <AlertRuleDialog
+        key={dialogKey}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        coins={coins}
+        rule={editing}
+        onSave={saveRule}
+      />
+    </>
+  )
+}
@@ -0,0 +1,127 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import type { SavedBacktestRun } from '@/hooks/use-backtest-runs'
+import type { BacktestMetrics } from '@/services/backtest'
+import { strategyRegistry } from '@/services/strategies'
+import { cn } from '@/lib/utils'
+
+const RUN_COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5']
+
+const COMPARED_METRICS: { key: keyof BacktestMetrics; label: string; format: (value: number | null) => string; higherIsBetter: boolean }[] = [
+  { key: 'totalReturnPercentage', label: 'Total Return', format: value => `${value!.toFixed(2)}%`, higherIsBetter: true },
+  { key: 'totalTrades', label: 'Trades', format: value => String(value), higherIsBetter: true },
+  { key: 'winRate', label: 'Win Rate', format: value => `${value!.toFixed(1)}%`, higherIsBetter: true },
+  { key: 'expectancyR', label: 'Expectancy (R)', format: value => value!.toFixed(2), higherIsBetter: true },
+  { key: 'profitFactor', label: 'Profit Factor', format: value => value === null ? '—' : value.toFixed(2), higherIsBetter: true },
+  { key: 'maxDrawdownPercentage', label: 'Max Drawdown', format: value => `-${value!.toFixed(2)}%`, higherIsBetter: false },
+  { key: 'sharpeRatio', label: 'Sharpe Ratio', format: value => value!.toFixed(2), higherIsBetter: true },
+  { key: 'averageBarsHeld', label: 'Avg Bars Held', format: value => value!.toFixed(1), higherIsBetter: false }
+]
+
+interface BacktestComparisonProps {
+  runs: SavedBacktestRun[]
+}
+
+export function BacktestComparison({ runs }: BacktestComparisonProps) {
+  const chartConfig: ChartConfig = Object.fromEntries(
+    runs.map((run, i) => [run.id, { label: run.name, color: `hsl(var(${RUN_COLORS[i % RUN_COLORS.length]}))` }])
+  )
+
+  // Curves are compared as % return so runs with different capital line up
+  const series = runs.map(run => ({
+    id: run.id,
+    data: run.equityCurve.map(point => ({
+      time: point.time,
+      [run.id]: (point.equity / run.config.initialCapital - 1) * 100
+    }))
+  }))
+
+  const bestRunId = (key: keyof BacktestMetrics, higherIsBetter: boolean) => {
+    const scored = runs.filter(run => run.metrics[key] !== null)
+    if (scored.length < 2) return null
+    return scored.reduce((best, run) => {
+      const better = higherIsBetter
+        ? (run.metrics[key] as number) > (best.metrics[key] as number)
+        : (run.metrics[key] as number) < (best.metrics[key] as number)
+      return better ? run : best
+    }).id
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base">Return Comparison</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+            <LineChart>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                minTickGap={32}
+              />
+              <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} width={50} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {series.map(entry => (
+                <Line
+                  key={entry.id}
+                  data={entry.data}
+                  dataKey={entry.id}
+                  type="monotone"
+                  stroke={`var(--color-${entry.id})`}
+                  dot={false}
+                  strokeWidth={2}
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base">Metrics</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                {runs.map(run => (
+                  <TableHead key={run.id}>
+                    <div className="font-medium text-foreground">{run.name}</div>
+                    <div className="text-xs font-normal">
+                      {strategyRegistry.get(run.config.strategyId)?.name ?? run.config.strategyId} · {run.coinIds.join(', ')}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {COMPARED_METRICS.map(metric => {
+                const best = bestRunId(metric.key, metric.higherIsBetter)
+                return (
+                  <TableRow key={metric.key}>
+                    <TableCell className="text-muted-foreground">{metric.label}</TableCell>
+                    {runs.map(run => (
+                      <TableCell key={run.id} className={cn(run.id === best && "font-semibold text-primary")}>
+                        {metric.format(run.metrics[metric.key])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,354 @@
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { BacktestResults } from './BacktestResults'
+import { BacktestComparison } from './BacktestComparison'
+import { useBacktestRuns } from '@/hooks/use-backtest-runs'
+import {
+  BACKTEST_FIXTURES,
+  DEFAULT_BACKTEST_CONFIG,
+  loadBacktestSeries,
+  runBacktestInWorker,
+  type BacktestDataSource,
+  type PortfolioBacktestResult
+} from '@/services/backtest'
+import type { CandleInterval } from '@/services/candles'
+import { DEFAULT_RISK_CONFIG } from '@/services/riskLevels'
+import { strategyRegistry } from '@/services/strategies'
+import { FlaskConical, Play, Save, Trash2, GitCompare, Link2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { copyLink, paths } from '@/lib/routes'
+import { toast } from 'sonner'
+
+const LIVE_INTERVALS: CandleInterval[] = ['15m', '1h', '4h', '1d']
+// Fixture files span the first two months of 2024
+const FIXTURE_DATES = { from: '2024-01-01', to: '2024-03-03' }
+const MAX_COMPARED_RUNS = 4
+
+interface BacktestPanelProps {
+  user: any
+  cryptos: { id: string; symbol: string; name: string }[]
+  // Saved run on display, driven by the URL
+  viewedRunId: string | null
+  onViewRun: (runId: string | null) => void
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+export function BacktestPanel({ user, cryptos, viewedRunId, onViewRun }: BacktestPanelProps) {
+  const { runs, saveRun, deleteRun } = useBacktestRuns(user)
+  const [strategyId, setStrategyId] = useState(strategyRegistry.list()[0]?.id ?? '')
+  const [source, setSource] = useState<BacktestDataSource>('fixtures')
+  const [coinIds, setCoinIds] = useState<string[]>([BACKTEST_FIXTURES[0].coinId])
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1h')
+  const [fromDate, setFromDate] = useState(FIXTURE_DATES.from)
+  const [toDate, setToDate] = useState(FIXTURE_DATES.to)
+  const [initialCapital, setInitialCapital] = useState(DEFAULT_BACKTEST_CONFIG.initialCapital)
+  const [riskPercentage, setRiskPercentage] = useState(DEFAULT_BACKTEST_CONFIG.riskPerTrade * 100)
+  const [feePercentage, setFeePercentage] = useState(DEFAULT_BACKTEST_CONFIG.feeRate * 100)
+  const [maxHoldingBars, setMaxHoldingBars] = useState(DEFAULT_BACKTEST_CONFIG.maxHoldingBars)
+  const [rewardRisk, setRewardRisk] = useState(DEFAULT_RISK_CONFIG.rewardRisk)
+  const [minConfidence, setMinConfidence] = useState(DEFAULT_BACKTEST_CONFIG.minConfidence)
+  const [allowShort, setAllowShort] = useState(DEFAULT_BACKTEST_CONFIG.allowShort)
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState<PortfolioBacktestResult | null>(null)
+  const [runName, setRunName] = useState('')
+  const [comparedIds, setComparedIds] = useState<string[]>([])
+
+  const coinOptions = useMemo(() => source === 'fixtures'
+    ? BACKTEST_FIXTURES.map(fixture => ({ id: fixture.coinId, symbol: fixture.symbol }))
+    : cryptos.slice(0, 12).map(crypto => ({ id: crypto.id, symbol: crypto.symbol })),
+  [source, cryptos])
+
+  const viewedRun = runs.find(run => run.id === viewedRunId) ?? null
+  const comparedRuns = runs.filter(run => comparedIds.includes(run.id))
+
+  const changeSource = (next: BacktestDataSource) => {
+    setSource(next)
+    if (next === 'fixtures') {
+      setCandleInterval('1h')
+      setFromDate(FIXTURE_DATES.from)
+      setToDate(FIXTURE_DATES.to)
+      setCoinIds([BACKTEST_FIXTURES[0].coinId])
+    } else {
+      setFromDate(daysAgo(30))
+      setToDate(daysAgo(0))
+      setCoinIds(cryptos.slice(0, 1).map(crypto => crypto.id))
+    }
+  }
+
+  const toggleCoin = (id: string, checked: boolean) => {
+    setCoinIds(prev => checked ? [...prev, id] : prev.filter(coinId => coinId !== id))
+  }
+
+  const toggleCompared = (id: string, checked: boolean) => {
+    setComparedIds(prev => {
+      if (!checked) return prev.filter(runId => runId !== id)
+      return [...prev, id].slice(-MAX_COMPARED_RUNS)
+    })
+  }
+
+  const runBacktest = async () => {
+    const from = Date.parse(`${fromDate}T00:00:00Z`)
+    const to = Date.parse(`${toDate}T23:59:59Z`)
+    if (coinIds.length === 0) {
+      toast.error('Pick at least one coin to backtest')
+      return
+    }
+    if (!(from < to)) {
+      toast.error('The start date must be before the end date')
+      return
+    }
+
+    setRunning(true)
+    if (viewedRunId) onViewRun(null)
+    try {
+      const series = await loadBacktestSeries(source, coinIds, candleInterval, { from, to })
+      const backtest = await runBacktestInWorker(series, {
+        strategyId,
+        interval: candleInterval,
+        initialCapital,
+        riskPerTrade: riskPercentage / 100,
+        feeRate: feePercentage / 100,
+        maxHoldingBars,
+        minConfidence,
+        allowShort,
+        riskConfig: { rewardRisk }
+      })
+      setResult(backtest)
+      setRunName(`${strategyRegistry.get(strategyId)?.name ?? strategyId} · ${coinIds.join(', ')}`)
+      toast.success(`Backtest finished with ${backtest.trades.length} trades`)
+    } catch (error) {
+      console.error('Backtest failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Backtest failed')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!result) return
+    const saved = await saveRun(runName.trim() || `Backtest ${new Date().toLocaleString()}`, source, result)
+    if (saved) setComparedIds(prev => [...prev, saved.id].slice(-MAX_COMPARED_RUNS))
+  }
+
+  const numberInput = (id: string, label: string, value: number, onChange: (value: number) => void, step = 1) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step={step}
+        min={0}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Strategy Backtest
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Strategy</Label>
+              <Select value={strategyId} onValueChange={setStrategyId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {strategyRegistry.list().map(strategy => (
+                    <SelectItem key={strategy.id} value={strategy.id}>{strategy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Data</Label>
+              <Select value={source} onValueChange={(value: any) => changeSource(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixtures">Bundled sample data (offline)</SelectItem>
+                  <SelectItem value="live">Live market history</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-from">From</Label>
+              <Input id="backtest-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backtest-to">To</Label>
+              <Input id="backtest-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Coins</Label>
+            <div className="flex flex-wrap gap-4">
+              {coinOptions.map(coin => (
+                <label key={coin.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={coinIds.includes(coin.id)}
+                    onCheckedChange={(checked) => toggleCoin(coin.id, checked === true)}
+                  />
+                  {coin.symbol.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Interval</Label>
+              <Select value={candleInterval} onValueChange={(value: any) => setCandleInterval(value)} disabled={source === 'fixtures'}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LIVE_INTERVALS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {numberInput('backtest-capital', 'Initial Capital ($)', initialCapital, setInitialCapital, 100)}
+            {numberInput('backtest-risk', 'Risk per Trade (%)', riskPercentage, setRiskPercentage, 0.1)}
+            {numberInput('backtest-fee', 'Fee per Side (%)', feePercentage, setFeePercentage, 0.01)}
+            {numberInput('backtest-holding', 'Max Holding (bars)', maxHoldingBars, setMaxHoldingBars)}
+            {numberInput('backtest-reward-risk', 'Reward:Risk', rewardRisk, setRewardRisk, 0.5)}
+            {numberInput('backtest-confidence', 'Min Confidence (%)', minConfidence, setMinConfidence, 5)}
+            <div className="flex items-center gap-2 pt-6">
+              <Switch id="backtest-short" checked={allowShort} onCheckedChange={setAllowShort} />
+              <Label htmlFor="backtest-short">Allow short trades</Label>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button onClick={runBacktest} disabled={running || !strategyId} className="gap-2">
+              <Play className={cn("h-4 w-4", running && "animate-pulse")} />
+              {running ? 'Running...' : 'Run Backtest'}
+            </Button>
+            {source === 'fixtures' && (
+              <span className="text-xs text-muted-foreground">
+                Sample data is synthetic and only meant for comparing strategies offline.
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && !viewedRun && (
+        <>
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-2">
+              <Input
+                value={runName}
+                onChange={(e) => setRunName(e.target.value)}
+                placeholder="Name this run"
+                className="md:max-w-sm"
+              />
+              <Button variant="outline" onClick={handleSave} disabled={!user} className="gap-2">
+                <Save className="h-4 w-4" />
+                Save Run
+              </Button>
+            </CardContent>
+          </Card>
+          <BacktestResults metrics={result.metrics} equityCurve={result.equityCurve} trades={result.trades} />
+        </>
+      )}
+
+      {viewedRun && (
+        <>
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">{viewedRun.name}</h2>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => copyLink(paths.backtestRun(viewedRun.id))}>
+                <Link2 className="h-4 w-4" />
+                Copy Link
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onViewRun(null)}>
+                Close
+              </Button>
+            </div>
+          </div>
+          <BacktestResults metrics={viewedRun.metrics} equityCurve={viewedRun.equityCurve} trades={viewedRun.trades} />
+        </>
+      )}
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5" />
+              Saved Runs
+            </span>
+            <Badge variant="outline">{runs.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length > 0 ? (
+            <div className="space-y-2">
+              {runs.map(run => (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/20 hover:bg-muted/40 transition-colors"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Checkbox
+                      checked={comparedIds.includes(run.id)}
+                      onCheckedChange={(checked) => toggleCompared(run.id, checked === true)}
+                      aria-label={`Compare ${run.name}`}
+                    />
+                    <button className="text-left min-w-0" onClick={() => onViewRun(run.id)}>
+                      <div className="font-medium truncate">{run.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {strategyRegistry.get(run.config.strategyId)?.name ?? run.config.strategyId}
+                        {' · '}
+                        {new Date(run.from).toLocaleDateString()} – {new Date(run.to).toLocaleDateString()}
+                      </div>
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className={cn(
+                      "font-semibold",
+                      run.metrics.totalReturnPercentage >= 0 ? "text-green-500" : "text-red-500"
+                    )}>
+                      {run.metrics.totalReturnPercentage >= 0 ? '+' : ''}{run.metrics.totalReturnPercentage.toFixed(2)}%
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => deleteRun(run.id)} aria-label={`Delete ${run.name}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              Saved backtests appear here. Tick two or more to compare them side by side.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparedRuns.length >= 2 && <BacktestComparison runs={comparedRuns} />}
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react'
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  downsampleCurve,
+  drawdownCurve,
+  type BacktestMetrics,
+  type BacktestTrade,
+  type EquityPoint
+} from '@/services/backtest'
+import { formatMoney } from '@/services/currency'
+import { ArrowUpDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+// Enough resolution for a chart a few hundred pixels wide
+const CHART_POINTS = 400
+
+const equityChartConfig = {
+  equity: { label: 'Equity', color: 'hsl(var(--chart-1))' }
+} satisfies ChartConfig
+
+const drawdownChartConfig = {
+  drawdown: { label: 'Drawdown', color: 'hsl(var(--destructive))' }
+} satisfies ChartConfig
+
+type TradeSortKey = 'entryTime' | 'coinId' | 'side' | 'pnl' | 'returnPercentage' | 'barsHeld' | 'exitReason'
+
+const TRADE_COLUMNS: { key: TradeSortKey; label: string }[] = [
+  { key: 'entryTime', label: 'Entry' },
+  { key: 'coinId', label: 'Coin' },
+  { key: 'side', label: 'Side' },
+  { key: 'exitReason', label: 'Exit' },
+  { key: 'barsHeld', label: 'Bars' },
+  { key: 'pnl', label: 'P&L' },
+  { key: 'returnPercentage', label: 'Return' }
+]
+
+interface BacktestResultsProps {
+  metrics: BacktestMetrics
+  equityCurve: EquityPoint[]
+  trades: BacktestTrade[]
+}
+
+function formatDateTime(time: number) {
+  return new Date(time).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Backtests run on US dollar candles
+function formatCurrency(value: number) {
+  return formatMoney(value, 'usd', { maximumFractionDigits: 2 })
+}
+
+function formatPercentage(value: number) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+export function BacktestResults({ metrics, equityCurve, trades }: BacktestResultsProps) {
+  const [sortKey, setSortKey] = useState<TradeSortKey>('entryTime')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+
+  const equityData = useMemo(() => downsampleCurve(equityCurve, CHART_POINTS), [equityCurve])
+  const drawdownData = useMemo(() => downsampleCurve(drawdownCurve(equityCurve), CHART_POINTS), [equityCurve])
+
+  const sortedTrades = useMemo(() => {
+    const direction = sortOrder === 'asc' ? 1 : -1
+    return [...trades].sort((a, b) => {
+      const left = a[sortKey] ?? ''
+      const right = b[sortKey] ?? ''
+      if (left < right) return -direction
+      if (left > right) return direction
+      return 0
+    })
+  }, [trades, sortKey, sortOrder])
+
+  const toggleSort = (key: TradeSortKey) => {
+    if (key === sortKey) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortKey(key)
+      setSortOrder('desc')
+    }
+  }
+
+  const summary = [
+    { label: 'Total Return', value: formatPercentage(metrics.totalReturnPercentage), positive: metrics.totalReturnPercentage >= 0 },
+    { label: 'Trades', value: metrics.totalTrades.toString() },
+    { label: 'Win Rate', value: `${metrics.winRate.toFixed(1)}%` },
+    { label: 'Expectancy', value: `${formatCurrency(metrics.expectancy)} (${metrics.expectancyR.toFixed(2)}R)`, positive: metrics.expectancy >= 0 },
+    { label: 'Profit Factor', value: metrics.profitFactor === null ? '—' : metrics.profitFactor.toFixed(2) },
+    { label: 'Max Drawdown', value: `-${metrics.maxDrawdownPercentage.toFixed(2)}%`, positive: false },
+    { label: 'Sharpe Ratio', value: metrics.sharpeRatio.toFixed(2) },
+    { label: 'Exposure', value: `${metrics.exposurePercentage.toFixed(1)}%` }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map(item => (
+          <Card key={item.label} className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">{item.label}</div>
+              <div className={cn(
+                "text-xl font-bold",
+                item.positive === true && "text-green-500",
+                item.positive === false && "text-red-500"
+              )}>
+                {item.value}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Equity Curve</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={equityChartConfig} className="h-64 w-full aspect-auto">
+              <AreaChart data={equityData}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  tickFormatter={(time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  minTickGap={32}
+                />
+                <YAxis domain={['auto', 'auto']} tickFormatter={(value: number) => formatMoney(value, 'usd', { maximumFractionDigits: 0 })} width={70} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDateTime(payload[0]?.payload.time)} />} />
+                <Area dataKey="equity" type="monotone" stroke="var(--color-equity)" fill="var(--color-equity)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Drawdown</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={drawdownChartConfig} className="h-64 w-full aspect-auto">
+              <AreaChart data={drawdownData}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  tickFormatter={(time: number) => new Date(time).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  minTickGap={32}
+                />
+                <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} width={50} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatDateTime(payload[0]?.payload.time)} />} />
+                <Area dataKey="drawdown" type="monotone" stroke="var(--color-drawdown)" fill="var(--color-drawdown)" fillOpacity={0.2} />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center justify-between">
+            Trades
+            <Badge variant="outline">{trades.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {trades.length > 0 ? (
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {TRADE_COLUMNS.map(column => (
+                      <TableHead key={column.key}>
+                        <button
+                          className="flex items-center gap-1 hover:text-foreground"
+                          onClick={() => toggleSort(column.key)}
+                        >
+                          {column.label}
+                          <ArrowUpDown className={cn("h-3 w-3", sortKey === column.key ? "opacity-100" : "opacity-40")} />
+                        </button>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedTrades.map((trade, i) => (
+                    <TableRow key={`${trade.coinId}_${trade.entryTime}_${i}`}>
+                      <TableCell>{formatDateTime(trade.entryTime)}</TableCell>
+                      <TableCell className="capitalize">{trade.coinId ?? '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={trade.side === 'BUY' ? "text-green-500" : "text-red-500"}>
+                          {trade.side}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="capitalize">{trade.exitReason}</TableCell>
+                      <TableCell>{trade.barsHeld}</TableCell>
+                      <TableCell className={trade.pnl >= 0 ? "text-green-500" : "text-red-500"}>
+                        {formatCurrency(trade.pnl)}
+                      </TableCell>
+                      <TableCell className={trade.returnPercentage >= 0 ? "text-green-500" : "text-red-500"}>
+                        {formatPercentage(trade.returnPercentage)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              The strategy didn't take any trades over this period.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,174 @@
+import { Bar, CartesianGrid, ComposedChart, Line, Rectangle, ReferenceLine, XAxis, YAxis } from 'recharts'
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart'
+import type { ChartInterval, ChartPoint } from '@/services/chartSeries'
+import { formatMoney, type QuoteCurrency } from '@/services/currency'
+
+export type ChartOverlay = 'sma' | 'bollinger'
+export type ChartPane = 'volume' | 'rsi' | 'macd'
+
+const CHART_PANES: ChartPane[] = ['volume', 'rsi', 'macd']
+
+// Keeps the hover cursor in step across the price chart and its panes
+const SYNC_ID = 'coin-detail'
+
+const UP_COLOR = 'hsl(var(--primary))'
+const DOWN_COLOR = 'hsl(var(--destructive))'
+
+const priceChartConfig = {
+  sma20: { label: 'SMA 20', color: 'hsl(var(--chart-1))' },
+  sma50: { label: 'SMA 50', color: 'hsl(var(--chart-2))' },
+  bbUpper: { label: 'BB Upper', color: 'hsl(var(--chart-4))' },
+  bbLower: { label: 'BB Lower', color: 'hsl(var(--chart-4))' }
+} satisfies ChartConfig
+
+const paneChartConfig = {
+  volume: { label: 'Volume', color: 'hsl(var(--muted-foreground))' },
+  rsi: { label: 'RSI', color: 'hsl(var(--chart-3))' },
+  macd: { label: 'MACD', color: 'hsl(var(--chart-1))' },
+  macdSignal: { label: 'Signal', color: 'hsl(var(--chart-5))' }
+} satisfies ChartConfig
+
+interface CoinChartProps {
+  points: ChartPoint[]
+  interval: ChartInterval
+  overlays: ChartOverlay[]
+  panes: ChartPane[]
+  // Currency the points are in
+  currency: QuoteCurrency
+}
+
+function formatCompact(value: number) {
+  return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 1 })
+}
+
+function formatTime(time: number, interval: ChartInterval) {
+  return new Date(time).toLocaleString('en-US', interval === '1d'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+// Recharts draws the [low, high] range bar; the wick and body are derived from
+// its pixel extent
+function Candlestick(props: any) {
+  const { x, y, width, height, payload } = props as { x: number; y: number; width: number; height: number; payload: ChartPoint }
+  const { open, close, high, low, up } = payload
+  const color = up ? UP_COLOR : DOWN_COLOR
+  const pixelsPerUnit = high > low ? height / (high - low) : 0
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit
+  const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerUnit, 1)
+  const center = x + width / 2
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+    </g>
+  )
+}
+
+function PriceTooltip({ active, payload, interval, currency }: any) {
+  const point: ChartPoint | undefined = active ? payload?.[0]?.payload : undefined
+  if (!point) return null
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-1">
+      <div className="font-medium">{formatTime(point.time, interval)}</div>
+      <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+        <span className="text-muted-foreground">Open</span><span className="text-right font-mono">{formatMoney(point.open, currency)}</span>
+        <span className="text-muted-foreground">High</span><span className="text-right font-mono">{formatMoney(point.high, currency)}</span>
+        <span className="text-muted-foreground">Low</span><span className="text-right font-mono">{formatMoney(point.low, currency)}</span>
+        <span className="text-muted-foreground">Close</span><span className="text-right font-mono">{formatMoney(point.close, currency)}</span>
+        <span className="text-muted-foreground">Volume</span><span className="text-right font-mono">{formatCompact(point.volume)}</span>
+      </div>
+    </div>
+  )
+}
+
+export function CoinChart({ points, interval, overlays, panes, currency }: CoinChartProps) {
+  const xAxis = (hide: boolean) => (
+    <XAxis
+      dataKey="time"
+      hide={hide}
+      tickLine={false}
+      axisLine={false}
+      minTickGap={40}
+      tickFormatter={(time: number) => formatTime(time, interval)}
+    />
+  )
+  // Only the bottom chart shows the time axis
+  const lastPane = CHART_PANES.filter(pane => panes.includes(pane)).pop()
+
+  return (
+    <div className="space-y-1">
+      <ChartContainer config={priceChartConfig} className="h-72 w-full aspect-auto">
+        <ComposedChart data={points} syncId={SYNC_ID} margin={{ left: 0, right: 8 }}>
+          <CartesianGrid vertical={false} />
+          {xAxis(panes.length > 0)}
+          <YAxis
+            orientation="right"
+            domain={['auto', 'auto']}
+            tickLine={false}
+            axisLine={false}
+            width={72}
+            tickFormatter={(value: number) => formatCompact(value)}
+          />
+          <ChartTooltip content={<PriceTooltip interval={interval} currency={currency} />} />
+          <Bar dataKey="range" shape={Candlestick} isAnimationActive={false} />
+          {overlays.includes('bollinger') && (
+            <>
+              <Line dataKey="bbUpper" stroke="var(--color-bbUpper)" strokeDasharray="4 3" dot={false} strokeWidth={1} isAnimationActive={false} />
+              <Line dataKey="bbLower" stroke="var(--color-bbLower)" strokeDasharray="4 3" dot={false} strokeWidth={1} isAnimationActive={false} />
+            </>
+          )}
+          {overlays.includes('sma') && (
+            <>
+              <Line dataKey="sma20" stroke="var(--color-sma20)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              <Line dataKey="sma50" stroke="var(--color-sma50)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            </>
+          )}
+        </ComposedChart>
+      </ChartContainer>
+
+      {panes.includes('volume') && (
+        <ChartContainer config={paneChartConfig} className="h-20 w-full aspect-auto">
+          <ComposedChart data={points} syncId={SYNC_ID} margin={{ left: 0, right: 8 }}>
+            {xAxis(lastPane !== 'volume')}
+            <YAxis orientation="right" tickLine={false} axisLine={false} width={72} tickFormatter={(value: number) => formatCompact(value)} />
+            <Bar dataKey="volume" fill="var(--color-volume)" fillOpacity={0.5} isAnimationActive={false} />
+          </ComposedChart>
+        </ChartContainer>
+      )}
+
+      {panes.includes('rsi') && (
+        <ChartContainer config={paneChartConfig} className="h-24 w-full aspect-auto">
+          <ComposedChart data={points} syncId={SYNC_ID} margin={{ left: 0, right: 8 }}>
+            {xAxis(lastPane !== 'rsi')}
+            <YAxis orientation="right" domain={[0, 100]} ticks={[30, 70]} tickLine={false} axisLine={false} width={72} />
+            <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+            <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" />
+            <Line dataKey="rsi" stroke="var(--color-rsi)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+          </ComposedChart>
+        </ChartContainer>
+      )}
+
+      {panes.includes('macd') && (
+        <ChartContainer config={paneChartConfig} className="h-24 w-full aspect-auto">
+          <ComposedChart data={points} syncId={SYNC_ID} margin={{ left: 0, right: 8 }}>
+            {xAxis(lastPane !== 'macd')}
+            <YAxis orientation="right" tickLine={false} axisLine={false} width={72} tickFormatter={(value: number) => formatCompact(value)} />
+            <ReferenceLine y={0} stroke="hsl(var(--border))" />
+            <Bar
+              dataKey="macdHistogram"
+              isAnimationActive={false}
+              shape={(props: any) => (
+                <Rectangle {...props} fill={(props.payload.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+              )}
+            />
+            <Line dataKey="macd" stroke="var(--color-macd)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+            <Line dataKey="macdSignal" stroke="var(--color-macdSignal)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+          </ComposedChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
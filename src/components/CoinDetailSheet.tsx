@@ -0,0 +1,450 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { AlertRuleDialog } from './AlertRuleDialog'
+import { CoinChart, type ChartOverlay, type ChartPane } from './CoinChart'
+import { blink } from '@/blink/client'
+import { cryptoApi } from '@/services/cryptoApi'
+import { isWebUrl, type CoinDetail } from '@/services/marketData'
+import type { Candle } from '@/services/candles'
+import { formatMoney, formatQuote, toQuote, type Quote } from '@/services/currency'
+import { CHART_INTERVALS, buildChartSeries, chartRange, type ChartInterval, type ChartPoint } from '@/services/chartSeries'
+import { alertEngine, type AlertRuleInput } from '@/services/alerts'
+import { copyLink, paths } from '@/lib/routes'
+import { BellPlus, ExternalLink, Link2, Star, StarOff, TrendingDown, TrendingUp } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+// Only the id is needed; a coin opened from a link gets the rest from the coin endpoint
+export interface DetailCoin {
+  id: string
+  symbol?: string
+  name?: string
+  image?: string
+  currentPrice?: number
+  priceChangePercentage24h?: number
+}
+
+interface CoinDetailSheetProps {
+  coin: DetailCoin | null
+  onOpenChange: (open: boolean) => void
+  user: any
+  isWatched: boolean
+  onToggleWatch: (coin: { id: string; symbol: string }) => void
+  quote: Quote
+}
+
+interface SignalHistoryEntry {
+  id: string
+  signalType: 'BUY' | 'SELL' | 'HOLD'
+  strength: string
+  confidenceScore: number
+  entryPrice: number
+  performancePercentage: number | null
+  createdAt: string
+}
+
+function formatLarge(value: number | null | undefined, quote?: Quote) {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '—'
+  if (quote) return formatMoney(value, quote.currency, { compact: true })
+  return value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 })
+}
+
+// A figure the coin endpoint reports per currency: the quote currency's own,
+// or failing that the dollar figure converted
+function quotedFigure(byCurrency: Record<string, number | null> | undefined, quote: Quote) {
+  const own = byCurrency?.[quote.currency]
+  if (own != null) return own
+  const usd = byCurrency?.usd
+  return usd != null ? toQuote(quote, usd) : undefined
+}
+
+// Bars come in dollars; volume is in the quote side too, so it converts alike
+function quoteCandle(candle: Candle, quote: Quote): Candle {
+  return {
+    ...candle,
+    open: toQuote(quote, candle.open),
+    high: toQuote(quote, candle.high),
+    low: toQuote(quote, candle.low),
+    close: toQuote(quote, candle.close),
+    volume: toQuote(quote, candle.volume)
+  }
+}
+
+function formatDate(value: string | undefined) {
+  if (!value) return ''
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+// The coin endpoint's links, keeping only http(s) URLs since they end up in hrefs
+function coinLinks(detail: CoinDetail): { label: string; url: string }[] {
+  const links = detail.links ?? {}
+  return [
+    { label: 'Website', url: links.homepage?.[0] },
+    { label: 'Explorer', url: links.blockchain_site?.[0] },
+    { label: 'GitHub', url: links.repos_url?.github?.[0] },
+    { label: 'Reddit', url: links.subreddit_url },
+    { label: 'X', url: links.twitter_screen_name ? `https://x.com/${encodeURIComponent(links.twitter_screen_name)}` : undefined }
+  ].filter((link): link is { label: string; url: string } => isWebUrl(link.url))
+}
+
+function signalFromRow(row: any): SignalHistoryEntry {
+  return {
+    id: row.id,
+    signalType: row.signalType,
+    strength: row.strength,
+    confidenceScore: Number(row.confidenceScore) || 0,
+    // Tracked signals keep the latest price in currentPrice
+    entryPrice: Number(row.entryPrice) || Number(row.currentPrice) || 0,
+    performancePercentage: row.performancePercentage === undefined || row.performancePercentage === null
+      ? null
+      : Number(row.performancePercentage),
+    createdAt: row.createdAt
+  }
+}
+
+export function CoinDetailSheet({ coin, onOpenChange, user, isWatched, onToggleWatch, quote }: CoinDetailSheetProps) {
+  const [chartInterval, setChartInterval] = useState<ChartInterval>('1h')
+  const [overlays, setOverlays] = useState<ChartOverlay[]>(['sma'])
+  const [panes, setPanes] = useState<ChartPane[]>(['volume', 'rsi'])
+  const [candles, setCandles] = useState<{ bars: number; candles: Candle[] }>({ bars: 0, candles: [] })
+  const [chartLoading, setChartLoading] = useState(false)
+  const [detail, setDetail] = useState<CoinDetail | null>(null)
+  const [detailLoading, setDetailLoading] = useState(false)
+  const [signals, setSignals] = useState<SignalHistoryEntry[]>([])
+  const [alertDialogOpen, setAlertDialogOpen] = useState(false)
+  const [alertDialogKey, setAlertDialogKey] = useState(0)
+
+  const coinId = coin?.id
+
+  // A different coin's bars would be misleading while the new ones load
+  useEffect(() => {
+    setCandles({ bars: 0, candles: [] })
+  }, [coinId])
+
+  useEffect(() => {
+    if (!coinId) return
+    let cancelled = false
+    const bars = CHART_INTERVALS.find(option => option.value === chartInterval)!.bars
+
+    setChartLoading(true)
+    cryptoApi.getCandles(coinId, chartInterval, chartRange(chartInterval, bars), { priority: 'user' }).then(result => {
+      if (cancelled) return
+      setCandles({ bars, candles: result })
+      setChartLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [coinId, chartInterval])
+
+  useEffect(() => {
+    if (!coinId) return
+    let cancelled = false
+
+    setDetail(null)
+    setDetailLoading(true)
+    cryptoApi.getCryptocurrencyById(coinId, { priority: 'user' }).then(result => {
+      if (cancelled) return
+      setDetail(result)
+      setDetailLoading(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [coinId])
+
+  const points = useMemo(
+    (): ChartPoint[] => buildChartSeries(candles.candles.map(candle => quoteCandle(candle, quote)), candles.bars),
+    [candles, quote]
+  )
+
+  const symbol = (coin?.symbol ?? detail?.symbol ?? '').toUpperCase()
+
+  // Signals are stored by ticker, from both the dashboard and the live feed
+  useEffect(() => {
+    if (!symbol || !user) return
+    let cancelled = false
+
+    const loadSignals = async () => {
+      try {
+        const where = { AND: [{ userId: user.id }, { symbol }] }
+        const [generated, live] = await Promise.all([
+          blink.db.tradingSignals.list({ where, orderBy: { createdAt: 'desc' }, limit: 20 }),
+          blink.db.recentSignals.list({ where, orderBy: { createdAt: 'desc' }, limit: 20 })
+        ])
+        if (cancelled) return
+        setSignals(
+          [...generated, ...live]
+            .map(signalFromRow)
+            .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''))
+            .slice(0, 20)
+        )
+      } catch (error) {
+        console.error('Failed to load signal history:', error)
+      }
+    }
+
+    setSignals([])
+    loadSignals()
+    return () => {
+      cancelled = true
+    }
+  }, [symbol, user])
+
+  const stats = useMemo(() => {
+    const market = detail?.market_data
+    if (!market) return []
+    const athChange = market.ath_change_percentage?.[quote.currency] ?? market.ath_change_percentage?.usd
+    const atlChange = market.atl_change_percentage?.[quote.currency] ?? market.atl_change_percentage?.usd
+    const ath = quotedFigure(market.ath, quote)
+    const atl = quotedFigure(market.atl, quote)
+    return [
+      { label: 'Market Cap', value: formatLarge(quotedFigure(market.market_cap, quote), quote), hint: market.market_cap_rank ? `Rank #${market.market_cap_rank}` : '' },
+      { label: '24h Volume', value: formatLarge(quotedFigure(market.total_volume, quote), quote), hint: '' },
+      { label: 'Circulating Supply', value: formatLarge(market.circulating_supply), hint: '' },
+      { label: 'Total Supply', value: formatLarge(market.total_supply), hint: '' },
+      { label: 'Max Supply', value: market.max_supply ? formatLarge(market.max_supply) : '∞', hint: '' },
+      {
+        label: 'All-Time High',
+        value: ath ? formatMoney(ath, quote.currency) : '—',
+        hint: [formatDate(market.ath_date?.[quote.currency] ?? market.ath_date?.usd), athChange != null ? `${athChange.toFixed(1)}%` : ''].filter(Boolean).join(' · ')
+      },
+      {
+        label: 'All-Time Low',
+        value: atl ? formatMoney(atl, quote.currency) : '—',
+        hint: [formatDate(market.atl_date?.[quote.currency] ?? market.atl_date?.usd), atlChange != null ? `+${atlChange.toFixed(0)}%` : ''].filter(Boolean).join(' · ')
+      }
+    ]
+  }, [detail, quote])
+
+  const description = useMemo(
+    () => (detail?.description?.en ?? '').replace(/<[^>]+>/g, '').trim(),
+    [detail]
+  )
+
+  // In dollars, like the market data and alert thresholds
+  const currentPrice = coin?.currentPrice ?? detail?.market_data?.current_price?.usd ?? candles.candles[candles.candles.length - 1]?.close
+  const change = coin?.priceChangePercentage24h ?? detail?.market_data?.price_change_percentage_24h
+  const isPositive = (change ?? 0) >= 0
+
+  const openAlertDialog = () => {
+    setAlertDialogKey(key => key + 1)
+    setAlertDialogOpen(true)
+  }
+
+  const saveAlert = (input: AlertRuleInput) => {
+    alertEngine.createRule(input)
+    toast.success(`Created alert "${input.name}"`)
+  }
+
+  return (
+    <>
+      <Sheet open={coin !== null} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-3xl overflow-y-auto">
+          {coin && (
+            <div className="space-y-6">
+              <SheetHeader>
+                <SheetTitle className="flex items-center gap-3">
+                  {(coin.image ?? detail?.image?.small) && (
+                    <img src={coin.image ?? detail?.image?.small} alt="" className="w-8 h-8 rounded-full" />
+                  )}
+                  <span>{detail?.name ?? coin.name ?? coin.id}</span>
+                  {symbol && <span className="text-muted-foreground font-normal">{symbol}</span>}
+                </SheetTitle>
+                <SheetDescription asChild>
+                  <div className="flex flex-wrap items-center gap-3">
+                    {currentPrice !== undefined && (
+                      <span className="text-2xl font-bold text-foreground">{formatQuote(quote, currentPrice)}</span>
+                    )}
+                    {change != null && (
+                      <span className={cn("flex items-center gap-1 text-sm font-medium", isPositive ? "text-primary" : "text-destructive")}>
+                        {isPositive ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
+                        {isPositive ? '+' : ''}{change.toFixed(2)}% (24h)
+                      </span>
+                    )}
+                  </div>
+                </SheetDescription>
+              </SheetHeader>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => onToggleWatch({ id: coin.id, symbol })}
+                  disabled={!symbol}
+                >
+                  {isWatched ? (
+                    <Star className="h-4 w-4 fill-accent text-accent" />
+                  ) : (
+                    <StarOff className="h-4 w-4" />
+                  )}
+                  {isWatched ? 'Watching' : 'Watch'}
+                </Button>
+                <Button size="sm" variant="outline" className="gap-2" onClick={openAlertDialog} disabled={!user || !symbol}>
+                  <BellPlus className="h-4 w-4" />
+                  Create Alert
+                </Button>
+                <Button size="sm" variant="ghost" className="gap-2" onClick={() => copyLink(paths.coin(coin.id))}>
+                  <Link2 className="h-4 w-4" />
+                  Copy Link
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={chartInterval}
+                    onValueChange={(value) => value && setChartInterval(value as ChartInterval)}
+                  >
+                    {CHART_INTERVALS.map(option => (
+                      <ToggleGroupItem key={option.value} value={option.value}>{option.label}</ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      variant="outline"
+                      value={overlays}
+                      onValueChange={(value) => setOverlays(value as ChartOverlay[])}
+                    >
+                      <ToggleGroupItem value="sma">MA</ToggleGroupItem>
+                      <ToggleGroupItem value="bollinger">BB</ToggleGroupItem>
+                    </ToggleGroup>
+                    <ToggleGroup
+                      type="multiple"
+                      size="sm"
+                      variant="outline"
+                      value={panes}
+                      onValueChange={(value) => setPanes(value as ChartPane[])}
+                    >
+                      <ToggleGroupItem value="volume">Vol</ToggleGroupItem>
+                      <ToggleGroupItem value="rsi">RSI</ToggleGroupItem>
+                      <ToggleGroupItem value="macd">MACD</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                </div>
+
+                {chartLoading && points.length === 0 ? (
+                  <Skeleton className="h-72 w-full" />
+                ) : points.length > 0 ? (
+                  <div className={cn("transition-opacity", chartLoading && "opacity-50")}>
+                    <CoinChart points={points} interval={chartInterval} overlays={overlays} panes={panes} currency={quote.currency} />
+                  </div>
+                ) : (
+                  <div className="h-72 flex items-center justify-center text-sm text-muted-foreground border border-dashed rounded-md">
+                    No price history available for this interval.
+                  </div>
+                )}
+              </div>
+
+              <Card className="border-border/50 bg-card/50">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Key Stats</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {detailLoading ? (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                      {Array.from({ length: 8 }).map((_, i) => <Skeleton key={i} className="h-10" />)}
+                    </div>
+                  ) : stats.length > 0 ? (
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                      {stats.map(stat => (
+                        <div key={stat.label}>
+                          <div className="text-muted-foreground">{stat.label}</div>
+                          <div className="font-medium">{stat.value}</div>
+                          {stat.hint && <div className="text-xs text-muted-foreground">{stat.hint}</div>}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Coin details are unavailable right now.</p>
+                  )}
+
+                  {description && <p className="text-sm text-muted-foreground line-clamp-4">{description}</p>}
+
+                  {detail && coinLinks(detail).length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {coinLinks(detail).map(link => (
+                        <Button key={link.label} size="sm" variant="secondary" className="gap-1" asChild>
+                          <a href={link.url} target="_blank" rel="noopener noreferrer">
+                            {link.label}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-border/50 bg-card/50">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base flex items-center justify-between">
+                    Signal History
+                    <Badge variant="outline">{signals.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {signals.length > 0 ? (
+                    <div className="space-y-2">
+                      {signals.map(signal => (
+                        <div key={signal.id} className="flex items-center justify-between gap-3 text-sm border-b border-border/50 pb-2 last:border-0">
+                          <div className="flex items-center gap-2">
+                            <Badge
+                              variant="outline"
+                              className={cn(
+                                "text-xs",
+                                signal.signalType === 'BUY' && "text-primary border-primary",
+                                signal.signalType === 'SELL' && "text-destructive border-destructive"
+                              )}
+                            >
+                              {signal.signalType}
+                            </Badge>
+                            <span className="text-muted-foreground">{signal.strength}</span>
+                            <span>{signal.confidenceScore}%</span>
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span>{formatQuote(quote, signal.entryPrice)}</span>
+                            {signal.performancePercentage !== null && (
+                              <span className={cn(signal.performancePercentage >= 0 ? "text-primary" : "text-destructive")}>
+                                {signal.performancePercentage >= 0 ? '+' : ''}{signal.performancePercentage.toFixed(2)}%
+                              </span>
+                            )}
+                            <span className="text-muted-foreground">{formatDate(signal.createdAt)}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No signals generated for {symbol || 'this coin'} yet.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {coin && symbol && currentPrice !== undefined && (
+        <AlertRuleDialog
+          key={alertDialogKey}
+          open={alertDialogOpen}
+          onOpenChange={setAlertDialogOpen}
+          coins={[{ id: coin.id, symbol, currentPrice }]}
+          onSave={saveAlert}
+        />
+      )}
+    </>
+  )
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { formatDistanceToNowStrict } from 'date-fns'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -6,8 +7,10 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Skeleton } from '@/components/ui/skeleton'
 import { CryptoPriceCard } from './CryptoPriceCard'
-import { cryptoApi, type CoinGeckoMarket } from '@/services/cryptoApi'
-import { blink } from '@/blink/client'
+import { marketStore, type MarketCoin } from '@/services/market'
+import { watchlistStore, type WatchlistSnapshot } from '@/services/watchlists'
+import type { Quote } from '@/services/currency'
+import { useTopCoins, useMarket } from '@/hooks/use-market'
 import { 
   Search, 
   Filter, 
@@ -22,125 +25,88 @@ import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
 
 interface CryptoBrowserProps {
+  // Coin ids on the active watchlist, which the star toggles
   watchlist: string[]
-  onToggleWatch: (symbol: string) => void
-  user: any
+  watchlists: WatchlistSnapshot
+  onToggleWatch: (coin: { id: string; symbol: string }) => void
+  onSelectCoin?: (coin: MarketCoin) => void
+  quote: Quote
+  // Search, filter, sort and page, kept in the URL so the view can be shared
+  query: URLSearchParams
+  onQueryChange: (query: URLSearchParams) => void
 }
 
-interface Cryptocurrency {
-  id: string
-  symbol: string
-  name: string
-  currentPrice: number
-  priceChange24h: number
-  priceChangePercentage24h: number
-  marketCap: number
-  volume24h: number
-  lastUpdated: string
-  image?: string
-  marketCapRank: number
+type SortOption = 'market_cap' | 'price' | 'volume' | 'change'
+type FilterOption = 'all' | 'gainers' | 'losers' | `watchlist:${string}`
+
+const SORT_OPTIONS: SortOption[] = ['market_cap', 'price', 'volume', 'change']
+
+// Values left out of the URL when they are the default
+const QUERY_DEFAULTS: Record<string, string> = { q: '', filter: 'all', sort: 'market_cap', order: 'desc', page: '1' }
+
+function parseFilter(value: string | null): FilterOption {
+  if (value === 'gainers' || value === 'losers') return value
+  if (value?.startsWith('watchlist:')) return value as FilterOption
+  return 'all'
 }
 
-export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserProps) {
-  const [cryptos, setCryptos] = useState<Cryptocurrency[]>([])
-  const [filteredCryptos, setFilteredCryptos] = useState<Cryptocurrency[]>([])
-  const [loading, setLoading] = useState(true)
-  const [refreshing, setRefreshing] = useState(false)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [sortBy, setSortBy] = useState<'market_cap' | 'price' | 'volume' | 'change'>('market_cap')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
-  const [filterBy, setFilterBy] = useState<'all' | 'gainers' | 'losers' | 'watchlist'>('all')
-  const [currentPage, setCurrentPage] = useState(1)
+// Browsing reuses top markets fetched this recently by the dashboard
+const MARKET_DATA_MAX_AGE_MS = 5 * 60 * 1000
+
+export function CryptoBrowser({ watchlist, watchlists, onToggleWatch, onSelectCoin, quote, query, onQueryChange }: CryptoBrowserProps) {
+  const { status, topIds, stale, lastUpdated } = useMarket()
+  const cryptos = useTopCoins()
+  const [filteredCryptos, setFilteredCryptos] = useState<MarketCoin[]>([])
+  const loading = status === 'loading' && topIds.length === 0
+  const refreshing = status === 'loading' && topIds.length > 0
   const [totalPages, setTotalPages] = useState(1)
   const itemsPerPage = 20
+  const searchQuery = query.get('q') ?? ''
+  const sortBy = SORT_OPTIONS.find(option => option === query.get('sort')) ?? 'market_cap'
+  const sortOrder = query.get('order') === 'asc' ? 'asc' : 'desc'
+  const filterBy = parseFilter(query.get('filter'))
+  const requestedPage = Math.max(1, Math.floor(Number(query.get('page'))) || 1)
+  const currentPage = Math.min(requestedPage, Math.max(totalPages, 1))
+
+  // Any change other than paging starts again from the first page
+  const updateQuery = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(query)
+    if (!('page' in changes)) next.delete('page')
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value === QUERY_DEFAULTS[key]) next.delete(key)
+      else next.set(key, value)
+    })
+    onQueryChange(next)
+  }
+  const setSearchQuery = (value: string) => updateQuery({ q: value })
+  const setSortBy = (value: SortOption) => updateQuery({ sort: value })
+  const setSortOrder = (value: 'asc' | 'desc') => updateQuery({ order: value })
+  const setFilterBy = (value: FilterOption) => updateQuery({ filter: value })
+  const setCurrentPage = (page: number) => updateQuery({ page: String(page) })
+  const filterList = filterBy.startsWith('watchlist:')
+    ? watchlists.lists.find(list => `watchlist:${list.id}` === filterBy)
+    : undefined
+  const filterCoinIds = useMemo(
+    () => filterList
+      ? watchlists.items.filter(item => item.watchlistId === filterList.id).map(item => item.coinId)
+      : null,
+    [filterList, watchlists.items]
+  )
+  // A link to a deleted (or someone else's) watchlist shows everything
+  const activeFilter = filterBy.startsWith('watchlist:') && !filterList ? 'all' : filterBy
 
-  const loadAllCryptocurrencies = useCallback(async (page = 1) => {
+  const loadAllCryptocurrencies = useCallback(async (force: boolean) => {
     try {
-      setLoading(page === 1)
-      setRefreshing(page !== 1)
-      
-      // Fetch more cryptocurrencies for browsing (up to 250)
-      const liveData = await cryptoApi.getTopCryptocurrencies(250)
-      
-      // Transform API data to our format
-      const transformedCryptos: Cryptocurrency[] = liveData.map(crypto => ({
-        id: crypto.id,
-        symbol: crypto.symbol.toUpperCase(),
-        name: crypto.name,
-        currentPrice: crypto.current_price,
-        priceChange24h: crypto.price_change_24h,
-        priceChangePercentage24h: crypto.price_change_percentage_24h,
-        marketCap: crypto.market_cap,
-        volume24h: crypto.total_volume,
-        lastUpdated: crypto.last_updated,
-        image: crypto.image,
-        marketCapRank: crypto.market_cap_rank
-      }))
-      
-      setCryptos(transformedCryptos)
-      setTotalPages(Math.ceil(transformedCryptos.length / itemsPerPage))
-      
-      // Cache some data in database for offline access
-      if (user && transformedCryptos.length > 0) {
-        try {
-          // Cache top 50 for offline access
-          for (const crypto of transformedCryptos.slice(0, 50)) {
-            await blink.db.cryptocurrencies.create({
-              id: `${crypto.id}_${Date.now()}`,
-              userId: user.id,
-              symbol: crypto.symbol,
-              name: crypto.name,
-              currentPrice: crypto.currentPrice,
-              priceChange24h: crypto.priceChange24h,
-              priceChangePercentage24h: crypto.priceChangePercentage24h,
-              marketCap: crypto.marketCap,
-              volume24h: crypto.volume24h,
-              lastUpdated: crypto.lastUpdated
-            })
-          }
-        } catch (dbError) {
-          console.warn('Failed to cache crypto data:', dbError)
-        }
-      }
-      
-      toast.success(`Loaded ${transformedCryptos.length} cryptocurrencies`)
+      const count = force
+        ? await marketStore.refreshTop({ priority: 'user', force: true })
+        : await marketStore.ensureTop(MARKET_DATA_MAX_AGE_MS)
+      if (force) toast.success(`Loaded ${count} cryptocurrencies`)
     } catch (error) {
+      // The market store falls back to cached data
       console.error('Failed to load cryptocurrencies:', error)
       toast.error('Failed to load cryptocurrency data')
-      
-      // Fallback to cached data
-      if (user) {
-        try {
-          const cachedResult = await blink.db.cryptocurrencies.list({
-            where: { userId: user.id },
-            orderBy: { marketCap: 'desc' },
-            limit: 100
-          })
-          
-          const cachedCryptos = cachedResult.map(crypto => ({
-            id: crypto.id,
-            symbol: crypto.symbol,
-            name: crypto.name,
-            currentPrice: crypto.currentPrice,
-            priceChange24h: crypto.priceChange24h,
-            priceChangePercentage24h: crypto.priceChangePercentage24h,
-            marketCap: crypto.marketCap || 0,
-            volume24h: crypto.volume24h || 0,
-            lastUpdated: crypto.lastUpdated,
-            marketCapRank: 0
-          }))
-          
-          setCryptos(cachedCryptos)
-          setTotalPages(Math.ceil(cachedCryptos.length / itemsPerPage))
-        } catch (dbError) {
-          console.error('Failed to load cached data:', dbError)
-        }
-      }
-    } finally {
-      setLoading(false)
-      setRefreshing(false)
     }
-  }, [user])
+  }, [])
 
   // Filter and sort cryptocurrencies
   useEffect(() => {
@@ -156,6 +122,9 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
     }
 
     // Apply category filter
+    if (filterCoinIds) {
+      filtered = filtered.filter(crypto => filterCoinIds.includes(crypto.id))
+    }
     switch (filterBy) {
       case 'gainers':
         filtered = filtered.filter(crypto => crypto.priceChangePercentage24h > 0)
@@ -163,11 +132,8 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
       case 'losers':
         filtered = filtered.filter(crypto => crypto.priceChangePercentage24h < 0)
         break
-      case 'watchlist':
-        filtered = filtered.filter(crypto => watchlist.includes(crypto.symbol))
-        break
       default:
-        // 'all' - no additional filtering
+        // 'all' and watchlists - no additional filtering
         break
     }
 
@@ -199,8 +165,7 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
 
     setFilteredCryptos(filtered)
     setTotalPages(Math.ceil(filtered.length / itemsPerPage))
-    setCurrentPage(1) // Reset to first page when filters change
-  }, [cryptos, searchQuery, sortBy, sortOrder, filterBy, watchlist])
+  }, [cryptos, searchQuery, sortBy, sortOrder, filterBy, filterCoinIds])
 
   // Get current page items
   const getCurrentPageItems = () => {
@@ -210,7 +175,7 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
   }
 
   const handleRefresh = async () => {
-    await loadAllCryptocurrencies(1)
+    await loadAllCryptocurrencies(true)
   }
 
   const handlePageChange = (page: number) => {
@@ -220,7 +185,7 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
   }
 
   useEffect(() => {
-    loadAllCryptocurrencies()
+    loadAllCryptocurrencies(false)
   }, [loadAllCryptocurrencies])
 
   const currentItems = getCurrentPageItems()
@@ -238,15 +203,22 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
             Discover and add cryptocurrencies to your watchlist
           </p>
         </div>
-        <Button
-          onClick={handleRefresh}
-          disabled={refreshing}
-          className="gap-2"
-          variant="outline"
-        >
-          <RefreshCw className={cn("h-4 w-4", refreshing && "animate-spin")} />
-          {refreshing ? 'Refreshing...' : 'Refresh'}
-        </Button>
+        <div className="flex items-center gap-2">
+          {stale && lastUpdated && (
+            <Badge variant="outline" className="text-xs text-amber-500">
+              Data {formatDistanceToNowStrict(lastUpdated)} old
+            </Badge>
+          )}
+          <Button
+            onClick={handleRefresh}
+            disabled={refreshing}
+            className="gap-2"
+            variant="outline"
+          >
+            <RefreshCw className={cn("h-4 w-4", refreshing && "animate-spin")} />
+            {refreshing ? 'Refreshing...' : 'Refresh'}
+          </Button>
+        </div>
       </div>
 
       {/* Filters and Search */}
@@ -273,7 +245,7 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Category</label>
-              <Select value={filterBy} onValueChange={(value: any) => setFilterBy(value)}>
+              <Select value={activeFilter} onValueChange={(value: any) => setFilterBy(value)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -291,12 +263,14 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
                       Top Losers
                     </div>
                   </SelectItem>
-                  <SelectItem value="watchlist">
-                    <div className="flex items-center gap-2">
-                      <Star className="h-4 w-4 text-accent" />
-                      My Watchlist ({watchlist.length})
-                    </div>
-                  </SelectItem>
+                  {watchlists.lists.map(list => (
+                    <SelectItem key={list.id} value={`watchlist:${list.id}`}>
+                      <div className="flex items-center gap-2">
+                        <Star className="h-4 w-4 text-accent" />
+                        {list.name} ({watchlistStore.itemsOf(list.id).length})
+                      </div>
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -348,10 +322,10 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
                   Losers Only
                 </Badge>
               )}
-              {filterBy === 'watchlist' && (
+              {filterList && (
                 <Badge variant="outline" className="text-accent border-accent/50">
                   <Star className="h-3 w-3 mr-1" />
-                  Watchlist
+                  {filterList.name}
                 </Badge>
               )}
               {searchQuery && (
@@ -397,9 +371,11 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
                 priceChange24h={crypto.priceChange24h}
                 priceChangePercentage24h={crypto.priceChangePercentage24h}
                 volume24h={crypto.volume24h}
+                quote={quote}
                 image={crypto.image}
-                isWatched={watchlist.includes(crypto.symbol)}
-                onToggleWatch={() => onToggleWatch(crypto.symbol)}
+                isWatched={watchlist.includes(crypto.id)}
+                onToggleWatch={() => onToggleWatch(crypto)}
+                onSelect={onSelectCoin ? () => onSelectCoin(crypto) : undefined}
               />
             ))}
           </div>
@@ -471,10 +447,7 @@ export function CryptoBrowser({ watchlist, onToggleWatch, user }: CryptoBrowserP
             </p>
             <Button 
               variant="outline" 
-              onClick={() => {
-                setSearchQuery('')
-                setFilterBy('all')
-              }}
+              onClick={() => updateQuery({ q: '', filter: 'all' })}
             >
               Clear Filters
             </Button>
@@ -2,6 +2,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { TrendingUp, TrendingDown, Star, StarOff } from 'lucide-react'
+import { Sparkline } from './Sparkline'
+import { formatQuote, type Quote } from '@/services/currency'
 import { cn } from '@/lib/utils'
 
 interface CryptoPriceCardProps {
@@ -11,9 +13,14 @@ interface CryptoPriceCardProps {
   priceChange24h: number
   priceChangePercentage24h: number
   volume24h: number
+  // Dollar amounts are shown in the quote currency
+  quote: Quote
   image?: string
+  // Recent closing prices, oldest first
+  sparkline?: number[]
   isWatched?: boolean
   onToggleWatch?: () => void
+  onSelect?: () => void
 }
 
 export function CryptoPriceCard({
@@ -23,25 +30,28 @@ export function CryptoPriceCard({
   priceChange24h,
   priceChangePercentage24h,
   volume24h,
+  quote,
   image,
+  sparkline,
   isWatched = false,
-  onToggleWatch
+  onToggleWatch,
+  onSelect
 }: CryptoPriceCardProps) {
   const isPositive = priceChange24h >= 0
-  const formattedPrice = currentPrice.toLocaleString('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: currentPrice < 1 ? 6 : 2
-  })
+  const formattedPrice = formatQuote(quote, currentPrice)
   
-  const formattedVolume = (volume24h / 1000000).toFixed(1) + 'M'
+  const formattedVolume = formatQuote(quote, volume24h, { compact: true, maximumFractionDigits: 1 })
 
   return (
     <Card className="relative overflow-hidden border-border/50 bg-card/50 backdrop-blur-sm hover:bg-card/80 transition-all duration-200">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
         <CardTitle className="text-sm font-medium">
-          <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onSelect}
+            disabled={!onSelect}
+            className="flex items-center gap-2 text-left enabled:hover:underline"
+          >
             {image && (
               <img 
                 src={image} 
@@ -54,7 +64,7 @@ export function CryptoPriceCard({
             )}
             <span className="font-semibold">{symbol}</span>
             <span className="text-xs text-muted-foreground">{name}</span>
-          </div>
+          </button>
         </CardTitle>
         <Button
           variant="ghost"
@@ -92,14 +102,21 @@ export function CryptoPriceCard({
               "font-medium",
               isPositive ? "text-primary" : "text-destructive"
             )}>
-              {isPositive ? '+' : ''}${priceChange24h.toFixed(2)}
+              {isPositive ? '+' : ''}{formatQuote(quote, priceChange24h)}
             </span>
           </div>
           
           <div className="flex items-center justify-between text-sm text-muted-foreground">
             <span>Volume</span>
-            <span>${formattedVolume}</span>
+            <span>{formattedVolume}</span>
           </div>
+
+          {sparkline && sparkline.length > 1 && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>24h</span>
+              <Sparkline values={sparkline} />
+            </div>
+          )}
           
 
         </div>
@@ -1,16 +1,55 @@
-import { useState, useEffect, useCallback } from 'react'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { formatDistanceToNowStrict } from 'date-fns'
+import { useLocation, useNavigate, type Location } from 'react-router-dom'
+import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { CryptoPriceCard } from './CryptoPriceCard'
 import { TradingSignal } from './TradingSignal'
 import { MarketOverview } from './MarketOverview'
 import { CryptoBrowser } from './CryptoBrowser'
 import { LiveSignalFeed } from './LiveSignalFeed'
+import { StrategySelector } from './StrategySelector'
+import { BacktestPanel } from './BacktestPanel'
+import { PaperTradingPanel } from './PaperTradingPanel'
+import { PortfolioPanel } from './PortfolioPanel'
+import { AlertsSheet } from './AlertsSheet'
+import { WebhooksDialog } from './WebhooksDialog'
+import { NotificationCenter } from './NotificationCenter'
+import { NotificationPreferencesDialog } from './NotificationPreferencesDialog'
+import { WatchlistPanel } from './WatchlistPanel'
+import { RequestBudgetStatus } from './RequestBudgetStatus'
+import { CoinDetailSheet, type DetailCoin } from './CoinDetailSheet'
 import { blink } from '@/blink/client'
-import { cryptoApi, type CoinGeckoMarket } from '@/services/cryptoApi'
+import { cryptoApi, type GlobalMarketData } from '@/services/cryptoApi'
+import type { RiskMethod } from '@/services/riskLevels'
+import { generateStrategySignal, signalCoinFromMarket } from '@/services/signalEngine'
+import { activeCoinIds, paperTradingStore } from '@/services/paperTrading'
+import { alertEngine, watchedCoinIds, type AlertSignal } from '@/services/alerts'
+import { quoteSignal, webhookDispatcher } from '@/services/webhooks'
+import { QUOTE_CURRENCIES, formatMoney, type QuoteCurrency } from '@/services/currency'
+import { desktopNotifier, type NotificationLink } from '@/services/notifications'
+import { watchlistStore } from '@/services/watchlists'
+import { tickerStream } from '@/services/stream/tickerStream'
+import { LIVE_COIN_LIMIT, marketStore, selectCoinBySymbol, selectTopCoins, type RefreshOptions } from '@/services/market'
+import { responseCache } from '@/services/cache'
+import { priceSnapshots } from '@/services/snapshots'
+import { useLivePrices } from '@/hooks/use-live-prices'
+import { useMarket, useTopCoins } from '@/hooks/use-market'
+import { useSignalSettings } from '@/hooks/use-signal-settings'
+import { usePaperTrading } from '@/hooks/use-paper-trading'
+import { useAlerts } from '@/hooks/use-alerts'
+import { useWebhooks } from '@/hooks/use-webhooks'
+import { useNotifications } from '@/hooks/use-notifications'
+import { useNotificationPreferences } from '@/hooks/use-notification-preferences'
+import { useWatchlists } from '@/hooks/use-watchlists'
+import { useCoinMarkets } from '@/hooks/use-coin-markets'
+import { usePortfolio } from '@/hooks/use-portfolio'
+import { useSparklines } from '@/hooks/use-sparklines'
+import { useCurrencySettings, useQuote } from '@/hooks/use-currency'
 import { 
   Activity, 
   TrendingUp, 
@@ -18,26 +57,18 @@ import {
   RefreshCw, 
   Bell,
   Settings,
-  Wallet,
   User,
   LogOut,
-  Star
+  Star,
+  Webhook
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { parseRoute, paths, type DashboardTab } from '@/lib/routes'
 import { toast } from 'sonner'
 
-interface Cryptocurrency {
-  id: string
-  symbol: string
-  name: string
-  currentPrice: number
-  priceChange24h: number
-  priceChangePercentage24h: number
-  marketCap: number
-  volume24h: number
-  lastUpdated: string
-  image?: string
-}
+// Prices stream in between market data refreshes; metadata like market cap
+// only needs an occasional refresh
+const MARKET_DATA_REFRESH_MS = 5 * 60 * 1000
 
 interface Signal {
   id: string
@@ -48,111 +79,101 @@ interface Signal {
   currentPrice: number
   targetPrice?: number
   stopLoss?: number
+  riskMethod?: RiskMethod
+  riskReward?: number
+  strategyName?: string
   reasoning: string
   createdAt: string
 }
 
 export function Dashboard() {
   const [user, setUser] = useState<any>(null)
-  const [cryptos, setCryptos] = useState<Cryptocurrency[]>([])
   const [signals, setSignals] = useState<Signal[]>([])
-  const [watchlist, setWatchlist] = useState<string[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
-  const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
-  const [nextRefresh, setNextRefresh] = useState<Date>(new Date(Date.now() + 60000))
+  const [nextRefresh, setNextRefresh] = useState<Date>(new Date(Date.now() + MARKET_DATA_REFRESH_MS))
+  const { prices: livePrices, status: tickerStatus, lastTickAt } = useLivePrices()
+  const market = useMarket()
+  const liveCryptos = useTopCoins(LIVE_COIN_LIMIT)
+  const liveCoinIds = useMemo(() => market.topIds.slice(0, LIVE_COIN_LIMIT), [market.topIds])
+  const sparklines = useSparklines(user, liveCoinIds.slice(0, 8))
+  const { settings: signalSettings, updateSettings: updateSignalSettings } = useSignalSettings(user)
+  const { currency, setCurrency } = useCurrencySettings(user)
+  const quote = useQuote(currency)
+  const paperTrading = usePaperTrading(user)
+  const paperCoinIds = useMemo(() => activeCoinIds(paperTrading), [paperTrading])
+  const alerts = useAlerts(user)
+  const alertCoinIds = useMemo(() => watchedCoinIds(alerts.rules), [alerts.rules])
+  const [alertsOpen, setAlertsOpen] = useState(false)
+  const webhooks = useWebhooks(user)
+  const [webhooksOpen, setWebhooksOpen] = useState(false)
+  const notifications = useNotifications(user)
+  const watchlists = useWatchlists(user)
+  const watchlist = useMemo(
+    () => watchlistStore.itemsOf(watchlists.activeListId).map(item => item.coinId),
+    [watchlists]
+  )
+  // Every list's coins, so switching lists doesn't wait on a fetch
+  const watchlistCoinIds = useMemo(() => watchlists.items.map(item => item.coinId), [watchlists.items])
+  const watchlistCryptos = useCoinMarkets(watchlistCoinIds, MARKET_DATA_REFRESH_MS)
+  const portfolio = usePortfolio(user)
+  // Held coins are priced and streamed whatever their rank
+  const holdingCoinIds = useMemo(
+    () => [...new Set(portfolio.transactions.map(tx => tx.coinId))],
+    [portfolio.transactions]
+  )
+  const holdingCryptos = useCoinMarkets(holdingCoinIds, MARKET_DATA_REFRESH_MS)
+  const marketCryptos = useTopCoins()
+  const activeWatchlistName = watchlists.lists.find(list => list.id === watchlists.activeListId)?.name ?? 'watchlist'
+  const { preferences: notificationPreferences, updatePreferences: updateNotificationPreferences } = useNotificationPreferences(user)
+  const [preferencesOpen, setPreferencesOpen] = useState(false)
+  const location = useLocation()
+  const navigate = useNavigate()
+  // Coin pages opened from inside the app keep showing the tab they were
+  // opened over; pasted coin links open over the dashboard
+  const background = (location.state as { background?: Location } | null)?.background
+  const viewLocation = background ?? location
+  const route = parseRoute(location.pathname, background ? parseRoute(background.pathname).tab : undefined)
+  const activeTab = route.tab
+  const browseQuery = useMemo(() => new URLSearchParams(viewLocation.search), [viewLocation.search])
   const [marketStats, setMarketStats] = useState({
-    totalMarketCap: 0,
-    totalVolume24h: 0,
+    totalMarketCap: {} as Record<string, number>,
+    totalVolume24h: {} as Record<string, number>,
     btcDominance: 0,
     activeSignals: 0,
     gainers: 0,
     losers: 0
   })
 
-  const loadCryptos = useCallback(async () => {
+  const loadCryptos = useCallback(async ({ force, ...options }: RefreshOptions = {}) => {
+    const updateMarketStats = (globalData: GlobalMarketData) => {
+      const topCoins = selectTopCoins(marketStore.getSnapshot(), LIVE_COIN_LIMIT)
+      setMarketStats({
+        totalMarketCap: globalData.data.total_market_cap,
+        totalVolume24h: globalData.data.total_volume,
+        btcDominance: globalData.data.market_cap_percentage.btc || 0,
+        activeSignals: signals.length,
+        gainers: topCoins.filter(c => c.priceChangePercentage24h > 0).length,
+        losers: topCoins.filter(c => c.priceChangePercentage24h < 0).length
+      })
+    }
+
     try {
-      // Fetch live data from CoinGecko API
-      const liveData = await cryptoApi.getTopCryptocurrencies(20)
-      
-      // Transform API data to our format
-      const transformedCryptos: Cryptocurrency[] = liveData.map(crypto => ({
-        id: crypto.id,
-        symbol: crypto.symbol.toUpperCase(),
-        name: crypto.name,
-        currentPrice: crypto.current_price,
-        priceChange24h: crypto.price_change_24h,
-        priceChangePercentage24h: crypto.price_change_percentage_24h,
-        marketCap: crypto.market_cap,
-        volume24h: crypto.total_volume,
-        lastUpdated: crypto.last_updated,
-        image: crypto.image
-      }))
-      
-      setCryptos(transformedCryptos)
-      
-      // Update market stats
-      const globalData = await cryptoApi.getGlobalMarketData()
-      if (globalData) {
-        setMarketStats({
-          totalMarketCap: globalData.data.total_market_cap.usd || 0,
-          totalVolume24h: globalData.data.total_volume.usd || 0,
-          btcDominance: globalData.data.market_cap_percentage.btc || 0,
-          activeSignals: signals.length,
-          gainers: transformedCryptos.filter(c => c.priceChangePercentage24h > 0).length,
-          losers: transformedCryptos.filter(c => c.priceChangePercentage24h < 0).length
-        })
-      }
-      
-      // Store in database for caching
-      if (user) {
-        for (const crypto of transformedCryptos.slice(0, 10)) {
-          try {
-            await blink.db.cryptocurrencies.create({
-              id: `${crypto.id}_${Date.now()}`,
-              userId: user.id,
-              symbol: crypto.symbol,
-              name: crypto.name,
-              currentPrice: crypto.currentPrice,
-              priceChange24h: crypto.priceChange24h,
-              priceChangePercentage24h: crypto.priceChangePercentage24h,
-              marketCap: crypto.marketCap,
-              volume24h: crypto.volume24h,
-              lastUpdated: crypto.lastUpdated
-            })
-          } catch (dbError) {
-            // Ignore database errors for now
-            console.warn('Failed to cache crypto data:', dbError)
-          }
-        }
-      }
+      // Top markets come from the first healthy provider in the chain and are
+      // shared with the rest of the app through the market store
+      await marketStore.refreshTop({ force, ...options })
+
+      // Update market stats, again once a stale cached response is revalidated
+      const globalData = await cryptoApi.getGlobalMarketData(options, {
+        force,
+        onRevalidate: response => updateMarketStats(response.value)
+      })
+      if (globalData) updateMarketStats(globalData)
     } catch (error) {
+      // The market store keeps the last known data
       console.error('Failed to load cryptocurrencies:', error)
-      // Fallback to cached data from database
-      if (user) {
-        try {
-          const cachedResult = await blink.db.cryptocurrencies.list({
-            where: { userId: user.id },
-            orderBy: { marketCap: 'desc' },
-            limit: 20
-          })
-          setCryptos(cachedResult.map(crypto => ({
-            id: crypto.id,
-            symbol: crypto.symbol,
-            name: crypto.name,
-            currentPrice: crypto.currentPrice,
-            priceChange24h: crypto.priceChange24h,
-            priceChangePercentage24h: crypto.priceChangePercentage24h,
-            marketCap: crypto.marketCap || 0,
-            volume24h: crypto.volume24h || 0,
-            lastUpdated: crypto.lastUpdated
-          })))
-        } catch (dbError) {
-          console.error('Failed to load cached data:', dbError)
-        }
-      }
     }
-  }, [signals.length, user])
+  }, [signals.length])
 
   const generateSignals = async () => {
     if (!user) return
@@ -160,54 +181,23 @@ export function Dashboard() {
     try {
       // Generate AI-powered trading signals using real market data
       const newSignals: Signal[] = []
+      const alertSignals: AlertSignal[] = []
       
       // Use top 8 cryptos for signal generation
-      const topCryptos = cryptos.slice(0, 8)
+      const topCryptos = liveCryptos.slice(0, 8)
       
       for (let i = 0; i < Math.min(5, topCryptos.length); i++) {
         const crypto = topCryptos[i]
         
-        // Generate technical analysis signal
-        const technicalSignal = cryptoApi.generateTechnicalSignal({
-          id: crypto.id,
-          symbol: crypto.symbol.toLowerCase(),
-          name: crypto.name,
-          image: crypto.image || '',
-          current_price: crypto.currentPrice,
-          market_cap: crypto.marketCap,
-          market_cap_rank: i + 1,
-          fully_diluted_valuation: crypto.marketCap,
-          total_volume: crypto.volume24h,
-          high_24h: crypto.currentPrice * 1.05,
-          low_24h: crypto.currentPrice * 0.95,
-          price_change_24h: crypto.priceChange24h,
-          price_change_percentage_24h: crypto.priceChangePercentage24h,
-          market_cap_change_24h: crypto.marketCap * (crypto.priceChangePercentage24h / 100),
-          market_cap_change_percentage_24h: crypto.priceChangePercentage24h,
-          circulating_supply: crypto.marketCap / crypto.currentPrice,
-          total_supply: null,
-          max_supply: null,
-          ath: crypto.currentPrice * 2,
-          ath_change_percentage: -50,
-          ath_date: '2021-11-10T14:24:11.849Z',
-          atl: crypto.currentPrice * 0.1,
-          atl_change_percentage: 900,
-          atl_date: '2020-03-13T02:22:55.391Z',
-          roi: null,
-          last_updated: crypto.lastUpdated
-        })
+        const signal = await generateStrategySignal(
+          signalCoinFromMarket(crypto),
+          signalSettings.dashboardStrategies,
+          { rewardRisk: signalSettings.rewardRisk }
+        )
+        if (!signal) continue
         
-        const targetPrice = technicalSignal.signal === 'BUY' 
-          ? crypto.currentPrice * (1 + Math.random() * 0.15 + 0.05)
-          : technicalSignal.signal === 'SELL'
-          ? crypto.currentPrice * (1 - Math.random() * 0.15 - 0.05)
-          : undefined
-          
-        const stopLoss = technicalSignal.signal === 'BUY'
-          ? crypto.currentPrice * (1 - Math.random() * 0.08 - 0.02)
-          : technicalSignal.signal === 'SELL'
-          ? crypto.currentPrice * (1 + Math.random() * 0.08 + 0.02)
-          : undefined
+        const targetPrice = signal.levels?.targetPrice
+        const stopLoss = signal.levels?.stopLoss
         
         const signalId = `signal_${Date.now()}_${i}`
         
@@ -217,17 +207,18 @@ export function Dashboard() {
             id: signalId,
             userId: user.id,
             symbol: crypto.symbol,
-            signalType: technicalSignal.signal,
-            strength: technicalSignal.strength,
-            confidenceScore: technicalSignal.confidence,
+            signalType: signal.side,
+            strength: signal.strength,
+            confidenceScore: signal.confidence,
             currentPrice: crypto.currentPrice,
             targetPrice,
             stopLoss,
-            reasoning: technicalSignal.reasoning,
+            riskMethod: signal.levels?.method,
+            riskReward: signal.levels?.riskReward,
+            strategyId: signal.strategyId,
+            reasoning: signal.reasoning,
             technicalIndicators: JSON.stringify({
-              rsi: Math.floor(Math.random() * 100),
-              macd: Math.random() * 2 - 1,
-              movingAverage: crypto.currentPrice * (1 + (Math.random() * 0.1 - 0.05)),
+              ...signal.indicators,
               volume: crypto.volume24h,
               marketCap: crypto.marketCap
             })
@@ -236,21 +227,48 @@ export function Dashboard() {
           console.warn('Failed to save signal to database:', dbError)
         }
         
+        alertSignals.push({
+          coinId: crypto.id,
+          symbol: crypto.symbol,
+          side: signal.side,
+          confidence: signal.confidence,
+          strategyName: signal.strategyName
+        })
+        webhookDispatcher.dispatch({
+          type: 'signal',
+          signal: quoteSignal({
+            coinId: crypto.id,
+            symbol: crypto.symbol,
+            side: signal.side,
+            strength: signal.strength,
+            confidence: signal.confidence,
+            price: crypto.currentPrice,
+            targetPrice,
+            stopLoss,
+            strategyName: signal.strategyName,
+            reasoning: signal.reasoning,
+            createdAt: new Date().toISOString()
+          }, quote)
+        })
         newSignals.push({
           id: signalId,
           symbol: crypto.symbol,
-          signalType: technicalSignal.signal,
-          strength: technicalSignal.strength,
-          confidenceScore: technicalSignal.confidence,
+          signalType: signal.side,
+          strength: signal.strength,
+          confidenceScore: signal.confidence,
           currentPrice: crypto.currentPrice,
           targetPrice,
           stopLoss,
-          reasoning: technicalSignal.reasoning,
+          riskMethod: signal.levels?.method,
+          riskReward: signal.levels?.riskReward,
+          strategyName: signal.strategyName,
+          reasoning: signal.reasoning,
           createdAt: new Date().toISOString()
         })
       }
       
       setSignals(prev => [...newSignals, ...prev].slice(0, 15))
+      alertEngine.recordSignals(alertSignals)
       
       // Update market stats with new signal count
       setMarketStats(prev => ({
@@ -265,52 +283,62 @@ export function Dashboard() {
     }
   }
 
-  const toggleWatchlist = async (symbol: string) => {
-    if (!user) return
-    
+  const toggleWatchlist = (coin: { id: string; symbol: string }) => {
+    if (!user || !watchlists.activeListId) return
+
+    const symbol = coin.symbol.toUpperCase()
+    if (watchlistStore.toggleItem(coin)) {
+      toast.success(`Added ${symbol} to ${activeWatchlistName}`)
+    } else {
+      toast.success(`Removed ${symbol} from ${activeWatchlistName}`)
+    }
+  }
+
+  // Open a paper bracket order from a signal's entry, target and stop
+  const executeSignal = (signal: Pick<Signal, 'id' | 'symbol' | 'signalType' | 'targetPrice' | 'stopLoss'>) => {
+    const crypto = liveCryptos.find(c => c.symbol === signal.symbol)
+    const account = paperTrading.account
+    if (!crypto || !account) {
+      toast.error('Paper trading is not ready yet. Please try again in a moment.')
+      return
+    }
+    if (signal.signalType === 'HOLD' || !signal.targetPrice || !signal.stopLoss) {
+      toast.error('This signal has no target and stop to trade')
+      return
+    }
+
     try {
-      if (watchlist.includes(symbol)) {
-        // Remove from watchlist
-        const existing = await blink.db.userWatchlist.list({
-          where: { 
-            AND: [
-              { userId: user.id },
-              { symbol }
-            ]
-          }
+      const entry = paperTradingStore.placeBracketOrder({
+        coinId: crypto.id,
+        symbol: crypto.symbol,
+        side: signal.signalType,
+        quantity: (account.cashBalance * account.signalAllocation) / crypto.currentPrice,
+        targetPrice: signal.targetPrice,
+        stopLoss: signal.stopLoss,
+        signalId: signal.id
+      }, crypto.currentPrice)
+
+      if (entry.status === 'filled') {
+        // The paper account trades in US dollars
+        toast.success(`📝 Paper ${signal.signalType} ${crypto.symbol} filled at ${formatMoney(entry.fillPrice ?? crypto.currentPrice, 'usd')}`, {
+          description: `Target ${formatMoney(signal.targetPrice, 'usd')} · Stop ${formatMoney(signal.stopLoss, 'usd')}`
         })
-        
-        if (existing.length > 0) {
-          await blink.db.userWatchlist.delete(existing[0].id)
-        }
-        
-        setWatchlist(prev => prev.filter(s => s !== symbol))
-        toast.success(`Removed ${symbol} from watchlist`)
       } else {
-        // Add to watchlist
-        await blink.db.userWatchlist.create({
-          id: `watch_${Date.now()}`,
-          userId: user.id,
-          symbol
-        })
-        
-        setWatchlist(prev => [...prev, symbol])
-        toast.success(`Added ${symbol} to watchlist`)
+        toast.error(`Paper order ${entry.status}${entry.rejectReason ? `: ${entry.rejectReason}` : ''}`)
       }
     } catch (error) {
-      console.error('Failed to toggle watchlist:', error)
-      toast.error('Failed to update watchlist. Please try again.')
+      console.error('Failed to execute signal:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to execute signal')
     }
   }
 
   const refreshData = async () => {
     setRefreshing(true)
     try {
-      await loadCryptos()
+      await loadCryptos({ priority: 'user', force: true })
       const now = new Date()
-      setLastUpdate(now)
-      setNextRefresh(new Date(now.getTime() + 60000))
-      toast.success(`🔄 Manual refresh complete: ${cryptos.length} cryptocurrencies updated`, {
+      setNextRefresh(new Date(now.getTime() + MARKET_DATA_REFRESH_MS))
+      toast.success(`🔄 Manual refresh complete: ${liveCryptos.length} cryptocurrencies updated`, {
         description: `Updated at ${now.toLocaleTimeString()}`
       })
     } catch (error) {
@@ -321,45 +349,84 @@ export function Dashboard() {
     }
   }
 
-  const loadUserWatchlist = useCallback(async () => {
+  const loadUser = useCallback(async () => {
     try {
-      const currentUser = await blink.auth.me()
-      setUser(currentUser)
-      const watchlistResult = await blink.db.userWatchlist.list({
-        where: { userId: currentUser.id }
-      })
-      setWatchlist(watchlistResult.map(item => item.symbol))
+      const me = await blink.auth.me()
+      priceSnapshots.setUser(me?.id ?? null)
+      setUser(me)
     } catch (error) {
-      console.error('Failed to load watchlist:', error)
+      console.error('Failed to load user:', error)
     }
   }, [])
 
+  const setActiveTab = (tab: string) => navigate(paths.tab(tab as DashboardTab))
+
+  const openCoin = useCallback((coin: DetailCoin) => {
+    navigate(paths.coin(coin.id), { state: { background: viewLocation, coin } })
+  }, [navigate, viewLocation])
+
+  const closeCoin = () => {
+    navigate(background ? { pathname: background.pathname, search: background.search } : paths.tab('dashboard'))
+  }
+
+  // Whatever we already know about the linked coin; the sheet loads the rest
+  const detailCoin = useMemo((): DetailCoin | null => {
+    if (!route.coinId) return null
+    const passed = (location.state as { coin?: DetailCoin } | null)?.coin
+    if (passed?.id === route.coinId) return passed
+    return market.coins[route.coinId] ?? { id: route.coinId }
+  }, [route.coinId, location.state, market.coins])
+
+  // Deep link from a notification to the signal or coin it is about
+  const openNotificationLink = useCallback((link: NotificationLink) => {
+    if (link.kind === 'signal') {
+      navigate(paths.signal(link.signalId))
+    } else {
+      openCoin({ id: link.coinId, symbol: link.symbol, name: link.symbol })
+    }
+  }, [navigate, openCoin])
+
+  // Signals only carry the ticker; coins we have no market data for are
+  // looked up in the browser instead
+  const openCoinBySymbol = (symbol: string) => {
+    const coin = selectCoinBySymbol(market, symbol)
+    if (coin) {
+      openCoin(coin)
+    } else {
+      navigate({ pathname: paths.tab('browse'), search: new URLSearchParams({ q: symbol }).toString() })
+    }
+  }
+
   const handleLogout = () => {
     blink.auth.logout()
   }
 
+  // The init effect runs once; refreshes go through the latest loader, which
+  // changes whenever the signal count does
+  const loadCryptosRef = useRef(loadCryptos)
+  loadCryptosRef.current = loadCryptos
+
   useEffect(() => {
     const initDashboard = async () => {
-      await loadUserWatchlist()
-      await loadCryptos()
+      responseCache.prune()
+      await loadUser()
+      await loadCryptosRef.current()
       const now = new Date()
-      setLastUpdate(now)
-      setNextRefresh(new Date(now.getTime() + 60000))
+      setNextRefresh(new Date(now.getTime() + MARKET_DATA_REFRESH_MS))
       setLoading(false)
     }
     
     initDashboard()
     
-    // Auto-refresh every 60 seconds with user feedback
+    // Refresh market metadata every 5 minutes; prices arrive via the ticker stream
     const interval = setInterval(async () => {
-      console.log('Auto-refreshing market data...')
       try {
-        await loadCryptos()
+        await loadCryptosRef.current()
         const now = new Date()
-        setLastUpdate(now)
-        setNextRefresh(new Date(now.getTime() + 60000))
+        setNextRefresh(new Date(now.getTime() + MARKET_DATA_REFRESH_MS))
+        const refreshed = selectTopCoins(marketStore.getSnapshot(), LIVE_COIN_LIMIT).length
         // Show subtle toast notification for auto-refresh with live update info
-        toast.success(`📊 Live update: ${cryptos.length} cryptocurrencies refreshed`, {
+        toast.success(`📊 Live update: ${refreshed} cryptocurrencies refreshed`, {
           duration: 3000,
           position: 'bottom-right',
           description: `Updated at ${new Date().toLocaleTimeString()}`
@@ -371,10 +438,34 @@ export function Dashboard() {
           position: 'bottom-right'
         })
       }
-    }, 60000) // 60 seconds = 60,000 milliseconds
+    }, MARKET_DATA_REFRESH_MS)
     
     return () => clearInterval(interval)
-  }, [loadCryptos, loadUserWatchlist, cryptos.length])
+  }, [loadUser])
+
+  // Stream live prices for every coin the dashboard knows about
+  useEffect(() => {
+    tickerStream.start()
+    return () => tickerStream.stop()
+  }, [])
+
+  // Alert rules, paper orders and holdings only see prices for coins in the ticker set
+  useEffect(() => {
+    tickerStream.setSymbols([...liveCoinIds, ...watchlistCoinIds, ...alertCoinIds, ...paperCoinIds, ...holdingCoinIds])
+  }, [liveCoinIds, watchlistCoinIds, alertCoinIds, paperCoinIds, holdingCoinIds])
+
+  // Clicking a desktop notification lands on what it is about
+  useEffect(() => desktopNotifier.onClick(openNotificationLink), [openNotificationLink])
+
+  // Fill resting paper orders as prices move
+  useEffect(() => {
+    paperTradingStore.processPrices(Object.fromEntries(Object.values(livePrices).map(tick => [tick.id, tick.price])))
+  }, [livePrices])
+
+  // Check alert rules against every price update
+  useEffect(() => {
+    alertEngine.evaluate(livePrices)
+  }, [livePrices])
 
   if (loading) {
     return (
@@ -399,20 +490,44 @@ export function Dashboard() {
                 <h1 className="text-2xl font-bold">CryptoSignal</h1>
               </div>
               <Badge variant="outline" className="text-xs">
-                Live
+                Live{market.source && ` · ${market.source}`}
               </Badge>
             </div>
             
             <div className="flex items-center gap-4">
               <div className="text-sm text-muted-foreground">
                 <div className="flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                  <span>Live updates active</span>
+                  <div className={cn(
+                    "w-2 h-2 rounded-full",
+                    tickerStatus === 'streaming' ? "bg-green-500 animate-pulse" :
+                    tickerStatus === 'polling' ? "bg-amber-500" :
+                    "bg-muted-foreground"
+                  )}></div>
+                  <span>
+                    {tickerStatus === 'streaming' ? 'Streaming live prices' :
+                     tickerStatus === 'polling' ? 'Stream offline, polling prices' :
+                     'Connecting to price stream...'}
+                  </span>
                 </div>
                 <div className="text-xs opacity-75">
-                  Last update: {lastUpdate.toLocaleTimeString()} • Next: {nextRefresh.toLocaleTimeString()}
+                  {lastTickAt && <>Last tick: {new Date(lastTickAt).toLocaleTimeString()} • </>}
+                  Market data: {market.lastUpdated ? `${formatDistanceToNowStrict(market.lastUpdated)} old` : 'loading'}
+                  {market.stale && ' (cached)'} • Next: {nextRefresh.toLocaleTimeString()}
                 </div>
+                <RequestBudgetStatus />
               </div>
+              <Select value={currency} onValueChange={(value) => setCurrency(value as QuoteCurrency)} disabled={!user}>
+                <SelectTrigger className="w-24 h-9" aria-label="Quote currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QUOTE_CURRENCIES) as QuoteCurrency[]).map(code => (
+                    <SelectItem key={code} value={code} title={QUOTE_CURRENCIES[code].name}>
+                      {QUOTE_CURRENCIES[code].code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 size="sm"
@@ -423,9 +538,11 @@ export function Dashboard() {
                 <RefreshCw className={cn("h-4 w-4", refreshing && "animate-spin")} />
                 {refreshing ? 'Updating...' : 'Refresh Now'}
               </Button>
-              <Button variant="outline" size="sm">
-                <Bell className="h-4 w-4" />
-              </Button>
+              <NotificationCenter
+                inbox={notifications}
+                onNavigate={openNotificationLink}
+                onManageAlerts={() => setAlertsOpen(true)}
+              />
               
               {/* User Profile Dropdown */}
               <DropdownMenu>
@@ -445,13 +562,17 @@ export function Dashboard() {
                     <Settings className="h-4 w-4 mr-2" />
                     Account Settings
                   </DropdownMenuItem>
-                  <DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setPreferencesOpen(true)}>
                     <Bell className="h-4 w-4 mr-2" />
                     Notification Preferences
                   </DropdownMenuItem>
-                  <DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setWebhooksOpen(true)}>
+                    <Webhook className="h-4 w-4 mr-2" />
+                    Webhooks ({webhooks.endpoints.length})
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setActiveTab('watchlist')}>
                     <Star className="h-4 w-4 mr-2" />
-                    Watchlist ({watchlist.length})
+                    Watchlists ({watchlists.lists.length})
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="text-red-600">
@@ -465,6 +586,23 @@ export function Dashboard() {
         </div>
       </header>
 
+      <AlertsSheet open={alertsOpen} onOpenChange={setAlertsOpen} alerts={alerts} coins={liveCryptos} />
+      <WebhooksDialog open={webhooksOpen} onOpenChange={setWebhooksOpen} webhooks={webhooks} />
+      <NotificationPreferencesDialog
+        open={preferencesOpen}
+        onOpenChange={setPreferencesOpen}
+        preferences={notificationPreferences}
+        onChange={updateNotificationPreferences}
+      />
+      <CoinDetailSheet
+        coin={detailCoin}
+        onOpenChange={(open) => !open && closeCoin()}
+        user={user}
+        isWatched={!!detailCoin && watchlist.includes(detailCoin.id)}
+        onToggleWatch={toggleWatchlist}
+        quote={quote}
+      />
+
       <div className="container mx-auto px-4 py-6 space-y-6">
         {/* Welcome Message */}
         {user && (
@@ -474,7 +612,7 @@ export function Dashboard() {
               <div>
                 <h2 className="text-lg font-semibold">Welcome back, {user.email?.split('@')[0]}!</h2>
                 <p className="text-sm text-muted-foreground">
-                  Your personalized crypto trading dashboard is ready. You have {watchlist.length} cryptocurrencies in your watchlist.
+                  Your personalized crypto trading dashboard is ready. You have {watchlists.items.length} cryptocurrencies across {watchlists.lists.length} watchlist{watchlists.lists.length === 1 ? '' : 's'}.
                 </p>
               </div>
             </div>
@@ -482,14 +620,16 @@ export function Dashboard() {
         )}
 
         {/* Market Overview */}
-        <MarketOverview stats={marketStats} />
+        <MarketOverview stats={marketStats} quote={quote} />
 
         {/* Main Content */}
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="signals">Signals</TabsTrigger>
             <TabsTrigger value="browse">Browse</TabsTrigger>
+            <TabsTrigger value="backtest">Backtest</TabsTrigger>
+            <TabsTrigger value="paper">Paper</TabsTrigger>
             <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
             <TabsTrigger value="watchlist" className="gap-2">
               Watchlist
@@ -507,17 +647,25 @@ export function Dashboard() {
               <div className="lg:col-span-2 space-y-4">
                 <div className="flex items-center justify-between">
                   <h2 className="text-xl font-semibold">Top Cryptocurrencies</h2>
-                  <Button
-                    onClick={generateSignals}
-                    className="gap-2"
-                    size="sm"
-                  >
-                    <Zap className="h-4 w-4" />
-                    Generate Signals
-                  </Button>
+                  <div className="flex items-center gap-2">
+                    <StrategySelector
+                      selected={signalSettings.dashboardStrategies}
+                      onChange={(ids) => updateSignalSettings({ dashboardStrategies: ids })}
+                      rewardRisk={signalSettings.rewardRisk}
+                      onRewardRiskChange={(rewardRisk) => updateSignalSettings({ rewardRisk })}
+                    />
+                    <Button
+                      onClick={generateSignals}
+                      className="gap-2"
+                      size="sm"
+                    >
+                      <Zap className="h-4 w-4" />
+                      Generate Signals
+                    </Button>
+                  </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {cryptos.slice(0, 8).map((crypto) => (
+                  {liveCryptos.slice(0, 8).map((crypto) => (
                     <CryptoPriceCard
                       key={crypto.id}
                       symbol={crypto.symbol}
@@ -526,9 +674,12 @@ export function Dashboard() {
                       priceChange24h={crypto.priceChange24h}
                       priceChangePercentage24h={crypto.priceChangePercentage24h}
                       volume24h={crypto.volume24h}
+                      quote={quote}
                       image={crypto.image}
-                      isWatched={watchlist.includes(crypto.symbol)}
-                      onToggleWatch={() => toggleWatchlist(crypto.symbol)}
+                      sparkline={sparklines[crypto.id]}
+                      isWatched={watchlist.includes(crypto.id)}
+                      onToggleWatch={() => toggleWatchlist(crypto)}
+                      onSelect={() => openCoin(crypto)}
                     />
                   ))}
                 </div>
@@ -541,11 +692,7 @@ export function Dashboard() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => {
-                      // Switch to signals tab
-                      const signalsTab = document.querySelector('[value="signals"]') as HTMLElement
-                      signalsTab?.click()
-                    }}
+                    onClick={() => setActiveTab('signals')}
                     className="gap-2"
                   >
                     <Activity className="h-4 w-4" />
@@ -563,8 +710,14 @@ export function Dashboard() {
                       currentPrice={signal.currentPrice}
                       targetPrice={signal.targetPrice}
                       stopLoss={signal.stopLoss}
+                      riskMethod={signal.riskMethod}
+                      riskReward={signal.riskReward}
+                      strategyName={signal.strategyName}
                       reasoning={signal.reasoning}
                       createdAt={signal.createdAt}
+                      quote={quote}
+                      onExecute={signal.signalType !== 'HOLD' ? () => executeSignal(signal) : undefined}
+                      onSymbolClick={() => openCoinBySymbol(signal.symbol)}
                     />
                   ))}
                   {signals.length === 0 && (
@@ -584,7 +737,12 @@ export function Dashboard() {
           <TabsContent value="signals" className="space-y-6">
             <LiveSignalFeed 
               user={user}
-              cryptos={cryptos}
+              signalSettings={signalSettings}
+              onSignalSettingsChange={updateSignalSettings}
+              onExecuteSignal={executeSignal}
+              focusSignalId={route.signalId}
+              onSelectSymbol={openCoinBySymbol}
+              quote={quote}
               onSignalGenerated={(count) => {
                 setMarketStats(prev => ({
                   ...prev,
@@ -597,76 +755,46 @@ export function Dashboard() {
           <TabsContent value="browse" className="space-y-6">
             <CryptoBrowser 
               watchlist={watchlist}
+              watchlists={watchlists}
               onToggleWatch={toggleWatchlist}
+              onSelectCoin={openCoin}
+              quote={quote}
+              query={browseQuery}
+              onQueryChange={(query) => navigate({ pathname: paths.tab('browse'), search: query.toString() }, { replace: true })}
+            />
+          </TabsContent>
+
+          <TabsContent value="backtest" className="space-y-6">
+            <BacktestPanel
               user={user}
+              cryptos={liveCryptos}
+              viewedRunId={route.backtestRunId ?? null}
+              onViewRun={(runId) => navigate(runId ? paths.backtestRun(runId) : paths.tab('backtest'))}
             />
           </TabsContent>
 
+          <TabsContent value="paper" className="space-y-6">
+            <PaperTradingPanel paperTrading={paperTrading} cryptos={liveCryptos} />
+          </TabsContent>
+
           <TabsContent value="portfolio" className="space-y-6">
-            <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <Wallet className="h-5 w-5" />
-                  Portfolio Overview
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-12 text-muted-foreground">
-                  <Wallet className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>Portfolio tracking coming soon!</p>
-                  <p className="text-sm">Connect your exchange accounts to track your holdings.</p>
-                </div>
-              </CardContent>
-            </Card>
+            <PortfolioPanel
+              user={user}
+              portfolio={portfolio}
+              cryptos={holdingCryptos}
+              marketCryptos={marketCryptos}
+              quote={quote}
+            />
           </TabsContent>
 
           <TabsContent value="watchlist" className="space-y-6">
-            <div className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold">Your Watchlist</h2>
-              <Badge variant="outline" className="gap-1">
-                <Star className="h-3 w-3" />
-                {watchlist.length} items
-              </Badge>
-            </div>
-            {watchlist.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {cryptos
-                  .filter(crypto => watchlist.includes(crypto.symbol))
-                  .map((crypto) => (
-                    <CryptoPriceCard
-                      key={crypto.id}
-                      symbol={crypto.symbol}
-                      name={crypto.name}
-                      currentPrice={crypto.currentPrice}
-                      priceChange24h={crypto.priceChange24h}
-                      priceChangePercentage24h={crypto.priceChangePercentage24h}
-                      volume24h={crypto.volume24h}
-                      image={crypto.image}
-                      isWatched={true}
-                      onToggleWatch={() => toggleWatchlist(crypto.symbol)}
-                    />
-                  ))}
-              </div>
-            ) : (
-              <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
-                <CardContent className="text-center py-12 text-muted-foreground">
-                  <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>Your watchlist is empty</p>
-                  <p className="text-sm">Click the star icon on any cryptocurrency to add it to your watchlist.</p>
-                  <Button 
-                    variant="outline" 
-                    className="mt-4"
-                    onClick={() => {
-                      // Switch to browse tab
-                      const browseTab = document.querySelector('[value="browse"]') as HTMLElement
-                      browseTab?.click()
-                    }}
-                  >
-                    Browse Cryptocurrencies
-                  </Button>
-                </CardContent>
-              </Card>
-            )}
+            <WatchlistPanel
+              watchlists={watchlists}
+              cryptos={watchlistCryptos}
+              quote={quote}
+              onBrowse={() => setActiveTab('browse')}
+              onSelectCoin={openCoin}
+            />
           </TabsContent>
         </Tabs>
       </div>
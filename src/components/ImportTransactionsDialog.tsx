@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog'
+import {
+  CSV_FORMATS,
+  createCoinResolver,
+  previewCsvImport,
+  type CoinRef,
+  type CsvFormatId,
+  type ImportPreview,
+  type ImportRowStatus,
+  type PortfolioTransaction
+} from '@/services/portfolio'
+import { formatMoney } from '@/services/currency'
+import { FileUp } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+const STATUS_STYLES: Record<ImportRowStatus, string> = {
+  new: 'text-green-500',
+  duplicate: 'text-muted-foreground',
+  skipped: 'text-muted-foreground',
+  error: 'text-red-500'
+}
+
+interface ImportTransactionsDialogProps {
+  coins: CoinRef[]
+  existing: PortfolioTransaction[]
+  onImport: (transactions: Omit<PortfolioTransaction, 'id'>[]) => Promise<number>
+}
+
+export function ImportTransactionsDialog({ coins, existing, onImport }: ImportTransactionsDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [formatId, setFormatId] = useState<CsvFormatId | 'auto'>('auto')
+  const [fileText, setFileText] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [formatError, setFormatError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const buildPreview = (text: string, format: CsvFormatId | 'auto') => {
+    try {
+      setPreview(previewCsvImport(text, existing, createCoinResolver(coins), format === 'auto' ? undefined : format))
+      setFormatError(null)
+    } catch (error) {
+      setPreview(null)
+      setFormatError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    const text = await file.text()
+    setFileName(file.name)
+    setFileText(text)
+    buildPreview(text, formatId)
+  }
+
+  const changeFormat = (value: CsvFormatId | 'auto') => {
+    setFormatId(value)
+    if (fileText !== null) buildPreview(fileText, value)
+  }
+
+  const reset = () => {
+    setFileText(null)
+    setFileName('')
+    setPreview(null)
+    setFormatError(null)
+  }
+
+  const handleImport = async () => {
+    if (!preview) return
+    const transactions = preview.rows.filter(row => row.status === 'new').flatMap(row => row.transactions)
+    setImporting(true)
+    const count = await onImport(transactions)
+    setImporting(false)
+
+    if (count > 0) {
+      toast.success(`Imported ${count} transaction${count === 1 ? '' : 's'} from ${fileName}`)
+      reset()
+      setOpen(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset() }}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <FileUp className="h-4 w-4" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            Upload a trade history export from Binance, Coinbase or Kraken, or a CSV with
+            date, type, symbol, quantity, price, fee and notes columns. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV File</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={formatId} onValueChange={(value: any) => changeFormat(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {CSV_FORMATS.map(format => (
+                  <SelectItem key={format.id} value={format.id}>{format.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {formatError && <p className="text-sm text-red-500">{formatError}</p>}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">{preview.formatName}</Badge>
+              <span className="text-green-500">{preview.newCount} new</span>
+              <span className="text-muted-foreground">· {preview.duplicateCount} already imported</span>
+              {preview.skippedCount > 0 && <span className="text-muted-foreground">· {preview.skippedCount} skipped</span>}
+              {preview.errorCount > 0 && <span className="text-red-500">· {preview.errorCount} with errors</span>}
+            </div>
+            <div className="max-h-80 overflow-auto rounded-md border border-border/50">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell className={cn("capitalize", STATUS_STYLES[row.status])}>{row.status}</TableCell>
+                      <TableCell className="text-xs">
+                        {row.transactions.map((tx, i) => (
+                          <div key={i}>
+                            {new Date(tx.timestamp).toLocaleString()} · {tx.type.replace('_', ' ')} {tx.quantity} {tx.symbol}
+                            {tx.price > 0 && ` @ ${formatMoney(tx.price, 'usd')}`}
+                            {tx.fee > 0 && ` (fee ${formatMoney(tx.fee, 'usd')})`}
+                          </div>
+                        ))}
+                        {row.error && <div className={row.status === 'error' ? "text-red-500" : "text-muted-foreground"}>{row.error}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!preview || preview.newCount === 0 || importing}>
+            {importing ? 'Importing...' : `Import ${preview?.newCount ?? 0} Row${preview?.newCount === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
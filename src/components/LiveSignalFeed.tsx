@@ -1,10 +1,21 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { TradingSignal } from './TradingSignal'
+import { StrategySelector } from './StrategySelector'
 import { blink } from '@/blink/client'
-import { cryptoApi, type CoinGeckoMarket } from '@/services/cryptoApi'
+import type { RiskMethod } from '@/services/riskLevels'
+import { generateStrategySignal, signalCoinFromMarket } from '@/services/signalEngine'
+import { LIVE_COIN_LIMIT } from '@/services/market'
+import { alertEngine, type AlertSignal } from '@/services/alerts'
+import { quoteSignal, webhookDispatcher } from '@/services/webhooks'
+import type { Quote } from '@/services/currency'
+import { signalTracker, type SignalEvent } from '@/services/signalTracking'
+import { strategyRegistry } from '@/services/strategies'
+import type { SignalSettings } from '@/hooks/use-signal-settings'
+import { useTopCoins } from '@/hooks/use-market'
+import { copyLink, paths } from '@/lib/routes'
 import { 
   Activity, 
   TrendingUp, 
@@ -14,7 +25,8 @@ import {
   RefreshCw,
   AlertCircle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Link2
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { toast } from 'sonner'
@@ -25,9 +37,15 @@ interface LiveSignal {
   signalType: 'BUY' | 'SELL' | 'HOLD'
   strength: 'STRONG' | 'MODERATE' | 'WEAK'
   confidenceScore: number
+  // Price the signal was issued at; performance is always measured from here
+  entryPrice: number
+  // Latest price seen while tracking
   currentPrice: number
   targetPrice?: number
   stopLoss?: number
+  riskMethod?: RiskMethod
+  riskReward?: number
+  strategyName?: string
   reasoning: string
   createdAt: string
   isActive: boolean
@@ -35,13 +53,62 @@ interface LiveSignal {
   updatedAt: string
 }
 
+function signalFromRow(signal: any): LiveSignal {
+  return {
+    id: signal.id,
+    symbol: signal.symbol,
+    signalType: signal.signalType as 'BUY' | 'SELL' | 'HOLD',
+    strength: signal.strength as 'STRONG' | 'MODERATE' | 'WEAK',
+    confidenceScore: signal.confidenceScore,
+    // Rows saved before entry prices were recorded only have the last tracked price
+    entryPrice: Number(signal.entryPrice) || signal.currentPrice,
+    currentPrice: signal.currentPrice,
+    targetPrice: signal.targetPrice,
+    stopLoss: signal.stopLoss,
+    riskMethod: signal.riskMethod || undefined,
+    riskReward: signal.riskReward || undefined,
+    strategyName: strategyRegistry.get(signal.strategyId)?.name,
+    reasoning: signal.reasoning,
+    createdAt: signal.createdAt,
+    isActive: Number(signal.isActive) > 0,
+    performancePercentage: signal.performancePercentage || 0,
+    updatedAt: signal.updatedAt
+  }
+}
+
+// Price ticks arrive every second or so; performance is persisted at most this often
+const PERFORMANCE_UPDATE_THROTTLE_MS = 5000
+
+// Toast what happened to a tracked signal; the tracker files it in the inbox
+function toastSignalEvent(event: SignalEvent) {
+  if (event.severity === 'success') toast.success(event.title, { duration: 5000, description: event.description })
+  else if (event.severity === 'critical') toast.error(event.title, { duration: 5000, description: event.description })
+  else toast.info(event.title, { duration: 3000, description: event.description })
+}
+
 interface LiveSignalFeedProps {
   user: any
-  cryptos: any[]
+  signalSettings: SignalSettings
+  onSignalSettingsChange: (changes: Partial<SignalSettings>) => void
+  onExecuteSignal?: (signal: LiveSignal) => void
   onSignalGenerated?: (count: number) => void
+  onSelectSymbol?: (symbol: string) => void
+  quote: Quote
+  // Signal to scroll to and highlight, e.g. when opened from a notification
+  focusSignalId?: string
 }
 
-export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalFeedProps) {
+export function LiveSignalFeed({
+  user,
+  signalSettings,
+  onSignalSettingsChange,
+  onExecuteSignal,
+  onSignalGenerated,
+  onSelectSymbol,
+  quote,
+  focusSignalId
+}: LiveSignalFeedProps) {
+  const cryptos = useTopCoins(LIVE_COIN_LIMIT)
   const [signals, setSignals] = useState<LiveSignal[]>([])
   const [loading, setLoading] = useState(false)
   const [autoGenerating, setAutoGenerating] = useState(false)
@@ -49,6 +116,12 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
   const [nextSignalGeneration, setNextSignalGeneration] = useState<Date | null>(null)
   const [countdown, setCountdown] = useState<number>(0)
   const [isUpdating, setIsUpdating] = useState(false)
+  const [signalsLoaded, setSignalsLoaded] = useState(false)
+  const lastPerformanceUpdate = useRef(0)
+  const updatingRef = useRef(false)
+  // Read through a ref so the price-driven effect doesn't re-run on its own writes
+  const signalsRef = useRef(signals)
+  signalsRef.current = signals
   const [signalStats, setSignalStats] = useState({
     total: 0,
     active: 0,
@@ -68,21 +141,7 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
         limit: 20
       })
 
-      const transformedSignals: LiveSignal[] = recentSignals.map(signal => ({
-        id: signal.id,
-        symbol: signal.symbol,
-        signalType: signal.signalType as 'BUY' | 'SELL' | 'HOLD',
-        strength: signal.strength as 'STRONG' | 'MODERATE' | 'WEAK',
-        confidenceScore: signal.confidenceScore,
-        currentPrice: signal.currentPrice,
-        targetPrice: signal.targetPrice,
-        stopLoss: signal.stopLoss,
-        reasoning: signal.reasoning,
-        createdAt: signal.createdAt,
-        isActive: Number(signal.isActive) > 0,
-        performancePercentage: signal.performancePercentage || 0,
-        updatedAt: signal.updatedAt
-      }))
+      const transformedSignals: LiveSignal[] = recentSignals.map(signalFromRow)
 
       setSignals(transformedSignals)
 
@@ -102,122 +161,43 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
 
     } catch (error) {
       console.error('Failed to load signals:', error)
+    } finally {
+      setSignalsLoaded(true)
     }
   }, [user])
 
   // Update signal performance based on current prices
   const updateSignalPerformance = useCallback(async () => {
-    if (!user || signals.length === 0 || cryptos.length === 0) return
+    if (!user || updatingRef.current || cryptos.length === 0) return
+    const activeSignals = signalsRef.current.filter(s => s.isActive)
+    if (activeSignals.length === 0) return
 
+    updatingRef.current = true
     setIsUpdating(true)
     try {
-      for (const signal of signals.filter(s => s.isActive)) {
-        const crypto = cryptos.find(c => c.symbol === signal.symbol)
-        if (!crypto) continue
-
-        const currentPrice = crypto.currentPrice
-        const initialPrice = signal.currentPrice
-        
-        // Calculate performance percentage
-        let performancePercentage = 0
-        if (signal.signalType === 'BUY') {
-          performancePercentage = ((currentPrice - initialPrice) / initialPrice) * 100
-        } else if (signal.signalType === 'SELL') {
-          performancePercentage = ((initialPrice - currentPrice) / initialPrice) * 100
-        }
-
-        // Check if target or stop loss hit
-        let status = 'active'
-        let isActive = true
-        let shouldNotify = false
-
-        if (signal.targetPrice && signal.signalType === 'BUY' && currentPrice >= signal.targetPrice) {
-          status = 'hit_target'
-          isActive = false
-          shouldNotify = signal.isActive // Only notify if signal was previously active
-          if (shouldNotify) {
-            toast.success(`🎯 Target hit for ${signal.symbol}! +${performancePercentage.toFixed(2)}%`, {
-              duration: 5000,
-              description: `${signal.signalType} signal closed successfully`
-            })
-          }
-        } else if (signal.targetPrice && signal.signalType === 'SELL' && currentPrice <= signal.targetPrice) {
-          status = 'hit_target'
-          isActive = false
-          shouldNotify = signal.isActive
-          if (shouldNotify) {
-            toast.success(`🎯 Target hit for ${signal.symbol}! +${performancePercentage.toFixed(2)}%`, {
-              duration: 5000,
-              description: `${signal.signalType} signal closed successfully`
-            })
-          }
-        } else if (signal.stopLoss && signal.signalType === 'BUY' && currentPrice <= signal.stopLoss) {
-          status = 'hit_stop_loss'
-          isActive = false
-          shouldNotify = signal.isActive
-          if (shouldNotify) {
-            toast.error(`🛑 Stop loss hit for ${signal.symbol}! ${performancePercentage.toFixed(2)}%`, {
-              duration: 5000,
-              description: `${signal.signalType} signal closed with loss`
-            })
-          }
-        } else if (signal.stopLoss && signal.signalType === 'SELL' && currentPrice >= signal.stopLoss) {
-          status = 'hit_stop_loss'
-          isActive = false
-          shouldNotify = signal.isActive
-          if (shouldNotify) {
-            toast.error(`🛑 Stop loss hit for ${signal.symbol}! ${performancePercentage.toFixed(2)}%`, {
-              duration: 5000,
-              description: `${signal.signalType} signal closed with loss`
-            })
-          }
-        }
-
-        // Notify for significant price movements on active signals
-        if (isActive && Math.abs(performancePercentage) > 5) {
-          const lastPerformance = signal.performancePercentage
-          if (Math.abs(performancePercentage - lastPerformance) > 2) {
-            const direction = performancePercentage > lastPerformance ? '📈' : '📉'
-            toast.info(`${direction} ${signal.symbol} ${performancePercentage > 0 ? '+' : ''}${performancePercentage.toFixed(2)}%`, {
-              duration: 3000,
-              description: `Significant price movement detected`
-            })
-          }
-        }
-
-        // Update signal in database
-        await blink.db.recentSignals.update(signal.id, {
-          currentPrice,
-          performancePercentage,
-          isActive,
-          updatedAt: new Date().toISOString()
-        })
-
-        // Log performance update
-        await blink.db.signalUpdates.create({
-          id: `update_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          userId: user.id,
-          signalId: signal.id,
-          priceAtUpdate: currentPrice,
-          performanceChange: performancePercentage,
-          updateType: status === 'active' ? 'price_update' : status
-        })
-
-        // Update local state
-        setSignals(prev => prev.map(s => 
-          s.id === signal.id 
-            ? { ...s, currentPrice, performancePercentage, isActive, updatedAt: new Date().toISOString() }
-            : s
-        ))
-      }
+      const updates = await signalTracker.update(
+        user.id,
+        activeSignals,
+        symbol => cryptos.find(c => c.symbol === symbol)?.currentPrice
+      )
+      updates.forEach(update => update.events.forEach(toastSignalEvent))
+
+      const byId = new Map(updates.map(update => [update.signalId, update]))
+      setSignals(prev => prev.map(s => {
+        const update = byId.get(s.id)
+        if (!update) return s
+        const { currentPrice, performancePercentage, isActive, updatedAt } = update
+        return { ...s, currentPrice, performancePercentage, isActive, updatedAt }
+      }))
 
       setLastSignalUpdate(new Date())
     } catch (error) {
       console.error('Failed to update signal performance:', error)
     } finally {
+      updatingRef.current = false
       setIsUpdating(false)
     }
-  }, [user, signals, cryptos])
+  }, [user, cryptos])
 
   // Generate new AI-powered signals
   const generateNewSignals = useCallback(async () => {
@@ -226,53 +206,25 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
     setLoading(true)
     try {
       const newSignals: LiveSignal[] = []
+      const alertSignals: AlertSignal[] = []
       
       // Generate signals for top performing and trending cryptos
-      const topCryptos = cryptos
+      const topCryptos = [...cryptos]
         .sort((a, b) => Math.abs(b.priceChangePercentage24h) - Math.abs(a.priceChangePercentage24h))
         .slice(0, 6)
       
       for (const crypto of topCryptos) {
-        // Generate technical analysis signal
-        const technicalSignal = cryptoApi.generateTechnicalSignal({
-          id: crypto.id,
-          symbol: crypto.symbol.toLowerCase(),
-          name: crypto.name,
-          image: crypto.image || '',
-          current_price: crypto.currentPrice,
-          market_cap: crypto.marketCap,
-          market_cap_rank: 1,
-          fully_diluted_valuation: crypto.marketCap,
-          total_volume: crypto.volume24h,
-          high_24h: crypto.currentPrice * 1.05,
-          low_24h: crypto.currentPrice * 0.95,
-          price_change_24h: crypto.priceChange24h,
-          price_change_percentage_24h: crypto.priceChangePercentage24h,
-          market_cap_change_24h: crypto.marketCap * (crypto.priceChangePercentage24h / 100),
-          market_cap_change_percentage_24h: crypto.priceChangePercentage24h,
-          circulating_supply: crypto.marketCap / crypto.currentPrice,
-          total_supply: null,
-          max_supply: null,
-          ath: crypto.currentPrice * 2,
-          ath_change_percentage: -50,
-          ath_date: '2021-11-10T14:24:11.849Z',
-          atl: crypto.currentPrice * 0.1,
-          atl_change_percentage: 900,
-          atl_date: '2020-03-13T02:22:55.391Z',
-          roi: null,
-          last_updated: crypto.lastUpdated
-        })
+        const signal = await generateStrategySignal(
+          signalCoinFromMarket(crypto),
+          signalSettings.feedStrategies,
+          { rewardRisk: signalSettings.rewardRisk }
+        )
 
         // Skip HOLD signals for live feed
-        if (technicalSignal.signal === 'HOLD') continue
+        if (!signal || signal.side === 'HOLD') continue
 
-        const targetPrice = technicalSignal.signal === 'BUY' 
-          ? crypto.currentPrice * (1 + Math.random() * 0.12 + 0.03)
-          : crypto.currentPrice * (1 - Math.random() * 0.12 - 0.03)
-          
-        const stopLoss = technicalSignal.signal === 'BUY'
-          ? crypto.currentPrice * (1 - Math.random() * 0.06 - 0.02)
-          : crypto.currentPrice * (1 + Math.random() * 0.06 + 0.02)
+        const targetPrice = signal.levels?.targetPrice
+        const stopLoss = signal.levels?.stopLoss
 
         const signalId = `live_signal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
         const now = new Date().toISOString()
@@ -282,29 +234,60 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
           id: signalId,
           userId: user.id,
           symbol: crypto.symbol,
-          signalType: technicalSignal.signal,
-          strength: technicalSignal.strength,
-          confidenceScore: technicalSignal.confidence,
+          signalType: signal.side,
+          strength: signal.strength,
+          confidenceScore: signal.confidence,
+          entryPrice: crypto.currentPrice,
           currentPrice: crypto.currentPrice,
           targetPrice,
           stopLoss,
-          reasoning: technicalSignal.reasoning,
+          riskMethod: signal.levels?.method,
+          riskReward: signal.levels?.riskReward,
+          strategyId: signal.strategyId,
+          reasoning: signal.reasoning,
           isActive: true,
           performancePercentage: 0,
           createdAt: now,
           updatedAt: now
         })
 
+        alertSignals.push({
+          coinId: crypto.id,
+          symbol: crypto.symbol,
+          side: signal.side,
+          confidence: signal.confidence,
+          strategyName: signal.strategyName
+        })
+        webhookDispatcher.dispatch({
+          type: 'signal',
+          signal: quoteSignal({
+            coinId: crypto.id,
+            symbol: crypto.symbol,
+            side: signal.side,
+            strength: signal.strength,
+            confidence: signal.confidence,
+            price: crypto.currentPrice,
+            targetPrice,
+            stopLoss,
+            strategyName: signal.strategyName,
+            reasoning: signal.reasoning,
+            createdAt: now
+          }, quote)
+        })
         newSignals.push({
           id: signalId,
           symbol: crypto.symbol,
-          signalType: technicalSignal.signal,
-          strength: technicalSignal.strength,
-          confidenceScore: technicalSignal.confidence,
+          signalType: signal.side,
+          strength: signal.strength,
+          confidenceScore: signal.confidence,
+          entryPrice: crypto.currentPrice,
           currentPrice: crypto.currentPrice,
           targetPrice,
           stopLoss,
-          reasoning: technicalSignal.reasoning,
+          riskMethod: signal.levels?.method,
+          riskReward: signal.levels?.riskReward,
+          strategyName: signal.strategyName,
+          reasoning: signal.reasoning,
           createdAt: now,
           isActive: true,
           performancePercentage: 0,
@@ -314,6 +297,7 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
 
       // Add new signals to the beginning of the list
       setSignals(prev => [...newSignals, ...prev].slice(0, 20))
+      alertEngine.recordSignals(alertSignals)
       
       onSignalGenerated?.(newSignals.length)
       toast.success(`🚀 Generated ${newSignals.length} new live signals!`)
@@ -324,7 +308,11 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
     } finally {
       setLoading(false)
     }
-  }, [user, cryptos, onSignalGenerated])
+  }, [user, cryptos, signalSettings, onSignalGenerated, quote])
+
+  // The interval calls the latest generator without restarting on every tick
+  const generateRef = useRef(generateNewSignals)
+  generateRef.current = generateNewSignals
 
   // Auto-generate signals every 3 minutes for more frequent signal updates
   useEffect(() => {
@@ -336,7 +324,7 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
 
     const interval = setInterval(async () => {
       console.log('Auto-generating new signals...')
-      await generateNewSignals()
+      await generateRef.current()
       
       // Update next generation time
       const newNextTime = new Date(Date.now() + 3 * 60 * 1000)
@@ -347,7 +335,7 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
       clearInterval(interval)
       setNextSignalGeneration(null)
     }
-  }, [autoGenerating, user, cryptos, generateNewSignals])
+  }, [autoGenerating, user])
 
   // Countdown timer for next signal generation
   useEffect(() => {
@@ -366,30 +354,57 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
     return () => clearInterval(countdownInterval)
   }, [nextSignalGeneration])
 
-  // Update signal performance every 15 seconds for more frequent updates
+  // Re-evaluate active signals whenever streamed prices change (the callback is
+  // rebuilt with each new set of coins), throttled so every tick doesn't turn
+  // into a round of database writes
   useEffect(() => {
-    if (!user) return
+    if (!user || !signalsRef.current.some(s => s.isActive)) return
+
+    const wait = Math.max(0, lastPerformanceUpdate.current + PERFORMANCE_UPDATE_THROTTLE_MS - Date.now())
+    const timeout = setTimeout(() => {
+      lastPerformanceUpdate.current = Date.now()
+      updateSignalPerformance()
+    }, wait)
 
-    const interval = setInterval(updateSignalPerformance, 15000) // 15 seconds
-    return () => clearInterval(interval)
+    return () => clearTimeout(timeout)
   }, [updateSignalPerformance, user])
 
-  // Additional real-time price monitoring every 5 seconds for active signals
+  // Load signals on mount
   useEffect(() => {
-    if (!user || signals.filter(s => s.isActive).length === 0) return
+    loadSignals()
+  }, [loadSignals])
 
-    const quickUpdateInterval = setInterval(async () => {
-      console.log('Quick price update for active signals...')
-      await updateSignalPerformance()
-    }, 5000) // 5 seconds for active signals only
+  const focusedSignalLoaded = signals.some(signal => signal.id === focusSignalId)
 
-    return () => clearInterval(quickUpdateInterval)
-  }, [updateSignalPerformance, user, signals])
+  // A linked signal older than the loaded page is fetched on its own
+  useEffect(() => {
+    if (!user || !focusSignalId || focusedSignalLoaded || !signalsLoaded) return
+    let cancelled = false
+
+    const loadLinkedSignal = async () => {
+      try {
+        const rows = await blink.db.recentSignals.list({ where: { AND: [{ userId: user.id }, { id: focusSignalId }] }, limit: 1 })
+        if (cancelled) return
+        if (rows.length > 0) {
+          setSignals(prev => (prev.some(signal => signal.id === focusSignalId) ? prev : [...prev, signalFromRow(rows[0])]))
+        } else {
+          toast.error('That signal could not be found')
+        }
+      } catch (error) {
+        console.error('Failed to load linked signal:', error)
+      }
+    }
+    loadLinkedSignal()
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, focusSignalId, focusedSignalLoaded, signalsLoaded])
 
-  // Load signals on mount
   useEffect(() => {
-    loadSignals()
-  }, [loadSignals])
+    if (!focusSignalId || !focusedSignalLoaded) return
+    document.getElementById(`signal-${focusSignalId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [focusSignalId, focusedSignalLoaded])
 
   const getPerformanceColor = (percentage: number) => {
     if (percentage > 2) return 'text-green-500'
@@ -435,6 +450,10 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
                 <Zap className={cn("h-4 w-4", autoGenerating && "animate-pulse")} />
                 Auto {autoGenerating ? 'ON' : 'OFF'}
               </Button>
+              <StrategySelector
+                selected={signalSettings.feedStrategies}
+                onChange={(ids) => onSignalSettingsChange({ feedStrategies: ids })}
+              />
               <Button
                 onClick={() => generateNewSignals()}
                 disabled={loading}
@@ -479,7 +498,7 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
               </div>
               <div className="flex items-center gap-1">
                 <RefreshCw className={cn("h-3 w-3", isUpdating && "animate-spin")} />
-                {isUpdating ? "Updating..." : "Updates every 15s"}
+                {isUpdating ? "Updating..." : "Tracking live prices"}
               </div>
             </div>
             {autoGenerating && (
@@ -504,9 +523,10 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
       <div className="space-y-4">
         {signals.length > 0 ? (
           signals.map((signal) => (
-            <Card key={signal.id} className={cn(
-              "border-border/50 bg-card/50 backdrop-blur-sm transition-all duration-200",
-              !signal.isActive && "opacity-60"
+            <Card key={signal.id} id={`signal-${signal.id}`} className={cn(
+              "border-border/50 bg-card/50 backdrop-blur-sm transition-all duration-200 scroll-mt-24",
+              !signal.isActive && "opacity-60",
+              signal.id === focusSignalId && "ring-2 ring-primary"
             )}>
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
@@ -539,6 +559,15 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
                     <Badge variant={signal.isActive ? "default" : "secondary"} className="text-xs">
                       {signal.isActive ? "Active" : "Closed"}
                     </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => copyLink(paths.signal(signal.id))}
+                      aria-label="Copy link to signal"
+                    >
+                      <Link2 className="h-4 w-4" />
+                    </Button>
                   </div>
                 </div>
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
@@ -553,11 +582,18 @@ export function LiveSignalFeed({ user, cryptos, onSignalGenerated }: LiveSignalF
                   signalType={signal.signalType}
                   strength={signal.strength}
                   confidenceScore={signal.confidenceScore}
+                  entryPrice={signal.entryPrice}
                   currentPrice={signal.currentPrice}
                   targetPrice={signal.targetPrice}
                   stopLoss={signal.stopLoss}
+                  riskMethod={signal.riskMethod}
+                  riskReward={signal.riskReward}
+                  strategyName={signal.strategyName}
                   reasoning={signal.reasoning}
                   createdAt={signal.createdAt}
+                  quote={quote}
+                  onExecute={onExecuteSignal && signal.isActive ? () => onExecuteSignal(signal) : undefined}
+                  onSymbolClick={onSelectSymbol ? () => onSelectSymbol(signal.symbol) : undefined}
                 />
               </CardContent>
             </Card>
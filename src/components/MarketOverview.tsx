@@ -1,10 +1,12 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { TrendingUp, TrendingDown, Activity, DollarSign } from 'lucide-react'
+import { formatMoney, toQuote, type Quote } from '@/services/currency'
 import { cn } from '@/lib/utils'
 
 interface MarketStats {
-  totalMarketCap: number
-  totalVolume24h: number
+  // Totals by lower-case currency code, as the global endpoint reports them
+  totalMarketCap: Record<string, number>
+  totalVolume24h: Record<string, number>
   btcDominance: number
   activeSignals: number
   gainers: number
@@ -13,15 +15,17 @@ interface MarketStats {
 
 interface MarketOverviewProps {
   stats: MarketStats
+  quote: Quote
 }
 
-export function MarketOverview({ stats }: MarketOverviewProps) {
-  const formatLargeNumber = (num: number) => {
-    if (num >= 1e12) return (num / 1e12).toFixed(2) + 'T'
-    if (num >= 1e9) return (num / 1e9).toFixed(2) + 'B'
-    if (num >= 1e6) return (num / 1e6).toFixed(2) + 'M'
-    return num.toLocaleString()
-  }
+export function MarketOverview({ stats, quote }: MarketOverviewProps) {
+  // The reported figure in the quote currency where there is one, otherwise
+  // the dollar figure converted
+  const formatTotal = (totals: Record<string, number>) => formatMoney(
+    totals[quote.currency] ?? toQuote(quote, totals.usd ?? 0),
+    quote.currency,
+    { compact: true }
+  )
 
   const marketSentiment = stats.gainers > stats.losers ? 'bullish' : 'bearish'
 
@@ -33,7 +37,7 @@ export function MarketOverview({ stats }: MarketOverviewProps) {
           <DollarSign className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">${formatLargeNumber(stats.totalMarketCap)}</div>
+          <div className="text-2xl font-bold">{formatTotal(stats.totalMarketCap)}</div>
           <p className="text-xs text-muted-foreground">
             Total cryptocurrency market
           </p>
@@ -46,7 +50,7 @@ export function MarketOverview({ stats }: MarketOverviewProps) {
           <Activity className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">${formatLargeNumber(stats.totalVolume24h)}</div>
+          <div className="text-2xl font-bold">{formatTotal(stats.totalVolume24h)}</div>
           <p className="text-xs text-muted-foreground">
             Trading volume last 24h
           </p>
@@ -0,0 +1,201 @@
+import { useMemo, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  notificationStore,
+  type AppNotification,
+  type NotificationLink,
+  type NotificationSeverity,
+  type NotificationSnapshot,
+  type NotificationType
+} from '@/services/notifications'
+import { AlertTriangle, Bell, BellRing, CheckCheck, CheckCircle, Info, Trash2, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+type Filter = NotificationType | 'all'
+
+const FILTERS: { value: Filter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'signal', label: 'Signals' },
+  { value: 'alert', label: 'Alerts' },
+  { value: 'system', label: 'System' }
+]
+
+const SEVERITY_ICONS: Record<NotificationSeverity, typeof Info> = {
+  info: Info,
+  success: CheckCircle,
+  warning: AlertTriangle,
+  critical: XCircle
+}
+
+const SEVERITY_STYLES: Record<NotificationSeverity, string> = {
+  info: 'text-blue-500',
+  success: 'text-green-500',
+  warning: 'text-amber-500',
+  critical: 'text-red-500'
+}
+
+interface NotificationCenterProps {
+  inbox: NotificationSnapshot
+  onNavigate: (link: NotificationLink) => void
+  onManageAlerts: () => void
+}
+
+export function NotificationCenter({ inbox, onNavigate, onManageAlerts }: NotificationCenterProps) {
+  const [open, setOpen] = useState(false)
+  const [filter, setFilter] = useState<Filter>('all')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  const visible = useMemo(
+    () => inbox.notifications.filter(n => filter === 'all' || n.type === filter),
+    [inbox.notifications, filter]
+  )
+  const unreadByType = useMemo(() => {
+    const counts: Record<Filter, number> = { all: 0, signal: 0, alert: 0, system: 0 }
+    inbox.notifications.filter(n => !n.read).forEach(n => {
+      counts.all += 1
+      counts[n.type] += 1
+    })
+    return counts
+  }, [inbox.notifications])
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const markRead = () => {
+    if (selected.size > 0) {
+      notificationStore.markRead([...selected])
+      setSelected(new Set())
+    } else {
+      notificationStore.markAllRead(filter === 'all' ? undefined : filter)
+    }
+  }
+
+  const removeSelected = () => {
+    notificationStore.remove([...selected])
+    setSelected(new Set())
+  }
+
+  const openNotification = (notification: AppNotification) => {
+    notificationStore.markRead([notification.id])
+    if (notification.link) {
+      setOpen(false)
+      onNavigate(notification.link)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(next) => { setOpen(next); if (!next) setSelected(new Set()) }}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label={`Notifications (${inbox.unreadCount} unread)`}>
+          <Bell className="h-4 w-4" />
+          {inbox.unreadCount > 0 && (
+            <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {inbox.unreadCount > 99 ? '99+' : inbox.unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border/50">
+          <div className="font-semibold">Notifications</div>
+          <div className="flex items-center gap-1">
+            {selected.size > 0 && (
+              <Button size="sm" variant="ghost" className="h-8 gap-1" onClick={removeSelected}>
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-8 gap-1"
+              onClick={markRead}
+              disabled={selected.size === 0 && unreadByType[filter] === 0}
+            >
+              <CheckCheck className="h-4 w-4" />
+              {selected.size > 0 ? `Mark ${selected.size} read` : 'Mark all read'}
+            </Button>
+          </div>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => { setFilter(value as Filter); setSelected(new Set()) }} className="px-4 pt-3">
+          <TabsList className="grid w-full grid-cols-4">
+            {FILTERS.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} className="text-xs">
+                {label}{unreadByType[value] > 0 && ` (${unreadByType[value]})`}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <ScrollArea className="h-96">
+          <div className="p-2">
+            {visible.map(notification => {
+              const Icon = SEVERITY_ICONS[notification.severity]
+              return (
+                <div
+                  key={notification.id}
+                  className={cn(
+                    "group flex items-start gap-3 rounded-md p-2 hover:bg-muted/50",
+                    !notification.read && "bg-primary/5"
+                  )}
+                >
+                  <Checkbox
+                    className="mt-1"
+                    checked={selected.has(notification.id)}
+                    onCheckedChange={(checked) => toggleSelected(notification.id, checked === true)}
+                    aria-label="Select notification"
+                  />
+                  <button
+                    type="button"
+                    className={cn("flex-1 min-w-0 text-left", notification.link && "cursor-pointer")}
+                    onClick={() => openNotification(notification)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <Icon className={cn("h-4 w-4 shrink-0", SEVERITY_STYLES[notification.severity])} />
+                      <span className={cn("text-sm truncate", !notification.read && "font-semibold")}>{notification.title}</span>
+                      {!notification.read && <span className="ml-auto w-2 h-2 rounded-full bg-primary shrink-0" />}
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground whitespace-pre-line line-clamp-3">{notification.body}</p>
+                    <div className="mt-1 text-[11px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      {notification.link && ` · View ${notification.link.kind === 'signal' ? 'signal' : notification.link.symbol}`}
+                    </div>
+                  </button>
+                </div>
+              )
+            })}
+            {visible.length === 0 && (
+              <div className="text-center py-12 text-sm text-muted-foreground">
+                {inbox.loading ? 'Loading notifications...' : 'You\'re all caught up'}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="border-t border-border/50 p-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="w-full gap-2"
+            onClick={() => { setOpen(false); onManageAlerts() }}
+          >
+            <BellRing className="h-4 w-4" />
+            Manage price alerts
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
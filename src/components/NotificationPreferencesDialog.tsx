@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+  desktopNotifier,
+  isQuietTime,
+  type DesktopPermission,
+  type NotificationPreferences,
+  type NotificationSeverity,
+  type NotificationType
+} from '@/services/notifications'
+import { toast } from 'sonner'
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  signal: { label: 'Signals', description: 'Targets, stop losses and big moves on live signals' },
+  alert: { label: 'Price alerts', description: 'Your alert rules firing' },
+  system: { label: 'System', description: 'Failed webhook deliveries and other account events' }
+}
+
+const FALLBACK_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+]
+
+function timezoneOptions(current: string): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+  const zones = intl.supportedValuesOf?.('timeZone') ?? FALLBACK_TIMEZONES
+  return zones.includes(current) ? zones : [current, ...zones]
+}
+
+interface NotificationPreferencesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  preferences: NotificationPreferences
+  onChange: (changes: Partial<NotificationPreferences>) => void
+}
+
+export function NotificationPreferencesDialog({ open, onOpenChange, preferences, onChange }: NotificationPreferencesDialogProps) {
+  const [permission, setPermission] = useState<DesktopPermission>(desktopNotifier.permission)
+  const quietHours = preferences.quietHours
+
+  const toggleDesktop = async (enabled: boolean) => {
+    if (!enabled) {
+      onChange({ desktopEnabled: false })
+      return
+    }
+
+    const result = await desktopNotifier.requestPermission()
+    setPermission(result)
+    if (result === 'granted') {
+      onChange({ desktopEnabled: true })
+    } else if (result === 'unsupported') {
+      toast.error('This browser does not support desktop notifications')
+    } else {
+      toast.error('Notifications are blocked. Allow them for this site in your browser settings.')
+    }
+  }
+
+  const sendTest = async () => {
+    const shown = await desktopNotifier.show({
+      id: `notification_test_${Date.now()}`,
+      title: 'CryptoSignal test notification',
+      body: 'Desktop notifications are working.'
+    }, { force: true })
+    if (!shown) toast.error('Could not show a desktop notification')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>
+            Everything lands in the notification inbox. Desktop notifications are shown only while this tab is in the background.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Desktop notifications</Label>
+              <p className="text-xs text-muted-foreground">
+                {permission === 'unsupported' ? 'Not supported in this browser' :
+                 permission === 'denied' ? 'Blocked in your browser settings' :
+                 'Uses your operating system\'s notifications'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {preferences.desktopEnabled && permission === 'granted' && (
+                <Button size="sm" variant="outline" onClick={sendTest}>Test</Button>
+              )}
+              <Switch
+                checked={preferences.desktopEnabled && permission === 'granted'}
+                onCheckedChange={toggleDesktop}
+                disabled={permission === 'unsupported'}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <Label>Notify me about</Label>
+            {(Object.keys(TYPE_LABELS) as NotificationType[]).map(type => (
+              <div key={type} className="flex items-center justify-between gap-4">
+                <div>
+                  <div className="text-sm">{TYPE_LABELS[type].label}</div>
+                  <p className="text-xs text-muted-foreground">{TYPE_LABELS[type].description}</p>
+                </div>
+                <Switch
+                  checked={preferences.types[type]}
+                  onCheckedChange={(checked) => onChange({ types: { ...preferences.types, [type]: checked } })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>Minimum severity</Label>
+              <p className="text-xs text-muted-foreground">Quieter notifications stay in the inbox only</p>
+            </div>
+            <Select
+              value={preferences.minSeverity}
+              onValueChange={(value: NotificationSeverity) => onChange({ minSeverity: value })}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITY_ORDER.map(severity => (
+                  <SelectItem key={severity} value={severity}>{SEVERITY_LABELS[severity]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>Quiet hours</Label>
+                <p className="text-xs text-muted-foreground">
+                  {quietHours.enabled && isQuietTime(quietHours) ? 'Quiet hours are on right now' : 'No desktop notifications during these hours'}
+                </p>
+              </div>
+              <Switch
+                checked={quietHours.enabled}
+                onCheckedChange={(checked) => onChange({ quietHours: { ...quietHours, enabled: checked } })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="quiet-start" className="text-xs">From</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  value={quietHours.start}
+                  onChange={(e) => onChange({ quietHours: { ...quietHours, start: e.target.value } })}
+                  disabled={!quietHours.enabled}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quiet-end" className="text-xs">Until</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  value={quietHours.end}
+                  onChange={(e) => onChange({ quietHours: { ...quietHours, end: e.target.value } })}
+                  disabled={!quietHours.enabled}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Timezone</Label>
+                <Select
+                  value={quietHours.timezone}
+                  onValueChange={(value) => onChange({ quietHours: { ...quietHours, timezone: value } })}
+                  disabled={!quietHours.enabled}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {timezoneOptions(quietHours.timezone).map(zone => (
+                      <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,418 @@
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import {
+  DEFAULT_STARTING_BALANCE,
+  paperTradingStore,
+  unrealizedPnl,
+  type OrderSide,
+  type OrderStatus,
+  type OrderType,
+  type PaperTradingSnapshot
+} from '@/services/paperTrading'
+import { formatMoney } from '@/services/currency'
+import { Briefcase, RotateCcw, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface PaperTradingPanelProps {
+  paperTrading: PaperTradingSnapshot
+  cryptos: { id: string; symbol: string; name: string; currentPrice: number }[]
+}
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  pending: 'text-muted-foreground',
+  open: 'text-blue-500',
+  filled: 'text-green-500',
+  cancelled: 'text-muted-foreground',
+  rejected: 'text-red-500'
+}
+
+const BRACKET_LABELS = {
+  entry: 'Entry',
+  take_profit: 'Take profit',
+  stop_loss: 'Stop loss'
+}
+
+// The paper account is kept in US dollars whatever the display currency
+function formatCurrency(value: number) {
+  return formatMoney(value, 'usd', { maximumFractionDigits: 2 })
+}
+
+function formatPrice(price: number | undefined) {
+  return price === undefined ? '—' : formatMoney(price, 'usd')
+}
+
+export function PaperTradingPanel({ paperTrading, cryptos }: PaperTradingPanelProps) {
+  const { account, positions, orders, loading } = paperTrading
+  const [coinId, setCoinId] = useState('')
+  const [side, setSide] = useState<OrderSide>('BUY')
+  const [orderType, setOrderType] = useState<OrderType>('market')
+  const [quantity, setQuantity] = useState('')
+  const [triggerPrice, setTriggerPrice] = useState('')
+
+  const priceFor = (id: string) => cryptos.find(crypto => crypto.id === id)?.currentPrice
+  const selectedCoin = cryptos.find(crypto => crypto.id === (coinId || cryptos[0]?.id))
+
+  if (!account) {
+    return (
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardContent className="text-center py-12 text-muted-foreground">
+          <Briefcase className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>{loading ? 'Loading paper trading account...' : 'Sign in to use paper trading.'}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const positionValue = positions.reduce((sum, position) => sum + position.quantity * (priceFor(position.coinId) ?? position.averagePrice), 0)
+  const equity = account.cashBalance + positionValue
+  const totalPnl = equity - account.startingBalance
+
+  const submitOrder = () => {
+    if (!selectedCoin) return
+    try {
+      const order = paperTradingStore.placeOrder({
+        coinId: selectedCoin.id,
+        symbol: selectedCoin.symbol,
+        side,
+        type: orderType,
+        quantity: Number(quantity),
+        limitPrice: orderType === 'limit' ? Number(triggerPrice) : undefined,
+        stopPrice: orderType === 'stop' ? Number(triggerPrice) : undefined
+      }, selectedCoin.currentPrice)
+
+      if (order.status === 'rejected') {
+        toast.error(`Order rejected: ${order.rejectReason}`)
+      } else if (order.status === 'filled') {
+        toast.success(`Filled ${side} ${order.quantity} ${order.symbol} at ${formatPrice(order.fillPrice)}`)
+      } else {
+        toast.success(`${orderType === 'limit' ? 'Limit' : 'Stop'} order placed for ${order.symbol}`)
+      }
+      setQuantity('')
+      setTriggerPrice('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place order')
+    }
+  }
+
+  const summary = [
+    { label: 'Equity', value: formatCurrency(equity) },
+    { label: 'Cash', value: formatCurrency(account.cashBalance) },
+    { label: 'Total P&L', value: formatCurrency(totalPnl), positive: totalPnl >= 0 },
+    { label: 'Realized P&L', value: formatCurrency(account.realizedPnl), positive: account.realizedPnl >= 0 }
+  ]
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map(item => (
+          <Card key={item.label} className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">{item.label}</div>
+              <div className={cn(
+                "text-xl font-bold",
+                item.positive === true && "text-green-500",
+                item.positive === false && "text-red-500"
+              )}>
+                {item.value}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base">New Order</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Coin</Label>
+              <Select value={selectedCoin?.id ?? ''} onValueChange={setCoinId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a coin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cryptos.map(crypto => (
+                    <SelectItem key={crypto.id} value={crypto.id}>
+                      {crypto.symbol} · {formatPrice(crypto.currentPrice)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={side === 'BUY' ? 'default' : 'outline'}
+                onClick={() => setSide('BUY')}
+              >
+                Buy
+              </Button>
+              <Button
+                variant={side === 'SELL' ? 'destructive' : 'outline'}
+                onClick={() => setSide('SELL')}
+              >
+                Sell
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label>Order Type</Label>
+              <Select value={orderType} onValueChange={(value: any) => setOrderType(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="market">Market</SelectItem>
+                  <SelectItem value="limit">Limit</SelectItem>
+                  <SelectItem value="stop">Stop</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paper-quantity">Quantity</Label>
+              <Input
+                id="paper-quantity"
+                type="number"
+                min={0}
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder="0.00"
+              />
+              {selectedCoin && Number(quantity) > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  ≈ {formatCurrency(Number(quantity) * selectedCoin.currentPrice)}
+                </div>
+              )}
+            </div>
+            {orderType !== 'market' && (
+              <div className="space-y-2">
+                <Label htmlFor="paper-trigger">{orderType === 'limit' ? 'Limit Price (USD)' : 'Stop Price (USD)'}</Label>
+                <Input
+                  id="paper-trigger"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={triggerPrice}
+                  onChange={(e) => setTriggerPrice(e.target.value)}
+                  placeholder={selectedCoin ? selectedCoin.currentPrice.toString() : ''}
+                />
+              </div>
+            )}
+            <Button className="w-full" onClick={submitOrder} disabled={!selectedCoin || !(Number(quantity) > 0)}>
+              Place {side === 'BUY' ? 'Buy' : 'Sell'} Order
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2 border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between">
+              Open Positions
+              <Badge variant="outline">{positions.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {positions.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Coin</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Unrealized P&L</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {positions.map(position => {
+                    const price = priceFor(position.coinId)
+                    const pnl = price !== undefined ? unrealizedPnl(position, price) : 0
+                    return (
+                      <TableRow key={position.id}>
+                        <TableCell className="font-medium">{position.symbol}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={position.quantity > 0 ? "text-green-500" : "text-red-500"}>
+                            {position.quantity > 0 ? 'LONG' : 'SHORT'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{Math.abs(position.quantity).toPrecision(6)}</TableCell>
+                        <TableCell>{formatPrice(position.averagePrice)}</TableCell>
+                        <TableCell>{formatPrice(price)}</TableCell>
+                        <TableCell className={pnl >= 0 ? "text-green-500" : "text-red-500"}>
+                          {formatCurrency(pnl)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => paperTradingStore.closePosition(position.coinId, price)}
+                          >
+                            Close
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                No open positions. Place an order or execute a signal to start paper trading.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center justify-between">
+            Order History
+            <Badge variant="outline">{orders.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {orders.length > 0 ? (
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Coin</TableHead>
+                    <TableHead>Side</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map(order => (
+                    <TableRow key={order.id}>
+                      <TableCell className="text-xs">{new Date(order.filledAt ?? order.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="font-medium">{order.symbol}</TableCell>
+                      <TableCell className={order.side === 'BUY' ? "text-green-500" : "text-red-500"}>{order.side}</TableCell>
+                      <TableCell className="capitalize">
+                        {order.type}
+                        {order.bracketRole && (
+                          <span className="block text-xs text-muted-foreground">{BRACKET_LABELS[order.bracketRole]}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{order.quantity.toPrecision(6)}</TableCell>
+                      <TableCell>{formatPrice(order.fillPrice ?? order.limitPrice ?? order.stopPrice)}</TableCell>
+                      <TableCell>{order.fee !== undefined ? formatCurrency(order.fee) : '—'}</TableCell>
+                      <TableCell className={cn("capitalize", STATUS_STYLES[order.status])} title={order.rejectReason}>
+                        {order.status}
+                      </TableCell>
+                      <TableCell>
+                        {(order.status === 'open' || order.status === 'pending') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => paperTradingStore.cancelOrder(order.id)}
+                            aria-label="Cancel order"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No orders yet.</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base">Account Settings</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="paper-fee">Fee per Fill (%)</Label>
+              <Input
+                id="paper-fee"
+                type="number"
+                min={0}
+                step={0.01}
+                defaultValue={account.feeRate * 100}
+                onBlur={(e) => paperTradingStore.updateSettings({ feeRate: Number(e.target.value) / 100 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paper-slippage">Slippage (bps)</Label>
+              <Input
+                id="paper-slippage"
+                type="number"
+                min={0}
+                step={1}
+                defaultValue={account.slippageBps}
+                onBlur={(e) => paperTradingStore.updateSettings({ slippageBps: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paper-allocation">Signal Order Size (% of cash)</Label>
+              <Input
+                id="paper-allocation"
+                type="number"
+                min={1}
+                max={100}
+                step={1}
+                defaultValue={account.signalAllocation * 100}
+                onBlur={(e) => paperTradingStore.updateSettings({ signalAllocation: Number(e.target.value) / 100 })}
+              />
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Reset Account
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset paper account?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This clears all positions and order history and restores the balance to {formatCurrency(DEFAULT_STARTING_BALANCE)}.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => paperTradingStore.resetAccount()}>Reset</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
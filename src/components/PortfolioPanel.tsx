@@ -0,0 +1,309 @@
+import { useMemo } from 'react'
+import { Cell, Pie, PieChart } from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { AddTransactionDialog } from './AddTransactionDialog'
+import { ImportTransactionsDialog } from './ImportTransactionsDialog'
+import type { Portfolio } from '@/hooks/use-portfolio'
+import { useFxHistory } from '@/hooks/use-currency'
+import { amountFractionDigits, formatMoney, rateAt, toQuote, type Quote } from '@/services/currency'
+import {
+  COST_BASIS_LABELS,
+  computeHoldings,
+  convertTransactions,
+  valuePortfolio,
+  type CostBasisMethod,
+  type TransactionType
+} from '@/services/portfolio'
+import { AlertCircle, Trash2, Wallet } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+const ALLOCATION_COLORS = ['--chart-1', '--chart-2', '--chart-3', '--chart-4', '--chart-5']
+// Smaller slices are grouped so the chart stays legible
+const MAX_PIE_SLICES = 6
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  transfer_in: 'Transfer in',
+  transfer_out: 'Transfer out',
+  fee: 'Fee'
+}
+
+interface PortfolioPanelProps {
+  user: any
+  portfolio: Portfolio
+  // Market data for every coin in the transactions
+  cryptos: { id: string; symbol: string; name: string; currentPrice: number }[]
+  // Top markets the dialogs pick coins from
+  marketCryptos: { id: string; symbol: string; name: string; currentPrice: number }[]
+  quote: Quote
+}
+
+function formatQuantity(value: number) {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 8 })
+}
+
+export function PortfolioPanel({ user, portfolio, cryptos, marketCryptos, quote }: PortfolioPanelProps) {
+  const {
+    transactions,
+    costBasisMethod,
+    loading,
+    addTransaction,
+    importTransactions,
+    deleteTransaction,
+    setCostBasisMethod
+  } = portfolio
+
+  // Transactions are recorded in dollars; in another currency each is
+  // restated at the rate on its date, falling back to today's
+  const firstTradeAt = useMemo(
+    () => transactions.length > 0 ? Math.min(...transactions.map(tx => Date.parse(tx.timestamp))) : null,
+    [transactions]
+  )
+  const fxHistory = useFxHistory(quote.currency, firstTradeAt)
+  const quotedTransactions = useMemo(
+    () => convertTransactions(transactions, timestamp => rateAt(fxHistory, timestamp) ?? quote.rate),
+    [transactions, fxHistory, quote.rate]
+  )
+
+  const summary = useMemo(() => {
+    const prices = Object.fromEntries(cryptos.map(crypto => [crypto.id, toQuote(quote, crypto.currentPrice)]))
+    return valuePortfolio(computeHoldings(quotedTransactions, costBasisMethod), prices)
+  }, [quotedTransactions, costBasisMethod, cryptos, quote])
+
+  // Held coins outside the top markets stay selectable
+  const selectableCryptos = useMemo(() => {
+    const listed = new Set(marketCryptos.map(crypto => crypto.id))
+    return [...marketCryptos, ...cryptos.filter(crypto => !listed.has(crypto.id))]
+  }, [marketCryptos, cryptos])
+
+  const formatCurrency = (value: number) => formatMoney(value, quote.currency, { maximumFractionDigits: amountFractionDigits(quote.currency) })
+
+  const openHoldings = summary.holdings.filter(holding => holding.quantity > 0)
+
+  const allocation = useMemo(() => {
+    const priced = openHoldings.filter(holding => holding.marketValue !== null && holding.marketValue > 0)
+    const slices = priced.slice(0, MAX_PIE_SLICES - 1).map(holding => ({ key: holding.coinId, label: holding.symbol, value: holding.marketValue! }))
+    const rest = priced.slice(MAX_PIE_SLICES - 1).reduce((sum, holding) => sum + holding.marketValue!, 0)
+    if (rest > 0) slices.push({ key: 'other', label: 'Other', value: rest })
+    return slices
+  }, [openHoldings])
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    allocation.map((slice, i) => [slice.key, { label: slice.label, color: `hsl(var(${ALLOCATION_COLORS[i % ALLOCATION_COLORS.length]}))` }])
+  )
+
+  const totalPnl = summary.unrealizedPnl + summary.realizedPnl
+  const cards = [
+    { label: 'Total Value', value: formatCurrency(summary.totalValue) },
+    { label: 'Cost Basis', value: formatCurrency(summary.totalCostBasis) },
+    { label: 'Unrealized P&L', value: formatCurrency(summary.unrealizedPnl), positive: summary.unrealizedPnl >= 0 },
+    { label: 'Realized P&L', value: formatCurrency(summary.realizedPnl), positive: summary.realizedPnl >= 0 }
+  ]
+
+  if (!user) {
+    return (
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardContent className="text-center py-12 text-muted-foreground">
+          <Wallet className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>Sign in to track your portfolio.</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Portfolio
+          <span className={cn("text-sm font-normal", totalPnl >= 0 ? "text-green-500" : "text-red-500")}>
+            {totalPnl >= 0 ? '+' : ''}{formatCurrency(totalPnl)} total
+          </span>
+        </h2>
+        <div className="flex items-center gap-2">
+          <Select value={costBasisMethod} onValueChange={(value: any) => setCostBasisMethod(value as CostBasisMethod)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COST_BASIS_LABELS) as CostBasisMethod[]).map(method => (
+                <SelectItem key={method} value={method}>{COST_BASIS_LABELS[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ImportTransactionsDialog coins={selectableCryptos} existing={transactions} onImport={importTransactions} />
+          <AddTransactionDialog cryptos={selectableCryptos} onAdd={addTransaction} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {cards.map(item => (
+          <Card key={item.label} className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">{item.label}</div>
+              <div className={cn(
+                "text-xl font-bold",
+                item.positive === true && "text-green-500",
+                item.positive === false && "text-red-500"
+              )}>
+                {item.value}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {summary.unpricedCount > 0 && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertCircle className="h-4 w-4" />
+          {summary.unpricedCount} holding{summary.unpricedCount > 1 ? 's have' : ' has'} no current price and {summary.unpricedCount > 1 ? 'are' : 'is'} left out of the totals.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2 border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between">
+              Holdings
+              <Badge variant="outline">{openHoldings.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openHoldings.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Avg Cost</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Unrealized</TableHead>
+                    <TableHead>Realized</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openHoldings.map(holding => (
+                    <TableRow key={holding.coinId}>
+                      <TableCell className="font-medium">
+                        {holding.symbol}
+                        {holding.allocationPercentage !== null && (
+                          <span className="block text-xs text-muted-foreground">{holding.allocationPercentage.toFixed(1)}%</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatQuantity(holding.quantity)}</TableCell>
+                      <TableCell>{formatCurrency(holding.averageCost)}</TableCell>
+                      <TableCell>{holding.price !== null ? formatCurrency(holding.price) : '—'}</TableCell>
+                      <TableCell>{holding.marketValue !== null ? formatCurrency(holding.marketValue) : '—'}</TableCell>
+                      <TableCell className={cn((holding.unrealizedPnl ?? 0) >= 0 ? "text-green-500" : "text-red-500")}>
+                        {holding.unrealizedPnl !== null ? formatCurrency(holding.unrealizedPnl) : '—'}
+                        {holding.unrealizedPnlPercentage !== null && (
+                          <span className="block text-xs">
+                            {holding.unrealizedPnlPercentage >= 0 ? '+' : ''}{holding.unrealizedPnlPercentage.toFixed(2)}%
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className={holding.realizedPnl >= 0 ? "text-green-500" : "text-red-500"}>
+                        {formatCurrency(holding.realizedPnl)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                {loading ? 'Loading holdings...' : 'No holdings yet. Add a transaction to get started.'}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle className="text-base">Allocation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {allocation.length > 0 ? (
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+                  <Pie data={allocation} dataKey="value" nameKey="key" innerRadius={50} strokeWidth={2}>
+                    {allocation.map(slice => (
+                      <Cell key={slice.key} fill={`var(--color-${slice.key})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+                </PieChart>
+              </ChartContainer>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">Nothing to chart yet.</div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center justify-between">
+            Transactions
+            <Badge variant="outline">{transactions.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {transactions.length > 0 ? (
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Asset</TableHead>
+                    <TableHead>Quantity</TableHead>
+                    <TableHead>Price</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quotedTransactions.map(tx => (
+                    <TableRow key={tx.id}>
+                      <TableCell className="text-xs">{new Date(tx.timestamp).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn(
+                          tx.type === 'buy' && "text-green-500",
+                          tx.type === 'sell' && "text-red-500"
+                        )}>
+                          {TRANSACTION_LABELS[tx.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{tx.symbol}</TableCell>
+                      <TableCell>{formatQuantity(tx.quantity)}</TableCell>
+                      <TableCell>{tx.price > 0 ? formatCurrency(tx.price) : '—'}</TableCell>
+                      <TableCell>{tx.fee > 0 ? formatCurrency(tx.fee) : '—'}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-48 truncate">{tx.notes}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => deleteTransaction(tx.id)} aria-label="Delete transaction">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">No transactions recorded.</div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
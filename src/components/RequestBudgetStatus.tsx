@@ -0,0 +1,36 @@
+import { marketDataChain, type ProviderBudget } from '@/services/marketData'
+import { useRequestBudget } from '@/hooks/use-request-budget'
+import { useValidationReports } from '@/hooks/use-validation-reports'
+import { cn } from '@/lib/utils'
+
+function describeBudget(name: string, budget: ProviderBudget) {
+  if (budget.blockedUntil) {
+    return `${name} rate limited, resuming in ${Math.max(1, Math.ceil((budget.blockedUntil - Date.now()) / 1000))}s`
+  }
+  const queued = budget.queued > 0 ? ` · ${budget.queued} queued` : ''
+  return `${name} ${budget.tokens}/${budget.capacity} requests${queued}`
+}
+
+// Request budget of the provider serving market data, plus any provider that
+// is currently rate limited. Malformed responses dropped so far are listed in
+// the tooltip.
+export function RequestBudgetStatus() {
+  const { budgets } = useRequestBudget()
+  const { rejected } = useValidationReports()
+  const providers = marketDataChain.getStatus().filter(provider => budgets[provider.id])
+  const activeId = marketDataChain.activeProvider?.id ?? providers[0]?.id
+  const shown = providers.filter(provider => provider.id === activeId || budgets[provider.id].blockedUntil)
+  if (shown.length === 0) return null
+
+  const limited = shown.some(provider => budgets[provider.id].blockedUntil)
+  const summary = [
+    ...providers.map(provider => `${describeBudget(provider.name, budgets[provider.id])} (${budgets[provider.id].refillPerMinute}/min)`),
+    ...Object.entries(rejected).map(([source, count]) => `${source.replace(':', ' ')}: ${count} malformed dropped`)
+  ].join('\n')
+
+  return (
+    <div className={cn("text-xs", limited ? "text-amber-500" : "opacity-75")} title={summary}>
+      API budget: {shown.map(provider => describeBudget(provider.name, budgets[provider.id])).join(' • ')}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { cn } from '@/lib/utils'
+
+interface SparklineProps {
+  values: number[]
+  width?: number
+  height?: number
+  className?: string
+}
+
+// Line of a price series, green when it ends higher than it started
+export function Sparkline({ values, width = 120, height = 32, className }: SparklineProps) {
+  if (values.length < 2) return null
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+  const points = values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * width
+      const y = height - ((value - min) / range) * height
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+      height={height}
+      preserveAspectRatio="none"
+      className={cn(values[values.length - 1] >= values[0] ? "text-primary" : "text-destructive", className)}
+      aria-hidden="true"
+    >
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  )
+}
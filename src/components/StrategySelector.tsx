@@ -0,0 +1,75 @@
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { strategyRegistry } from '@/services/strategies'
+import { SlidersHorizontal } from 'lucide-react'
+
+const REWARD_RISK_OPTIONS = [1.5, 2, 3]
+
+interface StrategySelectorProps {
+  selected: string[]
+  onChange: (ids: string[]) => void
+  rewardRisk?: number
+  onRewardRiskChange?: (rewardRisk: number) => void
+}
+
+export function StrategySelector({ selected, onChange, rewardRisk, onRewardRiskChange }: StrategySelectorProps) {
+  const strategies = strategyRegistry.list()
+
+  const toggleStrategy = (id: string, checked: boolean) => {
+    const next = checked ? [...selected, id] : selected.filter(s => s !== id)
+    // Always keep at least one strategy selected
+    if (next.length > 0) onChange(next)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Strategies ({selected.length})
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Signal Strategies</DropdownMenuLabel>
+        {strategies.map(strategy => (
+          <DropdownMenuCheckboxItem
+            key={strategy.id}
+            checked={selected.includes(strategy.id)}
+            onCheckedChange={(checked) => toggleStrategy(strategy.id, checked === true)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <div>
+              <div className="font-medium">{strategy.name}</div>
+              <div className="text-xs text-muted-foreground">{strategy.description}</div>
+            </div>
+          </DropdownMenuCheckboxItem>
+        ))}
+        {rewardRisk !== undefined && onRewardRiskChange && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Reward:Risk Target</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={String(rewardRisk)}
+              onValueChange={(value) => onRewardRiskChange(Number(value))}
+            >
+              {REWARD_RISK_OPTIONS.map(option => (
+                <DropdownMenuRadioItem key={option} value={String(option)}>
+                  1:{option}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -3,18 +3,28 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { TrendingUp, TrendingDown, Minus, Clock, Target, Shield } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { RISK_METHOD_LABELS, type RiskMethod } from '@/services/riskLevels'
+import { formatQuote, type Quote } from '@/services/currency'
 
 interface TradingSignalProps {
   symbol: string
   signalType: 'BUY' | 'SELL' | 'HOLD'
   strength: 'STRONG' | 'MODERATE' | 'WEAK'
   confidenceScore: number
+  // Levels are measured from the entry; signals that aren't tracked use the current price
+  entryPrice?: number
   currentPrice: number
   targetPrice?: number
   stopLoss?: number
+  riskMethod?: RiskMethod
+  riskReward?: number
+  strategyName?: string
   reasoning: string
   createdAt: string
+  // Prices are recorded in dollars and shown in the quote currency
+  quote: Quote
   onExecute?: () => void
+  onSymbolClick?: () => void
 }
 
 export function TradingSignal({
@@ -23,11 +33,17 @@ export function TradingSignal({
   strength,
   confidenceScore,
   currentPrice,
+  entryPrice = currentPrice,
   targetPrice,
   stopLoss,
+  riskMethod,
+  riskReward,
+  strategyName,
   reasoning,
   createdAt,
-  onExecute
+  quote,
+  onExecute,
+  onSymbolClick
 }: TradingSignalProps) {
   const getSignalIcon = () => {
     switch (signalType) {
@@ -70,21 +86,25 @@ export function TradingSignal({
     })
   }
 
-  const formatPrice = (price: number) => {
-    return price.toLocaleString('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: price < 1 ? 6 : 2
-    })
-  }
+  const formatPrice = (price: number) => formatQuote(quote, price)
 
   return (
     <Card className="border-border/50 bg-card/50 backdrop-blur-sm hover:bg-card/80 transition-all duration-200">
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg font-semibold">{symbol}</CardTitle>
+          <CardTitle className="text-lg font-semibold">
+            {onSymbolClick ? (
+              <button type="button" onClick={onSymbolClick} className="hover:underline">{symbol}</button>
+            ) : (
+              symbol
+            )}
+          </CardTitle>
           <div className="flex items-center gap-2">
+            {strategyName && (
+              <Badge variant="secondary" className="text-xs">
+                {strategyName}
+              </Badge>
+            )}
             <Badge className={cn("text-xs", getStrengthColor())}>
               {strength}
             </Badge>
@@ -131,6 +151,25 @@ export function TradingSignal({
             </div>
           )}
         </div>
+
+        {targetPrice && stopLoss && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground border-t border-border/50 pt-3">
+            <div>
+              Risk/Reward:{' '}
+              <span className="font-medium text-foreground">
+                1:{(riskReward ?? Math.abs(targetPrice - entryPrice) / Math.abs(entryPrice - stopLoss)).toFixed(1)}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span>Risk {(Math.abs(entryPrice - stopLoss) / entryPrice * 100).toFixed(2)}%</span>
+              {riskMethod && (
+                <Badge variant="outline" className="text-xs">
+                  {RISK_METHOD_LABELS[riskMethod]}
+                </Badge>
+              )}
+            </div>
+          </div>
+        )}
         
         <div>
           <div className="text-sm text-muted-foreground mb-1">Analysis</div>
@@ -0,0 +1,428 @@
+import { useState } from 'react'
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import {
+  WatchlistError,
+  watchlistStore,
+  type Watchlist,
+  type WatchlistItem,
+  type WatchlistSnapshot
+} from '@/services/watchlists'
+import { formatQuote, type Quote } from '@/services/currency'
+import { ArrowRightLeft, GripVertical, Pencil, Plus, Star, StickyNote, Trash2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+interface WatchlistCoin {
+  id: string
+  symbol: string
+  name: string
+  currentPrice: number
+  priceChangePercentage24h: number
+  image?: string
+}
+
+interface WatchlistPanelProps {
+  watchlists: WatchlistSnapshot
+  cryptos: WatchlistCoin[]
+  quote: Quote
+  onBrowse: () => void
+  onSelectCoin: (coin: WatchlistCoin) => void
+}
+
+function showWatchlistError(error: unknown) {
+  if (error instanceof WatchlistError) {
+    toast.error(error.message)
+  } else {
+    console.error('Watchlist update failed:', error)
+    toast.error('Failed to update watchlist. Please try again.')
+  }
+}
+
+function withErrorToast(action: () => unknown) {
+  try {
+    const result = action()
+    if (result instanceof Promise) result.catch(showWatchlistError)
+  } catch (error) {
+    showWatchlistError(error)
+  }
+}
+
+// Name prompt shared by "new list" and "rename"
+function ListNameForm({ initial, submitLabel, onSubmit }: { initial: string; submitLabel: string; onSubmit: (name: string) => void }) {
+  const [name, setName] = useState(initial)
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit(name)
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="watchlist-name">Name</Label>
+        <Input id="watchlist-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+      </div>
+      <Button type="submit" size="sm" className="w-full">{submitLabel}</Button>
+    </form>
+  )
+}
+
+function ItemDetailsForm({ item, onDone }: { item: WatchlistItem; onDone: () => void }) {
+  const [notes, setNotes] = useState(item.notes)
+  const [tags, setTags] = useState(item.tags.join(', '))
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`notes-${item.id}`}>Notes</Label>
+        <Textarea id={`notes-${item.id}`} rows={3} value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`tags-${item.id}`}>Tags</Label>
+        <Input
+          id={`tags-${item.id}`}
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="layer-1, long-term"
+        />
+        <p className="text-xs text-muted-foreground">Separate tags with commas</p>
+      </div>
+      <Button
+        size="sm"
+        className="w-full"
+        onClick={() => {
+          watchlistStore.updateItem(item.id, { notes: notes.trim(), tags: tags.split(',') })
+          onDone()
+        }}
+      >
+        Save
+      </Button>
+    </div>
+  )
+}
+
+interface WatchlistRowProps {
+  item: WatchlistItem
+  coin?: WatchlistCoin
+  otherLists: Watchlist[]
+  quote: Quote
+  onSelect: (coin: WatchlistCoin) => void
+}
+
+function WatchlistRow({ item, coin, otherLists, quote, onSelect }: WatchlistRowProps) {
+  const [editing, setEditing] = useState(false)
+  const { attributes, listeners, setNodeRef: setDragRef, transform, isDragging } = useDraggable({ id: item.id })
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id: item.id, data: { type: 'item' } })
+  const isPositive = (coin?.priceChangePercentage24h ?? 0) >= 0
+
+  return (
+    <div
+      ref={(node) => {
+        setDragRef(node)
+        setDropRef(node)
+      }}
+      style={transform ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` } : undefined}
+      className={cn(
+        "flex items-start gap-3 rounded-md border border-border/50 bg-card/50 p-3",
+        isDragging && "relative z-10 shadow-lg opacity-90",
+        isOver && !isDragging && "border-primary"
+      )}
+    >
+      <button
+        type="button"
+        className="mt-1 cursor-grab text-muted-foreground hover:text-foreground active:cursor-grabbing"
+        aria-label={`Reorder ${item.symbol}`}
+        {...listeners}
+        {...attributes}
+      >
+        <GripVertical className="h-4 w-4" />
+      </button>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <button
+          type="button"
+          className="flex items-center gap-2 text-left enabled:hover:underline"
+          disabled={!coin}
+          onClick={() => coin && onSelect(coin)}
+        >
+          {coin?.image && <img src={coin.image} alt="" className="w-5 h-5 rounded-full" />}
+          <span className="font-semibold">{item.symbol}</span>
+          {coin && <span className="text-sm text-muted-foreground truncate">{coin.name}</span>}
+        </button>
+        {item.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {item.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="text-xs">{tag}</Badge>
+            ))}
+          </div>
+        )}
+        {item.notes && <p className="text-sm text-muted-foreground whitespace-pre-line">{item.notes}</p>}
+      </div>
+
+      <div className="text-right">
+        {coin ? (
+          <>
+            <div className="font-medium">{formatQuote(quote, coin.currentPrice)}</div>
+            <div className={cn("text-sm", isPositive ? "text-primary" : "text-destructive")}>
+              {isPositive ? '+' : ''}{coin.priceChangePercentage24h.toFixed(2)}%
+            </div>
+          </>
+        ) : (
+          <div className="text-sm text-muted-foreground">Price unavailable</div>
+        )}
+      </div>
+
+      <div className="flex items-center">
+        <Popover open={editing} onOpenChange={setEditing}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Edit notes and tags">
+              <StickyNote className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72">
+            <ItemDetailsForm item={item} onDone={() => setEditing(false)} />
+          </PopoverContent>
+        </Popover>
+        {otherLists.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Move to another list">
+                <ArrowRightLeft className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              {otherLists.map(list => (
+                <DropdownMenuItem key={list.id} onClick={() => watchlistStore.moveItem(item.id, list.id)}>
+                  {list.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-8 w-8 p-0"
+          onClick={() => watchlistStore.removeItem(item.id)}
+          aria-label={`Remove ${item.symbol}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function ListDropTarget({ list, count }: { list: Watchlist; count: number }) {
+  const { setNodeRef, isOver } = useDroppable({ id: `list:${list.id}`, data: { type: 'list', listId: list.id } })
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "rounded-md border border-dashed px-3 py-2 text-sm",
+        isOver ? "border-primary bg-primary/10 text-foreground" : "border-border text-muted-foreground"
+      )}
+    >
+      {list.name} ({count})
+    </div>
+  )
+}
+
+export function WatchlistPanel({ watchlists, cryptos, quote, onBrowse, onSelectCoin }: WatchlistPanelProps) {
+  const [creating, setCreating] = useState(false)
+  const [renaming, setRenaming] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 4 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  const activeList = watchlists.lists.find(list => list.id === watchlists.activeListId)
+  const items = watchlists.items
+    .filter(item => item.watchlistId === watchlists.activeListId)
+    .sort((a, b) => a.position - b.position)
+  const otherLists = watchlists.lists.filter(list => list.id !== watchlists.activeListId)
+  const countOf = (listId: string) => watchlists.items.filter(item => item.watchlistId === listId).length
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragging(false)
+    if (!over || !watchlists.activeListId || active.id === over.id) return
+
+    if (over.data.current?.type === 'list') {
+      const target = watchlists.lists.find(list => list.id === over.data.current?.listId)
+      watchlistStore.moveItem(String(active.id), over.data.current.listId)
+      if (target) toast.success(`Moved to ${target.name}`)
+    } else {
+      watchlistStore.moveItem(String(active.id), watchlists.activeListId, items.findIndex(item => item.id === over.id))
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h2 className="text-xl font-semibold mr-2">Watchlists</h2>
+          <Select value={watchlists.activeListId ?? undefined} onValueChange={(value) => watchlistStore.setActiveList(value)}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Choose a watchlist" />
+            </SelectTrigger>
+            <SelectContent>
+              {watchlists.lists.map(list => (
+                <SelectItem key={list.id} value={list.id}>{list.name} ({countOf(list.id)})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Popover open={creating} onOpenChange={setCreating}>
+            <PopoverTrigger asChild>
+              <Button size="sm" variant="outline" className="gap-2">
+                <Plus className="h-4 w-4" />
+                New List
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64">
+              <ListNameForm
+                initial=""
+                submitLabel="Create"
+                onSubmit={(name) => withErrorToast(() => {
+                  watchlistStore.createList(name)
+                  setCreating(false)
+                })}
+              />
+            </PopoverContent>
+          </Popover>
+
+          {activeList && (
+            <Popover open={renaming} onOpenChange={setRenaming}>
+              <PopoverTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Rename watchlist">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-64">
+                <ListNameForm
+                  key={activeList.id}
+                  initial={activeList.name}
+                  submitLabel="Rename"
+                  onSubmit={(name) => withErrorToast(() => {
+                    watchlistStore.renameList(activeList.id, name)
+                    setRenaming(false)
+                  })}
+                />
+              </PopoverContent>
+            </Popover>
+          )}
+
+          {activeList && watchlists.lists.length > 1 && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label="Delete watchlist">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete "{activeList.name}"?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The list and its {items.length} coin{items.length === 1 ? '' : 's'}, notes and tags will be removed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => withErrorToast(() => watchlistStore.deleteList(activeList.id))}>
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        <Badge variant="outline" className="gap-1 self-start sm:self-auto">
+          <Star className="h-3 w-3" />
+          {items.length} items
+        </Badge>
+      </div>
+
+      <DndContext
+        sensors={sensors}
+        collisionDetection={closestCenter}
+        onDragStart={() => setDragging(true)}
+        onDragCancel={() => setDragging(false)}
+        onDragEnd={handleDragEnd}
+      >
+        {dragging && otherLists.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Drop on a list to move:</span>
+            {otherLists.map(list => (
+              <ListDropTarget key={list.id} list={list} count={countOf(list.id)} />
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 ? (
+          <div className="space-y-2">
+            {items.map(item => (
+              <WatchlistRow
+                key={item.id}
+                item={item}
+                coin={cryptos.find(crypto => crypto.id === item.coinId)}
+                otherLists={otherLists}
+                quote={quote}
+                onSelect={onSelectCoin}
+              />
+            ))}
+          </div>
+        ) : (
+          <Card className="border-border/50 bg-card/50 backdrop-blur-sm">
+            <CardContent className="text-center py-12 text-muted-foreground">
+              <Star className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{watchlists.loading ? 'Loading watchlists...' : `${activeList?.name ?? 'This watchlist'} is empty`}</p>
+              <p className="text-sm">Click the star icon on any cryptocurrency to add it to the selected watchlist.</p>
+              <Button variant="outline" className="mt-4" onClick={onBrowse}>
+                Browse Cryptocurrencies
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </DndContext>
+    </div>
+  )
+}
@@ -0,0 +1,305 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DEFAULT_JSON_TEMPLATE,
+  WEBHOOK_FORMAT_LABELS,
+  WebhookConfigError,
+  webhookDispatcher,
+  type DeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEventType,
+  type WebhookFormat,
+  type WebhookSnapshot
+} from '@/services/webhooks'
+import { Pencil, Plus, Send, Trash2, Webhook } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
+
+const FORMATS = Object.keys(WEBHOOK_FORMAT_LABELS) as WebhookFormat[]
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  signal: 'Trading signals',
+  alert: 'Price alerts'
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'text-amber-500',
+  success: 'text-green-500',
+  failed: 'text-red-500'
+}
+
+interface WebhooksDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  webhooks: WebhookSnapshot
+}
+
+interface EndpointFormProps {
+  endpoint?: WebhookEndpoint
+  onDone: () => void
+}
+
+function EndpointForm({ endpoint, onDone }: EndpointFormProps) {
+  const [name, setName] = useState(endpoint?.name ?? '')
+  const [url, setUrl] = useState(endpoint?.url ?? '')
+  const [format, setFormat] = useState<WebhookFormat>(endpoint?.format ?? 'slack')
+  const [events, setEvents] = useState<WebhookEventType[]>(endpoint?.events ?? ['signal', 'alert'])
+  const [secret, setSecret] = useState(endpoint?.secret ?? '')
+  const [template, setTemplate] = useState(endpoint?.template ?? '')
+  const [chatId, setChatId] = useState(endpoint?.telegramChatId ?? '')
+
+  const toggleEvent = (type: WebhookEventType, checked: boolean) => {
+    setEvents(prev => (checked ? [...prev, type] : prev.filter(t => t !== type)))
+  }
+
+  const handleSave = () => {
+    const input = {
+      name,
+      url: url.trim(),
+      format,
+      events,
+      secret: secret.trim() || undefined,
+      template: format === 'json' && template.trim() ? template : undefined,
+      telegramChatId: format === 'telegram' ? chatId.trim() : undefined
+    }
+
+    try {
+      if (endpoint) {
+        webhookDispatcher.updateEndpoint(endpoint.id, input)
+      } else {
+        webhookDispatcher.createEndpoint(input)
+      }
+      toast.success(`Saved webhook "${name.trim()}"`)
+      onDone()
+    } catch (error) {
+      if (error instanceof WebhookConfigError) {
+        toast.error(error.message)
+      } else {
+        console.error('Failed to save webhook:', error)
+        toast.error('Failed to save webhook. Please try again.')
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-name">Name</Label>
+          <Input id="webhook-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Team channel" />
+        </div>
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={format} onValueChange={(value: WebhookFormat) => setFormat(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FORMATS.map(value => (
+                <SelectItem key={value} value={value}>{WEBHOOK_FORMAT_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="webhook-url">URL</Label>
+        <Input
+          id="webhook-url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder={format === 'telegram' ? 'https://api.telegram.org/bot<token>/sendMessage' : 'https://hooks.example.com/...'}
+        />
+      </div>
+
+      {format === 'telegram' && (
+        <div className="space-y-2">
+          <Label htmlFor="webhook-chat">Chat ID</Label>
+          <Input id="webhook-chat" value={chatId} onChange={(e) => setChatId(e.target.value)} placeholder="-1001234567890" />
+        </div>
+      )}
+
+      {format === 'json' && (
+        <div className="space-y-2">
+          <Label htmlFor="webhook-template">Body template</Label>
+          <Textarea
+            id="webhook-template"
+            className="font-mono text-xs"
+            rows={8}
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder={DEFAULT_JSON_TEMPLATE}
+          />
+          <p className="text-xs text-muted-foreground">
+            Use {'{{title}}'}, {'{{text}}'}, {'{{type}}'}, {'{{timestamp}}'} or fields such as {'{{data.symbol}}'} inside strings,
+            and {'{{{data}}}'} for raw JSON. Leave empty for the default shape.
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-secret">Signing secret (optional)</Label>
+          <Input id="webhook-secret" type="password" value={secret} onChange={(e) => setSecret(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Send</Label>
+          <div className="flex items-center gap-4 h-10">
+            {(Object.keys(EVENT_LABELS) as WebhookEventType[]).map(type => (
+              <label key={type} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={events.includes(type)} onCheckedChange={(checked) => toggleEvent(type, checked === true)} />
+                {EVENT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onDone}>Cancel</Button>
+        <Button onClick={handleSave}>{endpoint ? 'Save Changes' : 'Add Webhook'}</Button>
+      </div>
+    </div>
+  )
+}
+
+export function WebhooksDialog({ open, onOpenChange, webhooks }: WebhooksDialogProps) {
+  // undefined: list view, null: new endpoint, otherwise the endpoint being edited
+  const [editing, setEditing] = useState<WebhookEndpoint | null | undefined>(undefined)
+
+  const sendTest = async (endpoint: WebhookEndpoint) => {
+    toast.info(`Sending test to ${endpoint.name}...`)
+    const delivery = await webhookDispatcher.sendTest(endpoint.id)
+    if (delivery?.status === 'success') {
+      toast.success(`Test delivered to ${endpoint.name}`)
+    } else {
+      toast.error(`Test to ${endpoint.name} failed${delivery?.error ? `: ${delivery.error}` : ''}`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { onOpenChange(next); if (!next) setEditing(undefined) }}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </DialogTitle>
+          <DialogDescription>
+            Forward trading signals and fired alerts to Slack, Discord, Telegram or any HTTP endpoint.
+            Signed requests carry an HMAC-SHA256 signature of the timestamp and body.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing !== undefined ? (
+          <EndpointForm key={editing?.id ?? 'new'} endpoint={editing ?? undefined} onDone={() => setEditing(undefined)} />
+        ) : (
+          <Tabs defaultValue="endpoints">
+            <div className="flex items-center justify-between">
+              <TabsList>
+                <TabsTrigger value="endpoints">Endpoints ({webhooks.endpoints.length})</TabsTrigger>
+                <TabsTrigger value="log">Delivery log</TabsTrigger>
+              </TabsList>
+              <Button size="sm" className="gap-2" onClick={() => setEditing(null)}>
+                <Plus className="h-4 w-4" />
+                Add Webhook
+              </Button>
+            </div>
+
+            <TabsContent value="endpoints" className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {webhooks.endpoints.map(endpoint => (
+                <div key={endpoint.id} className={cn("rounded-md border border-border/50 p-3", !endpoint.enabled && "opacity-60")}>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{endpoint.name}</span>
+                      <Badge variant="outline" className="text-xs">{WEBHOOK_FORMAT_LABELS[endpoint.format]}</Badge>
+                      {endpoint.secret && <Badge variant="secondary" className="text-xs">Signed</Badge>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={endpoint.enabled}
+                        onCheckedChange={(checked) => webhookDispatcher.setEnabled(endpoint.id, checked)}
+                      />
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => sendTest(endpoint)}>
+                        <Send className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setEditing(endpoint)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => webhookDispatcher.deleteEndpoint(endpoint.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground truncate">{endpoint.url}</div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {endpoint.events.map(type => EVENT_LABELS[type]).join(' · ')}
+                  </div>
+                </div>
+              ))}
+              {!webhooks.loading && webhooks.endpoints.length === 0 && (
+                <div className="text-center py-12 text-muted-foreground">
+                  <p>No webhooks yet</p>
+                  <p className="text-sm">Add one to route signals and alerts into your chat tools</p>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="log" className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Webhook</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Response</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {webhooks.deliveries.map(delivery => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-xs">{new Date(delivery.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{delivery.endpointName}</TableCell>
+                      <TableCell className="capitalize">{delivery.eventType}</TableCell>
+                      <TableCell className={cn("capitalize", STATUS_STYLES[delivery.status])}>{delivery.status}</TableCell>
+                      <TableCell className="text-right">{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {delivery.error ?? (delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—')}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {webhooks.deliveries.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                        No deliveries yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
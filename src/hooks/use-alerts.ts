@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { toast } from 'sonner'
+import { alertEngine } from '@/services/alerts'
+
+// Alert rules and fired alerts for the signed-in user. Fired alerts are
+// surfaced as toasts, so mount this once near the top of the app.
+export function useAlerts(user: any) {
+  useEffect(() => {
+    if (user) alertEngine.load(user.id)
+  }, [user])
+
+  useEffect(() => alertEngine.onTrigger(event => {
+    toast.warning(event.ruleName, {
+      description: event.details.join(' · '),
+      duration: 8000
+    })
+  }), [])
+
+  return useSyncExternalStore(alertEngine.subscribe, alertEngine.getSnapshot)
+}
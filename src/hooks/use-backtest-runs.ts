@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { blink } from '@/blink/client'
+import {
+  downsampleCurve,
+  type BacktestConfig,
+  type BacktestDataSource,
+  type BacktestMetrics,
+  type BacktestTrade,
+  type EquityPoint,
+  type PortfolioBacktestResult
+} from '@/services/backtest'
+
+// Keeps saved rows small; the chart can't show more than this anyway
+const STORED_EQUITY_POINTS = 300
+
+export interface SavedBacktestRun {
+  id: string
+  name: string
+  source: BacktestDataSource
+  coinIds: string[]
+  config: BacktestConfig
+  metrics: BacktestMetrics
+  equityCurve: EquityPoint[]
+  trades: BacktestTrade[]
+  from: number
+  to: number
+  createdAt: string
+}
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return JSON.parse(String(value)) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function useBacktestRuns(user: any) {
+  const [runs, setRuns] = useState<SavedBacktestRun[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const loadRuns = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const rows = await blink.db.backtestRuns.list({
+        where: { userId: user.id },
+        orderBy: { createdAt: 'desc' },
+        limit: 50
+      })
+      setRuns(rows.map((row: any) => ({
+        id: row.id,
+        name: row.name,
+        source: row.source,
+        coinIds: parseJson(row.coinIds, []),
+        config: parseJson(row.config, {} as BacktestConfig),
+        metrics: parseJson(row.metrics, {} as BacktestMetrics),
+        equityCurve: parseJson(row.equityCurve, []),
+        trades: parseJson(row.trades, []),
+        from: Number(row.fromTime),
+        to: Number(row.toTime),
+        createdAt: row.createdAt
+      })))
+    } catch (error) {
+      console.error('Failed to load backtest runs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadRuns()
+  }, [loadRuns])
+
+  const saveRun = useCallback(async (name: string, source: BacktestDataSource, result: PortfolioBacktestResult) => {
+    if (!user) return null
+
+    const run: SavedBacktestRun = {
+      id: `backtest_${Date.now()}`,
+      name,
+      source,
+      coinIds: result.coins.map(coin => coin.coinId),
+      config: result.config,
+      metrics: result.metrics,
+      equityCurve: downsampleCurve(result.equityCurve, STORED_EQUITY_POINTS),
+      trades: result.trades,
+      from: result.from,
+      to: result.to,
+      createdAt: new Date().toISOString()
+    }
+
+    try {
+      await blink.db.backtestRuns.create({
+        id: run.id,
+        userId: user.id,
+        name: run.name,
+        strategyId: run.config.strategyId,
+        source: run.source,
+        coinIds: JSON.stringify(run.coinIds),
+        config: JSON.stringify(run.config),
+        metrics: JSON.stringify(run.metrics),
+        equityCurve: JSON.stringify(run.equityCurve),
+        trades: JSON.stringify(run.trades),
+        fromTime: run.from,
+        toTime: run.to,
+        createdAt: run.createdAt
+      })
+      setRuns(prev => [run, ...prev])
+      toast.success(`Saved backtest "${name}"`)
+      return run
+    } catch (error) {
+      console.error('Failed to save backtest run:', error)
+      toast.error('Failed to save backtest run. Please try again.')
+      return null
+    }
+  }, [user])
+
+  const deleteRun = useCallback(async (id: string) => {
+    try {
+      await blink.db.backtestRuns.delete(id)
+      setRuns(prev => prev.filter(run => run.id !== id))
+    } catch (error) {
+      console.error('Failed to delete backtest run:', error)
+      toast.error('Failed to delete backtest run')
+    }
+  }, [])
+
+  return { runs, loading, saveRun, deleteRun, reload: loadRuns }
+}
@@ -0,0 +1,29 @@
+import { useEffect } from 'react'
+import { marketStore } from '@/services/market'
+import { useCoins } from './use-market'
+
+// Market data for watchlisted or held coins by CoinGecko id, whatever their
+// rank. Coins the market store doesn't have yet are fetched straight away; any
+// not refreshed with the top markets are refetched on an interval.
+export function useCoinMarkets(coinIds: string[], refreshMs: number) {
+  const idsKey = [...new Set(coinIds.filter(Boolean))].sort().join(',')
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : []
+
+    const load = async () => {
+      try {
+        await marketStore.ensureCoins(ids, refreshMs)
+      } catch (error) {
+        console.error('Failed to load coin market data:', error)
+      }
+    }
+
+    load()
+    const interval = setInterval(load, refreshMs)
+
+    return () => clearInterval(interval)
+  }, [idsKey, refreshMs])
+
+  return useCoins(coinIds)
+}
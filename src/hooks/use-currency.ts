@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import { toast } from 'sonner'
+import { blink } from '@/blink/client'
+import {
+  DEFAULT_QUOTE_CURRENCY,
+  QUOTE_CURRENCIES,
+  USD_QUOTE,
+  fxRates,
+  isQuoteCurrency,
+  type FxHistory,
+  type Quote,
+  type QuoteCurrency
+} from '@/services/currency'
+import { useMarket } from './use-market'
+
+// Matches the response cache TTL for exchange rates
+const FX_REFRESH_MS = 10 * 60 * 1000
+const NO_HISTORY: FxHistory = []
+
+// Per-user choice of the currency prices and valuations are shown in
+export function useCurrencySettings(user: any) {
+  const [currency, setCurrencyState] = useState<QuoteCurrency>(DEFAULT_QUOTE_CURRENCY)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadSettings = async () => {
+      try {
+        const rows = await blink.db.userDisplaySettings.list({
+          where: { userId: user.id },
+          limit: 1
+        })
+        if (rows.length > 0 && isQuoteCurrency(rows[0].quoteCurrency)) setCurrencyState(rows[0].quoteCurrency)
+      } catch (error) {
+        console.error('Failed to load display settings:', error)
+      }
+    }
+
+    loadSettings()
+  }, [user])
+
+  const setCurrency = useCallback(async (next: QuoteCurrency) => {
+    if (!user) return
+
+    setCurrencyState(next)
+    try {
+      await blink.db.userDisplaySettings.upsert({
+        id: `display_settings_${user.id}`,
+        userId: user.id,
+        quoteCurrency: next,
+        updatedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Failed to save display settings:', error)
+      toast.error('Failed to save your currency. Please try again.')
+    }
+  }, [user])
+
+  return { currency, setCurrency }
+}
+
+// The rate to show dollar amounts in `currency` at. Crypto quotes follow the
+// coin's live price; until a rate is known amounts stay in dollars.
+export function useQuote(currency: QuoteCurrency): Quote {
+  const { rates } = useSyncExternalStore(fxRates.subscribe, fxRates.getSnapshot)
+  const { coins } = useMarket()
+  const { coinId } = QUOTE_CURRENCIES[currency]
+  const coinPrice = coinId ? coins[coinId]?.currentPrice : undefined
+
+  useEffect(() => {
+    if (currency === DEFAULT_QUOTE_CURRENCY) return
+    fxRates.refresh()
+    const interval = setInterval(() => fxRates.refresh(), FX_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [currency])
+
+  return useMemo(() => {
+    const rate = coinPrice ? 1 / coinPrice : rates[currency]
+    return rate ? { currency, rate } : USD_QUOTE
+  }, [currency, coinPrice, rates])
+}
+
+// Daily rates for `currency` from `since` on, for converting past amounts
+export function useFxHistory(currency: QuoteCurrency, since: number | null): FxHistory {
+  const [loaded, setLoaded] = useState<{ currency: QuoteCurrency; history: FxHistory } | null>(null)
+
+  useEffect(() => {
+    if (currency === DEFAULT_QUOTE_CURRENCY || since === null) return
+
+    let cancelled = false
+    fxRates.getHistory(currency, since)
+      .then(history => {
+        if (!cancelled) setLoaded({ currency, history })
+      })
+      .catch(error => console.error('Failed to load exchange rate history:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [currency, since])
+
+  // A switch of currency mustn't apply the old one's rates
+  return loaded?.currency === currency ? loaded.history : NO_HISTORY
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react'
+import { priceStore, type PriceStoreSnapshot } from '@/services/stream/priceStore'
+
+export function useLivePrices(): PriceStoreSnapshot {
+  return useSyncExternalStore(priceStore.subscribe, priceStore.getSnapshot)
+}
@@ -0,0 +1,17 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { marketStore, selectCoins, selectTopCoins, type MarketStoreSnapshot } from '@/services/market'
+
+export function useMarket(): MarketStoreSnapshot {
+  return useSyncExternalStore(marketStore.subscribe, marketStore.getSnapshot)
+}
+
+export function useTopCoins(limit?: number) {
+  const snapshot = useMarket()
+  return useMemo(() => selectTopCoins(snapshot, limit), [snapshot, limit])
+}
+
+export function useCoins(ids: string[]) {
+  const snapshot = useMarket()
+  const idsKey = ids.join(',')
+  return useMemo(() => selectCoins(snapshot, idsKey ? idsKey.split(',') : []), [snapshot, idsKey])
+}
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { blink } from '@/blink/client'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  SEVERITY_ORDER,
+  desktopNotifier,
+  notificationStore,
+  shouldNotifyDesktop,
+  type NotificationPreferences
+} from '@/services/notifications'
+
+function parsePreferences(row: any): NotificationPreferences {
+  const defaults = DEFAULT_NOTIFICATION_PREFERENCES
+  let types = defaults.types
+  try {
+    types = { ...defaults.types, ...JSON.parse(row.types) }
+  } catch {
+    // Keep the defaults
+  }
+
+  return {
+    desktopEnabled: Number(row.desktopEnabled) > 0,
+    types,
+    minSeverity: SEVERITY_ORDER.includes(row.minSeverity) ? row.minSeverity : defaults.minSeverity,
+    quietHours: {
+      enabled: Number(row.quietHoursEnabled) > 0,
+      start: row.quietHoursStart || defaults.quietHours.start,
+      end: row.quietHoursEnd || defaults.quietHours.end,
+      timezone: row.quietHoursTimezone || defaults.quietHours.timezone
+    }
+  }
+}
+
+// Per-user desktop notification preferences. While mounted, new inbox
+// notifications that pass them are raised as desktop notifications.
+export function useNotificationPreferences(user: any) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const preferencesRef = useRef(preferences)
+  preferencesRef.current = preferences
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadPreferences = async () => {
+      try {
+        const rows = await blink.db.userNotificationSettings.list({
+          where: { userId: user.id },
+          limit: 1
+        })
+        if (rows.length > 0) setPreferences(parsePreferences(rows[0]))
+      } catch (error) {
+        console.error('Failed to load notification preferences:', error)
+      }
+    }
+
+    loadPreferences()
+  }, [user])
+
+  useEffect(() => {
+    if (preferences.desktopEnabled) desktopNotifier.register()
+  }, [preferences.desktopEnabled])
+
+  useEffect(() => notificationStore.onNotify(notification => {
+    if (shouldNotifyDesktop(preferencesRef.current, notification)) desktopNotifier.show(notification)
+  }), [])
+
+  const updatePreferences = useCallback(async (changes: Partial<NotificationPreferences>) => {
+    if (!user) return
+
+    const next = { ...preferences, ...changes }
+    setPreferences(next)
+    try {
+      await blink.db.userNotificationSettings.upsert({
+        id: `notification_settings_${user.id}`,
+        userId: user.id,
+        desktopEnabled: next.desktopEnabled,
+        types: JSON.stringify(next.types),
+        minSeverity: next.minSeverity,
+        quietHoursEnabled: next.quietHours.enabled,
+        quietHoursStart: next.quietHours.start,
+        quietHoursEnd: next.quietHours.end,
+        quietHoursTimezone: next.quietHours.timezone,
+        updatedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Failed to save notification preferences:', error)
+      toast.error('Failed to save notification preferences. Please try again.')
+    }
+  }, [preferences, user])
+
+  return { preferences, updatePreferences }
+}
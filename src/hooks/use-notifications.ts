@@ -0,0 +1,24 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { alertEngine } from '@/services/alerts'
+import { notificationStore } from '@/services/notifications'
+
+// Notification inbox for the signed-in user. Fired alerts are filed into it
+// while this is mounted.
+export function useNotifications(user: any) {
+  useEffect(() => {
+    if (user) notificationStore.load(user.id)
+  }, [user])
+
+  useEffect(() => alertEngine.onTrigger((event, rule) => {
+    const coin = rule.conditions.find(condition => condition.coinId === event.coinIds[0])
+    notificationStore.notify({
+      type: 'alert',
+      severity: 'warning',
+      title: event.ruleName,
+      body: event.details.join('\n'),
+      link: coin ? { kind: 'coin', coinId: coin.coinId, symbol: coin.symbol } : undefined
+    })
+  }), [])
+
+  return useSyncExternalStore(notificationStore.subscribe, notificationStore.getSnapshot)
+}
@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { paperTradingStore } from '@/services/paperTrading'
+
+// Paper account for the signed-in user, re-rendering on every fill or order change
+export function usePaperTrading(user: any) {
+  useEffect(() => {
+    if (user) paperTradingStore.load(user.id)
+  }, [user])
+
+  return useSyncExternalStore(paperTradingStore.subscribe, paperTradingStore.getSnapshot)
+}
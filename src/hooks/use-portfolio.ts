@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { blink } from '@/blink/client'
+import type { CostBasisMethod, PortfolioTransaction } from '@/services/portfolio'
+
+function transactionFromRow(row: any): PortfolioTransaction {
+  return {
+    id: row.id,
+    coinId: row.coinId,
+    symbol: row.symbol,
+    type: row.type,
+    quantity: Number(row.quantity),
+    price: Number(row.price) || 0,
+    fee: Number(row.fee) || 0,
+    timestamp: row.timestamp,
+    notes: row.notes || undefined,
+    source: row.source || undefined,
+    externalId: row.externalId || undefined
+  }
+}
+
+export type Portfolio = ReturnType<typeof usePortfolio>
+
+// The signed-in user's portfolio transactions and cost basis preference
+export function usePortfolio(user: any) {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([])
+  const [costBasisMethod, setCostBasisMethodState] = useState<CostBasisMethod>('fifo')
+  const [loading, setLoading] = useState(false)
+
+  const loadPortfolio = useCallback(async () => {
+    if (!user) return
+
+    setLoading(true)
+    try {
+      const [rows, settings] = await Promise.all([
+        blink.db.portfolioTransactions.list({
+          where: { userId: user.id },
+          orderBy: { timestamp: 'desc' }
+        }),
+        blink.db.userPortfolioSettings.list({ where: { userId: user.id }, limit: 1 })
+      ])
+      setTransactions(rows.map(transactionFromRow))
+      if (settings.length > 0 && settings[0].costBasisMethod) {
+        setCostBasisMethodState(settings[0].costBasisMethod as CostBasisMethod)
+      }
+    } catch (error) {
+      console.error('Failed to load portfolio:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadPortfolio()
+  }, [loadPortfolio])
+
+  const addTransaction = useCallback(async (transaction: Omit<PortfolioTransaction, 'id'>) => {
+    if (!user) return null
+
+    const created: PortfolioTransaction = { ...transaction, id: `tx_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` }
+    try {
+      await blink.db.portfolioTransactions.create({
+        ...created,
+        userId: user.id,
+        notes: created.notes ?? '',
+        createdAt: new Date().toISOString()
+      })
+      setTransactions(prev => [created, ...prev])
+      return created
+    } catch (error) {
+      console.error('Failed to save transaction:', error)
+      toast.error('Failed to save transaction. Please try again.')
+      return null
+    }
+  }, [user])
+
+  // Write a confirmed import in one batch
+  const importTransactions = useCallback(async (imported: Omit<PortfolioTransaction, 'id'>[]) => {
+    if (!user || imported.length === 0) return 0
+
+    const createdAt = new Date().toISOString()
+    const created: PortfolioTransaction[] = imported.map((tx, i) => ({ ...tx, id: `tx_${Date.now()}_${i}` }))
+    try {
+      await blink.db.portfolioTransactions.createMany(created.map(tx => ({
+        ...tx,
+        userId: user.id,
+        notes: tx.notes ?? '',
+        source: tx.source ?? '',
+        externalId: tx.externalId ?? '',
+        createdAt
+      })))
+      setTransactions(prev => [...created, ...prev].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)))
+      return created.length
+    } catch (error) {
+      console.error('Failed to import transactions:', error)
+      toast.error('Failed to import transactions. Nothing was saved.')
+      return 0
+    }
+  }, [user])
+
+  const deleteTransaction = useCallback(async (id: string) => {
+    try {
+      await blink.db.portfolioTransactions.delete(id)
+      setTransactions(prev => prev.filter(tx => tx.id !== id))
+    } catch (error) {
+      console.error('Failed to delete transaction:', error)
+      toast.error('Failed to delete transaction')
+    }
+  }, [])
+
+  const setCostBasisMethod = useCallback(async (method: CostBasisMethod) => {
+    setCostBasisMethodState(method)
+    if (!user) return
+
+    try {
+      await blink.db.userPortfolioSettings.upsert({
+        id: `portfolio_settings_${user.id}`,
+        userId: user.id,
+        costBasisMethod: method,
+        updatedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Failed to save portfolio settings:', error)
+    }
+  }, [user])
+
+  return {
+    transactions,
+    costBasisMethod,
+    loading,
+    addTransaction,
+    importTransactions,
+    deleteTransaction,
+    setCostBasisMethod,
+    reload: loadPortfolio
+  }
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { requestScheduler, type SchedulerSnapshot } from '@/services/marketData'
+
+// Per-provider request budgets, updated as requests go out and tokens refill
+export function useRequestBudget(): SchedulerSnapshot {
+  return useSyncExternalStore(requestScheduler.subscribe, requestScheduler.getSnapshot)
+}
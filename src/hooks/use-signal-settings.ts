@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { blink } from '@/blink/client'
+import { DEFAULT_STRATEGY_IDS, strategyRegistry } from '@/services/strategies'
+import { DEFAULT_RISK_CONFIG } from '@/services/riskLevels'
+
+export interface SignalSettings {
+  feedStrategies: string[]
+  dashboardStrategies: string[]
+  rewardRisk: number
+}
+
+export const DEFAULT_SIGNAL_SETTINGS: SignalSettings = {
+  feedStrategies: DEFAULT_STRATEGY_IDS,
+  dashboardStrategies: DEFAULT_STRATEGY_IDS,
+  rewardRisk: DEFAULT_RISK_CONFIG.rewardRisk
+}
+
+function parseStrategyIds(value: unknown, fallback: string[]): string[] {
+  try {
+    const ids = JSON.parse(String(value))
+    if (!Array.isArray(ids)) return fallback
+    const known = ids.filter(id => strategyRegistry.get(id))
+    return known.length > 0 ? known : fallback
+  } catch {
+    return fallback
+  }
+}
+
+// Per-user choice of which strategies drive the live feed and the dashboard
+export function useSignalSettings(user: any) {
+  const [settings, setSettings] = useState<SignalSettings>(DEFAULT_SIGNAL_SETTINGS)
+
+  useEffect(() => {
+    if (!user) return
+
+    const loadSettings = async () => {
+      try {
+        const rows = await blink.db.userSignalSettings.list({
+          where: { userId: user.id },
+          limit: 1
+        })
+        if (rows.length === 0) return
+
+        const row = rows[0]
+        setSettings({
+          feedStrategies: parseStrategyIds(row.feedStrategies, DEFAULT_SIGNAL_SETTINGS.feedStrategies),
+          dashboardStrategies: parseStrategyIds(row.dashboardStrategies, DEFAULT_SIGNAL_SETTINGS.dashboardStrategies),
+          rewardRisk: Number(row.rewardRisk) || DEFAULT_SIGNAL_SETTINGS.rewardRisk
+        })
+      } catch (error) {
+        console.error('Failed to load signal settings:', error)
+      }
+    }
+
+    loadSettings()
+  }, [user])
+
+  const updateSettings = useCallback(async (changes: Partial<SignalSettings>) => {
+    if (!user) return
+
+    const next = { ...settings, ...changes }
+    setSettings(next)
+    try {
+      await blink.db.userSignalSettings.upsert({
+        id: `signal_settings_${user.id}`,
+        userId: user.id,
+        feedStrategies: JSON.stringify(next.feedStrategies),
+        dashboardStrategies: JSON.stringify(next.dashboardStrategies),
+        rewardRisk: next.rewardRisk,
+        updatedAt: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Failed to save signal settings:', error)
+      toast.error('Failed to save strategy settings. Please try again.')
+    }
+  }, [settings, user])
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react'
+import { priceSnapshots } from '@/services/snapshots'
+
+const SPARKLINE_RANGE_MS = 24 * 60 * 60 * 1000
+const SPARKLINE_REFRESH_MS = 5 * 60 * 1000
+
+// Hourly closing prices over the last day per coin id, from the user's price
+// snapshot history
+export function useSparklines(user: any, coinIds: string[]) {
+  const [sparklines, setSparklines] = useState<Record<string, number[]>>({})
+  const idsKey = [...new Set(coinIds.filter(Boolean))].sort().join(',')
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',') : []
+    let cancelled = false
+
+    const load = async () => {
+      try {
+        const series = await priceSnapshots.getSeries(ids, '1h', Date.now() - SPARKLINE_RANGE_MS)
+        if (cancelled) return
+        setSparklines(Object.fromEntries(
+          Object.entries(series).map(([id, snapshots]) => [id, snapshots.map(snapshot => snapshot.close)])
+        ))
+      } catch (error) {
+        console.error('Failed to load price history:', error)
+      }
+    }
+
+    load()
+    const interval = setInterval(load, SPARKLINE_REFRESH_MS)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [user, idsKey])
+
+  return sparklines
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+import { validationReporter, type ValidationSnapshot } from '@/services/marketData'
+
+// Provider responses and rows rejected by validation this session
+export function useValidationReports(): ValidationSnapshot {
+  return useSyncExternalStore(validationReporter.subscribe, validationReporter.getSnapshot)
+}
@@ -0,0 +1,11 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { watchlistStore } from '@/services/watchlists'
+
+// Watchlists for the signed-in user, re-rendering on every change
+export function useWatchlists(user: any) {
+  useEffect(() => {
+    if (user) watchlistStore.load(user.id)
+  }, [user])
+
+  return useSyncExternalStore(watchlistStore.subscribe, watchlistStore.getSnapshot)
+}
@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react'
+import { alertEngine } from '@/services/alerts'
+import { webhookDispatcher } from '@/services/webhooks'
+
+// Webhook endpoints and delivery log for the signed-in user. Fired alerts are
+// forwarded to subscribed endpoints while this is mounted.
+export function useWebhooks(user: any) {
+  useEffect(() => {
+    if (user) webhookDispatcher.load(user.id)
+  }, [user])
+
+  useEffect(() => alertEngine.onTrigger(event => webhookDispatcher.dispatch({ type: 'alert', alert: event })), [])
+
+  return useSyncExternalStore(webhookDispatcher.subscribe, webhookDispatcher.getSnapshot)
+}
@@ -0,0 +1,53 @@
+// URL scheme for the dashboard. Every tab has its own path; coin, signal and
+// backtest run links open the matching view on top of it.
+import { matchPath } from 'react-router-dom'
+import { toast } from 'sonner'
+
+export type DashboardTab = 'dashboard' | 'signals' | 'browse' | 'backtest' | 'paper' | 'portfolio' | 'watchlist'
+
+export const DASHBOARD_TABS: DashboardTab[] = ['dashboard', 'signals', 'browse', 'backtest', 'paper', 'portfolio', 'watchlist']
+
+export interface DashboardRoute {
+  tab: DashboardTab
+  coinId?: string
+  signalId?: string
+  backtestRunId?: string
+}
+
+export const paths = {
+  tab: (tab: DashboardTab) => (tab === 'dashboard' ? '/' : `/${tab}`),
+  coin: (coinId: string) => `/coin/${encodeURIComponent(coinId)}`,
+  signal: (signalId: string) => `/signal/${encodeURIComponent(signalId)}`,
+  backtestRun: (runId: string) => `/backtest/runs/${encodeURIComponent(runId)}`
+}
+
+function isTab(value: string | undefined): value is DashboardTab {
+  return DASHBOARD_TABS.includes(value as DashboardTab)
+}
+
+// Unknown paths fall back to the dashboard tab. `background` is the tab a coin
+// page was opened from, if any.
+export function parseRoute(pathname: string, background?: DashboardTab): DashboardRoute {
+  const coin = matchPath('/coin/:coinId', pathname)
+  if (coin?.params.coinId) return { tab: background ?? 'dashboard', coinId: coin.params.coinId }
+
+  const signal = matchPath('/signal/:signalId', pathname)
+  if (signal?.params.signalId) return { tab: 'signals', signalId: signal.params.signalId }
+
+  const run = matchPath('/backtest/runs/:runId', pathname)
+  if (run?.params.runId) return { tab: 'backtest', backtestRunId: run.params.runId }
+
+  const tab = matchPath('/:tab', pathname)?.params.tab
+  return { tab: isTab(tab) ? tab : 'dashboard' }
+}
+
+// Puts a shareable link to `path` on the clipboard
+export async function copyLink(path: string) {
+  try {
+    await navigator.clipboard.writeText(new URL(path, window.location.origin).toString())
+    toast.success('Link copied')
+  } catch (error) {
+    console.error('Failed to copy link:', error)
+    toast.error('Could not copy the link')
+  }
+}
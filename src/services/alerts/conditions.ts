@@ -0,0 +1,131 @@
+// Pure evaluation of alert conditions against a view of the market that the
+// engine assembles from live ticks, candle history and freshly generated signals
+import type { CandleInterval } from '../candles'
+import { formatMoney } from '../currency'
+import type { AlertCondition, AlertConditionType, AlertRule, AlertSignal } from './types'
+
+export interface AlertMarketView {
+  price(coinId: string): number | undefined
+  // Price at the previous evaluation, for crossing checks
+  previousPrice(coinId: string): number | undefined
+  // Latest known price at or before the timestamp
+  priceAt(coinId: string, timestamp: number): number | undefined
+  rsi(coinId: string, interval: CandleInterval): number | null
+  volumeRatio(coinId: string, interval: CandleInterval): number | null
+  // Signals generated since the previous evaluation
+  signals: AlertSignal[]
+  now: number
+}
+
+export interface ConditionResult {
+  matched: boolean
+  detail: string
+}
+
+export interface RuleResult {
+  matched: boolean
+  details: string[]
+}
+
+export const ALERT_CONDITION_LABELS: Record<AlertConditionType, string> = {
+  price_cross: 'Price crosses level',
+  percent_move: '% move over window',
+  rsi: 'RSI above/below',
+  volume_spike: 'Volume spike',
+  new_signal: 'New signal'
+}
+
+function formatWindow(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`
+  if (minutes % 60 === 0) return `${minutes / 60}h`
+  return `${minutes}m`
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'price_cross':
+      return `${condition.symbol} crosses ${condition.direction} ${formatMoney(condition.price, 'usd')}`
+    case 'percent_move': {
+      const direction = condition.direction === 'either' ? 'moves' : condition.direction === 'up' ? 'rises' : 'falls'
+      return `${condition.symbol} ${direction} ${condition.percent}% within ${formatWindow(condition.windowMinutes)}`
+    }
+    case 'rsi':
+      return `${condition.symbol} ${condition.interval} RSI ${condition.comparison} ${condition.threshold}`
+    case 'volume_spike':
+      return `${condition.symbol} ${condition.interval} volume ${condition.multiplier}x average`
+    case 'new_signal':
+      return `New ${condition.side === 'ANY' ? '' : `${condition.side} `}signal for ${condition.symbol}` +
+        (condition.minConfidence > 0 ? ` (≥${condition.minConfidence}% confidence)` : '')
+  }
+}
+
+export function evaluateCondition(condition: AlertCondition, market: AlertMarketView): ConditionResult {
+  const unmatched = { matched: false, detail: describeCondition(condition) }
+  const price = market.price(condition.coinId)
+
+  switch (condition.type) {
+    case 'price_cross': {
+      const previous = market.previousPrice(condition.coinId)
+      if (price === undefined || previous === undefined) return unmatched
+      const matched = condition.direction === 'above'
+        ? previous < condition.price && price >= condition.price
+        : previous > condition.price && price <= condition.price
+      return { matched, detail: `${condition.symbol} crossed ${condition.direction} ${formatMoney(condition.price, 'usd')} (now ${formatMoney(price, 'usd')})` }
+    }
+    case 'percent_move': {
+      const start = market.priceAt(condition.coinId, market.now - condition.windowMinutes * 60000)
+      if (price === undefined || start === undefined || start <= 0) return unmatched
+      const change = (price - start) / start * 100
+      const matched = condition.direction === 'up' ? change >= condition.percent
+        : condition.direction === 'down' ? change <= -condition.percent
+        : Math.abs(change) >= condition.percent
+      return { matched, detail: `${condition.symbol} ${change >= 0 ? '+' : ''}${change.toFixed(2)}% over ${formatWindow(condition.windowMinutes)}` }
+    }
+    case 'rsi': {
+      const rsi = market.rsi(condition.coinId, condition.interval)
+      if (rsi === null) return unmatched
+      const matched = condition.comparison === 'above' ? rsi > condition.threshold : rsi < condition.threshold
+      return { matched, detail: `${condition.symbol} ${condition.interval} RSI ${rsi.toFixed(1)}` }
+    }
+    case 'volume_spike': {
+      const ratio = market.volumeRatio(condition.coinId, condition.interval)
+      if (ratio === null) return unmatched
+      return { matched: ratio >= condition.multiplier, detail: `${condition.symbol} ${condition.interval} volume ${ratio.toFixed(1)}x average` }
+    }
+    case 'new_signal': {
+      const signal = market.signals.find(s =>
+        s.coinId === condition.coinId &&
+        s.side !== 'HOLD' &&
+        (condition.side === 'ANY' || s.side === condition.side) &&
+        s.confidence >= condition.minConfidence
+      )
+      if (!signal) return unmatched
+      return {
+        matched: true,
+        detail: `${signal.side} signal for ${condition.symbol} at ${signal.confidence}% confidence` +
+          (signal.strategyName ? ` (${signal.strategyName})` : '')
+      }
+    }
+  }
+}
+
+export function evaluateRule(rule: Pick<AlertRule, 'combinator' | 'conditions'>, market: AlertMarketView): RuleResult {
+  if (rule.conditions.length === 0) return { matched: false, details: [] }
+
+  const results = rule.conditions.map(condition => evaluateCondition(condition, market))
+  const matched = rule.combinator === 'AND'
+    ? results.every(result => result.matched)
+    : results.some(result => result.matched)
+  return { matched, details: results.filter(result => result.matched).map(result => result.detail) }
+}
+
+// Candle-based conditions need history fetched ahead of evaluation
+export function candleRequirements(conditions: AlertCondition[]): { coinId: string; interval: CandleInterval }[] {
+  const keys = new Map<string, { coinId: string; interval: CandleInterval }>()
+  for (const condition of conditions) {
+    if (condition.type === 'rsi' || condition.type === 'volume_spike') {
+      keys.set(`${condition.coinId}:${condition.interval}`, { coinId: condition.coinId, interval: condition.interval })
+    }
+  }
+  return [...keys.values()]
+}
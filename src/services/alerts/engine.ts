@@ -0,0 +1,368 @@
+// Alert rules for the signed-in user, evaluated on every price update. Rules
+// and fired alerts live in memory so evaluation stays synchronous; changes are
+// written through to blink.db in the background.
+import { blink } from '../../blink/client'
+import { INTERVAL_MS, lookbackRange, type CandleInterval } from '../candles'
+import { cryptoApi } from '../cryptoApi'
+import { RSI } from '../indicators'
+import type { PriceTick } from '../stream/priceStore'
+import { candleRequirements, describeCondition, evaluateRule, type AlertMarketView } from './conditions'
+import type { AlertEvent, AlertRule, AlertRuleInput, AlertSignal } from './types'
+
+// Fired alerts kept in memory; older ones stay in the database
+const HISTORY_LIMIT = 100
+// Price history backing %-move windows, sampled to keep a day of it small
+const PRICE_SAMPLE_MS = 30 * 1000
+const PRICE_HISTORY_MS = 25 * 60 * 60 * 1000
+const CANDLE_REFRESH_MS = 5 * 60 * 1000
+const CANDLE_LOOKBACK_BARS = 100
+const VOLUME_AVERAGE_BARS = 20
+const RSI_PERIOD = 14
+
+export interface AlertSnapshot {
+  rules: AlertRule[]
+  history: AlertEvent[]
+  loading: boolean
+}
+
+export type AlertTriggerListener = (event: AlertEvent, rule: AlertRule) => void
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AlertRuleError'
+  }
+}
+
+interface CandleState {
+  // RSI over closed bars; the live price is previewed on top
+  rsi: RSI
+  volumeRatio: number | null
+  fetchedAt: number
+}
+
+function ruleFromRow(row: any): AlertRule {
+  let conditions: unknown = []
+  try {
+    conditions = JSON.parse(row.conditions)
+  } catch {
+    console.warn(`Alert rule ${row.id} has unreadable conditions`)
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    combinator: row.combinator === 'OR' ? 'OR' : 'AND',
+    conditions: Array.isArray(conditions) ? conditions : [],
+    mode: row.mode === 'once' ? 'once' : 'recurring',
+    cooldownMinutes: Number(row.cooldownMinutes) || 0,
+    enabled: Number(row.enabled) > 0,
+    lastTriggeredAt: row.lastTriggeredAt || undefined,
+    triggerCount: Number(row.triggerCount) || 0,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+function eventFromRow(row: any): AlertEvent {
+  const parseList = (value: unknown) => {
+    try {
+      const list = JSON.parse(String(value))
+      return Array.isArray(list) ? list.map(String) : []
+    } catch {
+      return []
+    }
+  }
+
+  return {
+    id: row.id,
+    ruleId: row.ruleId,
+    ruleName: row.ruleName,
+    coinIds: parseList(row.coinIds),
+    details: parseList(row.details),
+    message: row.message,
+    triggeredAt: row.triggeredAt
+  }
+}
+
+function validateRule(input: AlertRuleInput) {
+  if (!input.name.trim()) throw new AlertRuleError('Give the alert a name')
+  if (input.conditions.length === 0) throw new AlertRuleError('Add at least one condition')
+  if (input.cooldownMinutes < 0) throw new AlertRuleError('Cooldown cannot be negative')
+
+  for (const condition of input.conditions) {
+    const label = describeCondition(condition)
+    if (!condition.coinId) throw new AlertRuleError('Choose a coin for every condition')
+    if (condition.type === 'price_cross' && !(condition.price > 0)) throw new AlertRuleError(`${label}: price must be positive`)
+    if (condition.type === 'percent_move' && !(condition.percent > 0 && condition.windowMinutes > 0)) {
+      throw new AlertRuleError(`${label}: percent and window must be positive`)
+    }
+    if (condition.type === 'rsi' && !(condition.threshold > 0 && condition.threshold < 100)) {
+      throw new AlertRuleError(`${label}: RSI threshold must be between 0 and 100`)
+    }
+    if (condition.type === 'volume_spike' && !(condition.multiplier > 1)) {
+      throw new AlertRuleError(`${label}: multiplier must be above 1`)
+    }
+  }
+}
+
+// Coins the enabled rules need live prices for
+export function watchedCoinIds(rules: AlertRule[]): string[] {
+  return [...new Set(rules.filter(rule => rule.enabled).flatMap(rule => rule.conditions.map(condition => condition.coinId)))]
+}
+
+export class AlertEngine {
+  private userId: string | null = null
+  private snapshot: AlertSnapshot = { rules: [], history: [], loading: false }
+  private listeners = new Set<() => void>()
+  private triggerListeners = new Set<AlertTriggerListener>()
+
+  private prices = new Map<string, PriceTick>()
+  private previousPrices = new Map<string, number>()
+  private priceHistory = new Map<string, { time: number; price: number }[]>()
+  private candleStates = new Map<string, CandleState>()
+  private fetching = new Set<string>()
+  private pendingSignals: AlertSignal[] = []
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  // Notified once per fired alert, after it has been recorded
+  onTrigger(listener: AlertTriggerListener) {
+    this.triggerListeners.add(listener)
+    return () => {
+      this.triggerListeners.delete(listener)
+    }
+  }
+
+  async load(userId: string) {
+    if (this.userId === userId) return
+    this.userId = userId
+    this.update({ rules: [], history: [], loading: true })
+
+    try {
+      const [rules, history] = await Promise.all([
+        blink.db.alertRules.list({ where: { userId }, orderBy: { createdAt: 'desc' } }),
+        blink.db.alertHistory.list({ where: { userId }, orderBy: { triggeredAt: 'desc' }, limit: HISTORY_LIMIT })
+      ])
+      if (this.userId !== userId) return
+
+      this.update({ rules: rules.map(ruleFromRow), history: history.map(eventFromRow), loading: false })
+    } catch (error) {
+      console.error('Failed to load alert rules:', error)
+      this.update({ loading: false })
+    }
+  }
+
+  createRule(input: AlertRuleInput): AlertRule {
+    validateRule(input)
+    const now = new Date().toISOString()
+    const rule: AlertRule = {
+      ...input,
+      name: input.name.trim(),
+      id: `alert_rule_${Date.now()}`,
+      enabled: true,
+      triggerCount: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.update({ rules: [rule, ...this.snapshot.rules] })
+    this.persistRule(rule)
+    return rule
+  }
+
+  updateRule(ruleId: string, input: AlertRuleInput) {
+    validateRule(input)
+    this.changeRule(ruleId, { ...input, name: input.name.trim() })
+  }
+
+  // Re-enabling a fired one-shot rule arms it again
+  setEnabled(ruleId: string, enabled: boolean) {
+    this.changeRule(ruleId, { enabled })
+  }
+
+  async deleteRule(ruleId: string) {
+    this.update({ rules: this.snapshot.rules.filter(rule => rule.id !== ruleId) })
+    try {
+      await blink.db.alertRules.delete(ruleId)
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error)
+    }
+  }
+
+  async clearHistory() {
+    const history = this.snapshot.history
+    this.update({ history: [] })
+    try {
+      await Promise.all(history.map(event => blink.db.alertHistory.delete(event.id)))
+    } catch (error) {
+      console.error('Failed to clear alert history:', error)
+    }
+  }
+
+  // Signals only count towards rules on the evaluation that follows them
+  recordSignals(signals: AlertSignal[]) {
+    if (signals.length === 0) return
+    this.pendingSignals.push(...signals)
+    this.evaluate()
+  }
+
+  // Run every enabled rule against the latest prices, keyed by coin id
+  evaluate(prices: Record<string, PriceTick> = {}) {
+    const now = Date.now()
+    this.previousPrices = new Map([...this.prices].map(([id, tick]) => [id, tick.price]))
+    Object.values(prices).forEach(tick => this.recordPrice(tick))
+
+    const enabled = this.snapshot.rules.filter(rule => rule.enabled)
+    this.refreshCandles(enabled, now)
+
+    const market = this.marketView(now)
+    for (const rule of enabled) {
+      const cooldownEnds = rule.lastTriggeredAt ? Date.parse(rule.lastTriggeredAt) + rule.cooldownMinutes * 60000 : 0
+      if (now < cooldownEnds) continue
+
+      const result = evaluateRule(rule, market)
+      if (result.matched) this.trigger(rule, result.details, now)
+    }
+    this.pendingSignals = []
+  }
+
+  private trigger(rule: AlertRule, details: string[], now: number) {
+    const triggeredAt = new Date(now).toISOString()
+    const event: AlertEvent = {
+      id: `alert_event_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      coinIds: [...new Set(rule.conditions.map(condition => condition.coinId))],
+      details,
+      message: `${rule.name}: ${details.join(rule.combinator === 'AND' ? ' and ' : ', ')}`,
+      triggeredAt
+    }
+
+    const fired = this.changeRule(rule.id, {
+      lastTriggeredAt: triggeredAt,
+      triggerCount: rule.triggerCount + 1,
+      enabled: rule.mode === 'recurring'
+    })
+    this.update({ history: [event, ...this.snapshot.history].slice(0, HISTORY_LIMIT) })
+
+    blink.db.alertHistory.create({
+      ...event,
+      userId: this.userId,
+      coinIds: JSON.stringify(event.coinIds),
+      details: JSON.stringify(event.details)
+    }).catch((error: unknown) => {
+      console.error('Failed to save fired alert:', error)
+    })
+
+    this.triggerListeners.forEach(listener => {
+      try {
+        listener(event, fired ?? rule)
+      } catch (error) {
+        console.error('Alert listener failed:', error)
+      }
+    })
+  }
+
+  private recordPrice(tick: PriceTick) {
+    this.prices.set(tick.id, tick)
+
+    const history = this.priceHistory.get(tick.id) ?? []
+    const last = history[history.length - 1]
+    if (!last || tick.timestamp - last.time >= PRICE_SAMPLE_MS) {
+      history.push({ time: tick.timestamp, price: tick.price })
+      while (history.length > 0 && tick.timestamp - history[0].time > PRICE_HISTORY_MS) history.shift()
+      this.priceHistory.set(tick.id, history)
+    }
+  }
+
+  private marketView(now: number): AlertMarketView {
+    return {
+      now,
+      signals: this.pendingSignals,
+      price: coinId => this.prices.get(coinId)?.price,
+      previousPrice: coinId => this.previousPrices.get(coinId),
+      priceAt: (coinId, timestamp) => {
+        const history = this.priceHistory.get(coinId) ?? []
+        for (let i = history.length - 1; i >= 0; i--) {
+          if (history[i].time <= timestamp) return history[i].price
+        }
+        // Before our own history starts the 24h open is the best reference we have
+        const tick = this.prices.get(coinId)
+        return tick && now - timestamp >= INTERVAL_MS['1d'] ? tick.open24h : undefined
+      },
+      rsi: (coinId, interval) => {
+        const state = this.candleStates.get(`${coinId}:${interval}`)
+        if (!state) return null
+        const price = this.prices.get(coinId)?.price
+        return price !== undefined ? state.rsi.preview(price) : state.rsi.value
+      },
+      volumeRatio: (coinId, interval) => this.candleStates.get(`${coinId}:${interval}`)?.volumeRatio ?? null
+    }
+  }
+
+  private refreshCandles(rules: AlertRule[], now: number) {
+    for (const { coinId, interval } of candleRequirements(rules.flatMap(rule => rule.conditions))) {
+      const key = `${coinId}:${interval}`
+      const state = this.candleStates.get(key)
+      if (this.fetching.has(key) || (state && now - state.fetchedAt < CANDLE_REFRESH_MS)) continue
+      this.fetchCandles(key, coinId, interval, now)
+    }
+  }
+
+  private async fetchCandles(key: string, coinId: string, interval: CandleInterval, now: number) {
+    this.fetching.add(key)
+    try {
+      const candles = await cryptoApi.getCandles(coinId, interval, lookbackRange(interval, CANDLE_LOOKBACK_BARS, now))
+      const closed = candles.filter(candle => candle.time + INTERVAL_MS[interval] <= now)
+
+      const rsi = new RSI(RSI_PERIOD)
+      closed.forEach(candle => rsi.update(candle.close))
+
+      const baseline = closed.slice(-VOLUME_AVERAGE_BARS - 1, -1)
+      const average = baseline.reduce((sum, candle) => sum + candle.volume, 0) / baseline.length
+      const latest = closed[closed.length - 1]
+      const volumeRatio = latest && baseline.length === VOLUME_AVERAGE_BARS && average > 0 ? latest.volume / average : null
+
+      this.candleStates.set(key, { rsi, volumeRatio, fetchedAt: now })
+    } catch (error) {
+      console.error(`Failed to load ${interval} candles for ${coinId} alerts:`, error)
+    } finally {
+      this.fetching.delete(key)
+    }
+  }
+
+  private changeRule(ruleId: string, changes: Partial<AlertRule>): AlertRule | null {
+    const rule = this.snapshot.rules.find(r => r.id === ruleId)
+    if (!rule) return null
+
+    const next = { ...rule, ...changes, updatedAt: new Date().toISOString() }
+    this.update({ rules: this.snapshot.rules.map(r => (r.id === ruleId ? next : r)) })
+    this.persistRule(next)
+    return next
+  }
+
+  private update(changes: Partial<AlertSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private persistRule(rule: AlertRule) {
+    blink.db.alertRules.upsert({
+      ...rule,
+      userId: this.userId,
+      conditions: JSON.stringify(rule.conditions),
+      lastTriggeredAt: rule.lastTriggeredAt ?? ''
+    }).catch((error: unknown) => {
+      console.error('Failed to save alert rule:', error)
+    })
+  }
+}
+
+export const alertEngine = new AlertEngine()
@@ -0,0 +1,34 @@
+// User-defined price, indicator and signal alerts
+export {
+  ALERT_CONDITION_LABELS,
+  candleRequirements,
+  describeCondition,
+  evaluateCondition,
+  evaluateRule,
+  type AlertMarketView,
+  type ConditionResult,
+  type RuleResult
+} from './conditions'
+export {
+  AlertEngine,
+  AlertRuleError,
+  alertEngine,
+  watchedCoinIds,
+  type AlertSnapshot,
+  type AlertTriggerListener
+} from './engine'
+export type {
+  AlertCombinator,
+  AlertCondition,
+  AlertConditionType,
+  AlertEvent,
+  AlertMode,
+  AlertRule,
+  AlertRuleInput,
+  AlertSignal,
+  NewSignalCondition,
+  PercentMoveCondition,
+  PriceCrossCondition,
+  RsiCondition,
+  VolumeSpikeCondition
+} from './types'
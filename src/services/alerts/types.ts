@@ -0,0 +1,89 @@
+import type { CandleInterval } from '../candles'
+
+export type AlertConditionType = 'price_cross' | 'percent_move' | 'rsi' | 'volume_spike' | 'new_signal'
+export type AlertCombinator = 'AND' | 'OR'
+// One-shot rules disable themselves after firing; recurring rules fire again
+// whenever they match once the cooldown has passed
+export type AlertMode = 'once' | 'recurring'
+
+interface ConditionBase {
+  coinId: string
+  symbol: string
+}
+
+// Edge-triggered: true only on the update where the price moves through the level
+export interface PriceCrossCondition extends ConditionBase {
+  type: 'price_cross'
+  direction: 'above' | 'below'
+  price: number
+}
+
+export interface PercentMoveCondition extends ConditionBase {
+  type: 'percent_move'
+  direction: 'up' | 'down' | 'either'
+  percent: number
+  windowMinutes: number
+}
+
+export interface RsiCondition extends ConditionBase {
+  type: 'rsi'
+  comparison: 'above' | 'below'
+  threshold: number
+  interval: CandleInterval
+}
+
+// Last closed bar's volume against the average of the bars before it
+export interface VolumeSpikeCondition extends ConditionBase {
+  type: 'volume_spike'
+  multiplier: number
+  interval: CandleInterval
+}
+
+// Edge-triggered: true on the evaluation straight after a matching signal
+export interface NewSignalCondition extends ConditionBase {
+  type: 'new_signal'
+  side: 'BUY' | 'SELL' | 'ANY'
+  minConfidence: number
+}
+
+export type AlertCondition =
+  | PriceCrossCondition
+  | PercentMoveCondition
+  | RsiCondition
+  | VolumeSpikeCondition
+  | NewSignalCondition
+
+export interface AlertRule {
+  id: string
+  name: string
+  combinator: AlertCombinator
+  conditions: AlertCondition[]
+  mode: AlertMode
+  cooldownMinutes: number
+  enabled: boolean
+  lastTriggeredAt?: string
+  triggerCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'name' | 'combinator' | 'conditions' | 'mode' | 'cooldownMinutes'>
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  ruleName: string
+  coinIds: string[]
+  // One line per condition that held when the rule fired
+  details: string[]
+  message: string
+  triggeredAt: string
+}
+
+export interface AlertSignal {
+  coinId: string
+  symbol: string
+  side: 'BUY' | 'SELL' | 'HOLD'
+  confidence: number
+  strategyName?: string
+}
@@ -0,0 +1,14 @@
+// Runs backtests off the main thread; long replays would otherwise freeze the UI
+import { runPortfolioBacktest } from './portfolio'
+import type { BacktestWorkerRequest, BacktestWorkerResponse } from './runner'
+
+self.onmessage = (event: MessageEvent<BacktestWorkerRequest>) => {
+  const { id, series, config } = event.data
+  let response: BacktestWorkerResponse
+  try {
+    response = { id, result: runPortfolioBacktest(series, config) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) }
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { strategyRegistry } from '../strategies'
+import { runBacktest } from './engine'
+import { BACKTEST_FIXTURES } from './fixtures'
+import type { BacktestResult } from './types'
+
+// Rounded so the snapshots don't hinge on the last bits of floating point
+function round(value: number) {
+  return Math.round(value * 1e6) / 1e6
+}
+
+function roundAll<T extends object>(values: T): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, typeof value === 'number' ? round(value) : value])
+  )
+}
+
+function summarize(result: BacktestResult) {
+  const exitReasons: Record<string, number> = {}
+  for (const trade of result.trades) exitReasons[trade.exitReason] = (exitReasons[trade.exitReason] ?? 0) + 1
+
+  return {
+    bars: result.bars,
+    trades: result.trades.length,
+    exitReasons,
+    firstTrade: result.trades[0] && roundAll(result.trades[0]),
+    lastTrade: result.trades.at(-1) && roundAll(result.trades.at(-1)!),
+    finalEquity: round(result.finalEquity),
+    metrics: roundAll(result.metrics)
+  }
+}
+
+describe('runBacktest over the bundled fixtures', () => {
+  const strategies = strategyRegistry.list()
+
+  it('covers every built-in strategy', () => {
+    expect(strategies.length).toBeGreaterThan(0)
+  })
+
+  describe.each(BACKTEST_FIXTURES)('$id', fixture => {
+    it.each(strategies.map(strategy => [strategy.id]))('%s', async strategyId => {
+      const candles = await fixture.load()
+      const result = runBacktest(candles, { strategyId, interval: fixture.interval })
+
+      // Every trade's P&L lands in the final equity
+      const pnl = result.trades.reduce((sum, trade) => sum + trade.pnl, 0)
+      expect(result.finalEquity).toBeCloseTo(result.config.initialCapital + pnl, 6)
+      expect(result.equityCurve).toHaveLength(candles.length)
+      // One position at a time
+      result.trades.slice(1).forEach((trade, i) => {
+        expect(trade.entryTime).toBeGreaterThanOrEqual(result.trades[i].exitTime)
+      })
+
+      expect(runBacktest(candles, { strategyId, interval: fixture.interval })).toEqual(result)
+      expect(summarize(result)).toMatchSnapshot()
+    })
+  })
+})
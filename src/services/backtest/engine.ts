@@ -0,0 +1,169 @@
+// Replays candles through a strategy bar by bar. Signals are taken on the
+// close of the bar that produced them; exits are checked against each later
+// bar's range, assuming the stop fills first when both levels are touched.
+import { INTERVAL_MS, type Candle } from '../candles'
+import { IndicatorContextBuilder, strategyRegistry, type StrategyRegistry } from '../strategies'
+import { computeMetrics } from './metrics'
+import type { BacktestConfig, BacktestResult, BacktestTrade, EquityPoint, ExitReason } from './types'
+
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'strategyId'> = {
+  interval: '1h',
+  initialCapital: 10000,
+  riskPerTrade: 0.01,
+  feeRate: 0.001,
+  maxHoldingBars: 48,
+  minConfidence: 0,
+  allowShort: true
+}
+
+// Matches the history the live signal engine hands strategies
+const STRATEGY_WINDOW_BARS = 200
+
+interface OpenPosition {
+  side: 'BUY' | 'SELL'
+  entryIndex: number
+  entryPrice: number
+  stopLoss: number
+  targetPrice: number
+  quantity: number
+  confidence: number
+  equityAtEntry: number
+}
+
+export class UnknownStrategyError extends Error {
+  constructor(strategyId: string) {
+    super(`Unknown strategy: ${strategyId}`)
+    this.name = 'UnknownStrategyError'
+  }
+}
+
+// Exit price and reason if this bar closes the position
+function exitFor(position: OpenPosition, candle: Candle): { price: number; reason: ExitReason } | null {
+  const long = position.side === 'BUY'
+  const stopHit = long ? candle.low <= position.stopLoss : candle.high >= position.stopLoss
+  const targetHit = long ? candle.high >= position.targetPrice : candle.low <= position.targetPrice
+
+  if (stopHit) {
+    // A gap through the stop fills at the open, not the stop
+    const gapped = long ? candle.open < position.stopLoss : candle.open > position.stopLoss
+    return { price: gapped ? candle.open : position.stopLoss, reason: 'stop' }
+  }
+  if (targetHit) {
+    const gapped = long ? candle.open > position.targetPrice : candle.open < position.targetPrice
+    return { price: gapped ? candle.open : position.targetPrice, reason: 'target' }
+  }
+  return null
+}
+
+export function runBacktest(
+  candles: Candle[],
+  config: Partial<BacktestConfig> & { strategyId: string },
+  registry: StrategyRegistry = strategyRegistry
+): BacktestResult {
+  const settings: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...config }
+  const strategy = registry.get(settings.strategyId)
+  if (!strategy) throw new UnknownStrategyError(settings.strategyId)
+
+  const barsPerDay = Math.max(1, Math.round((24 * 60 * 60 * 1000) / INTERVAL_MS[settings.interval]))
+  const context = new IndicatorContextBuilder()
+  const trades: BacktestTrade[] = []
+  const equityCurve: EquityPoint[] = []
+  let equity = settings.initialCapital
+  let position: OpenPosition | null = null
+
+  const closePosition = (open: OpenPosition, index: number, price: number, reason: ExitReason) => {
+    const direction = open.side === 'BUY' ? 1 : -1
+    const fees = (open.entryPrice + price) * open.quantity * settings.feeRate
+    const pnl = (price - open.entryPrice) * open.quantity * direction - fees
+    equity += pnl
+    trades.push({
+      side: open.side,
+      entryTime: candles[open.entryIndex].time,
+      exitTime: candles[index].time,
+      entryPrice: open.entryPrice,
+      exitPrice: price,
+      stopLoss: open.stopLoss,
+      targetPrice: open.targetPrice,
+      quantity: open.quantity,
+      confidence: open.confidence,
+      exitReason: reason,
+      barsHeld: index - open.entryIndex,
+      pnl,
+      returnPercentage: (pnl / open.equityAtEntry) * 100
+    })
+  }
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i]
+    context.update(candle)
+
+    if (position) {
+      const exit = exitFor(position, candle)
+      if (exit) {
+        closePosition(position, i, exit.price, exit.reason)
+        position = null
+      } else if (i - position.entryIndex >= settings.maxHoldingBars) {
+        closePosition(position, i, candle.close, 'expiry')
+        position = null
+      }
+    }
+
+    // Only one position at a time; a bar that closed a trade can't open one
+    const closedThisBar = trades.length > 0 && trades[trades.length - 1].exitTime === candle.time
+    if (!position && !closedThisBar && i + 1 >= strategy.minCandles && equity > 0) {
+      const window = candles.slice(Math.max(0, i + 1 - STRATEGY_WINDOW_BARS), i + 1)
+      const dayAgo = candles[Math.max(0, i - barsPerDay)]
+      const result = strategy.evaluate({
+        candles: window,
+        indicators: context.value,
+        market: {
+          price: candle.close,
+          priceChangePercentage24h: ((candle.close - dayAgo.close) / dayAgo.close) * 100,
+          volume24h: candles.slice(Math.max(0, i + 1 - barsPerDay), i + 1).reduce((sum, bar) => sum + bar.volume, 0),
+          marketCap: 0
+        },
+        riskConfig: settings.riskConfig
+      })
+
+      const tradable = result.side === 'BUY' || (result.side === 'SELL' && settings.allowShort)
+      if (tradable && result.levels && result.confidence >= settings.minConfidence) {
+        const riskPerUnit = Math.abs(candle.close - result.levels.stopLoss)
+        // Size so a stop-out loses riskPerTrade of equity, without leverage
+        const quantity = Math.min(equity * settings.riskPerTrade / riskPerUnit, equity / candle.close)
+        if (riskPerUnit > 0 && quantity > 0) {
+          position = {
+            side: result.side as 'BUY' | 'SELL',
+            entryIndex: i,
+            entryPrice: candle.close,
+            stopLoss: result.levels.stopLoss,
+            targetPrice: result.levels.targetPrice,
+            quantity,
+            confidence: result.confidence,
+            equityAtEntry: equity
+          }
+        }
+      }
+    }
+
+    const openPnl = position
+      ? (candle.close - position.entryPrice) * position.quantity * (position.side === 'BUY' ? 1 : -1)
+      : 0
+    equityCurve.push({ time: candle.time, equity: equity + openPnl })
+  }
+
+  if (position) {
+    closePosition(position, candles.length - 1, candles[candles.length - 1].close, 'end')
+    equityCurve[equityCurve.length - 1].equity = equity
+  }
+
+  return {
+    config: settings,
+    from: candles[0]?.time ?? 0,
+    to: candles[candles.length - 1]?.time ?? 0,
+    bars: candles.length,
+    trades,
+    equityCurve,
+    finalEquity: equity,
+    metrics: computeMetrics(trades, equityCurve, settings.initialCapital, settings.riskPerTrade, settings.interval)
+  }
+}
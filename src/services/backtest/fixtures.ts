@@ -0,0 +1,57 @@
+// Bundled candle files so backtests run offline and give the same answer on
+// every machine. They are synthetic, produced by
+// scripts/generate-backtest-fixtures.mjs, not recorded market history.
+import type { Candle, CandleInterval } from '../candles'
+
+type FixtureRow = [number, number, number, number, number, number]
+
+interface FixtureFile {
+  id: string
+  symbol: string
+  interval: CandleInterval
+  synthetic: boolean
+  seed: number
+  candles: FixtureRow[]
+}
+
+export interface BacktestFixture {
+  id: string
+  coinId: string
+  symbol: string
+  interval: CandleInterval
+  load: () => Promise<Candle[]>
+}
+
+function toCandles(file: FixtureFile): Candle[] {
+  return file.candles.map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }))
+}
+
+export const BACKTEST_FIXTURES: BacktestFixture[] = [
+  {
+    id: 'bitcoin-1h',
+    coinId: 'bitcoin',
+    symbol: 'BTC',
+    interval: '1h',
+    load: async () => toCandles((await import('./fixtures/bitcoin-1h.json')).default as FixtureFile)
+  },
+  {
+    id: 'ethereum-1h',
+    coinId: 'ethereum',
+    symbol: 'ETH',
+    interval: '1h',
+    load: async () => toCandles((await import('./fixtures/ethereum-1h.json')).default as FixtureFile)
+  },
+  {
+    id: 'solana-1h',
+    coinId: 'solana',
+    symbol: 'SOL',
+    interval: '1h',
+    load: async () => toCandles((await import('./fixtures/solana-1h.json')).default as FixtureFile)
+  }
+]
+
+export function loadFixtureCandles(id: string): Promise<Candle[]> {
+  const fixture = BACKTEST_FIXTURES.find(entry => entry.id === id)
+  if (!fixture) return Promise.reject(new Error(`Unknown backtest fixture: ${id}`))
+  return fixture.load()
+}
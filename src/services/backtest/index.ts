@@ -0,0 +1,37 @@
+// Strategy backtesting over historical or bundled fixture candles
+import { runBacktest } from './engine'
+import { BACKTEST_FIXTURES, loadFixtureCandles } from './fixtures'
+import type { BacktestConfig, BacktestResult } from './types'
+
+export { DEFAULT_BACKTEST_CONFIG, runBacktest, UnknownStrategyError } from './engine'
+export { BACKTEST_FIXTURES, loadFixtureCandles, type BacktestFixture } from './fixtures'
+export {
+  computeMetrics,
+  downsampleCurve,
+  drawdownCurve,
+  maxDrawdownPercentage,
+  sharpeRatio,
+  type DrawdownPoint
+} from './metrics'
+export { runPortfolioBacktest } from './portfolio'
+export { runBacktestInWorker } from './runner'
+export { loadBacktestSeries, type BacktestDataSource } from './series'
+export type {
+  BacktestConfig,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSeries,
+  BacktestTrade,
+  EquityPoint,
+  ExitReason,
+  PortfolioBacktestResult
+} from './types'
+
+export async function runFixtureBacktest(
+  fixtureId: string,
+  config: Partial<BacktestConfig> & { strategyId: string }
+): Promise<BacktestResult> {
+  const fixture = BACKTEST_FIXTURES.find(entry => entry.id === fixtureId)
+  const candles = await loadFixtureCandles(fixtureId)
+  return runBacktest(candles, { interval: fixture?.interval, ...config })
+}
@@ -0,0 +1,87 @@
+import { INTERVAL_MS, type CandleInterval } from '../candles'
+import type { BacktestMetrics, BacktestTrade, EquityPoint } from './types'
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000
+
+function mean(values: number[]) {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+export function maxDrawdownPercentage(equityCurve: EquityPoint[]) {
+  let peak = -Infinity
+  let maxDrawdown = 0
+  for (const point of equityCurve) {
+    peak = Math.max(peak, point.equity)
+    if (peak > 0) maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak)
+  }
+  return maxDrawdown * 100
+}
+
+// Annualised from per-bar equity returns, zero risk-free rate
+export function sharpeRatio(equityCurve: EquityPoint[], interval: CandleInterval) {
+  const returns = equityCurve.slice(1).map((point, i) => point.equity / equityCurve[i].equity - 1)
+  const deviation = standardDeviation(returns)
+  if (deviation === 0) return 0
+  return (mean(returns) / deviation) * Math.sqrt(YEAR_MS / INTERVAL_MS[interval])
+}
+
+export function computeMetrics(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  initialCapital: number,
+  riskPerTrade: number,
+  interval: CandleInterval
+): BacktestMetrics {
+  const wins = trades.filter(trade => trade.pnl > 0)
+  const losses = trades.filter(trade => trade.pnl <= 0)
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0)
+  const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.pnl, 0))
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? initialCapital
+  const barsInMarket = trades.reduce((sum, trade) => sum + trade.barsHeld, 0)
+  const expectancy = mean(trades.map(trade => trade.pnl))
+
+  return {
+    totalTrades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    averageWin: mean(wins.map(trade => trade.pnl)),
+    averageLoss: mean(losses.map(trade => trade.pnl)),
+    expectancy,
+    expectancyR: mean(trades.map(trade => trade.returnPercentage / 100 / riskPerTrade)),
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalReturnPercentage: ((finalEquity - initialCapital) / initialCapital) * 100,
+    maxDrawdownPercentage: maxDrawdownPercentage(equityCurve),
+    sharpeRatio: sharpeRatio(equityCurve, interval),
+    averageBarsHeld: mean(trades.map(trade => trade.barsHeld)),
+    exposurePercentage: equityCurve.length > 0 ? (barsInMarket / equityCurve.length) * 100 : 0
+  }
+}
+
+export interface DrawdownPoint {
+  time: number
+  drawdown: number // % below the running peak, as a negative number
+}
+
+export function drawdownCurve(equityCurve: EquityPoint[]): DrawdownPoint[] {
+  let peak = -Infinity
+  return equityCurve.map(point => {
+    peak = Math.max(peak, point.equity)
+    return { time: point.time, drawdown: peak > 0 ? ((point.equity - peak) / peak) * 100 : 0 }
+  })
+}
+
+// Thin a curve for charting or storage, always keeping the last point
+export function downsampleCurve<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) return points
+  const step = Math.ceil(points.length / maxPoints)
+  const sampled = points.filter((_, i) => i % step === 0)
+  if (sampled[sampled.length - 1] !== points[points.length - 1]) sampled.push(points[points.length - 1])
+  return sampled
+}
@@ -0,0 +1,61 @@
+import { runBacktest, DEFAULT_BACKTEST_CONFIG } from './engine'
+import { computeMetrics } from './metrics'
+import type { BacktestConfig, BacktestSeries, EquityPoint, PortfolioBacktestResult } from './types'
+
+// Sum per-coin equity curves, carrying each coin's last value across bars it
+// has no data for
+function combineEquityCurves(curves: EquityPoint[][], startingEquity: number[]): EquityPoint[] {
+  const times = [...new Set(curves.flatMap(curve => curve.map(point => point.time)))].sort((a, b) => a - b)
+  const cursors = curves.map(() => 0)
+  const latest = [...startingEquity]
+
+  return times.map(time => {
+    curves.forEach((curve, i) => {
+      while (cursors[i] < curve.length && curve[cursors[i]].time <= time) {
+        latest[i] = curve[cursors[i]].equity
+        cursors[i] += 1
+      }
+    })
+    return { time, equity: latest.reduce((sum, equity) => sum + equity, 0) }
+  })
+}
+
+export function runPortfolioBacktest(
+  series: BacktestSeries[],
+  config: Partial<BacktestConfig> & { strategyId: string }
+): PortfolioBacktestResult {
+  const settings: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...config }
+  const populated = series.filter(entry => entry.candles.length > 0)
+  const capitalPerCoin = settings.initialCapital / Math.max(populated.length, 1)
+
+  const coins = populated.map(entry => {
+    const result = runBacktest(entry.candles, { ...settings, initialCapital: capitalPerCoin })
+    result.trades.forEach(trade => { trade.coinId = entry.coinId })
+    return { coinId: entry.coinId, result }
+  })
+
+  const trades = coins
+    .flatMap(coin => coin.result.trades)
+    .sort((a, b) => a.entryTime - b.entryTime)
+  const equityCurve = combineEquityCurves(
+    coins.map(coin => coin.result.equityCurve),
+    coins.map(() => capitalPerCoin)
+  )
+  const finalEquity = coins.reduce((sum, coin) => sum + coin.result.finalEquity, 0) || settings.initialCapital
+  const metrics = computeMetrics(trades, equityCurve, settings.initialCapital, settings.riskPerTrade, settings.interval)
+  // Time in market is per coin, so average it rather than summing bars
+  if (coins.length > 0) {
+    metrics.exposurePercentage = coins.reduce((sum, coin) => sum + coin.result.metrics.exposurePercentage, 0) / coins.length
+  }
+
+  return {
+    config: settings,
+    from: coins.length > 0 ? Math.min(...coins.map(coin => coin.result.from)) : 0,
+    to: coins.length > 0 ? Math.max(...coins.map(coin => coin.result.to)) : 0,
+    coins,
+    trades,
+    equityCurve,
+    finalEquity,
+    metrics
+  }
+}
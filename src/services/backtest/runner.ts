@@ -0,0 +1,59 @@
+// Main-thread side of the backtest worker
+import { runPortfolioBacktest } from './portfolio'
+import type { BacktestConfig, BacktestSeries, PortfolioBacktestResult } from './types'
+
+export interface BacktestWorkerRequest {
+  id: number
+  series: BacktestSeries[]
+  config: Partial<BacktestConfig> & { strategyId: string }
+}
+
+export type BacktestWorkerResponse =
+  | { id: number; result: PortfolioBacktestResult; error?: undefined }
+  | { id: number; error: string; result?: undefined }
+
+interface PendingRun {
+  resolve: (result: PortfolioBacktestResult) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pending = new Map<number, PendingRun>()
+
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL('./backtest.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<BacktestWorkerResponse>) => {
+    const run = pending.get(event.data.id)
+    if (!run) return
+    pending.delete(event.data.id)
+    if (event.data.error !== undefined) run.reject(new Error(event.data.error))
+    else run.resolve(event.data.result)
+  }
+  worker.onerror = event => {
+    console.error('Backtest worker crashed:', event.message)
+    pending.forEach(run => run.reject(new Error('Backtest worker crashed')))
+    pending.clear()
+    worker?.terminate()
+    worker = null
+  }
+  return worker
+}
+
+export function runBacktestInWorker(
+  series: BacktestSeries[],
+  config: Partial<BacktestConfig> & { strategyId: string }
+): Promise<PortfolioBacktestResult> {
+  // Environments without workers run inline
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runPortfolioBacktest(series, config))
+  }
+
+  return new Promise((resolve, reject) => {
+    const id = ++nextRequestId
+    pending.set(id, { resolve, reject })
+    getWorker().postMessage({ id, series, config } satisfies BacktestWorkerRequest)
+  })
+}
@@ -0,0 +1,34 @@
+// Candle series for a backtest, from the bundled fixtures or live providers
+import type { CandleInterval, CandleRange } from '../candles'
+import { marketDataChain } from '../marketData'
+import { BACKTEST_FIXTURES } from './fixtures'
+import type { BacktestSeries } from './types'
+
+export type BacktestDataSource = 'fixtures' | 'live'
+
+export async function loadBacktestSeries(
+  source: BacktestDataSource,
+  coinIds: string[],
+  interval: CandleInterval,
+  range: CandleRange
+): Promise<BacktestSeries[]> {
+  const series = await Promise.all(coinIds.map(async coinId => {
+    try {
+      if (source === 'fixtures') {
+        const fixture = BACKTEST_FIXTURES.find(entry => entry.coinId === coinId && entry.interval === interval)
+        if (!fixture) throw new Error(`No ${interval} fixture for ${coinId}`)
+        const candles = await fixture.load()
+        return { coinId, candles: candles.filter(candle => candle.time >= range.from && candle.time <= range.to) }
+      }
+      return { coinId, candles: await marketDataChain.getCandles(coinId, interval, range) }
+    } catch (error) {
+      console.warn(`Failed to load backtest candles for ${coinId}:`, error)
+      return { coinId, candles: [] }
+    }
+  }))
+
+  if (series.every(entry => entry.candles.length === 0)) {
+    throw new Error('No candle data available for the selected coins and dates')
+  }
+  return series
+}
@@ -0,0 +1,89 @@
+import type { Candle, CandleInterval } from '../candles'
+import type { RiskConfig } from '../riskLevels'
+
+export type ExitReason = 'target' | 'stop' | 'expiry' | 'end'
+
+export interface BacktestConfig {
+  strategyId: string
+  interval: CandleInterval
+  initialCapital: number
+  // Fraction of equity lost if a trade is stopped out
+  riskPerTrade: number
+  // Charged on both entry and exit notional
+  feeRate: number
+  // Trades still open after this many bars are closed at market
+  maxHoldingBars: number
+  minConfidence: number
+  allowShort: boolean
+  riskConfig?: Partial<RiskConfig>
+}
+
+export interface BacktestTrade {
+  coinId?: string
+  side: 'BUY' | 'SELL'
+  entryTime: number
+  exitTime: number
+  entryPrice: number
+  exitPrice: number
+  stopLoss: number
+  targetPrice: number
+  quantity: number
+  confidence: number
+  exitReason: ExitReason
+  barsHeld: number
+  // Net of fees
+  pnl: number
+  returnPercentage: number
+}
+
+export interface EquityPoint {
+  time: number
+  equity: number
+}
+
+export interface BacktestMetrics {
+  totalTrades: number
+  wins: number
+  losses: number
+  winRate: number
+  averageWin: number
+  averageLoss: number
+  // Average net P&L per trade, in account currency and as % of equity risked
+  expectancy: number
+  expectancyR: number
+  // null when there were no losing trades to divide by
+  profitFactor: number | null
+  totalReturnPercentage: number
+  maxDrawdownPercentage: number
+  sharpeRatio: number
+  averageBarsHeld: number
+  exposurePercentage: number
+}
+
+export interface BacktestResult {
+  config: BacktestConfig
+  from: number
+  to: number
+  bars: number
+  trades: BacktestTrade[]
+  equityCurve: EquityPoint[]
+  finalEquity: number
+  metrics: BacktestMetrics
+}
+
+export interface BacktestSeries {
+  coinId: string
+  candles: Candle[]
+}
+
+// Several coins run with the same settings, capital split evenly between them
+export interface PortfolioBacktestResult {
+  config: BacktestConfig
+  from: number
+  to: number
+  coins: { coinId: string; result: BacktestResult }[]
+  trades: BacktestTrade[]
+  equityCurve: EquityPoint[]
+  finalEquity: number
+  metrics: BacktestMetrics
+}
@@ -0,0 +1,82 @@
+// Minimal promise wrapper over the one IndexedDB object store the response
+// cache persists to. Every call degrades to a no-op where IndexedDB is
+// unavailable (private browsing, tests).
+const DB_NAME = 'cryptosignal-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'responses'
+
+export interface StoredResponse {
+  key: string
+  endpoint: string
+  value: unknown
+  storedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  dbPromise ??= new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      store.createIndex('storedAt', 'storedAt')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.warn('Response cache storage unavailable:', request.error)
+      resolve(null)
+    }
+  })
+  return dbPromise
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function readResponse(key: string): Promise<StoredResponse | null> {
+  const db = await openDb()
+  if (!db) return null
+  const result = await settle(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key))
+  return (result as StoredResponse | undefined) ?? null
+}
+
+export async function writeResponse(response: StoredResponse) {
+  const db = await openDb()
+  if (!db) return
+  await settle(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(response))
+}
+
+export async function deleteResponses(keys: string[]) {
+  const db = await openDb()
+  if (!db || keys.length === 0) return
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+  await Promise.all(keys.map(key => settle(store.delete(key))))
+}
+
+// Every stored entry's key and age, oldest first, without loading the
+// (potentially large) values
+export async function listResponses(): Promise<{ key: string; storedAt: number }[]> {
+  const db = await openDb()
+  if (!db) return []
+
+  return new Promise((resolve, reject) => {
+    const entries: { key: string; storedAt: number }[] = []
+    const request = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('storedAt').openKeyCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(entries)
+        return
+      }
+      entries.push({ key: String(cursor.primaryKey), storedAt: Number(cursor.key) })
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
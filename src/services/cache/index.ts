@@ -0,0 +1,9 @@
+// Stale-while-revalidate response cache, in memory and IndexedDB
+export {
+  CACHE_POLICIES,
+  ResponseCache,
+  responseCache,
+  type CacheEndpoint,
+  type CacheOptions,
+  type CachedResponse
+} from './responseCache'
@@ -0,0 +1,159 @@
+// Stale-while-revalidate cache for market data responses, kept in memory and
+// persisted to IndexedDB so a reload paints straight from the last response.
+// Fresh entries are served as they are; stale ones are served at once and
+// refetched in the background; when the network fails, anything not yet
+// evicted stands in.
+import { deleteResponses, listResponses, readResponse, writeResponse } from './idb'
+
+export type CacheEndpoint = 'markets' | 'global' | 'coinDetail' | 'marketChart' | 'exchangeRates'
+
+interface CachePolicy {
+  // Served without refetching for this long
+  ttlMs: number
+  // Kept as a fallback for this long, then evicted
+  maxAgeMs: number
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+export const CACHE_POLICIES: Record<CacheEndpoint, CachePolicy> = {
+  markets: { ttlMs: MINUTE_MS, maxAgeMs: 24 * HOUR_MS },
+  global: { ttlMs: 5 * MINUTE_MS, maxAgeMs: 24 * HOUR_MS },
+  coinDetail: { ttlMs: 10 * MINUTE_MS, maxAgeMs: 7 * 24 * HOUR_MS },
+  marketChart: { ttlMs: 30 * MINUTE_MS, maxAgeMs: 7 * 24 * HOUR_MS },
+  exchangeRates: { ttlMs: 10 * MINUTE_MS, maxAgeMs: 7 * 24 * HOUR_MS }
+}
+
+// Oldest entries beyond these counts are evicted
+const MAX_MEMORY_ENTRIES = 100
+const MAX_STORED_ENTRIES = 500
+
+export interface CachedResponse<T> {
+  value: T
+  storedAt: number
+  // Past its TTL: either being revalidated or the network failed
+  stale: boolean
+}
+
+export interface CacheOptions<T> {
+  // Skip the cache unless the network fails
+  force?: boolean
+  // Called with the refetched response after a stale one was served
+  onRevalidate?: (response: CachedResponse<T>) => void
+}
+
+interface MemoryEntry {
+  endpoint: CacheEndpoint
+  value: unknown
+  storedAt: number
+}
+
+export class ResponseCache {
+  private memory = new Map<string, MemoryEntry>()
+  private revalidating = new Map<string, Promise<unknown>>()
+
+  async get<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    fetcher: () => Promise<T>,
+    { force = false, onRevalidate }: CacheOptions<T> = {}
+  ): Promise<CachedResponse<T>> {
+    const cacheKey = `${endpoint}:${key}`
+    const policy = CACHE_POLICIES[endpoint]
+    const cached = await this.read(cacheKey, policy)
+
+    if (cached && !force) {
+      const age = Date.now() - cached.storedAt
+      if (age < policy.ttlMs) return { value: cached.value as T, storedAt: cached.storedAt, stale: false }
+
+      this.fetch(endpoint, cacheKey, fetcher)
+        .then(response => onRevalidate?.(response))
+        .catch(error => console.warn(`Failed to revalidate ${cacheKey}:`, error))
+      return { value: cached.value as T, storedAt: cached.storedAt, stale: true }
+    }
+
+    try {
+      return await this.fetch(endpoint, cacheKey, fetcher)
+    } catch (error) {
+      // Last known data beats no data during an outage
+      if (cached) return { value: cached.value as T, storedAt: cached.storedAt, stale: true }
+      throw error
+    }
+  }
+
+  // Drops expired entries from memory and storage, then the oldest stored
+  // entries beyond the cap
+  async prune() {
+    const now = Date.now()
+    this.memory.forEach((entry, key) => {
+      if (now - entry.storedAt >= CACHE_POLICIES[entry.endpoint].maxAgeMs) this.memory.delete(key)
+    })
+
+    try {
+      const stored = await listResponses()
+      const expired = stored.filter(entry => {
+        const policy = CACHE_POLICIES[entry.key.split(':')[0] as CacheEndpoint]
+        return !policy || now - entry.storedAt >= policy.maxAgeMs
+      })
+      const kept = stored.length - expired.length
+      const overflow = stored
+        .filter(entry => !expired.includes(entry))
+        .slice(0, Math.max(0, kept - MAX_STORED_ENTRIES))
+      await deleteResponses([...expired, ...overflow].map(entry => entry.key))
+    } catch (error) {
+      console.warn('Failed to prune response cache:', error)
+    }
+  }
+
+  // Concurrent refetches of the same response share one request
+  private fetch<T>(endpoint: CacheEndpoint, cacheKey: string, fetcher: () => Promise<T>): Promise<CachedResponse<T>> {
+    let request = this.revalidating.get(cacheKey) as Promise<CachedResponse<T>> | undefined
+    if (!request) {
+      request = fetcher()
+        .then(value => {
+          const storedAt = Date.now()
+          this.remember(cacheKey, { endpoint, value, storedAt })
+          writeResponse({ key: cacheKey, endpoint, value, storedAt })
+            .catch(error => console.warn(`Failed to persist ${cacheKey}:`, error))
+          return { value, storedAt, stale: false }
+        })
+        .finally(() => {
+          this.revalidating.delete(cacheKey)
+        })
+      this.revalidating.set(cacheKey, request)
+    }
+    return request
+  }
+
+  private async read(cacheKey: string, policy: CachePolicy): Promise<MemoryEntry | null> {
+    let entry = this.memory.get(cacheKey) ?? null
+    if (!entry) {
+      try {
+        const stored = await readResponse(cacheKey)
+        if (stored) entry = { endpoint: stored.endpoint as CacheEndpoint, value: stored.value, storedAt: stored.storedAt }
+      } catch (error) {
+        console.warn(`Failed to read cached ${cacheKey}:`, error)
+      }
+    }
+    if (entry) this.remember(cacheKey, entry)
+
+    if (entry && Date.now() - entry.storedAt >= policy.maxAgeMs) {
+      this.memory.delete(cacheKey)
+      deleteResponses([cacheKey]).catch(error => console.warn(`Failed to evict ${cacheKey}:`, error))
+      return null
+    }
+    return entry
+  }
+
+  // Maps keep insertion order, so re-inserting marks the entry most recently used
+  private remember(cacheKey: string, entry: MemoryEntry) {
+    this.memory.delete(cacheKey)
+    this.memory.set(cacheKey, entry)
+    while (this.memory.size > MAX_MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!)
+    }
+  }
+}
+
+export const responseCache = new ResponseCache()
@@ -0,0 +1,105 @@
+// OHLCV candle types and helpers shared by every provider
+export type CandleInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d'
+
+export const CANDLE_INTERVALS: CandleInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d']
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000
+}
+
+export interface Candle {
+  time: number // bar open time, ms since epoch (UTC)
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number // quote currency volume traded during the bar
+}
+
+export interface CandleRange {
+  from: number
+  to: number
+}
+
+export function lookbackRange(interval: CandleInterval, bars: number, to = Date.now()): CandleRange {
+  return { from: to - INTERVAL_MS[interval] * bars, to }
+}
+
+// Choose which native interval to request for a target interval: the target
+// itself when supported, otherwise the coarsest finer interval that divides it.
+export function pickSourceInterval(target: CandleInterval, supported: CandleInterval[]): CandleInterval | null {
+  if (supported.includes(target)) return target
+
+  const candidates = supported
+    .filter(interval => INTERVAL_MS[interval] < INTERVAL_MS[target] && INTERVAL_MS[target] % INTERVAL_MS[interval] === 0)
+    .sort((a, b) => INTERVAL_MS[b] - INTERVAL_MS[a])
+  return candidates[0] ?? null
+}
+
+function bucketStart(time: number, interval: CandleInterval) {
+  const ms = INTERVAL_MS[interval]
+  return Math.floor(time / ms) * ms
+}
+
+// Merge finer bars into coarser ones aligned to UTC epoch boundaries
+export function resampleCandles(candles: Candle[], interval: CandleInterval): Candle[] {
+  const sorted = [...candles].sort((a, b) => a.time - b.time)
+  const result: Candle[] = []
+
+  for (const candle of sorted) {
+    const time = bucketStart(candle.time, interval)
+    const current = result[result.length - 1]
+
+    if (current && current.time === time) {
+      current.high = Math.max(current.high, candle.high)
+      current.low = Math.min(current.low, candle.low)
+      current.close = candle.close
+      current.volume += candle.volume
+    } else {
+      result.push({ ...candle, time })
+    }
+  }
+
+  return result
+}
+
+// Build bars from raw [time, price] points, e.g. CoinGecko market_chart series.
+// volumeFor lets the caller attribute volume to each bar.
+export function candlesFromPrices(
+  prices: [number, number][],
+  interval: CandleInterval,
+  volumeFor: (time: number) => number = () => 0
+): Candle[] {
+  const points: Candle[] = prices.map(([time, price]) => ({
+    time,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 0
+  }))
+
+  return resampleCandles(points, interval).map(candle => ({
+    ...candle,
+    volume: volumeFor(candle.time)
+  }))
+}
+
+// Sort, drop duplicate or invalid bars and clip to the requested range
+export function normaliseCandles(candles: Candle[], range: CandleRange, interval: CandleInterval): Candle[] {
+  const byTime = new Map<number, Candle>()
+
+  for (const candle of candles) {
+    const values = [candle.open, candle.high, candle.low, candle.close, candle.volume]
+    if (values.some(value => !Number.isFinite(value))) continue
+    if (candle.time + INTERVAL_MS[interval] <= range.from || candle.time > range.to) continue
+    byTime.set(candle.time, candle)
+  }
+
+  return [...byTime.values()].sort((a, b) => a.time - b.time)
+}
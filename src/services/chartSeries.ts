@@ -0,0 +1,62 @@
+// Candles with indicator readings attached bar by bar, for the coin detail
+// chart. Extra history is fetched ahead of the visible window so slow
+// indicators are warmed up by the first bar shown.
+import { lookbackRange, type Candle, type CandleInterval, type CandleRange } from './candles'
+import { BollingerBands, MACD, RSI, SMA, runIndicator } from './indicators'
+
+export type ChartInterval = '15m' | '1h' | '4h' | '1d'
+
+export const CHART_INTERVALS: { value: ChartInterval; label: string; bars: number }[] = [
+  { value: '15m', label: '15m', bars: 96 },
+  { value: '1h', label: '1H', bars: 168 },
+  { value: '4h', label: '4H', bars: 180 },
+  { value: '1d', label: '1D', bars: 180 }
+]
+
+// Longest lookback among the indicators below (SMA 50)
+const WARMUP_BARS = 50
+
+export interface ChartPoint extends Candle {
+  // [low, high], which the candlestick bars are drawn over
+  range: [number, number]
+  up: boolean
+  sma20: number | null
+  sma50: number | null
+  bbUpper: number | null
+  bbMiddle: number | null
+  bbLower: number | null
+  rsi: number | null
+  macd: number | null
+  macdSignal: number | null
+  macdHistogram: number | null
+}
+
+export function chartRange(interval: CandleInterval, bars: number, to = Date.now()): CandleRange {
+  return lookbackRange(interval, bars + WARMUP_BARS, to)
+}
+
+export function buildChartSeries(candles: Candle[], bars: number): ChartPoint[] {
+  const closes = candles.map(candle => candle.close)
+  const sma20 = runIndicator(new SMA(20), closes)
+  const sma50 = runIndicator(new SMA(50), closes)
+  const bollinger = runIndicator(new BollingerBands(20, 2), closes)
+  const rsi = runIndicator(new RSI(14), closes)
+  const macd = runIndicator(new MACD(12, 26, 9), closes)
+
+  const points = candles.map((candle, i): ChartPoint => ({
+    ...candle,
+    range: [candle.low, candle.high],
+    up: candle.close >= candle.open,
+    sma20: sma20[i],
+    sma50: sma50[i],
+    bbUpper: bollinger[i]?.upper ?? null,
+    bbMiddle: bollinger[i]?.middle ?? null,
+    bbLower: bollinger[i]?.lower ?? null,
+    rsi: rsi[i],
+    macd: macd[i]?.macd ?? null,
+    macdSignal: macd[i]?.signal ?? null,
+    macdHistogram: macd[i]?.histogram ?? null
+  }))
+
+  return points.slice(-bars)
+}
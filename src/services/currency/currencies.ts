@@ -0,0 +1,33 @@
+// Currencies prices can be quoted in, keyed by the lower-case code CoinGecko
+// uses for vs_currency
+export type QuoteCurrency = 'usd' | 'eur' | 'gbp' | 'jpy' | 'cad' | 'aud' | 'chf' | 'btc' | 'eth'
+
+export interface QuoteCurrencyInfo {
+  code: string
+  name: string
+  // Crypto quotes are formatted with their own sign and more decimals
+  kind: 'fiat' | 'crypto'
+  symbol: string
+  // Decimal places the currency divides into
+  minorUnits: number
+  // For crypto quotes, the coin whose live price gives the rate
+  coinId?: string
+}
+
+export const DEFAULT_QUOTE_CURRENCY: QuoteCurrency = 'usd'
+
+export const QUOTE_CURRENCIES: Record<QuoteCurrency, QuoteCurrencyInfo> = {
+  usd: { code: 'USD', name: 'US Dollar', kind: 'fiat', symbol: '$', minorUnits: 2 },
+  eur: { code: 'EUR', name: 'Euro', kind: 'fiat', symbol: '€', minorUnits: 2 },
+  gbp: { code: 'GBP', name: 'British Pound', kind: 'fiat', symbol: '£', minorUnits: 2 },
+  jpy: { code: 'JPY', name: 'Japanese Yen', kind: 'fiat', symbol: '¥', minorUnits: 0 },
+  cad: { code: 'CAD', name: 'Canadian Dollar', kind: 'fiat', symbol: 'CA$', minorUnits: 2 },
+  aud: { code: 'AUD', name: 'Australian Dollar', kind: 'fiat', symbol: 'A$', minorUnits: 2 },
+  chf: { code: 'CHF', name: 'Swiss Franc', kind: 'fiat', symbol: 'CHF', minorUnits: 2 },
+  btc: { code: 'BTC', name: 'Bitcoin', kind: 'crypto', symbol: '₿', minorUnits: 8, coinId: 'bitcoin' },
+  eth: { code: 'ETH', name: 'Ether', kind: 'crypto', symbol: 'Ξ', minorUnits: 8, coinId: 'ethereum' }
+}
+
+export function isQuoteCurrency(value: unknown): value is QuoteCurrency {
+  return typeof value === 'string' && value in QUOTE_CURRENCIES
+}
@@ -0,0 +1,43 @@
+import { QUOTE_CURRENCIES, type QuoteCurrency } from './currencies'
+
+export interface FormatMoneyOptions {
+  // Short form for large figures, e.g. €1.2T
+  compact?: boolean
+  maximumFractionDigits?: number
+}
+
+// Enough decimals for the value to be useful: sub-unit prices (and most
+// prices quoted in BTC or ETH) need more than cents
+function defaultFractionDigits(value: number, currency: QuoteCurrency) {
+  const abs = Math.abs(value)
+  if (QUOTE_CURRENCIES[currency].kind === 'crypto') return abs >= 1000 ? 2 : abs >= 1 ? 4 : 8
+  return abs < 1 ? 6 : QUOTE_CURRENCIES[currency].minorUnits
+}
+
+// Decimals for totals and P&L rather than prices: cents in fiat, enough of
+// a coin to be meaningful in crypto
+export function amountFractionDigits(currency: QuoteCurrency) {
+  return QUOTE_CURRENCIES[currency].kind === 'crypto' ? 6 : QUOTE_CURRENCIES[currency].minorUnits
+}
+
+export function formatMoney(value: number, currency: QuoteCurrency, { compact = false, maximumFractionDigits }: FormatMoneyOptions = {}) {
+  const info = QUOTE_CURRENCIES[currency]
+  const digits = maximumFractionDigits ?? (compact ? 2 : defaultFractionDigits(value, currency))
+
+  if (info.kind === 'fiat') {
+    return value.toLocaleString('en-US', {
+      style: 'currency',
+      currency: info.code,
+      notation: compact ? 'compact' : 'standard',
+      minimumFractionDigits: compact ? 0 : Math.min(info.minorUnits, digits),
+      maximumFractionDigits: digits
+    })
+  }
+
+  // Intl has no currency data for crypto, so the sign goes on by hand
+  const amount = Math.abs(value).toLocaleString('en-US', {
+    notation: compact ? 'compact' : 'standard',
+    maximumFractionDigits: digits
+  })
+  return `${value < 0 ? '-' : ''}${info.symbol}${amount}`
+}
@@ -0,0 +1,112 @@
+// Exchange rates against the US dollar, the currency market data is kept in.
+// Current rates come through the provider chain and the response cache;
+// historical ones are derived from bitcoin's daily price in both currencies.
+import { responseCache, type CachedResponse } from '../cache'
+import { cryptoApi } from '../cryptoApi'
+import { marketDataChain, type ExchangeRates, type RequestOptions } from '../marketData'
+import type { QuoteCurrency } from './currencies'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Chart spans history is fetched over, so requests share cache entries. A
+// year is as far back as the public API goes.
+const HISTORY_SPANS_DAYS = [30, 90, 365]
+
+export interface FxRatesSnapshot {
+  // Units of each currency per US dollar
+  rates: ExchangeRates
+  updatedAt: number | null
+  stale: boolean
+}
+
+// Daily [timestamp, units per US dollar] points, oldest first
+export type FxHistory = [number, number][]
+
+type Listener = () => void
+
+export class FxRateStore {
+  private snapshot: FxRatesSnapshot = { rates: { usd: 1 }, updatedAt: null, stale: false }
+  private listeners = new Set<Listener>()
+  private request: Promise<void> | null = null
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  getRate(currency: QuoteCurrency): number | null {
+    return this.snapshot.rates[currency] ?? null
+  }
+
+  // Loads the current rates, from the cache while fresh. Concurrent callers
+  // share one request; failures keep the last known rates.
+  refresh(options: RequestOptions = {}): Promise<void> {
+    if (!this.request) {
+      this.request = this.load(options).finally(() => {
+        this.request = null
+      })
+    }
+    return this.request
+  }
+
+  // Daily rates for `currency` from `since` on, or as far back as available
+  async getHistory(currency: QuoteCurrency, since: number): Promise<FxHistory> {
+    if (currency === 'usd') return []
+
+    const wanted = Math.ceil((Date.now() - since) / DAY_MS) + 1
+    const days = HISTORY_SPANS_DAYS.find(span => span >= wanted) ?? HISTORY_SPANS_DAYS[HISTORY_SPANS_DAYS.length - 1]
+    const [quoted, dollars] = await Promise.all([
+      cryptoApi.getMarketChart('bitcoin', days, { vsCurrency: currency }),
+      cryptoApi.getMarketChart('bitcoin', days)
+    ])
+    if (!quoted || !dollars) return []
+
+    // Paired by day, since providers don't agree on the time of day points fall on
+    const dollarPrices = new Map(dollars.prices.map(([time, price]) => [Math.floor(time / DAY_MS), price]))
+    const history: FxHistory = []
+    for (const [time, price] of quoted.prices) {
+      const dollarPrice = dollarPrices.get(Math.floor(time / DAY_MS))
+      if (dollarPrice) history.push([time, price / dollarPrice])
+    }
+    return history.sort((a, b) => a[0] - b[0])
+  }
+
+  private async load(options: RequestOptions) {
+    try {
+      const response = await responseCache.get(
+        'exchangeRates',
+        'usd',
+        () => marketDataChain.getExchangeRates(options),
+        { onRevalidate: revalidated => this.apply(revalidated) }
+      )
+      this.apply(response)
+    } catch (error) {
+      console.warn('Failed to load exchange rates:', error)
+    }
+  }
+
+  private apply(response: CachedResponse<ExchangeRates>) {
+    this.snapshot = { rates: { ...response.value, usd: 1 }, updatedAt: response.storedAt, stale: response.stale }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const fxRates = new FxRateStore()
+
+// The rate in effect at `timestamp`: the last point at or before it, or the
+// first point for anything older than the history
+export function rateAt(history: FxHistory, timestamp: number): number | null {
+  if (history.length === 0) return null
+
+  let low = 0
+  let high = history.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (history[mid][0] <= timestamp) low = mid
+    else high = mid - 1
+  }
+  return history[low][1]
+}
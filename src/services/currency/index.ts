@@ -0,0 +1,12 @@
+// Quote currencies: formatting, exchange rates and conversion from the US
+// dollar amounts market data is kept in
+export {
+  DEFAULT_QUOTE_CURRENCY,
+  QUOTE_CURRENCIES,
+  isQuoteCurrency,
+  type QuoteCurrency,
+  type QuoteCurrencyInfo
+} from './currencies'
+export { amountFractionDigits, formatMoney, type FormatMoneyOptions } from './format'
+export { FxRateStore, fxRates, rateAt, type FxHistory, type FxRatesSnapshot } from './fx'
+export { USD_QUOTE, formatQuote, fromQuote, toQuote, type Quote } from './quote'
@@ -0,0 +1,23 @@
+import { DEFAULT_QUOTE_CURRENCY, type QuoteCurrency } from './currencies'
+import { formatMoney, type FormatMoneyOptions } from './format'
+
+// The currency dollar amounts are shown in, and its rate at the time
+export interface Quote {
+  currency: QuoteCurrency
+  // Units of the currency per US dollar
+  rate: number
+}
+
+export const USD_QUOTE: Quote = { currency: DEFAULT_QUOTE_CURRENCY, rate: 1 }
+
+export function toQuote(quote: Quote, usd: number) {
+  return usd * quote.rate
+}
+
+export function fromQuote(quote: Quote, value: number) {
+  return value / quote.rate
+}
+
+export function formatQuote(quote: Quote, usd: number, options?: FormatMoneyOptions) {
+  return formatMoney(toQuote(quote, usd), quote.currency, options)
+}
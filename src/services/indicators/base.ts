@@ -0,0 +1,59 @@
+// Common base for incremental indicators. Each update() consumes one closed
+// value or bar and returns the new reading, or null while still warming up.
+export abstract class Indicator<TInput, TOutput> {
+  value: TOutput | null = null
+
+  abstract update(input: TInput): TOutput | null
+
+  // Evaluate an in-progress bar (e.g. a streaming tick) without committing it
+  preview(input: TInput): TOutput | null {
+    return cloneState(this).update(input)
+  }
+}
+
+// Deep copy that keeps prototypes, so nested indicators and windows stay usable
+function cloneState<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(cloneState) as T
+  if (value === null || typeof value !== 'object') return value
+
+  const copy = Object.create(Object.getPrototypeOf(value))
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = cloneState(field)
+  }
+  return copy
+}
+
+// Feed a full series through an indicator, keeping outputs aligned with inputs
+export function runIndicator<TInput, TOutput>(
+  indicator: Indicator<TInput, TOutput>,
+  inputs: TInput[]
+): (TOutput | null)[] {
+  return inputs.map(input => indicator.update(input))
+}
+
+// Fixed-size window that tracks its own sum
+export class RollingWindow {
+  private values: number[] = []
+  sum = 0
+  private size: number
+
+  constructor(size: number) {
+    this.size = size
+  }
+
+  push(value: number) {
+    this.values.push(value)
+    this.sum += value
+    if (this.values.length > this.size) {
+      this.sum -= this.values.shift()!
+    }
+  }
+
+  get full() {
+    return this.values.length === this.size
+  }
+
+  get items(): readonly number[] {
+    return this.values
+  }
+}
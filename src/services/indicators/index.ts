@@ -0,0 +1,8 @@
+// Technical indicators operating on candle series. Every indicator is
+// incremental: feed closed bars through update(), or preview() a live bar.
+export { Indicator, RollingWindow, runIndicator } from './base'
+export { SMA, EMA, WMA } from './movingAverages'
+export { RSI, MACD, Stochastic, type MACDValue, type StochasticValue } from './momentum'
+export { BollingerBands, ATR, trueRange, type BollingerValue } from './volatility'
+export { ADX, type ADXValue } from './trend'
+export { OBV, VWAP } from './volume'
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest'
+import type { Candle } from '../candles'
+import {
+  ADX,
+  ATR,
+  BollingerBands,
+  EMA,
+  MACD,
+  OBV,
+  RSI,
+  SMA,
+  Stochastic,
+  VWAP,
+  WMA,
+  runIndicator,
+  type Indicator
+} from '.'
+
+// Closes from StockCharts' moving average worked example
+const CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+  23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17
+]
+
+// Closes from StockCharts' RSI worked example
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89,
+  46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25,
+  45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13
+]
+
+// 4h bars starting 16:00 UTC, so the series spans four UTC days
+const START = Date.UTC(2024, 0, 1, 16)
+const BARS: Candle[] = [
+  [100, 104, 99, 103, 12], [103, 106, 102, 105, 9], [105, 105.5, 101, 102, 15],
+  [102, 103, 98, 99, 20], [99, 101, 97, 100, 11], [100, 104, 100, 103.5, 14],
+  [103.5, 108, 103, 107, 22], [107, 109, 105, 106, 10], [106, 106.5, 102, 103, 18],
+  [103, 105, 101, 104.5, 8], [104.5, 110, 104, 109, 25], [109, 112, 108, 111, 19],
+  [111, 111.5, 107, 108, 16], [108, 109, 104, 105, 21], [105, 107, 103, 106.5, 13]
+].map(([open, high, low, close, volume], i) => ({
+  time: START + i * 4 * 3600000,
+  open,
+  high,
+  low,
+  close,
+  volume
+}))
+
+type Reading = number | Record<string, number | null>
+
+// Reference values below are rounded to 4 decimals
+function expectReadings(actual: unknown[], expected: Reading[]) {
+  const readings = actual.filter(value => value !== null)
+  expect(readings).toHaveLength(expected.length)
+  readings.forEach((reading, i) => {
+    const want = expected[i]
+    if (typeof want === 'number') {
+      expect(reading).toBeCloseTo(want, 3)
+      return
+    }
+    const fields = reading as Record<string, number | null>
+    expect(Object.keys(fields).sort()).toEqual(Object.keys(want).sort())
+    for (const [key, value] of Object.entries(want)) {
+      if (value === null) expect(fields[key]).toBeNull()
+      else expect(fields[key]).toBeCloseTo(value, 3)
+    }
+  })
+}
+
+describe('moving averages', () => {
+  it('computes the SMA', () => {
+    expectReadings(runIndicator(new SMA(10), CLOSES), [
+      22.221, 22.209, 22.229, 22.259, 22.303, 22.421, 22.613, 22.765, 22.905, 23.076, 23.21,
+      23.377, 23.525, 23.652, 23.71, 23.684, 23.612, 23.505, 23.432, 23.277, 23.131
+    ])
+  })
+
+  it('computes the EMA seeded with the SMA', () => {
+    expectReadings(runIndicator(new EMA(10), CLOSES), [
+      22.221, 22.2081, 22.2412, 22.2664, 22.3289, 22.5164, 22.7952, 22.9688, 23.1254, 23.2753, 23.3398,
+      23.4271, 23.5076, 23.5335, 23.4711, 23.4036, 23.3902, 23.2611, 23.2318, 23.0806, 22.915
+    ])
+  })
+
+  it('computes the WMA', () => {
+    expectReadings(runIndicator(new WMA(10), CLOSES), [
+      22.2429, 22.23, 22.2629, 22.2904, 22.3542, 22.5464, 22.8425, 23.0493, 23.2429, 23.4329, 23.5336,
+      23.6445, 23.7342, 23.7569, 23.6729, 23.562, 23.4976, 23.3282, 23.2545, 23.0669, 22.8656
+    ])
+  })
+})
+
+describe('momentum', () => {
+  it('computes Wilder RSI', () => {
+    expectReadings(runIndicator(new RSI(14), RSI_CLOSES), [
+      70.4641, 66.2496, 66.4809, 69.3469, 66.2947, 57.915, 62.8807, 63.2088, 56.0116, 62.3399,
+      54.671, 50.3868, 40.0194, 41.4926, 41.9024, 45.4995, 37.3228, 33.0905, 37.7888
+    ])
+  })
+
+  it('computes MACD, signal and histogram', () => {
+    const readings = runIndicator(new MACD(3, 6, 4), CLOSES)
+    expectReadings(readings.slice(-6), [
+      { macd: -0.1416, signal: -0.0393, histogram: -0.1023 },
+      { macd: -0.0908, signal: -0.0599, histogram: -0.0309 },
+      { macd: -0.199, signal: -0.1155, histogram: -0.0834 },
+      { macd: -0.1192, signal: -0.117, histogram: -0.0022 },
+      { macd: -0.2236, signal: -0.1597, histogram: -0.064 },
+      { macd: -0.2783, signal: -0.2071, histogram: -0.0712 }
+    ])
+    // The MACD line starts with the slow EMA; the signal needs four of those
+    expect(readings.findIndex(value => value !== null)).toBe(5)
+    expect(readings[7]?.signal).toBeNull()
+    expect(readings[8]?.signal).toBeCloseTo(0.0166, 3)
+  })
+
+  it('computes the slow stochastic', () => {
+    expectReadings(runIndicator(new Stochastic(5, 3, 3), BARS), [
+      { k: 65.4882, d: null },
+      { k: 79.3771, d: null },
+      { k: 71.9697, d: 72.2783 },
+      { k: 58.3333, d: 69.8934 },
+      { k: 62.963, d: 64.422 },
+      { k: 76.5993, d: 65.9652 },
+      { k: 81.1448, d: 73.569 },
+      { k: 63.6364, d: 73.7935 },
+      { k: 46.2963, d: 63.6925 }
+    ])
+  })
+})
+
+describe('volatility', () => {
+  it('computes Bollinger Bands from the population deviation', () => {
+    const readings = runIndicator(new BollingerBands(10, 2), CLOSES)
+    expectReadings(readings.slice(-4), [
+      { middle: 23.505, upper: 24.2917, lower: 22.7183, bandwidth: 0.0669 },
+      { middle: 23.432, upper: 24.22, lower: 22.644, bandwidth: 0.0673 },
+      { middle: 23.277, upper: 24.1954, lower: 22.3586, bandwidth: 0.0789 },
+      { middle: 23.131, upper: 24.2258, lower: 22.0362, bandwidth: 0.0947 }
+    ])
+    expect(readings[9]?.middle).toBeCloseTo(22.221, 10)
+  })
+
+  it('computes Wilder ATR', () => {
+    expectReadings(runIndicator(new ATR(5), BARS), [
+      4.5, 4.4, 4.52, 4.416, 4.4328, 4.3462, 4.677, 4.5416, 4.5333, 4.6266, 4.5013
+    ])
+  })
+})
+
+describe('trend', () => {
+  it('computes ADX after twice the period', () => {
+    const readings = runIndicator(new ADX(5), BARS)
+    expect(readings.findIndex(value => value !== null)).toBe(9)
+    expectReadings(readings, [
+      { adx: 16.6166, plusDI: 22.0009, minusDI: 25.3085 },
+      { adx: 20.033, plusDI: 37.8483, minusDI: 18.7691 },
+      { adx: 24.8847, plusDI: 40.0012, minusDI: 15.4438 },
+      { adx: 26.146, plusDI: 32.0228, minusDI: 16.7958 },
+      { adx: 21.3429, plusDI: 25.0762, minusDI: 26.1679 },
+      { adx: 19.3737, plusDI: 20.6062, minusDI: 25.9597 }
+    ])
+  })
+})
+
+describe('volume', () => {
+  it('computes OBV from zero', () => {
+    expect(runIndicator(new OBV(), BARS)).toEqual([0, 9, -6, -26, -15, -1, 21, 11, -7, 1, 26, 45, 29, 8, 21])
+  })
+
+  it('resets the daily VWAP at UTC midnight', () => {
+    expectReadings(runIndicator(new VWAP('day'), BARS), [
+      102, 103, 102.8333, 101.2143, 100.7645, 101.1694, 102.4654, 102.9221,
+      103.8333, 103.7308, 105.6601, 106.9286, 107.2829, 107.0312, 105.5
+    ])
+  })
+
+  it('accumulates an unanchored VWAP over the whole series', () => {
+    const readings = runIndicator(new VWAP('none'), BARS)
+    const priceVolume = BARS.reduce((sum, bar) => sum + (bar.high + bar.low + bar.close) / 3 * bar.volume, 0)
+    const volume = BARS.reduce((sum, bar) => sum + bar.volume, 0)
+    expect(readings.at(-1)).toBeCloseTo(priceVolume / volume, 10)
+  })
+})
+
+// A live bar is previewed on every tick before it closes; none of that may
+// leak into the committed state
+describe('incremental updates', () => {
+  const closeCases: [string, () => Indicator<number, unknown>][] = [
+    ['SMA', () => new SMA(10)],
+    ['EMA', () => new EMA(10)],
+    ['WMA', () => new WMA(10)],
+    ['RSI', () => new RSI(14)],
+    ['MACD', () => new MACD(3, 6, 4)],
+    ['BollingerBands', () => new BollingerBands(10, 2)]
+  ]
+  const barCases: [string, () => Indicator<Candle, unknown>][] = [
+    ['ATR', () => new ATR(5)],
+    ['Stochastic', () => new Stochastic(5, 3, 3)],
+    ['ADX', () => new ADX(5)],
+    ['OBV', () => new OBV()],
+    ['VWAP', () => new VWAP('day')]
+  ]
+
+  function replayWithPreviews<T>(indicator: Indicator<T, unknown>, inputs: T[], ticks: (input: T) => T[]) {
+    return inputs.map(input => {
+      for (const tick of ticks(input)) indicator.preview(tick)
+      const previewed = indicator.preview(input)
+      const committed = indicator.update(input)
+      expect(previewed).toEqual(committed)
+      return committed
+    })
+  }
+
+  it.each(closeCases)('%s matches a full run', (_, create) => {
+    const full = runIndicator(create(), RSI_CLOSES)
+    const incremental = replayWithPreviews(create(), RSI_CLOSES, close => [close * 1.05, close * 0.9])
+    expect(incremental).toEqual(full)
+  })
+
+  it.each(barCases)('%s matches a full run', (_, create) => {
+    const full = runIndicator(create(), BARS)
+    const incremental = replayWithPreviews(create(), BARS, bar => [
+      { ...bar, high: bar.high * 1.1, close: bar.high * 1.1, volume: bar.volume / 2 },
+      { ...bar, low: bar.low * 0.9, close: bar.low * 0.9, volume: bar.volume * 3 }
+    ])
+    expect(incremental).toEqual(full)
+  })
+})
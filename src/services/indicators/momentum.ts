@@ -0,0 +1,122 @@
+import type { Candle } from '../candles'
+import { Indicator, RollingWindow } from './base'
+import { EMA, SMA } from './movingAverages'
+
+// Wilder's RSI: the first averages are simple means of `period` changes, after
+// which gains and losses are smoothed with a 1/period weight
+export class RSI extends Indicator<number, number> {
+  private period: number
+  private previous: number | null = null
+  private count = 0
+  private gainSum = 0
+  private lossSum = 0
+  private avgGain = 0
+  private avgLoss = 0
+
+  constructor(period = 14) {
+    super()
+    this.period = period
+  }
+
+  update(price: number): number | null {
+    if (this.previous === null) {
+      this.previous = price
+      return null
+    }
+
+    const change = price - this.previous
+    const gain = Math.max(change, 0)
+    const loss = Math.max(-change, 0)
+    this.previous = price
+    this.count += 1
+
+    if (this.count < this.period) {
+      this.gainSum += gain
+      this.lossSum += loss
+      return null
+    }
+
+    if (this.count === this.period) {
+      this.avgGain = (this.gainSum + gain) / this.period
+      this.avgLoss = (this.lossSum + loss) / this.period
+    } else {
+      this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period
+      this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period
+    }
+
+    if (this.avgLoss === 0) {
+      this.value = this.avgGain === 0 ? 50 : 100
+    } else {
+      this.value = 100 - 100 / (1 + this.avgGain / this.avgLoss)
+    }
+    return this.value
+  }
+}
+
+export interface MACDValue {
+  macd: number
+  signal: number | null
+  histogram: number | null
+}
+
+export class MACD extends Indicator<number, MACDValue> {
+  private fast: EMA
+  private slow: EMA
+  private signal: EMA
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    super()
+    this.fast = new EMA(fastPeriod)
+    this.slow = new EMA(slowPeriod)
+    this.signal = new EMA(signalPeriod)
+  }
+
+  update(price: number): MACDValue | null {
+    const fast = this.fast.update(price)
+    const slow = this.slow.update(price)
+    if (fast === null || slow === null) return null
+
+    const macd = fast - slow
+    const signal = this.signal.update(macd)
+    this.value = { macd, signal, histogram: signal === null ? null : macd - signal }
+    return this.value
+  }
+}
+
+export interface StochasticValue {
+  k: number
+  d: number | null
+}
+
+// %K over `kPeriod` bars, optionally smoothed (slow stochastic uses 3), and
+// %D as the SMA of %K
+export class Stochastic extends Indicator<Candle, StochasticValue> {
+  private highs: RollingWindow
+  private lows: RollingWindow
+  private kSmoothing: SMA
+  private d: SMA
+
+  constructor(kPeriod = 14, dPeriod = 3, smoothing = 1) {
+    super()
+    this.highs = new RollingWindow(kPeriod)
+    this.lows = new RollingWindow(kPeriod)
+    this.kSmoothing = new SMA(smoothing)
+    this.d = new SMA(dPeriod)
+  }
+
+  update(bar: Candle): StochasticValue | null {
+    this.highs.push(bar.high)
+    this.lows.push(bar.low)
+    if (!this.highs.full) return null
+
+    const highest = Math.max(...this.highs.items)
+    const lowest = Math.min(...this.lows.items)
+    const rawK = highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100
+
+    const k = this.kSmoothing.update(rawK)
+    if (k === null) return null
+
+    this.value = { k, d: this.d.update(k) }
+    return this.value
+  }
+}
@@ -0,0 +1,63 @@
+import { Indicator, RollingWindow } from './base'
+
+export class SMA extends Indicator<number, number> {
+  private window: RollingWindow
+  private period: number
+
+  constructor(period: number) {
+    super()
+    this.period = period
+    this.window = new RollingWindow(period)
+  }
+
+  update(price: number): number | null {
+    this.window.push(price)
+    this.value = this.window.full ? this.window.sum / this.period : null
+    return this.value
+  }
+}
+
+// Seeded with the SMA of the first `period` values, the common charting convention
+export class EMA extends Indicator<number, number> {
+  private seed: SMA
+  private alpha: number
+
+  constructor(period: number) {
+    super()
+    this.seed = new SMA(period)
+    this.alpha = 2 / (period + 1)
+  }
+
+  update(price: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.update(price)
+    } else {
+      this.value = this.value + this.alpha * (price - this.value)
+    }
+    return this.value
+  }
+}
+
+// Linearly weighted: the newest value has weight `period`, the oldest weight 1
+export class WMA extends Indicator<number, number> {
+  private window: RollingWindow
+  private period: number
+
+  constructor(period: number) {
+    super()
+    this.period = period
+    this.window = new RollingWindow(period)
+  }
+
+  update(price: number): number | null {
+    this.window.push(price)
+    if (!this.window.full) {
+      this.value = null
+      return null
+    }
+
+    const weighted = this.window.items.reduce((sum, value, i) => sum + value * (i + 1), 0)
+    this.value = weighted / (this.period * (this.period + 1) / 2)
+    return this.value
+  }
+}
@@ -0,0 +1,70 @@
+import type { Candle } from '../candles'
+import { Indicator } from './base'
+import { trueRange } from './volatility'
+
+export interface ADXValue {
+  adx: number
+  plusDI: number
+  minusDI: number
+}
+
+// Wilder's Average Directional Index. TR and directional movement are smoothed
+// with Wilder sums; ADX is the Wilder average of DX, so the first reading
+// arrives after 2 * period bars.
+export class ADX extends Indicator<Candle, ADXValue> {
+  private period: number
+  private previous: Candle | null = null
+  private count = 0
+  private smoothedTR = 0
+  private smoothedPlusDM = 0
+  private smoothedMinusDM = 0
+  private dxCount = 0
+  private dxSum = 0
+  private adx: number | null = null
+
+  constructor(period = 14) {
+    super()
+    this.period = period
+  }
+
+  update(bar: Candle): ADXValue | null {
+    const previous = this.previous
+    this.previous = bar
+    if (!previous) return null
+
+    const upMove = bar.high - previous.high
+    const downMove = previous.low - bar.low
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0
+    const tr = trueRange(bar, previous.close)
+    this.count += 1
+
+    if (this.count <= this.period) {
+      this.smoothedTR += tr
+      this.smoothedPlusDM += plusDM
+      this.smoothedMinusDM += minusDM
+      if (this.count < this.period) return null
+    } else {
+      this.smoothedTR = this.smoothedTR - this.smoothedTR / this.period + tr
+      this.smoothedPlusDM = this.smoothedPlusDM - this.smoothedPlusDM / this.period + plusDM
+      this.smoothedMinusDM = this.smoothedMinusDM - this.smoothedMinusDM / this.period + minusDM
+    }
+
+    const plusDI = this.smoothedTR === 0 ? 0 : (this.smoothedPlusDM / this.smoothedTR) * 100
+    const minusDI = this.smoothedTR === 0 ? 0 : (this.smoothedMinusDM / this.smoothedTR) * 100
+    const diSum = plusDI + minusDI
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100
+
+    if (this.adx === null) {
+      this.dxCount += 1
+      this.dxSum += dx
+      if (this.dxCount < this.period) return null
+      this.adx = this.dxSum / this.period
+    } else {
+      this.adx = (this.adx * (this.period - 1) + dx) / this.period
+    }
+
+    this.value = { adx: this.adx, plusDI, minusDI }
+    return this.value
+  }
+}
@@ -0,0 +1,78 @@
+import type { Candle } from '../candles'
+import { Indicator, RollingWindow } from './base'
+
+export interface BollingerValue {
+  middle: number
+  upper: number
+  lower: number
+  bandwidth: number // (upper - lower) / middle
+}
+
+// Middle band is the SMA; bands use the population standard deviation
+export class BollingerBands extends Indicator<number, BollingerValue> {
+  private window: RollingWindow
+  private period: number
+  private multiplier: number
+
+  constructor(period = 20, multiplier = 2) {
+    super()
+    this.period = period
+    this.multiplier = multiplier
+    this.window = new RollingWindow(period)
+  }
+
+  update(price: number): BollingerValue | null {
+    this.window.push(price)
+    if (!this.window.full) return null
+
+    const middle = this.window.sum / this.period
+    const variance = this.window.items.reduce((sum, value) => sum + (value - middle) ** 2, 0) / this.period
+    const deviation = Math.sqrt(variance) * this.multiplier
+
+    this.value = {
+      middle,
+      upper: middle + deviation,
+      lower: middle - deviation,
+      bandwidth: middle === 0 ? 0 : (deviation * 2) / middle
+    }
+    return this.value
+  }
+}
+
+export function trueRange(bar: Candle, previousClose: number | null): number {
+  if (previousClose === null) return bar.high - bar.low
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  )
+}
+
+// Wilder's Average True Range
+export class ATR extends Indicator<Candle, number> {
+  private period: number
+  private previousClose: number | null = null
+  private count = 0
+  private trSum = 0
+
+  constructor(period = 14) {
+    super()
+    this.period = period
+  }
+
+  update(bar: Candle): number | null {
+    const tr = trueRange(bar, this.previousClose)
+    this.previousClose = bar.close
+    this.count += 1
+
+    if (this.count < this.period) {
+      this.trSum += tr
+      return null
+    }
+
+    this.value = this.count === this.period
+      ? (this.trSum + tr) / this.period
+      : (this.value! * (this.period - 1) + tr) / this.period
+    return this.value
+  }
+}
@@ -0,0 +1,50 @@
+import type { Candle } from '../candles'
+import { Indicator } from './base'
+
+// On-Balance Volume, starting from zero at the first bar
+export class OBV extends Indicator<Candle, number> {
+  private previousClose: number | null = null
+
+  update(bar: Candle): number | null {
+    if (this.previousClose === null) {
+      this.value = 0
+    } else if (bar.close > this.previousClose) {
+      this.value = this.value! + bar.volume
+    } else if (bar.close < this.previousClose) {
+      this.value = this.value! - bar.volume
+    }
+    this.previousClose = bar.close
+    return this.value
+  }
+}
+
+// Volume-weighted average of the typical price. Crypto trades around the
+// clock, so the 'day' anchor resets at UTC midnight.
+export class VWAP extends Indicator<Candle, number> {
+  private anchor: 'none' | 'day'
+  private session: number | null = null
+  private priceVolume = 0
+  private volume = 0
+
+  constructor(anchor: 'none' | 'day' = 'day') {
+    super()
+    this.anchor = anchor
+  }
+
+  update(bar: Candle): number | null {
+    if (this.anchor === 'day') {
+      const session = Math.floor(bar.time / 86400000)
+      if (session !== this.session) {
+        this.session = session
+        this.priceVolume = 0
+        this.volume = 0
+      }
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3
+    this.priceVolume += typicalPrice * bar.volume
+    this.volume += bar.volume
+    this.value = this.volume === 0 ? typicalPrice : this.priceVolume / this.volume
+    return this.value
+  }
+}
@@ -0,0 +1,12 @@
+// Shared, normalised market data for every coin the app shows
+export {
+  LIVE_COIN_LIMIT,
+  MarketStore,
+  TOP_MARKETS_LIMIT,
+  marketStore,
+  type MarketStatus,
+  type RefreshOptions,
+  type MarketStoreSnapshot
+} from './store'
+export { selectCoinBySymbol, selectCoins, selectTopCoins } from './selectors'
+export { applyPriceTick, coinFromMarket, type MarketCoin } from './types'
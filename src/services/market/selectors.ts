@@ -0,0 +1,21 @@
+// Views over the market store snapshot. Each returns a new array, so hooks
+// memoise them against the snapshot.
+import type { MarketStoreSnapshot } from './store'
+import type { MarketCoin } from './types'
+
+export function selectCoins(snapshot: MarketStoreSnapshot, ids: string[]): MarketCoin[] {
+  return ids.flatMap(id => snapshot.coins[id] ?? [])
+}
+
+// Top markets in rank order, optionally only the first `limit`
+export function selectTopCoins(snapshot: MarketStoreSnapshot, limit?: number): MarketCoin[] {
+  return selectCoins(snapshot, limit === undefined ? snapshot.topIds : snapshot.topIds.slice(0, limit))
+}
+
+// Signals and trades only carry the ticker. Top markets win over lesser-known
+// coins sharing it.
+export function selectCoinBySymbol(snapshot: MarketStoreSnapshot, symbol: string): MarketCoin | undefined {
+  const wanted = symbol.toUpperCase()
+  return selectTopCoins(snapshot).find(coin => coin.symbol === wanted)
+    ?? Object.values(snapshot.coins).find(coin => coin.symbol === wanted)
+}
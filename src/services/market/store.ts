@@ -0,0 +1,203 @@
+// Market data for every coin the app shows, normalised by coin id. The top
+// markets and any coins outside them (e.g. watchlisted ones) are fetched once
+// here and shared, with live prices folded in from the price store. Responses
+// come through the response cache, so a reload paints the last known data, and
+// prices are recorded in the snapshot history, the fallback beyond that.
+import { responseCache, type CachedResponse } from '../cache'
+import type { CoinGeckoMarket } from '../cryptoApi'
+import { marketDataChain, type RequestOptions } from '../marketData'
+import { coinFromSnapshot, priceSnapshots } from '../snapshots'
+import { priceStore, type PriceStore } from '../stream/priceStore'
+import { applyPriceTick, coinFromMarket, type MarketCoin } from './types'
+
+// Enough to fill the coin browser; the dashboard shows the head of this list
+export const TOP_MARKETS_LIMIT = 250
+// Coins on the dashboard, which also get live prices and signals
+export const LIVE_COIN_LIMIT = 20
+// Top coins recorded in the snapshot history after each refresh
+const SNAPSHOT_COIN_LIMIT = 50
+
+export type MarketStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+export interface MarketStoreSnapshot {
+  coins: Record<string, MarketCoin>
+  // Ids of the top markets by market cap, in rank order
+  topIds: string[]
+  status: MarketStatus
+  // Provider that served the last top markets refresh
+  source: string | null
+  // True while the top markets are past their cache TTL, e.g. being
+  // revalidated or kept through a provider outage
+  stale: boolean
+  // When the top markets were fetched, which may predate this session
+  lastUpdated: number | null
+}
+
+export interface RefreshOptions extends RequestOptions {
+  // Go to the network even if the cached top markets are fresh
+  force?: boolean
+}
+
+type Listener = () => void
+
+export class MarketStore {
+  private snapshot: MarketStoreSnapshot = {
+    coins: {},
+    topIds: [],
+    status: 'idle',
+    source: null,
+    stale: false,
+    lastUpdated: null
+  }
+  private listeners = new Set<Listener>()
+  private fetchedAt = new Map<string, number>()
+  private topRequest: Promise<number> | null = null
+  private prices: PriceStore
+
+  constructor(prices: PriceStore) {
+    this.prices = prices
+    prices.subscribe(() => this.applyTicks())
+  }
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  getCoin(id: string): MarketCoin | undefined {
+    return this.snapshot.coins[id]
+  }
+
+  // Refetches the top markets. Concurrent callers share one request; the
+  // promise resolves to the number of coins loaded.
+  refreshTop(options: RefreshOptions = {}): Promise<number> {
+    if (!this.topRequest) {
+      this.topRequest = this.loadTop(options).finally(() => {
+        this.topRequest = null
+      })
+    }
+    return this.topRequest
+  }
+
+  // Refetches the top markets only if they are older than `maxAgeMs`
+  async ensureTop(maxAgeMs: number, options: RequestOptions = {}): Promise<number> {
+    const { lastUpdated, stale, topIds } = this.snapshot
+    if (lastUpdated && !stale && Date.now() - lastUpdated < maxAgeMs) return topIds.length
+    return this.refreshTop(options)
+  }
+
+  // Fetches coins by id that are missing or older than `maxAgeMs`, whatever
+  // their rank
+  async ensureCoins(ids: string[], maxAgeMs: number, options: RequestOptions = {}) {
+    // A top markets refresh under way may well cover them
+    if (this.topRequest) await this.topRequest.catch(() => undefined)
+
+    const now = Date.now()
+    const stale = [...new Set(ids)].filter(id => id && now - (this.fetchedAt.get(id) ?? 0) >= maxAgeMs)
+    if (stale.length === 0) return
+
+    // Claimed up front so overlapping calls don't fetch the same coins
+    stale.forEach(id => this.fetchedAt.set(id, now))
+    try {
+      const { value } = await responseCache.get(
+        'markets',
+        `ids:${[...stale].sort().join(',')}`,
+        () => marketDataChain.getMarketsByIds(stale, options),
+        { onRevalidate: response => this.upsert(response.value.map(coinFromMarket)) }
+      )
+      this.upsert(value.map(coinFromMarket))
+    } catch (error) {
+      stale.forEach(id => this.fetchedAt.delete(id))
+      throw error
+    }
+  }
+
+  private async loadTop({ force, ...options }: RefreshOptions): Promise<number> {
+    this.setSnapshot({ ...this.snapshot, status: 'loading' })
+    try {
+      const response = await responseCache.get(
+        'markets',
+        `top:${TOP_MARKETS_LIMIT}`,
+        () => marketDataChain.getTopMarkets(TOP_MARKETS_LIMIT, options),
+        { force, onRevalidate: revalidated => this.applyTop(revalidated) }
+      )
+      return this.applyTop(response)
+    } catch (error) {
+      // Keep showing what we have, or failing that the last recorded prices
+      if (this.snapshot.topIds.length === 0) await this.restoreSnapshots()
+      this.setSnapshot({ ...this.snapshot, status: 'error' })
+      throw error
+    }
+  }
+
+  private async restoreSnapshots() {
+    try {
+      const snapshots = await priceSnapshots.getLatest(TOP_MARKETS_LIMIT)
+      if (snapshots.length === 0) return
+      const coins = snapshots.map(coinFromSnapshot)
+      this.upsert(coins, {
+        topIds: coins.map(coin => coin.id),
+        source: 'Price history',
+        stale: true,
+        lastUpdated: Math.max(...snapshots.map(snapshot => snapshot.updatedAt))
+      })
+    } catch (error) {
+      console.warn('Failed to restore price snapshots:', error)
+    }
+  }
+
+  private applyTop(response: CachedResponse<CoinGeckoMarket[]>): number {
+    const coins = response.value.map(coinFromMarket)
+    const isNewer = response.storedAt > (this.snapshot.lastUpdated ?? 0)
+    this.upsert(coins, {
+      topIds: coins.map(coin => coin.id),
+      status: 'ready',
+      source: marketDataChain.activeProvider?.name ?? this.snapshot.source,
+      stale: response.stale,
+      lastUpdated: response.storedAt
+    })
+    if (isNewer && !response.stale) priceSnapshots.record(coins.slice(0, SNAPSHOT_COIN_LIMIT))
+    return coins.length
+  }
+
+  private upsert(coins: MarketCoin[], changes: Partial<MarketStoreSnapshot> = {}) {
+    const now = Date.now()
+    const next = { ...this.snapshot.coins }
+    coins.forEach(coin => {
+      next[coin.id] = applyPriceTick(coin, this.prices.getPrice(coin.id))
+      this.fetchedAt.set(coin.id, now)
+    })
+    this.setSnapshot({ ...this.snapshot, ...changes, coins: next })
+  }
+
+  private applyTicks() {
+    const { prices } = this.prices.getSnapshot()
+    const updated: MarketCoin[] = []
+
+    for (const [id, tick] of Object.entries(prices)) {
+      const coin = this.snapshot.coins[id]
+      if (!coin) continue
+      const next = applyPriceTick(coin, tick)
+      if (next !== coin) updated.push(next)
+    }
+    if (updated.length === 0) return
+
+    const coins = { ...this.snapshot.coins }
+    updated.forEach(coin => {
+      coins[coin.id] = coin
+    })
+    this.setSnapshot({ ...this.snapshot, coins })
+    priceSnapshots.record(updated)
+  }
+
+  private setSnapshot(snapshot: MarketStoreSnapshot) {
+    this.snapshot = snapshot
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const marketStore = new MarketStore(priceStore)
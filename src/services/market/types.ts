@@ -0,0 +1,58 @@
+import type { CoinGeckoMarket } from '../cryptoApi'
+import type { PriceTick } from '../stream/priceStore'
+
+// A coin's market data as the app uses it, whichever provider served it.
+// Prices include the latest ticks from the price stream. Amounts are in US
+// dollars, which every provider and the stream quote; they're converted to the
+// user's quote currency for display (see ../currency).
+export interface MarketCoin {
+  id: string
+  symbol: string
+  name: string
+  image?: string
+  currentPrice: number
+  priceChange24h: number
+  priceChangePercentage24h: number
+  high24h?: number
+  low24h?: number
+  marketCap: number
+  // 0 when unknown, e.g. for coins the provider doesn't rank
+  marketCapRank: number
+  volume24h: number
+  lastUpdated: string
+}
+
+export function coinFromMarket(market: CoinGeckoMarket): MarketCoin {
+  return {
+    id: market.id,
+    symbol: market.symbol.toUpperCase(),
+    name: market.name,
+    image: market.image || undefined,
+    currentPrice: market.current_price,
+    priceChange24h: market.price_change_24h,
+    priceChangePercentage24h: market.price_change_percentage_24h,
+    high24h: market.high_24h || undefined,
+    low24h: market.low_24h || undefined,
+    marketCap: market.market_cap,
+    marketCapRank: market.market_cap_rank || 0,
+    volume24h: market.total_volume,
+    lastUpdated: market.last_updated
+  }
+}
+
+export function applyPriceTick(coin: MarketCoin, tick: PriceTick | undefined): MarketCoin {
+  if (!tick || tick.timestamp <= Date.parse(coin.lastUpdated)) return coin
+
+  const open24h = tick.open24h ?? coin.currentPrice - coin.priceChange24h
+  const priceChange24h = tick.price - open24h
+  return {
+    ...coin,
+    currentPrice: tick.price,
+    priceChange24h,
+    priceChangePercentage24h: open24h > 0 ? (priceChange24h / open24h) * 100 : coin.priceChangePercentage24h,
+    high24h: tick.high24h ?? coin.high24h,
+    low24h: tick.low24h ?? coin.low24h,
+    volume24h: tick.volume24h ?? coin.volume24h,
+    lastUpdated: new Date(tick.timestamp).toISOString()
+  }
+}
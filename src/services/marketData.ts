@@ -0,0 +1,204 @@
+// Priority-ordered failover chain across market data providers
+import {
+  normaliseCandles,
+  pickSourceInterval,
+  resampleCandles,
+  type Candle,
+  type CandleInterval,
+  type CandleRange
+} from './candles'
+import type { CoinGeckoMarket, GlobalMarketData } from './cryptoApi'
+import { DEFAULT_QUOTE_CURRENCY, type QuoteCurrency } from './currency/currencies'
+import { BinanceProvider } from './providers/binance'
+import { CoinbaseProvider } from './providers/coinbase'
+import { CoinGeckoProvider } from './providers/coingecko'
+import { ProviderRateLimitError } from './providers/http'
+import { KrakenProvider } from './providers/kraken'
+import { requestScheduler } from './providers/scheduler'
+import {
+  ProviderUnsupportedError,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketChart,
+  type MarketDataProvider,
+  type MarketQuery,
+  type RequestOptions
+} from './providers/types'
+
+export type { CoinDetail, ExchangeRates, MarketChart, MarketDataProvider, MarketQuery, RequestOptions }
+export { requestScheduler, type ProviderBudget, type RequestPriority, type SchedulerSnapshot } from './providers/scheduler'
+export {
+  ProviderValidationError,
+  isWebUrl,
+  validationReporter,
+  type ValidationReport,
+  type ValidationSnapshot
+} from './providers/validation'
+
+const BASE_COOLDOWN_MS = 30 * 1000
+const MAX_COOLDOWN_MS = 10 * 60 * 1000
+// Keeps `ids=` query strings well inside URL length limits
+const MARKET_IDS_BATCH_SIZE = 50
+
+interface RegisteredProvider {
+  provider: MarketDataProvider
+  priority: number
+  failures: number
+  cooldownUntil: number
+}
+
+export interface ProviderStatus {
+  id: string
+  name: string
+  priority: number
+  failures: number
+  coolingDown: boolean
+}
+
+export class MarketDataUnavailableError extends Error {
+  errors: { providerId: string; error: unknown }[]
+
+  constructor(operation: string, errors: { providerId: string; error: unknown }[]) {
+    super(`No market data provider could serve ${operation}`)
+    this.name = 'MarketDataUnavailableError'
+    this.errors = errors
+  }
+}
+
+export class MarketDataChain {
+  private providers: RegisteredProvider[] = []
+  private lastProviderId: string | null = null
+
+  // Lower priority values are tried first
+  register(provider: MarketDataProvider, priority = 100) {
+    this.unregister(provider.id)
+    this.providers.push({ provider, priority, failures: 0, cooldownUntil: 0 })
+    requestScheduler.setRateLimit(provider.id, provider.rateLimit)
+    this.providers.sort((a, b) => a.priority - b.priority)
+  }
+
+  unregister(providerId: string) {
+    this.providers = this.providers.filter(entry => entry.provider.id !== providerId)
+  }
+
+  getStatus(): ProviderStatus[] {
+    const now = Date.now()
+    return this.providers.map(entry => ({
+      id: entry.provider.id,
+      name: entry.provider.name,
+      priority: entry.priority,
+      failures: entry.failures,
+      coolingDown: entry.cooldownUntil > now
+    }))
+  }
+
+  // Provider that served the most recent successful request
+  get activeProvider(): MarketDataProvider | null {
+    return this.providers.find(entry => entry.provider.id === this.lastProviderId)?.provider ?? null
+  }
+
+  getMarkets(query: MarketQuery, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    return this.run('markets', async provider => {
+      const markets = await provider.getMarkets(query, options)
+      if (markets.length === 0) throw new Error(`${provider.id} returned no markets`)
+      return markets
+    }, options.vsCurrency)
+  }
+
+  // Markets for specific coins regardless of rank, fetched in batches. A batch
+  // no provider can serve is skipped so the rest still come back.
+  async getMarketsByIds(ids: string[], options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    const unique = [...new Set(ids)]
+    const results: CoinGeckoMarket[] = []
+
+    for (let start = 0; start < unique.length; start += MARKET_IDS_BATCH_SIZE) {
+      const batch = unique.slice(start, start + MARKET_IDS_BATCH_SIZE)
+      try {
+        results.push(...await this.getMarkets({ ids: batch }, options))
+      } catch (error) {
+        if (unique.length <= MARKET_IDS_BATCH_SIZE) throw error
+        console.warn(`Failed to fetch markets for ${batch.length} coins:`, error)
+      }
+    }
+
+    return results
+  }
+
+  getTopMarkets(limit = 20, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    return this.getMarkets({ limit }, options)
+  }
+
+  getGlobalMarketData(options: RequestOptions = {}): Promise<GlobalMarketData> {
+    return this.run('global market data', provider => provider.getGlobalMarketData(options))
+  }
+
+  getCoinDetail(id: string, options: RequestOptions = {}): Promise<CoinDetail> {
+    return this.run(`coin detail for ${id}`, provider => provider.getCoinDetail(id, options))
+  }
+
+  getMarketChart(id: string, days = 7, options: RequestOptions = {}): Promise<MarketChart> {
+    return this.run(`market chart for ${id}`, provider => provider.getMarketChart(id, days, options), options.vsCurrency)
+  }
+
+  // Units of each supported currency per US dollar
+  getExchangeRates(options: RequestOptions = {}): Promise<ExchangeRates> {
+    return this.run('exchange rates', provider => provider.getExchangeRates(options))
+  }
+
+  // OHLCV bars normalised across providers. When a provider lacks the interval
+  // natively, finer bars are fetched and resampled.
+  getCandles(id: string, interval: CandleInterval, range: CandleRange, options: RequestOptions = {}): Promise<Candle[]> {
+    return this.run(`${interval} candles for ${id}`, async provider => {
+      const source = pickSourceInterval(interval, provider.candleIntervals)
+      if (!source) throw new ProviderUnsupportedError(provider.id, `${interval} candles`)
+
+      const raw = await provider.getCandles(id, source, range, options)
+      const candles = normaliseCandles(source === interval ? raw : resampleCandles(raw, interval), range, interval)
+      if (candles.length === 0) throw new Error(`${provider.id} returned no candles for ${id}`)
+      return candles
+    }, options.vsCurrency)
+  }
+
+  // Providers that can't quote in `currency` are left out
+  private async run<T>(
+    operation: string,
+    call: (provider: MarketDataProvider) => Promise<T>,
+    currency: QuoteCurrency = DEFAULT_QUOTE_CURRENCY
+  ): Promise<T> {
+    const now = Date.now()
+    const quoting = this.providers.filter(entry => entry.provider.quoteCurrencies.includes(currency))
+    const available = quoting.filter(entry => entry.cooldownUntil <= now)
+    // If everything is cooling down, try them all rather than fail outright
+    const candidates = available.length > 0 ? available : quoting
+    const errors: { providerId: string; error: unknown }[] = []
+
+    for (const entry of candidates) {
+      try {
+        const result = await call(entry.provider)
+        entry.failures = 0
+        entry.cooldownUntil = 0
+        this.lastProviderId = entry.provider.id
+        return result
+      } catch (error) {
+        if (error instanceof ProviderUnsupportedError) continue
+
+        entry.failures += 1
+        const backoff = Math.min(BASE_COOLDOWN_MS * Math.pow(2, entry.failures - 1), MAX_COOLDOWN_MS)
+        // A provider that told us when to come back isn't tried again before then
+        const retryAfter = error instanceof ProviderRateLimitError ? error.retryAfterMs : 0
+        entry.cooldownUntil = Date.now() + Math.max(backoff, retryAfter)
+        errors.push({ providerId: entry.provider.id, error })
+        console.warn(`Market data provider ${entry.provider.name} failed for ${operation}, trying next:`, error)
+      }
+    }
+
+    throw new MarketDataUnavailableError(operation, errors)
+  }
+}
+
+export const marketDataChain = new MarketDataChain()
+
+marketDataChain.register(new CoinGeckoProvider(), 0)
+marketDataChain.register(new BinanceProvider(), 10)
+marketDataChain.register(new CoinbaseProvider(), 20)
+marketDataChain.register(new KrakenProvider(), 30)
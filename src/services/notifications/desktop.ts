@@ -0,0 +1,90 @@
+// Desktop notifications through the Web Notifications API. Notifications are
+// shown via the service worker when one is registered, so they stay actionable
+// after the tab is backgrounded; clicks are relayed back to the page.
+import type { AppNotification, NotificationLink } from './types'
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+export type DesktopPermission = NotificationPermission | 'unsupported'
+
+type ClickListener = (link: NotificationLink) => void
+
+export class DesktopNotifier {
+  private registration: Promise<ServiceWorkerRegistration | null> | null = null
+  private clickListeners = new Set<ClickListener>()
+
+  get supported() {
+    return typeof window !== 'undefined' && 'Notification' in window
+  }
+
+  get permission(): DesktopPermission {
+    return this.supported ? Notification.permission : 'unsupported'
+  }
+
+  async requestPermission(): Promise<DesktopPermission> {
+    if (!this.supported) return 'unsupported'
+    if (Notification.permission !== 'default') return Notification.permission
+    return Notification.requestPermission()
+  }
+
+  // Registers the service worker once and starts relaying notification clicks
+  register(): Promise<ServiceWorkerRegistration | null> {
+    if (this.registration) return this.registration
+    if (!('serviceWorker' in navigator)) {
+      this.registration = Promise.resolve(null)
+      return this.registration
+    }
+
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'notification-click' && event.data.link) {
+        this.clickListeners.forEach(listener => listener(event.data.link))
+      }
+    })
+    this.registration = navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+      console.warn('Service worker registration failed, using page notifications:', error)
+      return null
+    })
+    return this.registration
+  }
+
+  onClick(listener: ClickListener) {
+    this.clickListeners.add(listener)
+    return () => {
+      this.clickListeners.delete(listener)
+    }
+  }
+
+  // Skipped while the tab has focus, where the inbox and toasts already show it
+  async show(notification: Pick<AppNotification, 'id' | 'title' | 'body' | 'link'>, { force = false } = {}) {
+    if (this.permission !== 'granted') return false
+    if (!force && document.visibilityState === 'visible' && document.hasFocus()) return false
+
+    const options: NotificationOptions = {
+      body: notification.body,
+      tag: notification.id,
+      icon: '/favicon.svg',
+      data: { link: notification.link }
+    }
+
+    try {
+      const registration = await this.register()
+      if (registration) {
+        await registration.showNotification(notification.title, options)
+        return true
+      }
+
+      const shown = new Notification(notification.title, options)
+      shown.onclick = () => {
+        window.focus()
+        if (notification.link) this.clickListeners.forEach(listener => listener(notification.link!))
+        shown.close()
+      }
+      return true
+    } catch (error) {
+      console.error('Failed to show desktop notification:', error)
+      return false
+    }
+  }
+}
+
+export const desktopNotifier = new DesktopNotifier()
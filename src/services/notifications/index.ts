@@ -0,0 +1,19 @@
+// Persistent in-app notification inbox, mirrored to the desktop when allowed
+export { DesktopNotifier, desktopNotifier, type DesktopPermission } from './desktop'
+export {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+  isQuietTime,
+  shouldNotifyDesktop,
+  type NotificationPreferences,
+  type QuietHours
+} from './preferences'
+export { NotificationStore, notificationStore, type NotificationSnapshot } from './store'
+export type {
+  AppNotification,
+  NotificationInput,
+  NotificationLink,
+  NotificationSeverity,
+  NotificationType
+} from './types'
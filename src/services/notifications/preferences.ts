@@ -0,0 +1,85 @@
+// Rules deciding which inbox notifications are also raised as desktop
+// notifications: opt-in, per type, above a minimum severity and outside quiet
+// hours in the user's chosen timezone
+import type { AppNotification, NotificationSeverity, NotificationType } from './types'
+
+export interface QuietHours {
+  enabled: boolean
+  // 24h "HH:MM" wall-clock times; a start after the end spans midnight
+  start: string
+  end: string
+  timezone: string
+}
+
+export interface NotificationPreferences {
+  desktopEnabled: boolean
+  types: Record<NotificationType, boolean>
+  minSeverity: NotificationSeverity
+  quietHours: QuietHours
+}
+
+export const SEVERITY_ORDER: NotificationSeverity[] = ['info', 'success', 'warning', 'critical']
+
+export const SEVERITY_LABELS: Record<NotificationSeverity, string> = {
+  info: 'Info',
+  success: 'Success',
+  warning: 'Warning',
+  critical: 'Critical'
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  desktopEnabled: false,
+  types: { signal: true, alert: true, system: false },
+  minSeverity: 'info',
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+  }
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+// Wall-clock minutes since midnight at the instant, in the given timezone
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value ?? 0)
+  return value('hour') * 60 + value('minute')
+}
+
+export function isQuietTime(quietHours: QuietHours, date = new Date()): boolean {
+  if (!quietHours.enabled) return false
+
+  const start = minutesOfDay(quietHours.start)
+  const end = minutesOfDay(quietHours.end)
+  if (start === end) return false
+
+  let now: number
+  try {
+    now = localMinutes(date, quietHours.timezone)
+  } catch {
+    // Unknown timezone: fall back to the browser's
+    now = date.getHours() * 60 + date.getMinutes()
+  }
+  return start < end ? now >= start && now < end : now >= start || now < end
+}
+
+export function shouldNotifyDesktop(
+  preferences: NotificationPreferences,
+  notification: Pick<AppNotification, 'type' | 'severity'>,
+  date = new Date()
+): boolean {
+  return preferences.desktopEnabled &&
+    preferences.types[notification.type] &&
+    SEVERITY_ORDER.indexOf(notification.severity) >= SEVERITY_ORDER.indexOf(preferences.minSeverity) &&
+    !isQuietTime(preferences.quietHours, date)
+}
@@ -0,0 +1,137 @@
+// Per-user notification inbox. Signal outcomes, fired alerts and system events
+// land here so they outlive their toasts; entries are kept in memory for the
+// header badge and written through to blink.db.
+import { blink } from '../../blink/client'
+import type { AppNotification, NotificationInput, NotificationType } from './types'
+
+// Notifications kept in memory; older ones stay in the database
+const INBOX_LIMIT = 200
+
+export interface NotificationSnapshot {
+  notifications: AppNotification[]
+  unreadCount: number
+  loading: boolean
+}
+
+function notificationFromRow(row: any): AppNotification {
+  let link: AppNotification['link']
+  try {
+    link = row.link ? JSON.parse(row.link) : undefined
+  } catch {
+    link = undefined
+  }
+
+  return {
+    id: row.id,
+    type: row.type,
+    severity: row.severity,
+    title: row.title,
+    body: row.body,
+    link,
+    read: Number(row.read) > 0,
+    createdAt: row.createdAt
+  }
+}
+
+export class NotificationStore {
+  private userId: string | null = null
+  private snapshot: NotificationSnapshot = { notifications: [], unreadCount: 0, loading: false }
+  private listeners = new Set<() => void>()
+  private notifyListeners = new Set<(notification: AppNotification) => void>()
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  // Called for each new notification, e.g. to raise it on the desktop
+  onNotify(listener: (notification: AppNotification) => void) {
+    this.notifyListeners.add(listener)
+    return () => {
+      this.notifyListeners.delete(listener)
+    }
+  }
+
+  async load(userId: string) {
+    if (this.userId === userId) return
+    this.userId = userId
+    this.setNotifications([], true)
+
+    try {
+      const rows = await blink.db.notifications.list({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        limit: INBOX_LIMIT
+      })
+      if (this.userId !== userId) return
+
+      // Keep anything that arrived while loading
+      const loaded = rows.map(notificationFromRow)
+      const loadedIds = new Set(loaded.map((n: AppNotification) => n.id))
+      this.setNotifications([...this.snapshot.notifications.filter(n => !loadedIds.has(n.id)), ...loaded], false)
+    } catch (error) {
+      console.error('Failed to load notifications:', error)
+      this.setNotifications(this.snapshot.notifications, false)
+    }
+  }
+
+  notify(input: NotificationInput): AppNotification {
+    const notification: AppNotification = {
+      ...input,
+      id: `notification_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      read: false,
+      createdAt: new Date().toISOString()
+    }
+    this.setNotifications([notification, ...this.snapshot.notifications])
+
+    if (this.userId) {
+      blink.db.notifications.create({
+        ...notification,
+        userId: this.userId,
+        link: notification.link ? JSON.stringify(notification.link) : ''
+      }).catch((error: unknown) => {
+        console.error('Failed to save notification:', error)
+      })
+    }
+    this.notifyListeners.forEach(listener => listener(notification))
+    return notification
+  }
+
+  markRead(ids: string[], read = true) {
+    const targets = new Set(ids)
+    const changed = this.snapshot.notifications.filter(n => targets.has(n.id) && n.read !== read)
+    if (changed.length === 0) return
+
+    this.setNotifications(this.snapshot.notifications.map(n => (targets.has(n.id) ? { ...n, read } : n)))
+    Promise.all(changed.map(n => blink.db.notifications.update(n.id, { read }))).catch((error: unknown) => {
+      console.error('Failed to update notifications:', error)
+    })
+  }
+
+  // Mark everything, or everything of one type, as read
+  markAllRead(type?: NotificationType) {
+    this.markRead(this.snapshot.notifications.filter(n => !n.read && (!type || n.type === type)).map(n => n.id))
+  }
+
+  async remove(ids: string[]) {
+    const targets = new Set(ids)
+    this.setNotifications(this.snapshot.notifications.filter(n => !targets.has(n.id)))
+    try {
+      await Promise.all(ids.map(id => blink.db.notifications.delete(id)))
+    } catch (error) {
+      console.error('Failed to delete notifications:', error)
+    }
+  }
+
+  private setNotifications(notifications: AppNotification[], loading = this.snapshot.loading) {
+    const kept = notifications.slice(0, INBOX_LIMIT)
+    this.snapshot = { notifications: kept, unreadCount: kept.filter(n => !n.read).length, loading }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const notificationStore = new NotificationStore()
@@ -0,0 +1,20 @@
+export type NotificationType = 'signal' | 'alert' | 'system'
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'critical'
+
+// Where clicking a notification takes the user
+export type NotificationLink =
+  | { kind: 'coin'; coinId: string; symbol: string }
+  | { kind: 'signal'; signalId: string; symbol: string }
+
+export interface AppNotification {
+  id: string
+  type: NotificationType
+  severity: NotificationSeverity
+  title: string
+  body: string
+  link?: NotificationLink
+  read: boolean
+  createdAt: string
+}
+
+export type NotificationInput = Pick<AppNotification, 'type' | 'severity' | 'title' | 'body' | 'link'>
@@ -0,0 +1,21 @@
+// Simulated trading account driven by live prices
+export { applyFill, matchOrder, unrealizedPnl, type Fill, type FillOutcome } from './matching'
+export {
+  DEFAULT_STARTING_BALANCE,
+  PaperOrderError,
+  PaperTradingStore,
+  activeCoinIds,
+  paperTradingStore,
+  type PaperTradingSnapshot
+} from './store'
+export type {
+  BracketOrderInput,
+  BracketRole,
+  OrderInput,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  PaperAccount,
+  PaperOrder,
+  PaperPosition
+} from './types'
@@ -0,0 +1,88 @@
+// Pure order-matching rules for the paper account: when an order triggers,
+// what it fills at, and how a fill changes cash and the position
+import type { OrderSide, PaperOrder, PaperPosition } from './types'
+
+export interface Fill {
+  price: number
+  fee: number
+}
+
+export interface FillOutcome {
+  position: PaperPosition
+  cashChange: number
+  realizedPnl: number
+}
+
+function slipped(price: number, side: OrderSide, slippageBps: number) {
+  const slip = slippageBps / 10000
+  return side === 'BUY' ? price * (1 + slip) : price * (1 - slip)
+}
+
+// Limit orders fill at their price or better without slippage; market and
+// triggered stop orders take the market price plus slippage
+export function matchOrder(order: PaperOrder, marketPrice: number, feeRate: number, slippageBps: number): Fill | null {
+  if (order.status !== 'open' || !(marketPrice > 0)) return null
+
+  let price: number | null = null
+  if (order.type === 'market') {
+    price = slipped(marketPrice, order.side, slippageBps)
+  } else if (order.type === 'limit' && order.limitPrice !== undefined) {
+    const crossed = order.side === 'BUY' ? marketPrice <= order.limitPrice : marketPrice >= order.limitPrice
+    if (crossed) price = order.side === 'BUY' ? Math.min(marketPrice, order.limitPrice) : Math.max(marketPrice, order.limitPrice)
+  } else if (order.type === 'stop' && order.stopPrice !== undefined) {
+    const triggered = order.side === 'BUY' ? marketPrice >= order.stopPrice : marketPrice <= order.stopPrice
+    if (triggered) price = slipped(marketPrice, order.side, slippageBps)
+  }
+
+  if (price === null) return null
+  return { price, fee: price * order.quantity * feeRate }
+}
+
+// Apply a fill to the (possibly empty) position in the same coin. Reducing or
+// flipping a position realises P&L against the average entry price.
+export function applyFill(position: PaperPosition, order: PaperOrder, fill: Fill, now: string): FillOutcome {
+  const signedQuantity = order.side === 'BUY' ? order.quantity : -order.quantity
+  const cashChange = -signedQuantity * fill.price - fill.fee
+  const current = position.quantity
+
+  let quantity = current + signedQuantity
+  let averagePrice = position.averagePrice
+  let realizedPnl = -fill.fee
+  let openedAt = current === 0 ? now : position.openedAt
+
+  if (current === 0 || Math.sign(current) === Math.sign(signedQuantity)) {
+    // Opening or adding: blend the entry price
+    averagePrice = (Math.abs(current) * position.averagePrice + order.quantity * fill.price) / Math.abs(quantity)
+  } else {
+    const closed = Math.min(Math.abs(current), order.quantity)
+    realizedPnl += closed * (fill.price - position.averagePrice) * Math.sign(current)
+    // Flipped through zero: the remainder opens at the fill price
+    if (Math.sign(quantity) !== Math.sign(current) && quantity !== 0) {
+      averagePrice = fill.price
+      openedAt = now
+    }
+  }
+
+  // Ignore float dust left after closing out
+  if (Math.abs(quantity) < 1e-12) {
+    quantity = 0
+    averagePrice = 0
+  }
+
+  return {
+    position: {
+      ...position,
+      quantity,
+      averagePrice,
+      realizedPnl: position.realizedPnl + realizedPnl,
+      openedAt,
+      updatedAt: now
+    },
+    cashChange,
+    realizedPnl
+  }
+}
+
+export function unrealizedPnl(position: PaperPosition, marketPrice: number) {
+  return position.quantity * (marketPrice - position.averagePrice)
+}
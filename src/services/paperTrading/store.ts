@@ -0,0 +1,417 @@
+// Paper trading account for the signed-in user. State lives in memory so
+// fills can be matched synchronously on every price update; changes are
+// written through to blink.db in the background.
+import { blink } from '../../blink/client'
+import { applyFill, matchOrder } from './matching'
+import type {
+  BracketOrderInput,
+  OrderInput,
+  PaperAccount,
+  PaperOrder,
+  PaperPosition
+} from './types'
+
+export const DEFAULT_STARTING_BALANCE = 10000
+
+const DEFAULT_ACCOUNT_SETTINGS = {
+  feeRate: 0.001,
+  slippageBps: 5,
+  signalAllocation: 0.1
+}
+
+// Order history kept in memory; older orders stay in the database
+const ORDER_HISTORY_LIMIT = 200
+
+export interface PaperTradingSnapshot {
+  account: PaperAccount | null
+  positions: PaperPosition[]
+  orders: PaperOrder[]
+  loading: boolean
+}
+
+export class PaperOrderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PaperOrderError'
+  }
+}
+
+function orderFromRow(row: any): PaperOrder {
+  return {
+    id: row.id,
+    coinId: row.coinId,
+    symbol: row.symbol,
+    side: row.side,
+    type: row.type,
+    quantity: Number(row.quantity),
+    limitPrice: row.limitPrice ?? undefined,
+    stopPrice: row.stopPrice ?? undefined,
+    status: row.status,
+    bracketId: row.bracketId || undefined,
+    bracketRole: row.bracketRole || undefined,
+    signalId: row.signalId || undefined,
+    fillPrice: row.fillPrice ?? undefined,
+    fee: row.fee ?? undefined,
+    rejectReason: row.rejectReason || undefined,
+    createdAt: row.createdAt,
+    filledAt: row.filledAt || undefined
+  }
+}
+
+function positionFromRow(row: any): PaperPosition {
+  return {
+    id: row.id,
+    coinId: row.coinId,
+    symbol: row.symbol,
+    quantity: Number(row.quantity),
+    averagePrice: Number(row.averagePrice),
+    realizedPnl: Number(row.realizedPnl) || 0,
+    openedAt: row.openedAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+// Coins with resting orders or open positions, which need prices to fill and trigger
+export function activeCoinIds({ orders, positions }: PaperTradingSnapshot): string[] {
+  return [...new Set([
+    ...orders.filter(order => order.status === 'open' || order.status === 'pending').map(order => order.coinId),
+    ...positions.filter(position => position.quantity !== 0).map(position => position.coinId)
+  ])]
+}
+
+export class PaperTradingStore {
+  private userId: string | null = null
+  private snapshot: PaperTradingSnapshot = { account: null, positions: [], orders: [], loading: false }
+  private listeners = new Set<() => void>()
+  private lastPrices: Record<string, number> = {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  async load(userId: string) {
+    if (this.userId === userId) return
+    this.userId = userId
+    this.update({ account: null, positions: [], orders: [], loading: true })
+
+    try {
+      const [accounts, positions, orders] = await Promise.all([
+        blink.db.paperAccounts.list({ where: { userId }, limit: 1 }),
+        blink.db.paperPositions.list({ where: { userId } }),
+        blink.db.paperOrders.list({ where: { userId }, orderBy: { createdAt: 'desc' }, limit: ORDER_HISTORY_LIMIT })
+      ])
+      if (this.userId !== userId) return
+
+      const account = accounts.length > 0 ? this.accountFromRow(accounts[0]) : this.newAccount(userId, DEFAULT_STARTING_BALANCE)
+      if (accounts.length === 0) this.persistAccount(account)
+
+      this.update({
+        account,
+        positions: positions.map(positionFromRow).filter((position: PaperPosition) => position.quantity !== 0),
+        orders: orders.map(orderFromRow),
+        loading: false
+      })
+    } catch (error) {
+      console.error('Failed to load paper trading account:', error)
+      this.update({ account: this.newAccount(userId, DEFAULT_STARTING_BALANCE), loading: false })
+    }
+  }
+
+  placeOrder(input: OrderInput, marketPrice?: number): PaperOrder {
+    this.validate(input)
+    const order: PaperOrder = {
+      ...input,
+      id: `paper_order_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'open',
+      createdAt: new Date().toISOString()
+    }
+    this.addOrders([order])
+
+    const price = marketPrice ?? this.lastPrices[input.coinId]
+    if (price !== undefined) this.processPrice(input.coinId, price)
+    return this.snapshot.orders.find(o => o.id === order.id) ?? order
+  }
+
+  // Market entry with a take-profit limit and stop-loss stop that cancel each
+  // other once the entry has filled
+  placeBracketOrder(input: BracketOrderInput, marketPrice: number): PaperOrder {
+    const exitSide = input.side === 'BUY' ? 'SELL' : 'BUY'
+    const long = input.side === 'BUY'
+    if (long ? !(input.targetPrice > marketPrice && input.stopLoss < marketPrice) : !(input.targetPrice < marketPrice && input.stopLoss > marketPrice)) {
+      throw new PaperOrderError('Target and stop must sit either side of the current price')
+    }
+
+    const base = { coinId: input.coinId, symbol: input.symbol, quantity: input.quantity }
+    this.validate({ ...base, side: input.side, type: 'market' })
+
+    const bracketId = `paper_bracket_${Date.now()}`
+    const createdAt = new Date().toISOString()
+    const entry: PaperOrder = {
+      ...base,
+      id: `${bracketId}_entry`,
+      side: input.side,
+      type: 'market',
+      status: 'open',
+      bracketId,
+      bracketRole: 'entry',
+      signalId: input.signalId,
+      createdAt
+    }
+    const takeProfit: PaperOrder = {
+      ...base,
+      id: `${bracketId}_tp`,
+      side: exitSide,
+      type: 'limit',
+      limitPrice: input.targetPrice,
+      status: 'pending',
+      bracketId,
+      bracketRole: 'take_profit',
+      signalId: input.signalId,
+      createdAt
+    }
+    const stopLoss: PaperOrder = {
+      ...takeProfit,
+      id: `${bracketId}_sl`,
+      type: 'stop',
+      limitPrice: undefined,
+      stopPrice: input.stopLoss,
+      bracketRole: 'stop_loss'
+    }
+
+    this.addOrders([entry, takeProfit, stopLoss])
+    this.processPrice(input.coinId, marketPrice)
+    return this.snapshot.orders.find(o => o.id === entry.id) ?? entry
+  }
+
+  cancelOrder(orderId: string) {
+    const order = this.snapshot.orders.find(o => o.id === orderId)
+    if (!order || (order.status !== 'open' && order.status !== 'pending')) return
+
+    // Cancelling an unfilled entry takes its exits with it
+    const cancelled = this.snapshot.orders.filter(o =>
+      o.id === orderId ||
+      (order.bracketRole === 'entry' && o.bracketId === order.bracketId && o.status === 'pending')
+    )
+    this.setOrders(cancelled.map(o => ({ ...o, status: 'cancelled' as const })))
+  }
+
+  // Close a position at market
+  closePosition(coinId: string, marketPrice?: number) {
+    const position = this.snapshot.positions.find(p => p.coinId === coinId)
+    if (!position || position.quantity === 0) return null
+
+    // Exits still working against this position would reopen it
+    this.snapshot.orders
+      .filter(o => o.coinId === coinId && o.bracketId && o.bracketRole !== 'entry' && (o.status === 'open' || o.status === 'pending'))
+      .forEach(o => this.cancelOrder(o.id))
+
+    return this.placeOrder({
+      coinId,
+      symbol: position.symbol,
+      side: position.quantity > 0 ? 'SELL' : 'BUY',
+      type: 'market',
+      quantity: Math.abs(position.quantity)
+    }, marketPrice)
+  }
+
+  // Match resting orders against the latest prices, keyed by coin id
+  processPrices(prices: Record<string, number>) {
+    Object.entries(prices).forEach(([coinId, price]) => this.processPrice(coinId, price))
+  }
+
+  updateSettings(changes: Partial<Pick<PaperAccount, 'feeRate' | 'slippageBps' | 'signalAllocation'>>) {
+    const account = this.snapshot.account
+    if (!account) return
+    const next = { ...account, ...changes, updatedAt: new Date().toISOString() }
+    this.update({ account: next })
+    this.persistAccount(next)
+  }
+
+  // Start over with a fresh balance; history is cleared too
+  async resetAccount(startingBalance = DEFAULT_STARTING_BALANCE) {
+    const { account, positions, orders } = this.snapshot
+    if (!account || !this.userId) return
+
+    const next = {
+      ...this.newAccount(this.userId, startingBalance),
+      feeRate: account.feeRate,
+      slippageBps: account.slippageBps,
+      signalAllocation: account.signalAllocation
+    }
+    this.update({ account: next, positions: [], orders: [] })
+    this.persistAccount(next)
+
+    try {
+      await Promise.all([
+        ...positions.map(position => blink.db.paperPositions.delete(position.id)),
+        ...orders.map(order => blink.db.paperOrders.delete(order.id))
+      ])
+    } catch (error) {
+      console.error('Failed to clear paper trading history:', error)
+    }
+  }
+
+  private processPrice(coinId: string, price: number) {
+    this.lastPrices[coinId] = price
+    const account = this.snapshot.account
+    if (!account) return
+
+    // Entries first; the working set is rebuilt afterwards so exits opened by an
+    // entry fill are checked against the same price
+    for (const entries of [true, false]) {
+      const working = this.snapshot.orders.filter(order =>
+        order.coinId === coinId && order.status === 'open' && (order.bracketRole === 'entry') === entries)
+
+      for (const order of working) {
+        const current = this.snapshot.orders.find(o => o.id === order.id)
+        if (current?.status !== 'open') continue
+
+        const fill = matchOrder(current, price, account.feeRate, account.slippageBps)
+        if (fill) this.executeFill(current, fill)
+      }
+    }
+  }
+
+  private executeFill(order: PaperOrder, fill: { price: number; fee: number }) {
+    const account = this.snapshot.account!
+    const now = new Date().toISOString()
+    const existing = this.snapshot.positions.find(p => p.coinId === order.coinId) ?? {
+      id: `paper_position_${this.userId}_${order.coinId}`,
+      coinId: order.coinId,
+      symbol: order.symbol,
+      quantity: 0,
+      averagePrice: 0,
+      realizedPnl: 0,
+      openedAt: now,
+      updatedAt: now
+    }
+
+    // No leverage: new exposure must be covered by cash
+    const signed = order.side === 'BUY' ? order.quantity : -order.quantity
+    const added = Math.max(0, Math.abs(existing.quantity + signed) - Math.abs(existing.quantity))
+    if (added > 0 && added * fill.price + fill.fee > account.cashBalance + 1e-9) {
+      this.rejectOrder(order, 'Insufficient paper balance')
+      return
+    }
+
+    const outcome = applyFill(existing, order, fill, now)
+    const filled: PaperOrder = { ...order, status: 'filled', fillPrice: fill.price, fee: fill.fee, filledAt: now }
+    const changed: PaperOrder[] = [filled]
+
+    if (order.bracketId) {
+      const siblings = this.snapshot.orders.filter(o => o.bracketId === order.bracketId && o.id !== order.id)
+      if (order.bracketRole === 'entry') {
+        changed.push(...siblings.filter(o => o.status === 'pending').map(o => ({ ...o, status: 'open' as const })))
+      } else {
+        // One exit filled: the other is cancelled (OCO)
+        changed.push(...siblings
+          .filter(o => o.bracketRole !== 'entry' && (o.status === 'open' || o.status === 'pending'))
+          .map(o => ({ ...o, status: 'cancelled' as const })))
+      }
+    }
+
+    const nextAccount = {
+      ...account,
+      cashBalance: account.cashBalance + outcome.cashChange,
+      realizedPnl: account.realizedPnl + outcome.realizedPnl,
+      updatedAt: now
+    }
+    this.update({
+      account: nextAccount,
+      positions: [
+        ...this.snapshot.positions.filter(p => p.coinId !== order.coinId),
+        ...(outcome.position.quantity !== 0 ? [outcome.position] : [])
+      ]
+    })
+    this.setOrders(changed)
+    this.persistAccount(nextAccount)
+    this.persistPosition(outcome.position)
+  }
+
+  private rejectOrder(order: PaperOrder, reason: string) {
+    const changed: PaperOrder[] = [{ ...order, status: 'rejected', rejectReason: reason }]
+    if (order.bracketRole === 'entry') {
+      changed.push(...this.snapshot.orders
+        .filter(o => o.bracketId === order.bracketId && o.status === 'pending')
+        .map(o => ({ ...o, status: 'cancelled' as const })))
+    }
+    this.setOrders(changed)
+  }
+
+  private validate(input: OrderInput) {
+    if (!this.snapshot.account) throw new PaperOrderError('Paper trading account is not loaded yet')
+    if (!(input.quantity > 0)) throw new PaperOrderError('Quantity must be greater than zero')
+    if (input.type === 'limit' && !(Number(input.limitPrice) > 0)) throw new PaperOrderError('Limit orders need a limit price')
+    if (input.type === 'stop' && !(Number(input.stopPrice) > 0)) throw new PaperOrderError('Stop orders need a stop price')
+  }
+
+  private addOrders(orders: PaperOrder[]) {
+    this.update({ orders: [...orders, ...this.snapshot.orders].slice(0, ORDER_HISTORY_LIMIT) })
+    orders.forEach(order => this.persistOrder(order))
+  }
+
+  private setOrders(changed: PaperOrder[]) {
+    const byId = new Map(changed.map(order => [order.id, order]))
+    this.update({ orders: this.snapshot.orders.map(order => byId.get(order.id) ?? order) })
+    changed.forEach(order => this.persistOrder(order))
+  }
+
+  private update(changes: Partial<PaperTradingSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private newAccount(userId: string, startingBalance: number): PaperAccount {
+    const now = new Date().toISOString()
+    return {
+      id: `paper_account_${userId}`,
+      userId,
+      startingBalance,
+      cashBalance: startingBalance,
+      realizedPnl: 0,
+      ...DEFAULT_ACCOUNT_SETTINGS,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private accountFromRow(row: any): PaperAccount {
+    return {
+      id: row.id,
+      userId: row.userId,
+      startingBalance: Number(row.startingBalance),
+      cashBalance: Number(row.cashBalance),
+      realizedPnl: Number(row.realizedPnl) || 0,
+      feeRate: Number(row.feeRate ?? DEFAULT_ACCOUNT_SETTINGS.feeRate),
+      slippageBps: Number(row.slippageBps ?? DEFAULT_ACCOUNT_SETTINGS.slippageBps),
+      signalAllocation: Number(row.signalAllocation ?? DEFAULT_ACCOUNT_SETTINGS.signalAllocation),
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+
+  private persistAccount(account: PaperAccount) {
+    blink.db.paperAccounts.upsert({ ...account }).catch((error: unknown) => {
+      console.error('Failed to save paper account:', error)
+    })
+  }
+
+  private persistPosition(position: PaperPosition) {
+    blink.db.paperPositions.upsert({ ...position, userId: this.userId }).catch((error: unknown) => {
+      console.error('Failed to save paper position:', error)
+    })
+  }
+
+  private persistOrder(order: PaperOrder) {
+    blink.db.paperOrders.upsert({ ...order, userId: this.userId }).catch((error: unknown) => {
+      console.error('Failed to save paper order:', error)
+    })
+  }
+}
+
+export const paperTradingStore = new PaperTradingStore()
@@ -0,0 +1,71 @@
+export type OrderSide = 'BUY' | 'SELL'
+export type OrderType = 'market' | 'limit' | 'stop'
+// Bracket exits wait as 'pending' until their entry fills
+export type OrderStatus = 'pending' | 'open' | 'filled' | 'cancelled' | 'rejected'
+export type BracketRole = 'entry' | 'take_profit' | 'stop_loss'
+
+export interface PaperAccount {
+  id: string
+  userId: string
+  startingBalance: number
+  cashBalance: number
+  realizedPnl: number
+  feeRate: number
+  slippageBps: number
+  // Share of cash committed when a signal is executed
+  signalAllocation: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PaperOrder {
+  id: string
+  coinId: string
+  symbol: string
+  side: OrderSide
+  type: OrderType
+  quantity: number
+  limitPrice?: number
+  stopPrice?: number
+  status: OrderStatus
+  bracketId?: string
+  bracketRole?: BracketRole
+  signalId?: string
+  fillPrice?: number
+  fee?: number
+  rejectReason?: string
+  createdAt: string
+  filledAt?: string
+}
+
+// Quantity is signed: negative for shorts
+export interface PaperPosition {
+  id: string
+  coinId: string
+  symbol: string
+  quantity: number
+  averagePrice: number
+  realizedPnl: number
+  openedAt: string
+  updatedAt: string
+}
+
+export interface OrderInput {
+  coinId: string
+  symbol: string
+  side: OrderSide
+  type: OrderType
+  quantity: number
+  limitPrice?: number
+  stopPrice?: number
+}
+
+export interface BracketOrderInput {
+  coinId: string
+  symbol: string
+  side: OrderSide
+  quantity: number
+  targetPrice: number
+  stopLoss: number
+  signalId?: string
+}
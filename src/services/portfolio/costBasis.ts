@@ -0,0 +1,87 @@
+// Holdings and realised P&L replayed from transactions under FIFO, LIFO or
+// average cost. Transfers move basis without realising anything; fees paid
+// in the coin itself are a disposal with no proceeds.
+import type { CostBasisMethod, Holding, PortfolioTransaction, TaxLot } from './types'
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  average: 'Average cost'
+}
+
+// Remove quantity from the lots and return the basis it carried
+function consumeLots(lots: TaxLot[], quantity: number, method: CostBasisMethod) {
+  let remaining = quantity
+  let basis = 0
+
+  if (method === 'average') {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    const cost = lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0)
+    const taken = Math.min(held, remaining)
+    basis = held > 0 ? (cost / held) * taken : 0
+    remaining -= taken
+    const left = held - taken
+    lots.splice(0, lots.length, ...(left > 1e-12 ? [{
+      quantity: left,
+      costPerUnit: cost / held,
+      acquiredAt: lots[0].acquiredAt
+    }] : []))
+    return { basis, shortfall: remaining }
+  }
+
+  while (remaining > 1e-12 && lots.length > 0) {
+    const lot = method === 'fifo' ? lots[0] : lots[lots.length - 1]
+    const taken = Math.min(lot.quantity, remaining)
+    basis += taken * lot.costPerUnit
+    lot.quantity -= taken
+    remaining -= taken
+    if (lot.quantity <= 1e-12) {
+      if (method === 'fifo') lots.shift()
+      else lots.pop()
+    }
+  }
+
+  return { basis, shortfall: Math.max(remaining, 0) }
+}
+
+export function computeHoldings(transactions: PortfolioTransaction[], method: CostBasisMethod): Holding[] {
+  const sorted = [...transactions].sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+  const holdings = new Map<string, Holding>()
+
+  for (const tx of sorted) {
+    const holding = holdings.get(tx.coinId) ?? {
+      coinId: tx.coinId,
+      symbol: tx.symbol,
+      quantity: 0,
+      costBasis: 0,
+      averageCost: 0,
+      realizedPnl: 0,
+      lots: [],
+      shortfall: 0
+    }
+    holdings.set(tx.coinId, holding)
+
+    if (tx.type === 'buy' || tx.type === 'transfer_in') {
+      const fee = tx.type === 'buy' ? tx.fee : 0
+      holding.lots.push({
+        quantity: tx.quantity,
+        costPerUnit: tx.quantity > 0 ? (tx.quantity * tx.price + fee) / tx.quantity : 0,
+        acquiredAt: tx.timestamp
+      })
+    } else {
+      const { basis, shortfall } = consumeLots(holding.lots, tx.quantity, method)
+      holding.shortfall += shortfall
+      if (tx.type === 'sell') {
+        holding.realizedPnl += tx.quantity * tx.price - tx.fee - basis
+      } else if (tx.type === 'fee') {
+        holding.realizedPnl -= basis
+      }
+    }
+
+    holding.quantity = holding.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+    holding.costBasis = holding.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0)
+    holding.averageCost = holding.quantity > 0 ? holding.costBasis / holding.quantity : 0
+  }
+
+  return [...holdings.values()]
+}
@@ -0,0 +1,65 @@
+// Minimal RFC 4180 CSV reader: quoted fields, escaped quotes, CRLF and a
+// leading byte-order mark, which is as much as exchange exports use
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines carry no data
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+// Rows as objects keyed by trimmed header names. Some exports open with a few
+// lines of description, so the header is the first row `isHeader` accepts, or
+// the first row when none is.
+export function csvRecords(
+  text: string,
+  isHeader: (headers: string[]) => boolean = () => true
+): { headers: string[]; headerIndex: number; records: Record<string, string>[] } {
+  const rows = parseCsv(text).map(cells => cells.map(cell => cell.trim()))
+  const headerIndex = Math.max(0, rows.findIndex(isHeader))
+  const headers = rows[headerIndex] ?? []
+  return {
+    headers,
+    headerIndex,
+    records: rows.slice(headerIndex + 1).map(cells => Object.fromEntries(headers.map((header, i) => [header, cells[i] ?? ''])))
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { computeHoldings, previewCsvImport, type PortfolioTransaction } from '.'
+
+const resolveCoin = (symbol: string) => ({ id: symbol.toLowerCase(), symbol })
+
+function importBinance(...rows: string[]) {
+  const csv = ['Date(UTC),Pair,Side,Price,Executed,Amount,Fee', ...rows].join('\n')
+  const preview = previewCsvImport(csv, [], resolveCoin, 'binance')
+  expect(preview.errorCount).toBe(0)
+  return preview.rows.flatMap(row => row.transactions)
+    .map((tx, i): PortfolioTransaction => ({ ...tx, id: `tx_${i}` }))
+}
+
+describe('binance trade history', () => {
+  it('nets a fee paid in the coin bought off the quantity and keeps the full cost', () => {
+    const transactions = importBinance('2024-03-01 10:00:00,BTCUSDT,BUY,60000,0.5BTC,30000USDT,0.0005BTC')
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0]).toMatchObject({ symbol: 'BTC', type: 'buy', price: 60000 })
+    expect(transactions[0].quantity).toBeCloseTo(0.4995, 10)
+    expect(transactions[0].fee).toBeCloseTo(30, 10)
+
+    const [btc] = computeHoldings(transactions, 'fifo')
+    expect(btc.quantity).toBeCloseTo(0.4995, 10)
+    expect(btc.costBasis).toBeCloseTo(30000, 6)
+  })
+
+  it('adds a fee paid in the quote to the trade', () => {
+    const [sale] = importBinance('2024-03-02 10:00:00,BTCUSDT,SELL,62000,0.1BTC,6200USDT,6.2USDT')
+    expect(sale).toMatchObject({ type: 'sell', quantity: 0.1, fee: 6.2 })
+  })
+
+  it('books fees in another coin, or in the coin sold, as fee transactions', () => {
+    const transactions = importBinance(
+      '2024-03-01 10:00:00,ETHUSDT,BUY,3000,2ETH,6000USDT,0.01BNB',
+      '2024-03-02 10:00:00,ETHUSDT,SELL,3200,1ETH,3200USDT,0.001ETH'
+    )
+
+    expect(transactions.map(tx => [tx.symbol, tx.type, tx.quantity])).toEqual([
+      ['ETH', 'buy', 2],
+      ['BNB', 'fee', 0.01],
+      ['ETH', 'sell', 1],
+      ['ETH', 'fee', 0.001]
+    ])
+    expect(transactions.every(tx => tx.type !== 'sell' || tx.fee === 0)).toBe(true)
+
+    const eth = computeHoldings(transactions, 'fifo').find(holding => holding.symbol === 'ETH')!
+    expect(eth.quantity).toBeCloseTo(0.999, 10)
+  })
+})
+
+describe('coinbase transaction history', () => {
+  // Current reports open with a title and user line before the header
+  const report = [
+    'Transactions',
+    'User,Satoshi Nakamoto,6a3b1f52-0e4b-4c47-9d1e-3f5b2a9c7d10',
+    'ID,Timestamp,Transaction Type,Asset,Quantity Transacted,Price Currency,Price at Transaction,Subtotal,Total (inclusive of fees and/or spread),Fees and/or Spread,Notes'
+  ]
+
+  // Reports from before 2024 have a tax disclaimer, blank lines and "Spot Price" columns
+  const legacyReport = [
+    '"You can use this transaction report to inform your likely tax obligations. For US customers, Sells, Converts, Rewards Income, and Coinbase Earn transactions are taxable events. For final tax obligations, please consult your tax advisor."',
+    '',
+    '',
+    '',
+    'Transactions',
+    'User,satoshi@example.com,6a3b1f52-0e4b-4c47-9d1e-3f5b2a9c7d10',
+    'Timestamp,Transaction Type,Asset,Quantity Transacted,Spot Price Currency,Spot Price at Transaction,Subtotal,Total (inclusive of fees and/or spread),Fees and/or Spread,Notes'
+  ]
+
+  it('finds the header below the preamble of a current report', () => {
+    const csv = [
+      ...report,
+      '65e1c0a2f1d3b40012ab34cd,2024-03-01 10:00:00 UTC,Buy,BTC,0.1,USD,$60000.00,$6000.00,$6010.00,$10.00,Bought 0.1 BTC for 6010 USD',
+      '65e2f7b9a8c1d50013cd56ef,2024-03-02 10:00:00 UTC,Send,BTC,-0.05,USD,$61000.00,$3050.00,$3050.00,$0.00,Sent 0.05 BTC to 3FZbgi29cpjq2GjdwV8eyHuJJnkLtktZc5',
+      '65e4a1c7d9e2f60014ef78a1,2024-03-03 10:00:00 UTC,Staking Income,ETH,0.01,USD,$3000.00,$30.00,$30.00,$0.00,'
+    ].join('\n')
+    const preview = previewCsvImport(csv, [], resolveCoin)
+
+    expect(preview.formatId).toBe('coinbase')
+    expect(preview.rows.map(row => row.rowNumber)).toEqual([4, 5, 6])
+    expect(preview.rows.flatMap(row => row.transactions)).toMatchObject([
+      { symbol: 'BTC', type: 'buy', quantity: 0.1, price: 60000, fee: 10, timestamp: '2024-03-01T10:00:00.000Z', source: 'coinbase', externalId: '65e1c0a2f1d3b40012ab34cd' },
+      { symbol: 'BTC', type: 'transfer_out', quantity: 0.05, fee: 0 },
+      { symbol: 'ETH', type: 'transfer_in', quantity: 0.01 }
+    ])
+  })
+
+  it('reads the older "Spot Price" columns below the tax disclaimer', () => {
+    const csv = [
+      ...legacyReport,
+      '2022-05-01T14:12:45Z,Buy,ETH,0.5,USD,2800.00,1400.00,1420.89,20.89,Bought 0.5 ETH for $1420.89 USD',
+      '2022-05-03T09:00:00Z,Convert,ETH,0.5,USD,2900.00,1450.00,1450.00,0.00,"Converted 0.5 ETH to 0.03 BTC"',
+      '2022-05-04T09:00:00Z,Deposit,USDC,100,USD,1.00,100.00,100.00,0.00,'
+    ].join('\n')
+    const preview = previewCsvImport(csv, [], resolveCoin)
+
+    expect(preview.formatId).toBe('coinbase')
+    expect(preview.rows.map(row => row.status)).toEqual(['new', 'new', 'skipped'])
+    expect(preview.rows[0].transactions).toMatchObject([{ symbol: 'ETH', type: 'buy', quantity: 0.5, price: 2800, fee: 20.89 }])
+    expect(preview.rows[1].transactions).toMatchObject([
+      { symbol: 'ETH', type: 'sell', quantity: 0.5, price: 2900 },
+      { symbol: 'BTC', type: 'buy', quantity: 0.03 }
+    ])
+    expect(preview.rows[1].transactions[1].price).toBeCloseTo(1450 / 0.03, 6)
+  })
+
+  it('skips the preamble when the format is chosen by hand', () => {
+    const csv = [...report, '65e1c0a2f1d3b40012ab34cd,2024-03-01 10:00:00 UTC,Buy,BTC,0.1,USD,$60000.00,$6000.00,$6010.00,$10.00,'].join('\n')
+    expect(previewCsvImport(csv, [], resolveCoin, 'coinbase').newCount).toBe(1)
+  })
+})
+
+describe('kraken trades', () => {
+  it('maps legacy asset codes and keeps the fee on the trade', () => {
+    const csv = [
+      'txid,ordertxid,pair,time,type,ordertype,price,cost,fee,vol,margin,misc,ledgers',
+      'TXA1,OA1,XXBTZUSD,2024-03-01 10:00:00.1234,buy,limit,60000.0,3000.0,4.8,0.05,0.0,,',
+      'TXA2,OA2,XETHZUSD,2024-03-02 11:30:00.0000,sell,market,3200.0,3200.0,5.12,1.0,0.0,,'
+    ].join('\n')
+    const preview = previewCsvImport(csv, [], resolveCoin)
+
+    expect(preview.formatId).toBe('kraken')
+    expect(preview.rows.flatMap(row => row.transactions)).toMatchObject([
+      { symbol: 'BTC', type: 'buy', quantity: 0.05, price: 60000, fee: 4.8, source: 'kraken', externalId: 'TXA1' },
+      { symbol: 'ETH', type: 'sell', quantity: 1, price: 3200, fee: 5.12, timestamp: '2024-03-02T11:30:00.000Z', externalId: 'TXA2' }
+    ])
+  })
+})
+
+describe('generic csv', () => {
+  it('matches headers in any case and fills in optional columns', () => {
+    const csv = [
+      'Date,Type,Symbol,Quantity,Price,Fee,Notes',
+      '2024-03-01,buy,sol,10,150,1.5,First buy',
+      '2024-03-02T08:00:00Z,Withdrawal,SOL,2,,,'
+    ].join('\n')
+    const preview = previewCsvImport(csv, [], resolveCoin)
+
+    expect(preview.formatId).toBe('generic')
+    expect(preview.rows.flatMap(row => row.transactions)).toMatchObject([
+      { symbol: 'SOL', type: 'buy', quantity: 10, price: 150, fee: 1.5, notes: 'First buy', timestamp: '2024-03-01T00:00:00.000Z' },
+      { symbol: 'SOL', type: 'transfer_out', quantity: 2, price: 0, fee: 0 }
+    ])
+  })
+})
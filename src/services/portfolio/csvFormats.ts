@@ -0,0 +1,306 @@
+// Column layouts of the exchange exports we can import, each mapped onto
+// portfolio transactions priced in USD
+import type { TransactionType } from './types'
+
+export type CsvFormatId = 'binance' | 'coinbase' | 'kraken' | 'generic'
+
+// A transaction as read from a file, before the asset is matched to a coin
+export interface ImportedTransaction {
+  symbol: string
+  type: TransactionType
+  quantity: number
+  price: number
+  fee: number
+  timestamp: string
+  notes?: string
+  // Exchange-assigned id when the export has one, used to spot re-imports
+  externalId?: string
+}
+
+export interface CsvFormat {
+  id: CsvFormatId
+  name: string
+  // Headers that must all be present for the layout to match
+  requiredHeaders: string[]
+  // Older names of renamed columns, mapped to the current ones
+  headerAliases?: Record<string, string>
+  parseRecord: (record: Record<string, string>) => ImportedTransaction[]
+}
+
+export class CsvRowError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CsvRowError'
+  }
+}
+
+// Quotes we can price 1:1 in USD
+const USD_QUOTES = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'TUSD', 'DAI', 'USD']
+
+// Kraken prefixes legacy asset codes and uses its own tickers for a few coins
+const KRAKEN_ASSETS: Record<string, string> = {
+  XXBT: 'BTC',
+  XBT: 'BTC',
+  XETH: 'ETH',
+  XXRP: 'XRP',
+  XLTC: 'LTC',
+  XXDG: 'DOGE',
+  XDG: 'DOGE',
+  XXLM: 'XLM',
+  XZEC: 'ZEC'
+}
+
+export function parseAmount(value: string | undefined, field: string): number {
+  const cleaned = (value ?? '').replace(/[$,\s]/g, '')
+  const amount = Number(cleaned)
+  if (cleaned === '' || !Number.isFinite(amount)) throw new CsvRowError(`Invalid ${field}: "${value ?? ''}"`)
+  return amount
+}
+
+// Exports mostly give UTC times without a zone marker
+export function parseUtcDate(value: string | undefined): string {
+  const raw = (value ?? '').trim().replace(/ UTC$/, 'Z')
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/.test(raw)
+  const iso = raw.includes('T') ? raw : raw.replace(' ', 'T')
+  const time = Date.parse(hasZone ? iso : `${iso}Z`)
+  if (!raw || Number.isNaN(time)) throw new CsvRowError(`Invalid date: "${value ?? ''}"`)
+  return new Date(time).toISOString()
+}
+
+// Split an amount with its asset glued on, like Binance's "0.5BTC"
+function parseAssetAmount(value: string, field: string) {
+  const match = value.replace(/,/g, '').match(/^(-?[\d.]+(?:e-?\d+)?)\s*([A-Za-z0-9]+)$/)
+  if (!match) throw new CsvRowError(`Invalid ${field}: "${value}"`)
+  return { amount: Number(match[1]), asset: match[2].toUpperCase() }
+}
+
+function splitPair(pair: string, quotes: string[]) {
+  const upper = pair.toUpperCase().replace(/[-/_]/g, '')
+  const quote = quotes.find(candidate => upper.endsWith(candidate) && upper.length > candidate.length)
+  if (!quote) throw new CsvRowError(`Only USD-quoted pairs can be imported, got ${pair}`)
+  return { base: upper.slice(0, -quote.length), quote }
+}
+
+// Trade fees charged in a coin (BNB, say, or the one sold) become a separate
+// fee transaction in that coin; fees in the quote are added to the trade
+function feeTransactions(
+  feeAmount: number,
+  feeAsset: string,
+  base: string,
+  timestamp: string,
+  externalId?: string
+): { usdFee: number; extra: ImportedTransaction[] } {
+  if (feeAmount <= 0) return { usdFee: 0, extra: [] }
+  if (USD_QUOTES.includes(feeAsset)) return { usdFee: feeAmount, extra: [] }
+  return {
+    usdFee: 0,
+    extra: [{
+      symbol: feeAsset,
+      type: 'fee',
+      quantity: feeAmount,
+      price: 0,
+      fee: 0,
+      timestamp,
+      notes: `Trading fee for ${base}`,
+      externalId: externalId ? `${externalId}:fee` : undefined
+    }]
+  }
+}
+
+const binanceFormat: CsvFormat = {
+  id: 'binance',
+  name: 'Binance trade history',
+  requiredHeaders: ['Date(UTC)', 'Pair', 'Side', 'Price', 'Executed', 'Amount', 'Fee'],
+  parseRecord: record => {
+    const { base, quote } = splitPair(record['Pair'], USD_QUOTES)
+    const side = record['Side'].toUpperCase()
+    if (side !== 'BUY' && side !== 'SELL') throw new CsvRowError(`Unknown side "${record['Side']}"`)
+
+    const timestamp = parseUtcDate(record['Date(UTC)'])
+    const price = parseAmount(record['Price'], 'price')
+    const executed = parseAssetAmount(record['Executed'], 'executed amount')
+    if (executed.asset !== base) throw new CsvRowError(`Executed asset ${executed.asset} doesn't match pair ${base}${quote}`)
+    const fee = parseAssetAmount(record['Fee'], 'fee')
+
+    // A fee taken from the coin bought means less of it arrives, for the same outlay
+    if (side === 'BUY' && fee.asset === base) {
+      return [{
+        symbol: base,
+        type: 'buy',
+        quantity: executed.amount - fee.amount,
+        price,
+        fee: fee.amount * price,
+        timestamp
+      }]
+    }
+
+    const { usdFee, extra } = feeTransactions(fee.amount, fee.asset, base, timestamp)
+
+    return [{
+      symbol: base,
+      type: side === 'BUY' ? 'buy' : 'sell',
+      quantity: executed.amount,
+      price,
+      fee: usdFee,
+      timestamp
+    }, ...extra]
+  }
+}
+
+const COINBASE_TYPES: Record<string, TransactionType | null> = {
+  'buy': 'buy',
+  'advanced trade buy': 'buy',
+  'sell': 'sell',
+  'advanced trade sell': 'sell',
+  'receive': 'transfer_in',
+  'rewards income': 'transfer_in',
+  'staking income': 'transfer_in',
+  'learning reward': 'transfer_in',
+  'coinbase earn': 'transfer_in',
+  'inflation reward': 'transfer_in',
+  'send': 'transfer_out',
+  'withdrawal': 'transfer_out',
+  'deposit': 'transfer_in',
+  'convert': null
+}
+
+const coinbaseFormat: CsvFormat = {
+  id: 'coinbase',
+  name: 'Coinbase transaction history',
+  requiredHeaders: ['Timestamp', 'Transaction Type', 'Asset', 'Quantity Transacted', 'Price at Transaction'],
+  // Reports from before 2024 call the price columns "Spot Price ..."
+  headerAliases: {
+    'Spot Price Currency': 'Price Currency',
+    'Spot Price at Transaction': 'Price at Transaction'
+  },
+  parseRecord: record => {
+    const kind = record['Transaction Type'].toLowerCase()
+    if (!(kind in COINBASE_TYPES)) throw new CsvRowError(`Unsupported transaction type "${record['Transaction Type']}"`)
+
+    const symbol = record['Asset'].toUpperCase()
+    const currency = (record['Price Currency'] || 'USD').toUpperCase()
+    if (!USD_QUOTES.includes(currency)) throw new CsvRowError(`Only USD prices can be imported, got ${currency}`)
+
+    const timestamp = parseUtcDate(record['Timestamp'])
+    const quantity = Math.abs(parseAmount(record['Quantity Transacted'], 'quantity'))
+    const price = parseAmount(record['Price at Transaction'], 'price')
+    const fee = record['Fees and/or Spread'] ? Math.abs(parseAmount(record['Fees and/or Spread'], 'fee')) : 0
+    const externalId = record['ID'] || undefined
+    const notes = record['Notes'] || undefined
+
+    // Fiat moving in or out isn't a holding
+    if (USD_QUOTES.includes(symbol)) return []
+
+    const type = COINBASE_TYPES[kind]
+    if (type) {
+      return [{ symbol, type, quantity, price, fee: type === 'buy' || type === 'sell' ? fee : 0, timestamp, notes, externalId }]
+    }
+
+    // Converts are a sale of one coin and a buy of another: "Converted 0.5 ETH to 1,000 USDC"
+    const match = (notes ?? '').replace(/,/g, '').match(/Converted\s+([\d.]+)\s+(\w+)\s+to\s+([\d.]+)\s+(\w+)/i)
+    if (!match) throw new CsvRowError('Convert row is missing the "Converted X to Y" note')
+    const proceeds = quantity * price
+    const toQuantity = Number(match[3])
+    const toSymbol = match[4].toUpperCase()
+    const sale: ImportedTransaction = {
+      symbol,
+      type: 'sell',
+      quantity,
+      price,
+      fee,
+      timestamp,
+      notes,
+      externalId: externalId ? `${externalId}:from` : undefined
+    }
+    if (USD_QUOTES.includes(toSymbol)) return [sale]
+    return [sale, {
+      symbol: toSymbol,
+      type: 'buy',
+      quantity: toQuantity,
+      price: toQuantity > 0 ? (proceeds - fee) / toQuantity : 0,
+      fee: 0,
+      timestamp,
+      notes,
+      externalId: externalId ? `${externalId}:to` : undefined
+    }]
+  }
+}
+
+function krakenBase(pair: string) {
+  const { base } = splitPair(pair, ['ZUSD', ...USD_QUOTES])
+  if (KRAKEN_ASSETS[base]) return KRAKEN_ASSETS[base]
+  // Four-letter legacy codes are the ticker with an X prefix
+  return base.length === 4 && base.startsWith('X') ? base.slice(1) : base
+}
+
+const krakenFormat: CsvFormat = {
+  id: 'kraken',
+  name: 'Kraken trades',
+  requiredHeaders: ['txid', 'pair', 'time', 'type', 'price', 'cost', 'fee', 'vol'],
+  parseRecord: record => {
+    const side = record['type'].toLowerCase()
+    if (side !== 'buy' && side !== 'sell') throw new CsvRowError(`Unknown trade type "${record['type']}"`)
+
+    return [{
+      symbol: krakenBase(record['pair']),
+      type: side,
+      quantity: parseAmount(record['vol'], 'volume'),
+      price: parseAmount(record['price'], 'price'),
+      fee: parseAmount(record['fee'], 'fee'),
+      timestamp: parseUtcDate(record['time']),
+      externalId: record['txid'] || undefined
+    }]
+  }
+}
+
+const GENERIC_TYPES: Record<string, TransactionType> = {
+  'buy': 'buy',
+  'sell': 'sell',
+  'transfer_in': 'transfer_in',
+  'transfer in': 'transfer_in',
+  'deposit': 'transfer_in',
+  'transfer_out': 'transfer_out',
+  'transfer out': 'transfer_out',
+  'withdrawal': 'transfer_out',
+  'fee': 'fee'
+}
+
+// date,type,symbol,quantity,price[,fee][,notes][,id], case-insensitive
+const genericFormat: CsvFormat = {
+  id: 'generic',
+  name: 'Generic CSV',
+  requiredHeaders: ['date', 'type', 'symbol', 'quantity', 'price'],
+  parseRecord: record => {
+    const type = GENERIC_TYPES[record['type'].toLowerCase()]
+    if (!type) throw new CsvRowError(`Unknown type "${record['type']}"; use ${Object.keys(GENERIC_TYPES).join(', ')}`)
+
+    return [{
+      symbol: record['symbol'].toUpperCase(),
+      type,
+      quantity: parseAmount(record['quantity'], 'quantity'),
+      price: record['price'] ? parseAmount(record['price'], 'price') : 0,
+      fee: record['fee'] ? parseAmount(record['fee'], 'fee') : 0,
+      timestamp: parseUtcDate(record['date']),
+      notes: record['notes'] || undefined,
+      externalId: record['id'] || undefined
+    }]
+  }
+}
+
+export const CSV_FORMATS: CsvFormat[] = [binanceFormat, coinbaseFormat, krakenFormat, genericFormat]
+
+// A header as the format's parser reads it. The generic layout is matched
+// case-insensitively; renamed columns take their current name.
+export function canonicalHeader(format: CsvFormat, header: string): string {
+  if (format.id === 'generic') return header.toLowerCase()
+  return format.headerAliases?.[header] ?? header
+}
+
+export function matchesCsvFormat(format: CsvFormat, headers: string[]): boolean {
+  const available = headers.map(header => canonicalHeader(format, header))
+  return format.requiredHeaders.every(header => available.includes(header))
+}
+
+export function detectCsvFormat(headers: string[]): CsvFormat | null {
+  return CSV_FORMATS.find(format => matchesCsvFormat(format, headers)) ?? null
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { createCoinResolver, previewCsvImport, type PortfolioTransaction } from '.'
+
+const resolveCoin = createCoinResolver([{ id: 'solana', symbol: 'sol' }])
+
+function imported(csv: string, existing: PortfolioTransaction[] = []) {
+  const preview = previewCsvImport(csv, existing, resolveCoin)
+  return preview.rows.filter(row => row.status === 'new').flatMap(row => row.transactions)
+    .map((tx, i): PortfolioTransaction => ({ ...tx, id: `tx_${existing.length + i}` }))
+}
+
+describe('previewCsvImport', () => {
+  it('marks every row of a file imported before as a duplicate', () => {
+    const csv = [
+      'date,type,symbol,quantity,price,fee',
+      '2024-03-01,buy,BTC,0.5,60000,10',
+      '2024-03-02,sell,ETH,1,3200,0'
+    ].join('\n')
+    const existing = imported(csv)
+    expect(existing).toHaveLength(2)
+
+    const again = previewCsvImport(csv, existing, resolveCoin)
+    expect(again.rows.map(row => row.status)).toEqual(['duplicate', 'duplicate'])
+    expect(again).toMatchObject({ newCount: 0, duplicateCount: 2 })
+  })
+
+  it('treats a repeated row within one file as a duplicate', () => {
+    const row = 'TX1,O1,XXBTZUSD,2024-03-01 10:00:00,buy,limit,60000,3000,4.8,0.05,0,,'
+    const csv = ['txid,ordertxid,pair,time,type,ordertype,price,cost,fee,vol,margin,misc,ledgers', row, row].join('\n')
+
+    expect(previewCsvImport(csv, [], resolveCoin).rows.map(row => row.status)).toEqual(['new', 'duplicate'])
+  })
+
+  it('imports only the transactions of a row that were not imported before', () => {
+    const header = 'Date(UTC),Pair,Side,Price,Executed,Amount,Fee'
+    const trade = '2024-03-01 10:00:00,ETHUSDT,BUY,3000,2ETH,6000USDT,0.01BNB'
+    const [buy] = imported([header, trade].join('\n')).filter(tx => tx.type === 'buy')
+
+    const preview = previewCsvImport([header, trade].join('\n'), [buy], resolveCoin)
+    expect(preview.rows[0]).toMatchObject({ status: 'new', error: '1 of 2 transactions already imported' })
+    expect(preview.rows[0].transactions).toMatchObject([{ symbol: 'BNB', type: 'fee', quantity: 0.01 }])
+  })
+
+  it('reports invalid rows with a reason and keeps the rest', () => {
+    const csv = [
+      'date,type,symbol,quantity,price',
+      ',buy,BTC,0.5,60000',
+      '2024-03-01,buy,BTC,,60000',
+      '2024-03-01,buy,NOTACOIN,1,1',
+      '2024-03-01,buy,SOL,10,150'
+    ].join('\n')
+    const preview = previewCsvImport(csv, [], resolveCoin)
+
+    expect(preview.rows.map(row => [row.rowNumber, row.status, row.error])).toEqual([
+      [2, 'error', 'Invalid date: ""'],
+      [3, 'error', 'Invalid quantity: ""'],
+      [4, 'error', 'Unknown asset NOTACOIN'],
+      [5, 'new', undefined]
+    ])
+    expect(preview).toMatchObject({ newCount: 1, errorCount: 3 })
+    expect(preview.rows[3].transactions).toMatchObject([{ coinId: 'solana', symbol: 'SOL' }])
+  })
+})
@@ -0,0 +1,150 @@
+// Turns an exchange CSV into a preview of new, duplicate and invalid rows
+// that the user confirms before anything is written
+import { EXCHANGE_ASSETS } from '../providers/assets'
+import { csvRecords } from './csv'
+import {
+  CSV_FORMATS,
+  CsvRowError,
+  canonicalHeader,
+  detectCsvFormat,
+  matchesCsvFormat,
+  type CsvFormatId,
+  type ImportedTransaction
+} from './csvFormats'
+import type { PortfolioTransaction } from './types'
+
+// Skipped rows are valid but carry nothing to hold, like fiat deposits
+export type ImportRowStatus = 'new' | 'duplicate' | 'skipped' | 'error'
+
+export interface ImportRow {
+  rowNumber: number
+  status: ImportRowStatus
+  transactions: Omit<PortfolioTransaction, 'id'>[]
+  // Why a row failed or was skipped, or a note on a partly imported one
+  error?: string
+}
+
+export interface ImportPreview {
+  formatId: CsvFormatId
+  formatName: string
+  rows: ImportRow[]
+  newCount: number
+  duplicateCount: number
+  skippedCount: number
+  errorCount: number
+}
+
+export interface CoinRef {
+  id: string
+  symbol: string
+}
+
+export class CsvFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CsvFormatError'
+  }
+}
+
+// Identity of a transaction for duplicate checks. Exchange ids win; without
+// one, the trade's own details have to do.
+export function transactionFingerprint(tx: Omit<PortfolioTransaction, 'id'>) {
+  if (tx.externalId) return `${tx.source ?? ''}:${tx.externalId}`
+  return [tx.coinId, tx.type, Date.parse(tx.timestamp), tx.quantity.toPrecision(10), tx.price.toPrecision(10)].join('|')
+}
+
+// Known exchange assets first, then whatever coins the dashboard has loaded
+export function createCoinResolver(coins: CoinRef[]) {
+  const bySymbol = new Map<string, CoinRef>()
+  for (const coin of [...coins].reverse()) bySymbol.set(coin.symbol.toUpperCase(), coin)
+  for (const asset of EXCHANGE_ASSETS) bySymbol.set(asset.symbol.toUpperCase(), { id: asset.id, symbol: asset.symbol })
+  return (symbol: string) => bySymbol.get(symbol.toUpperCase()) ?? null
+}
+
+export function previewCsvImport(
+  text: string,
+  existing: PortfolioTransaction[],
+  resolveCoin: (symbol: string) => CoinRef | null,
+  formatId?: CsvFormatId
+): ImportPreview {
+  const chosen = formatId ? CSV_FORMATS.find(candidate => candidate.id === formatId) : undefined
+  const { headers, headerIndex, records } = csvRecords(
+    text,
+    cells => chosen ? matchesCsvFormat(chosen, cells) : detectCsvFormat(cells) !== null
+  )
+  if (headers.length === 0) throw new CsvFormatError('The file is empty')
+
+  const format = chosen ?? detectCsvFormat(headers)
+  if (!format) {
+    throw new CsvFormatError(`Couldn't recognise the columns (${headers.join(', ')}). Choose the export format manually or use the generic layout.`)
+  }
+
+  const seen = new Set(existing.map(transactionFingerprint))
+  const rows = records.map((record, i): ImportRow => {
+    // Counted from the first non-blank line, header and any preamble included
+    const rowNumber = headerIndex + i + 2
+    try {
+      const keyed = Object.fromEntries(Object.entries(record).map(([key, value]) => [canonicalHeader(format, key), value]))
+      const missing = format.requiredHeaders.filter(header => !(header in keyed))
+      if (missing.length > 0) throw new CsvRowError(`Missing columns: ${missing.join(', ')}`)
+
+      const transactions = format.parseRecord(keyed).map(imported => toTransaction(imported, format.id, resolveCoin))
+      if (transactions.length === 0) {
+        return { rowNumber, status: 'skipped', transactions, error: 'Fiat movement, nothing to import' }
+      }
+
+      // A row can hold several transactions (a trade and its fee, say); only
+      // the ones not imported before are kept
+      const unseen = transactions.filter(tx => !seen.has(transactionFingerprint(tx)))
+      if (unseen.length === 0) {
+        return { rowNumber, status: 'duplicate', transactions }
+      }
+      unseen.forEach(tx => seen.add(transactionFingerprint(tx)))
+      const partial = unseen.length < transactions.length
+        ? `${transactions.length - unseen.length} of ${transactions.length} transactions already imported`
+        : undefined
+      return { rowNumber, status: 'new', transactions: unseen, error: partial }
+    } catch (error) {
+      return {
+        rowNumber,
+        status: 'error',
+        transactions: [],
+        error: error instanceof CsvRowError ? error.message : `Unreadable row: ${String(error)}`
+      }
+    }
+  })
+
+  return {
+    formatId: format.id,
+    formatName: format.name,
+    rows,
+    newCount: rows.filter(row => row.status === 'new').length,
+    duplicateCount: rows.filter(row => row.status === 'duplicate').length,
+    skippedCount: rows.filter(row => row.status === 'skipped').length,
+    errorCount: rows.filter(row => row.status === 'error').length
+  }
+}
+
+function toTransaction(
+  imported: ImportedTransaction,
+  source: CsvFormatId,
+  resolveCoin: (symbol: string) => CoinRef | null
+): Omit<PortfolioTransaction, 'id'> {
+  const coin = resolveCoin(imported.symbol)
+  if (!coin) throw new CsvRowError(`Unknown asset ${imported.symbol}`)
+  if (!(imported.quantity > 0)) throw new CsvRowError('Quantity must be greater than zero')
+  if (imported.price < 0 || imported.fee < 0) throw new CsvRowError('Price and fee cannot be negative')
+
+  return {
+    coinId: coin.id,
+    symbol: coin.symbol.toUpperCase(),
+    type: imported.type,
+    quantity: imported.quantity,
+    price: imported.price,
+    fee: imported.fee,
+    timestamp: imported.timestamp,
+    notes: imported.notes,
+    source,
+    externalId: imported.externalId
+  }
+}
@@ -0,0 +1,24 @@
+// Portfolio tracking from manually entered transactions
+export { COST_BASIS_LABELS, computeHoldings } from './costBasis'
+export { parseCsv } from './csv'
+export { CSV_FORMATS, CsvRowError, detectCsvFormat, type CsvFormat, type CsvFormatId } from './csvFormats'
+export {
+  CsvFormatError,
+  createCoinResolver,
+  previewCsvImport,
+  transactionFingerprint,
+  type CoinRef,
+  type ImportPreview,
+  type ImportRow,
+  type ImportRowStatus
+} from './csvImport'
+export { convertTransactions, valuePortfolio } from './valuation'
+export type {
+  CostBasisMethod,
+  Holding,
+  PortfolioSummary,
+  PortfolioTransaction,
+  TaxLot,
+  TransactionType,
+  ValuedHolding
+} from './types'
@@ -0,0 +1,55 @@
+export type TransactionType = 'buy' | 'sell' | 'transfer_in' | 'transfer_out' | 'fee'
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average'
+
+export interface PortfolioTransaction {
+  id: string
+  coinId: string
+  symbol: string
+  type: TransactionType
+  quantity: number
+  // Per unit in USD; for transfers in this is the basis carried over
+  price: number
+  // USD paid on top, added to cost on buys and taken from proceeds on sells
+  fee: number
+  timestamp: string
+  notes?: string
+  // Set on imported rows: where they came from and the exchange's own id
+  source?: string
+  externalId?: string
+}
+
+export interface TaxLot {
+  quantity: number
+  costPerUnit: number
+  acquiredAt: string
+}
+
+export interface Holding {
+  coinId: string
+  symbol: string
+  quantity: number
+  costBasis: number
+  averageCost: number
+  realizedPnl: number
+  lots: TaxLot[]
+  // Quantity sold or sent beyond what the transactions show was held
+  shortfall: number
+}
+
+export interface ValuedHolding extends Holding {
+  price: number | null
+  marketValue: number | null
+  unrealizedPnl: number | null
+  unrealizedPnlPercentage: number | null
+  allocationPercentage: number | null
+}
+
+export interface PortfolioSummary {
+  holdings: ValuedHolding[]
+  totalValue: number
+  totalCostBasis: number
+  unrealizedPnl: number
+  realizedPnl: number
+  // Holdings with no current price are left out of the totals
+  unpricedCount: number
+}
@@ -0,0 +1,45 @@
+import type { Holding, PortfolioSummary, PortfolioTransaction, ValuedHolding } from './types'
+
+// Restates dollar transactions in another currency at the rate on each one's
+// date, so cost basis and realised P&L are what was paid in that currency
+export function convertTransactions(
+  transactions: PortfolioTransaction[],
+  rateOn: (timestamp: number) => number
+): PortfolioTransaction[] {
+  return transactions.map(transaction => {
+    const rate = rateOn(Date.parse(transaction.timestamp))
+    return { ...transaction, price: transaction.price * rate, fee: transaction.fee * rate }
+  })
+}
+
+// Mark holdings to current prices, keyed by coin id
+export function valuePortfolio(holdings: Holding[], prices: Record<string, number>): PortfolioSummary {
+  const valued: ValuedHolding[] = holdings.map(holding => {
+    const price = prices[holding.coinId] ?? null
+    const marketValue = price !== null ? holding.quantity * price : null
+    const unrealizedPnl = marketValue !== null ? marketValue - holding.costBasis : null
+    return {
+      ...holding,
+      price,
+      marketValue,
+      unrealizedPnl,
+      unrealizedPnlPercentage: unrealizedPnl !== null && holding.costBasis > 0 ? (unrealizedPnl / holding.costBasis) * 100 : null,
+      allocationPercentage: null
+    }
+  })
+
+  const priced = valued.filter(holding => holding.marketValue !== null && holding.quantity > 0)
+  const totalValue = priced.reduce((sum, holding) => sum + holding.marketValue!, 0)
+  priced.forEach(holding => {
+    holding.allocationPercentage = totalValue > 0 ? (holding.marketValue! / totalValue) * 100 : 0
+  })
+
+  return {
+    holdings: valued.sort((a, b) => (b.marketValue ?? 0) - (a.marketValue ?? 0)),
+    totalValue,
+    totalCostBasis: priced.reduce((sum, holding) => sum + holding.costBasis, 0),
+    unrealizedPnl: priced.reduce((sum, holding) => sum + holding.unrealizedPnl!, 0),
+    realizedPnl: valued.reduce((sum, holding) => sum + holding.realizedPnl, 0),
+    unpricedCount: valued.filter(holding => holding.marketValue === null && holding.quantity > 0).length
+  }
+}
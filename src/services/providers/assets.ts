@@ -0,0 +1,173 @@
+import type { CoinGeckoMarket } from '../cryptoApi'
+
+// Exchange REST APIs only know trading pairs, so we keep a small table that maps
+// CoinGecko ids to each venue's USD pair. Order doubles as the fallback rank.
+export interface ExchangeAsset {
+  id: string
+  symbol: string
+  name: string
+  image: string
+  binance?: string
+  coinbase?: string
+  kraken?: { pair: string; key: string }
+}
+
+export const EXCHANGE_ASSETS: ExchangeAsset[] = [
+  {
+    id: 'bitcoin',
+    symbol: 'btc',
+    name: 'Bitcoin',
+    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png',
+    binance: 'BTCUSDT',
+    coinbase: 'BTC-USD',
+    kraken: { pair: 'XBTUSD', key: 'XXBTZUSD' }
+  },
+  {
+    id: 'ethereum',
+    symbol: 'eth',
+    name: 'Ethereum',
+    image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png',
+    binance: 'ETHUSDT',
+    coinbase: 'ETH-USD',
+    kraken: { pair: 'ETHUSD', key: 'XETHZUSD' }
+  },
+  {
+    id: 'binancecoin',
+    symbol: 'bnb',
+    name: 'BNB',
+    image: 'https://assets.coingecko.com/coins/images/825/large/bnb-icon2_2x.png',
+    binance: 'BNBUSDT'
+  },
+  {
+    id: 'solana',
+    symbol: 'sol',
+    name: 'Solana',
+    image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png',
+    binance: 'SOLUSDT',
+    coinbase: 'SOL-USD',
+    kraken: { pair: 'SOLUSD', key: 'SOLUSD' }
+  },
+  {
+    id: 'ripple',
+    symbol: 'xrp',
+    name: 'XRP',
+    image: 'https://assets.coingecko.com/coins/images/44/large/xrp-symbol-white-128.png',
+    binance: 'XRPUSDT',
+    coinbase: 'XRP-USD',
+    kraken: { pair: 'XRPUSD', key: 'XXRPZUSD' }
+  },
+  {
+    id: 'cardano',
+    symbol: 'ada',
+    name: 'Cardano',
+    image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png',
+    binance: 'ADAUSDT',
+    coinbase: 'ADA-USD',
+    kraken: { pair: 'ADAUSD', key: 'ADAUSD' }
+  },
+  {
+    id: 'dogecoin',
+    symbol: 'doge',
+    name: 'Dogecoin',
+    image: 'https://assets.coingecko.com/coins/images/5/large/dogecoin.png',
+    binance: 'DOGEUSDT',
+    coinbase: 'DOGE-USD',
+    kraken: { pair: 'XDGUSD', key: 'XDGUSD' }
+  },
+  {
+    id: 'avalanche-2',
+    symbol: 'avax',
+    name: 'Avalanche',
+    image: 'https://assets.coingecko.com/coins/images/12559/large/Avalanche_Circle_RedWhite_Trans.png',
+    binance: 'AVAXUSDT',
+    coinbase: 'AVAX-USD',
+    kraken: { pair: 'AVAXUSD', key: 'AVAXUSD' }
+  },
+  {
+    id: 'chainlink',
+    symbol: 'link',
+    name: 'Chainlink',
+    image: 'https://assets.coingecko.com/coins/images/877/large/chainlink-new-logo.png',
+    binance: 'LINKUSDT',
+    coinbase: 'LINK-USD',
+    kraken: { pair: 'LINKUSD', key: 'LINKUSD' }
+  },
+  {
+    id: 'polkadot',
+    symbol: 'dot',
+    name: 'Polkadot',
+    image: 'https://assets.coingecko.com/coins/images/12171/large/polkadot.png',
+    binance: 'DOTUSDT',
+    coinbase: 'DOT-USD',
+    kraken: { pair: 'DOTUSD', key: 'DOTUSD' }
+  },
+  {
+    id: 'litecoin',
+    symbol: 'ltc',
+    name: 'Litecoin',
+    image: 'https://assets.coingecko.com/coins/images/2/large/litecoin.png',
+    binance: 'LTCUSDT',
+    coinbase: 'LTC-USD',
+    kraken: { pair: 'LTCUSD', key: 'XLTCZUSD' }
+  }
+]
+
+export function findExchangeAsset(id: string): ExchangeAsset | undefined {
+  return EXCHANGE_ASSETS.find(asset => asset.id === id)
+}
+
+export function selectExchangeAssets(
+  ids: string[] | undefined,
+  limit: number | undefined,
+  hasPair: (asset: ExchangeAsset) => boolean
+): ExchangeAsset[] {
+  const candidates = ids
+    ? ids.map(findExchangeAsset).filter((asset): asset is ExchangeAsset => !!asset)
+    : EXCHANGE_ASSETS
+  return candidates.filter(hasPair).slice(0, limit ?? candidates.length)
+}
+
+interface TickerSnapshot {
+  lastPrice: number
+  openPrice: number
+  highPrice: number
+  lowPrice: number
+  baseVolume: number
+  updatedAt: number
+}
+
+// Exchanges don't report supply or market cap, so those fields stay at zero and
+// the UI treats them as unknown
+export function buildMarketFromTicker(asset: ExchangeAsset, ticker: TickerSnapshot): CoinGeckoMarket {
+  const priceChange = ticker.lastPrice - ticker.openPrice
+  const priceChangePercentage = ticker.openPrice > 0 ? (priceChange / ticker.openPrice) * 100 : 0
+
+  return {
+    id: asset.id,
+    symbol: asset.symbol,
+    name: asset.name,
+    image: asset.image,
+    current_price: ticker.lastPrice,
+    market_cap: 0,
+    market_cap_rank: EXCHANGE_ASSETS.indexOf(asset) + 1,
+    fully_diluted_valuation: null,
+    total_volume: ticker.baseVolume * ticker.lastPrice,
+    high_24h: ticker.highPrice,
+    low_24h: ticker.lowPrice,
+    price_change_24h: priceChange,
+    price_change_percentage_24h: priceChangePercentage,
+    market_cap_change_24h: 0,
+    market_cap_change_percentage_24h: 0,
+    circulating_supply: 0,
+    total_supply: null,
+    max_supply: null,
+    ath: 0,
+    ath_change_percentage: 0,
+    ath_date: '',
+    atl: 0,
+    atl_change_percentage: 0,
+    atl_date: '',
+    roi: null,
+    last_updated: new Date(ticker.updatedAt).toISOString()
+  }
+}
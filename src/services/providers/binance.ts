@@ -0,0 +1,130 @@
+import { z } from 'zod'
+import { INTERVAL_MS, type Candle, type CandleInterval, type CandleRange } from '../candles'
+import type { CoinGeckoMarket, GlobalMarketData } from '../cryptoApi'
+import type { QuoteCurrency } from '../currency/currencies'
+import { buildMarketFromTicker, findExchangeAsset, selectExchangeAssets } from './assets'
+import { fetchJson } from './http'
+import type { RateLimit } from './scheduler'
+import {
+  ProviderUnsupportedError,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketChart,
+  type MarketDataProvider,
+  type MarketQuery,
+  type RequestOptions
+} from './types'
+import { finiteNumber, parseRows } from './validation'
+
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3'
+const KLINE_PAGE_SIZE = 1000
+const MAX_KLINE_PAGES = 10
+
+// Prices and volumes arrive as decimal strings
+const tickerSchema = z.object({
+  symbol: z.string(),
+  lastPrice: finiteNumber,
+  openPrice: finiteNumber,
+  highPrice: finiteNumber,
+  lowPrice: finiteNumber,
+  volume: finiteNumber,
+  closeTime: finiteNumber
+})
+
+// Binance kline rows: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+const klineSchema = z.tuple(
+  [finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber],
+  z.unknown()
+)
+
+export class BinanceProvider implements MarketDataProvider {
+  id = 'binance'
+  name = 'Binance'
+  candleIntervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d']
+  // Well inside Binance's per-minute request weight
+  rateLimit: RateLimit = { capacity: 20, refillPerMinute: 300 }
+  // Dollar (or dollar stablecoin) pairs only
+  quoteCurrencies: QuoteCurrency[] = ['usd']
+
+  async getMarkets({ limit, ids }: MarketQuery, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    const assets = selectExchangeAssets(ids, limit, asset => !!asset.binance)
+    if (assets.length === 0) return []
+
+    const symbols = JSON.stringify(assets.map(asset => asset.binance))
+    const tickers = parseRows(tickerSchema, await fetchJson(
+      `${BINANCE_API_BASE}/ticker/24hr?symbols=${encodeURIComponent(symbols)}`,
+      { provider: this.id, ...options }
+    ), this.id, '24h tickers')
+
+    return assets.flatMap(asset => {
+      const ticker = tickers.find(t => t.symbol === asset.binance)
+      if (!ticker) return []
+      return [buildMarketFromTicker(asset, {
+        lastPrice: ticker.lastPrice,
+        openPrice: ticker.openPrice,
+        highPrice: ticker.highPrice,
+        lowPrice: ticker.lowPrice,
+        baseVolume: ticker.volume,
+        updatedAt: ticker.closeTime
+      })]
+    })
+  }
+
+  async getGlobalMarketData(): Promise<GlobalMarketData> {
+    throw new ProviderUnsupportedError(this.id, 'global market data')
+  }
+
+  async getCoinDetail(): Promise<CoinDetail> {
+    throw new ProviderUnsupportedError(this.id, 'coin detail')
+  }
+
+  async getExchangeRates(): Promise<ExchangeRates> {
+    throw new ProviderUnsupportedError(this.id, 'exchange rates')
+  }
+
+  async getMarketChart(id: string, days: number, options: RequestOptions = {}): Promise<MarketChart> {
+    const symbol = findExchangeAsset(id)?.binance
+    if (!symbol) throw new ProviderUnsupportedError(this.id, `market chart for ${id}`)
+
+    const klines = parseRows(klineSchema, await fetchJson(
+      `${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=1d&limit=${Math.min(days + 1, 1000)}`,
+      { provider: this.id, ...options }
+    ), this.id, 'klines')
+
+    return {
+      prices: klines.map(k => [k[0], k[4]]),
+      market_caps: [],
+      total_volumes: klines.map(k => [k[0], k[7]])
+    }
+  }
+
+  async getCandles(id: string, interval: CandleInterval, range: CandleRange, options: RequestOptions = {}): Promise<Candle[]> {
+    const symbol = findExchangeAsset(id)?.binance
+    if (!symbol) throw new ProviderUnsupportedError(this.id, `candles for ${id}`)
+
+    const candles: Candle[] = []
+    let startTime = range.from
+
+    for (let page = 0; page < MAX_KLINE_PAGES && startTime <= range.to; page++) {
+      const response = await fetchJson(
+        `${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${interval}&startTime=${startTime}&endTime=${range.to}&limit=${KLINE_PAGE_SIZE}`,
+        { provider: this.id, ...options }
+      )
+      const klines = parseRows(klineSchema, response, this.id, 'klines')
+      candles.push(...klines.map(k => ({
+        time: k[0],
+        open: k[1],
+        high: k[2],
+        low: k[3],
+        close: k[4],
+        volume: k[7]
+      })))
+
+      // Paging goes by what was returned, quarantined rows included
+      if (response.length < KLINE_PAGE_SIZE || klines.length === 0) break
+      startTime = klines[klines.length - 1][0] + INTERVAL_MS[interval]
+    }
+
+    return candles
+  }
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod'
+import type { Candle, CandleInterval, CandleRange } from '../candles'
+import type { CoinGeckoMarket, GlobalMarketData } from '../cryptoApi'
+import type { QuoteCurrency } from '../currency/currencies'
+import { buildMarketFromTicker, findExchangeAsset, selectExchangeAssets } from './assets'
+import { fetchJson } from './http'
+import type { RateLimit } from './scheduler'
+import {
+  ProviderUnsupportedError,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketChart,
+  type MarketDataProvider,
+  type MarketQuery,
+  type RequestOptions
+} from './types'
+import { finiteNumber, parseResponse, parseRows, ProviderValidationError } from './validation'
+
+const COINBASE_API_BASE = 'https://api.exchange.coinbase.com'
+const CANDLE_PAGE_SIZE = 300
+const MAX_CANDLE_PAGES = 10
+
+// Coinbase has no 4h granularity; the chain builds it from 1h bars
+const GRANULARITY_SECONDS: Partial<Record<CandleInterval, number>> = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3600,
+  '1d': 86400
+}
+
+// Prices and volumes arrive as decimal strings
+const statsSchema = z.object({
+  open: finiteNumber,
+  high: finiteNumber,
+  low: finiteNumber,
+  last: finiteNumber,
+  volume: finiteNumber
+})
+
+// Coinbase candle rows: [time (s), low, high, open, close, volume], newest first
+const candleSchema = z.tuple([finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber])
+
+export class CoinbaseProvider implements MarketDataProvider {
+  id = 'coinbase'
+  name = 'Coinbase'
+  candleIntervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '1d']
+  // Coinbase allows 10 public requests a second; stats are one request per coin
+  rateLimit: RateLimit = { capacity: 10, refillPerMinute: 300 }
+  // Dollar (or dollar stablecoin) pairs only
+  quoteCurrencies: QuoteCurrency[] = ['usd']
+
+  async getMarkets({ limit, ids }: MarketQuery, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    const assets = selectExchangeAssets(ids, limit, asset => !!asset.coinbase)
+    const updatedAt = Date.now()
+
+    // Coinbase has no batch stats endpoint, so one request per product
+    const markets: CoinGeckoMarket[] = []
+    for (const asset of assets) {
+      const response = await fetchJson(
+        `${COINBASE_API_BASE}/products/${asset.coinbase}/stats`,
+        { provider: this.id, ...options }
+      )
+      let stats: z.output<typeof statsSchema>
+      try {
+        stats = parseResponse(statsSchema, response, this.id, `${asset.coinbase} stats`)
+      } catch (error) {
+        // Already reported; the other coins can still be served
+        if (error instanceof ProviderValidationError) continue
+        throw error
+      }
+      markets.push(buildMarketFromTicker(asset, {
+        lastPrice: stats.last,
+        openPrice: stats.open,
+        highPrice: stats.high,
+        lowPrice: stats.low,
+        baseVolume: stats.volume,
+        updatedAt
+      }))
+    }
+    return markets
+  }
+
+  async getGlobalMarketData(): Promise<GlobalMarketData> {
+    throw new ProviderUnsupportedError(this.id, 'global market data')
+  }
+
+  async getCoinDetail(): Promise<CoinDetail> {
+    throw new ProviderUnsupportedError(this.id, 'coin detail')
+  }
+
+  async getExchangeRates(): Promise<ExchangeRates> {
+    throw new ProviderUnsupportedError(this.id, 'exchange rates')
+  }
+
+  async getMarketChart(id: string, days: number, options: RequestOptions = {}): Promise<MarketChart> {
+    const product = findExchangeAsset(id)?.coinbase
+    if (!product) throw new ProviderUnsupportedError(this.id, `market chart for ${id}`)
+
+    const end = new Date()
+    const start = new Date(end.getTime() - Math.min(days, 300) * 86400000)
+    const candles = parseRows(candleSchema, await fetchJson(
+      `${COINBASE_API_BASE}/products/${product}/candles?granularity=86400&start=${start.toISOString()}&end=${end.toISOString()}`,
+      { provider: this.id, ...options }
+    ), this.id, 'candles')
+    const ascending = [...candles].reverse()
+
+    return {
+      prices: ascending.map(c => [c[0] * 1000, c[4]]),
+      market_caps: [],
+      total_volumes: ascending.map(c => [c[0] * 1000, c[5] * c[4]])
+    }
+  }
+
+  async getCandles(id: string, interval: CandleInterval, range: CandleRange, options: RequestOptions = {}): Promise<Candle[]> {
+    const product = findExchangeAsset(id)?.coinbase
+    const granularity = GRANULARITY_SECONDS[interval]
+    if (!product || !granularity) throw new ProviderUnsupportedError(this.id, `${interval} candles for ${id}`)
+
+    const pageMs = granularity * 1000 * CANDLE_PAGE_SIZE
+    const candles: Candle[] = []
+
+    for (let page = 0, start = range.from; page < MAX_CANDLE_PAGES && start < range.to; page++, start += pageMs) {
+      const end = Math.min(start + pageMs, range.to)
+      const rows = parseRows(candleSchema, await fetchJson(
+        `${COINBASE_API_BASE}/products/${product}/candles?granularity=${granularity}&start=${new Date(start).toISOString()}&end=${new Date(end).toISOString()}`,
+        { provider: this.id, ...options }
+      ), this.id, 'candles')
+      candles.push(...rows.map(([time, low, high, open, close, volume]) => ({
+        time: time * 1000,
+        open,
+        high,
+        low,
+        close,
+        volume: volume * close
+      })))
+    }
+
+    return candles
+  }
+}
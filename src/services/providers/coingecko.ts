@@ -0,0 +1,220 @@
+import { z } from 'zod'
+import { candlesFromPrices, INTERVAL_MS, type Candle, type CandleInterval, type CandleRange } from '../candles'
+import type { CoinGeckoMarket, GlobalMarketData } from '../cryptoApi'
+import { DEFAULT_QUOTE_CURRENCY, QUOTE_CURRENCIES, type QuoteCurrency } from '../currency/currencies'
+import { fetchJson } from './http'
+import type { RateLimit } from './scheduler'
+import {
+  ProviderUnsupportedError,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketChart,
+  type MarketDataProvider,
+  type MarketQuery,
+  type RequestOptions
+} from './types'
+import { finiteNumber, isWebUrl, numberOrNull, numberOrZero, parseResponse, parseRows, stringOrEmpty, webUrl } from './validation'
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3'
+const MAX_PER_PAGE = 250
+const DAY_MS = INTERVAL_MS['1d']
+
+// Only the id, name and price are required; CoinGecko leaves most other
+// figures null for newly listed or inactive coins
+const marketSchema = z.object({
+  id: z.string().min(1),
+  symbol: z.string().min(1),
+  name: z.string(),
+  image: stringOrEmpty,
+  current_price: finiteNumber,
+  market_cap: numberOrZero,
+  market_cap_rank: numberOrZero,
+  fully_diluted_valuation: numberOrNull,
+  total_volume: numberOrZero,
+  high_24h: numberOrZero,
+  low_24h: numberOrZero,
+  price_change_24h: numberOrZero,
+  price_change_percentage_24h: numberOrZero,
+  market_cap_change_24h: numberOrZero,
+  market_cap_change_percentage_24h: numberOrZero,
+  circulating_supply: numberOrZero,
+  total_supply: numberOrNull,
+  max_supply: numberOrNull,
+  ath: numberOrZero,
+  ath_change_percentage: numberOrZero,
+  ath_date: stringOrEmpty,
+  atl: numberOrZero,
+  atl_change_percentage: numberOrZero,
+  atl_date: stringOrEmpty,
+  roi: z.any(),
+  last_updated: stringOrEmpty
+}) satisfies z.ZodType<CoinGeckoMarket>
+
+const byCurrency = z.record(z.string(), numberOrZero)
+
+const globalSchema = z.object({
+  data: z.object({
+    active_cryptocurrencies: numberOrZero,
+    upcoming_icos: numberOrZero,
+    ongoing_icos: numberOrZero,
+    ended_icos: numberOrZero,
+    markets: numberOrZero,
+    total_market_cap: byCurrency,
+    total_volume: byCurrency,
+    market_cap_percentage: byCurrency,
+    market_cap_change_percentage_24h_usd: numberOrZero,
+    updated_at: numberOrZero
+  })
+}) satisfies z.ZodType<GlobalMarketData>
+
+// Figures per quote currency, null where CoinGecko has none
+const byCurrencyOrNull = z.record(z.string(), numberOrNull).optional()
+
+// Link lists are padded with empty strings; non-web URLs are dropped
+const webUrls = z.array(z.unknown()).nullish()
+  .transform(values => (values ?? []).flatMap(value => isWebUrl(value) ? [value] : []))
+
+// The detail endpoint returns far more than the app reads; only the market
+// figures and links it shows are checked
+const coinDetailSchema = z.looseObject({
+  id: z.string().min(1),
+  symbol: z.string(),
+  name: z.string(),
+  market_data: z.looseObject({
+    current_price: byCurrencyOrNull,
+    market_cap: byCurrencyOrNull,
+    total_volume: byCurrencyOrNull,
+    ath: byCurrencyOrNull,
+    ath_change_percentage: byCurrencyOrNull,
+    atl: byCurrencyOrNull,
+    atl_change_percentage: byCurrencyOrNull,
+    price_change_percentage_24h: numberOrNull,
+    market_cap_rank: numberOrNull,
+    circulating_supply: numberOrNull,
+    total_supply: numberOrNull,
+    max_supply: numberOrNull
+  }).nullish(),
+  links: z.looseObject({
+    homepage: webUrls,
+    blockchain_site: webUrls,
+    repos_url: z.looseObject({ github: webUrls }).nullish(),
+    subreddit_url: webUrl,
+    twitter_screen_name: z.string().nullish()
+  }).nullish()
+})
+
+const chartSchema = z.object({
+  prices: z.array(z.unknown()),
+  market_caps: z.array(z.unknown()).default([]),
+  total_volumes: z.array(z.unknown()).default([])
+})
+const chartPointSchema = z.tuple([finiteNumber, finiteNumber])
+
+// Points with a missing value are dropped rather than failing the chart
+function parseChart(data: unknown, endpoint: string): MarketChart {
+  const chart = parseResponse(chartSchema, data, 'coingecko', endpoint)
+  return {
+    prices: parseRows(chartPointSchema, chart.prices, 'coingecko', `${endpoint} prices`),
+    market_caps: parseRows(chartPointSchema, chart.market_caps, 'coingecko', `${endpoint} market caps`),
+    total_volumes: parseRows(chartPointSchema, chart.total_volumes, 'coingecko', `${endpoint} volumes`)
+  }
+}
+
+// Rates against bitcoin for every currency CoinGecko tracks
+const exchangeRatesSchema = z.object({
+  rates: z.record(z.string(), z.looseObject({ value: finiteNumber }))
+})
+
+// market_chart/range picks its own granularity from the span requested
+function rangeGranularity(range: CandleRange): CandleInterval {
+  const span = range.to - range.from
+  if (span <= DAY_MS) return '5m'
+  if (span <= 90 * DAY_MS) return '1h'
+  return '1d'
+}
+
+export class CoinGeckoProvider implements MarketDataProvider {
+  id = 'coingecko'
+  name = 'CoinGecko'
+  candleIntervals: CandleInterval[] = ['5m', '1h', '1d']
+  // The public API allows roughly 10-30 calls a minute
+  rateLimit: RateLimit = { capacity: 5, refillPerMinute: 10 }
+  quoteCurrencies = Object.keys(QUOTE_CURRENCIES) as QuoteCurrency[]
+
+  async getMarkets({ limit = 20, ids }: MarketQuery, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    const idsParam = ids ? `&ids=${encodeURIComponent(ids.join(','))}` : ''
+    const total = ids ? ids.length : limit
+
+    // For larger limits, we need multiple pages. They're requested together
+    // and the scheduler paces them against the rate limit.
+    const perPage = Math.min(total, MAX_PER_PAGE)
+    const pages = Array.from({ length: Math.ceil(total / perPage) }, (_, i) => i + 1)
+    const pageResults: unknown[] = await Promise.all(pages.map(page => fetchJson(
+      `${COINGECKO_API_BASE}/coins/markets?vs_currency=${options.vsCurrency ?? DEFAULT_QUOTE_CURRENCY}${idsParam}&order=market_cap_desc&per_page=${perPage}&page=${page}&sparkline=false&locale=en`,
+      { provider: this.id, ...options }
+    )))
+
+    // Anything after a short page is past the end of the list. Pages are
+    // measured before validation so quarantined rows don't end it early.
+    const lastPage = pageResults.findIndex(results => !Array.isArray(results) || results.length < perPage)
+    const results = (lastPage === -1 ? pageResults : pageResults.slice(0, lastPage + 1))
+      .flatMap(results => parseRows(marketSchema, results, this.id, 'markets'))
+    return results.slice(0, total)
+  }
+
+  async getGlobalMarketData(options: RequestOptions = {}): Promise<GlobalMarketData> {
+    const data = await fetchJson(`${COINGECKO_API_BASE}/global`, { provider: this.id, ...options })
+    return parseResponse(globalSchema, data, this.id, 'global')
+  }
+
+  async getCoinDetail(id: string, options: RequestOptions = {}): Promise<CoinDetail> {
+    const url = `${COINGECKO_API_BASE}/coins/${id}?localization=false&tickers=false&market_data=true&community_data=false&developer_data=false&sparkline=false`
+    return parseResponse(coinDetailSchema, await fetchJson(url, { provider: this.id, ...options }), this.id, 'coin detail')
+  }
+
+  async getMarketChart(id: string, days: number, options: RequestOptions = {}): Promise<MarketChart> {
+    const url = `${COINGECKO_API_BASE}/coins/${id}/market_chart?vs_currency=${options.vsCurrency ?? DEFAULT_QUOTE_CURRENCY}&days=${days}&interval=daily`
+    return parseChart(await fetchJson(url, { provider: this.id, ...options }), 'market chart')
+  }
+
+  // CoinGecko quotes every rate in bitcoin; they're rebased on the dollar
+  async getExchangeRates(options: RequestOptions = {}): Promise<ExchangeRates> {
+    const { rates } = parseResponse(
+      exchangeRatesSchema,
+      await fetchJson(`${COINGECKO_API_BASE}/exchange_rates`, { provider: this.id, ...options }),
+      this.id,
+      'exchange rates'
+    )
+    const usd = rates.usd?.value
+    if (!usd) throw new Error(`${this.id} returned no dollar exchange rate`)
+
+    const result: ExchangeRates = {}
+    for (const currency of this.quoteCurrencies) {
+      const rate = rates[currency]?.value
+      if (rate) result[currency] = rate / usd
+    }
+    return result
+  }
+
+  async getCandles(id: string, interval: CandleInterval, range: CandleRange, options: RequestOptions = {}): Promise<Candle[]> {
+    const granularity = rangeGranularity(range)
+    if (INTERVAL_MS[interval] < INTERVAL_MS[granularity]) {
+      throw new ProviderUnsupportedError(this.id, `${interval} candles over ${Math.ceil((range.to - range.from) / DAY_MS)} days`)
+    }
+
+    const chart = parseChart(await fetchJson(
+      `${COINGECKO_API_BASE}/coins/${id}/market_chart/range?vs_currency=${options.vsCurrency ?? DEFAULT_QUOTE_CURRENCY}&from=${Math.floor(range.from / 1000)}&to=${Math.ceil(range.to / 1000)}`,
+      { provider: this.id, ...options }
+    ), 'market chart range')
+
+    // CoinGecko only reports rolling 24h volume, so each bar gets its pro-rata share
+    // of the 24h figure at the bar's open
+    const barShare = INTERVAL_MS[interval] / DAY_MS
+    const volumeAt = (time: number) => {
+      const point = chart.total_volumes.find(([t]) => t >= time) ?? chart.total_volumes[chart.total_volumes.length - 1]
+      return point ? point[1] * barShare : 0
+    }
+
+    return candlesFromPrices(chart.prices, interval, volumeAt)
+  }
+}
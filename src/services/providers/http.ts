@@ -0,0 +1,92 @@
+// Shared JSON fetch helper used by every market data provider. Requests are
+// paced by the scheduler's per-provider budget.
+import { requestScheduler } from './scheduler'
+import type { RequestOptions } from './types'
+
+// Retry-After waits longer than this fail over to the next provider instead
+const MAX_RETRY_AFTER_MS = 30 * 1000
+// Backoff for a 429 that doesn't say how long to wait
+const DEFAULT_RATE_LIMIT_BACKOFF_MS = 10 * 1000
+
+export interface FetchJsonOptions extends RequestOptions {
+  provider: string
+  retries?: number
+}
+
+export class ProviderHttpError extends Error {
+  status: number
+
+  constructor(status: number, url: string) {
+    super(`HTTP error! status: ${status} (${url})`)
+    this.name = 'ProviderHttpError'
+    this.status = status
+  }
+}
+
+export class ProviderRateLimitError extends ProviderHttpError {
+  retryAfterMs: number
+
+  constructor(status: number, url: string, retryAfterMs: number) {
+    super(status, url)
+    this.name = 'ProviderRateLimitError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (value.trim() !== '' && Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+function isRetryable(error: unknown) {
+  // Network failures and server errors; other 4xx responses won't change on retry
+  return !(error instanceof ProviderHttpError) || error.status >= 500
+}
+
+async function request(url: string, provider: string, waitForBudget: () => Promise<void>) {
+  await waitForBudget()
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+    },
+  })
+
+  if (response.status === 429 || (response.status === 503 && response.headers.has('Retry-After'))) {
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After')) ?? DEFAULT_RATE_LIMIT_BACKOFF_MS
+    // Everything else queued for this provider has to wait too
+    requestScheduler.block(provider, Date.now() + retryAfterMs)
+    throw new ProviderRateLimitError(response.status, url, retryAfterMs)
+  }
+  if (!response.ok) {
+    throw new ProviderHttpError(response.status, url)
+  }
+
+  return response.json()
+}
+
+export function fetchJson(url: string, { provider, priority = 'background', retries = 2 }: FetchJsonOptions): Promise<any> {
+  return requestScheduler.schedule(provider, url, priority, async waitForBudget => {
+    for (let i = 0; ; i++) {
+      try {
+        return await request(url, provider, waitForBudget)
+      } catch (error) {
+        console.error(`API request failed (attempt ${i + 1}):`, error)
+        if (i >= retries - 1) throw error
+
+        if (error instanceof ProviderRateLimitError) {
+          // The scheduler holds the retry until the provider is ready again
+          if (error.retryAfterMs > MAX_RETRY_AFTER_MS) throw error
+          continue
+        }
+        if (!isRetryable(error)) throw error
+
+        // Wait before retrying (exponential backoff)
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, i) * 1000))
+      }
+    }
+  })
+}
@@ -0,0 +1,133 @@
+import { z } from 'zod'
+import { INTERVAL_MS, type Candle, type CandleInterval, type CandleRange } from '../candles'
+import type { CoinGeckoMarket, GlobalMarketData } from '../cryptoApi'
+import type { QuoteCurrency } from '../currency/currencies'
+import { buildMarketFromTicker, findExchangeAsset, selectExchangeAssets } from './assets'
+import { fetchJson } from './http'
+import type { RateLimit } from './scheduler'
+import {
+  ProviderUnsupportedError,
+  type CoinDetail,
+  type ExchangeRates,
+  type MarketChart,
+  type MarketDataProvider,
+  type MarketQuery,
+  type RequestOptions
+} from './types'
+import { finiteNumber, parseResponse, parseRows } from './validation'
+
+const KRAKEN_API_BASE = 'https://api.kraken.com/0/public'
+
+const responseSchema = z.object({
+  error: z.array(z.string()).default([]),
+  result: z.record(z.string(), z.unknown()).optional()
+})
+
+const pairSchema = z.tuple([finiteNumber, finiteNumber])
+
+// Prices and volumes arrive as decimal strings
+const tickerSchema = z.object({
+  c: pairSchema, // last trade [price, lot volume]
+  v: pairSchema, // volume [today, last 24h]
+  l: pairSchema, // low [today, last 24h]
+  h: pairSchema, // high [today, last 24h]
+  o: finiteNumber // today's opening price
+})
+
+// Kraken OHLC rows: [time (s), open, high, low, close, vwap, volume, count]
+const ohlcSchema = z.tuple(
+  [finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber, finiteNumber]
+)
+
+async function fetchKraken(url: string, endpoint: string, options: RequestOptions): Promise<Record<string, unknown>> {
+  const response = parseResponse(responseSchema, await fetchJson(url, { provider: 'kraken', ...options }), 'kraken', endpoint)
+  if (response.error.length) {
+    throw new Error(`Kraken error: ${response.error.join(', ')}`)
+  }
+  return response.result ?? {}
+}
+
+export class KrakenProvider implements MarketDataProvider {
+  id = 'kraken'
+  name = 'Kraken'
+  candleIntervals: CandleInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d']
+  // Kraken's public endpoints allow about one call a second
+  rateLimit: RateLimit = { capacity: 10, refillPerMinute: 60 }
+  // Dollar (or dollar stablecoin) pairs only
+  quoteCurrencies: QuoteCurrency[] = ['usd']
+
+  async getMarkets({ limit, ids }: MarketQuery, options: RequestOptions = {}): Promise<CoinGeckoMarket[]> {
+    const assets = selectExchangeAssets(ids, limit, asset => !!asset.kraken)
+    if (assets.length === 0) return []
+
+    const pairs = assets.map(asset => asset.kraken!.pair).join(',')
+    const result = await fetchKraken(`${KRAKEN_API_BASE}/Ticker?pair=${pairs}`, 'ticker', options)
+    const tickers = new Map(parseRows(z.tuple([z.string(), tickerSchema]), Object.entries(result), this.id, 'ticker'))
+    const updatedAt = Date.now()
+
+    return assets.flatMap(asset => {
+      const ticker = tickers.get(asset.kraken!.key)
+      if (!ticker) return []
+      return [buildMarketFromTicker(asset, {
+        lastPrice: ticker.c[0],
+        openPrice: ticker.o,
+        highPrice: ticker.h[1],
+        lowPrice: ticker.l[1],
+        baseVolume: ticker.v[1],
+        updatedAt
+      })]
+    })
+  }
+
+  async getGlobalMarketData(): Promise<GlobalMarketData> {
+    throw new ProviderUnsupportedError(this.id, 'global market data')
+  }
+
+  async getCoinDetail(): Promise<CoinDetail> {
+    throw new ProviderUnsupportedError(this.id, 'coin detail')
+  }
+
+  async getExchangeRates(): Promise<ExchangeRates> {
+    throw new ProviderUnsupportedError(this.id, 'exchange rates')
+  }
+
+  async getMarketChart(id: string, days: number, options: RequestOptions = {}): Promise<MarketChart> {
+    const pair = findExchangeAsset(id)?.kraken
+    if (!pair) throw new ProviderUnsupportedError(this.id, `market chart for ${id}`)
+
+    const since = Math.floor(Date.now() / 1000) - days * 86400
+    const result = await fetchKraken(`${KRAKEN_API_BASE}/OHLC?pair=${pair.pair}&interval=1440&since=${since}`, 'OHLC', options)
+    if (!Array.isArray(result[pair.key])) throw new Error(`Kraken returned no OHLC data for ${pair.pair}`)
+    const rows = parseRows(ohlcSchema, result[pair.key], this.id, 'OHLC')
+
+    return {
+      prices: rows.map(r => [r[0] * 1000, r[4]]),
+      market_caps: [],
+      total_volumes: rows.map(r => [r[0] * 1000, r[6] * r[5]])
+    }
+  }
+
+  // Kraken only returns the most recent 720 bars regardless of `since`
+  async getCandles(id: string, interval: CandleInterval, range: CandleRange, options: RequestOptions = {}): Promise<Candle[]> {
+    const pair = findExchangeAsset(id)?.kraken
+    if (!pair) throw new ProviderUnsupportedError(this.id, `candles for ${id}`)
+
+    const minutes = INTERVAL_MS[interval] / 60000
+    const result = await fetchKraken(
+      `${KRAKEN_API_BASE}/OHLC?pair=${pair.pair}&interval=${minutes}&since=${Math.floor(range.from / 1000)}`,
+      'OHLC',
+      options
+    )
+    if (!Array.isArray(result[pair.key])) throw new Error(`Kraken returned no OHLC data for ${pair.pair}`)
+    const rows = parseRows(ohlcSchema, result[pair.key], this.id, 'OHLC')
+
+    return rows.map(r => ({
+      time: r[0] * 1000,
+      open: r[1],
+      high: r[2],
+      low: r[3],
+      close: r[4],
+      volume: r[6] * r[5]
+    }))
+  }
+}
@@ -0,0 +1,210 @@
+// Every provider request goes through here. Each provider gets a token-bucket
+// budget; requests wait in a queue for a token, user-initiated ones ahead of
+// background polls, and identical requests already in flight are shared.
+export type RequestPriority = 'user' | 'background'
+
+export interface RateLimit {
+  // Requests that can go out back to back
+  capacity: number
+  // Sustained requests per minute
+  refillPerMinute: number
+}
+
+export interface ProviderBudget extends RateLimit {
+  tokens: number
+  queued: number
+  // Set while the provider has asked us to back off, e.g. via Retry-After
+  blockedUntil: number | null
+}
+
+export interface SchedulerSnapshot {
+  budgets: Record<string, ProviderBudget>
+}
+
+interface QueuedRequest {
+  priority: RequestPriority
+  seq: number
+  start: () => void
+}
+
+interface Bucket {
+  limit: RateLimit
+  tokens: number
+  refilledAt: number
+  blockedUntil: number
+  queue: QueuedRequest[]
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+interface InFlightRequest {
+  promise: Promise<any>
+  priority: RequestPriority
+  // The request currently waiting for a token, if any
+  queued: QueuedRequest | null
+}
+
+type Listener = () => void
+
+// Used until a provider registers its own limit
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 5, refillPerMinute: 30 }
+// How often budgets are republished while they refill
+const REFILL_NOTIFY_MS = 1000
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { user: 0, background: 1 }
+
+export class RequestScheduler {
+  private buckets = new Map<string, Bucket>()
+  private inFlight = new Map<string, InFlightRequest>()
+  private listeners = new Set<Listener>()
+  private snapshot: SchedulerSnapshot = { budgets: {} }
+  private refillTimer: ReturnType<typeof setTimeout> | null = null
+  private seq = 0
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  setRateLimit(providerId: string, limit: RateLimit) {
+    const bucket = this.bucket(providerId)
+    bucket.limit = limit
+    bucket.tokens = Math.min(bucket.tokens, limit.capacity)
+    this.publish()
+  }
+
+  // Holds back every request to a provider until `until`
+  block(providerId: string, until: number) {
+    const bucket = this.bucket(providerId)
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, until)
+    this.drain(providerId)
+  }
+
+  // Runs `task`, which calls `waitForBudget` before each request it sends
+  // (retries included). A task with the same key already under way is shared
+  // rather than run again.
+  schedule<T>(
+    providerId: string,
+    key: string,
+    priority: RequestPriority,
+    task: (waitForBudget: () => Promise<void>) => Promise<T>
+  ): Promise<T> {
+    const existing = this.inFlight.get(key)
+    if (existing) {
+      // Someone now waiting on a background request shouldn't be stuck behind other polls
+      if (PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.priority]) {
+        existing.priority = priority
+        if (existing.queued) {
+          existing.queued.priority = priority
+          this.drain(providerId)
+        }
+      }
+      return existing.promise
+    }
+
+    const entry: InFlightRequest = { priority, queued: null, promise: Promise.resolve() }
+    const waitForBudget = () => new Promise<void>(resolve => {
+      const queued: QueuedRequest = {
+        priority: entry.priority,
+        seq: this.seq++,
+        start: () => {
+          entry.queued = null
+          resolve()
+        }
+      }
+      entry.queued = queued
+      this.bucket(providerId).queue.push(queued)
+      this.drain(providerId)
+    })
+
+    const promise = task(waitForBudget).finally(() => {
+      this.inFlight.delete(key)
+    })
+    entry.promise = promise
+    this.inFlight.set(key, entry)
+    return promise
+  }
+
+  private bucket(providerId: string): Bucket {
+    let bucket = this.buckets.get(providerId)
+    if (!bucket) {
+      bucket = {
+        limit: DEFAULT_RATE_LIMIT,
+        tokens: DEFAULT_RATE_LIMIT.capacity,
+        refilledAt: Date.now(),
+        blockedUntil: 0,
+        queue: [],
+        timer: null
+      }
+      this.buckets.set(providerId, bucket)
+    }
+    return bucket
+  }
+
+  private refill(bucket: Bucket, now: number) {
+    const refillPerMs = bucket.limit.refillPerMinute / 60000
+    bucket.tokens = Math.min(bucket.limit.capacity, bucket.tokens + (now - bucket.refilledAt) * refillPerMs)
+    bucket.refilledAt = now
+  }
+
+  // Starts as many queued requests as the budget allows, then wakes up again
+  // when the next token is due
+  private drain(providerId: string) {
+    const bucket = this.bucket(providerId)
+    const now = Date.now()
+    this.refill(bucket, now)
+
+    if (bucket.timer) {
+      clearTimeout(bucket.timer)
+      bucket.timer = null
+    }
+
+    bucket.queue.sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.seq - b.seq)
+    while (bucket.queue.length > 0 && bucket.tokens >= 1 && now >= bucket.blockedUntil) {
+      bucket.tokens -= 1
+      bucket.queue.shift()!.start()
+    }
+
+    if (bucket.queue.length > 0) {
+      const refillPerMs = bucket.limit.refillPerMinute / 60000
+      const nextToken = bucket.tokens >= 1 ? 0 : (1 - bucket.tokens) / refillPerMs
+      const wait = Math.max(nextToken, bucket.blockedUntil - now, 0)
+      bucket.timer = setTimeout(() => this.drain(providerId), Math.ceil(wait))
+    }
+
+    this.publish()
+  }
+
+  private publish() {
+    const now = Date.now()
+    const budgets: Record<string, ProviderBudget> = {}
+    let refilling = false
+
+    this.buckets.forEach((bucket, providerId) => {
+      this.refill(bucket, now)
+      if (bucket.tokens < bucket.limit.capacity) refilling = true
+      budgets[providerId] = {
+        ...bucket.limit,
+        tokens: Math.floor(bucket.tokens),
+        queued: bucket.queue.length,
+        blockedUntil: bucket.blockedUntil > now ? bucket.blockedUntil : null
+      }
+    })
+
+    this.snapshot = { budgets }
+    this.listeners.forEach(listener => listener())
+
+    // Keep the published budgets moving while tokens come back
+    if (refilling && !this.refillTimer && this.listeners.size > 0) {
+      this.refillTimer = setTimeout(() => {
+        this.refillTimer = null
+        this.publish()
+      }, REFILL_NOTIFY_MS)
+    }
+  }
+}
+
+export const requestScheduler = new RequestScheduler()
@@ -0,0 +1,60 @@
+import type { Candle, CandleInterval, CandleRange } from '../candles'
+import type { CoinGeckoMarket, GlobalMarketData } from '../cryptoApi'
+import type { QuoteCurrency } from '../currency/currencies'
+import type { RateLimit, RequestPriority } from './scheduler'
+
+export interface MarketQuery {
+  limit?: number
+  ids?: string[]
+}
+
+export interface RequestOptions {
+  // User-initiated requests jump ahead of background polls for the same provider
+  priority?: RequestPriority
+  // Currency prices are quoted in; US dollars unless set
+  vsCurrency?: QuoteCurrency
+}
+
+export interface MarketChart {
+  prices: [number, number][]
+  market_caps: [number, number][]
+  total_volumes: [number, number][]
+}
+
+// Units of each currency one US dollar buys, e.g. { eur: 0.92, btc: 0.000016 }
+export type ExchangeRates = Partial<Record<QuoteCurrency, number>>
+
+export interface CoinDetail {
+  id: string
+  symbol: string
+  name: string
+  [key: string]: any
+}
+
+// Every market data vendor implements this shape. Results are normalised to the
+// CoinGecko market layout the rest of the app already consumes.
+export interface MarketDataProvider {
+  id: string
+  name: string
+  // Intervals the provider can return natively; the chain resamples the rest
+  candleIntervals: CandleInterval[]
+  // Request budget the scheduler holds the provider to
+  rateLimit: RateLimit
+  // Currencies the provider can quote prices in
+  quoteCurrencies: QuoteCurrency[]
+  getMarkets(query: MarketQuery, options?: RequestOptions): Promise<CoinGeckoMarket[]>
+  getGlobalMarketData(options?: RequestOptions): Promise<GlobalMarketData>
+  getCoinDetail(id: string, options?: RequestOptions): Promise<CoinDetail>
+  getMarketChart(id: string, days: number, options?: RequestOptions): Promise<MarketChart>
+  getCandles(id: string, interval: CandleInterval, range: CandleRange, options?: RequestOptions): Promise<Candle[]>
+  getExchangeRates(options?: RequestOptions): Promise<ExchangeRates>
+}
+
+// Thrown when a provider has no equivalent endpoint, so the chain skips it
+// without counting a failure against it
+export class ProviderUnsupportedError extends Error {
+  constructor(providerId: string, operation: string) {
+    super(`${providerId} does not support ${operation}`)
+    this.name = 'ProviderUnsupportedError'
+  }
+}
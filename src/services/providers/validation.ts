@@ -0,0 +1,149 @@
+// Runtime checks on provider responses. Whole responses that don't match are
+// rejected, so the chain fails over to the next provider; malformed rows
+// within an otherwise good list are quarantined and the rest kept. Either way
+// a structured report is published for diagnostics.
+import { z } from 'zod'
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export interface ValidationReport {
+  provider: string
+  endpoint: string
+  // 'response' when the payload was rejected outright, 'rows' when some of
+  // its rows were quarantined
+  kind: 'response' | 'rows'
+  rejected: number
+  total: number
+  // The first few issues, and the first offending value as received
+  issues: ValidationIssue[]
+  sample: unknown
+  at: number
+}
+
+export interface ValidationSnapshot {
+  // Most recent first
+  reports: ValidationReport[]
+  // Rows or responses rejected this session, by `provider:endpoint`
+  rejected: Record<string, number>
+}
+
+export class ProviderValidationError extends Error {
+  report: ValidationReport
+
+  constructor(report: ValidationReport) {
+    super(`${report.provider} returned a malformed ${report.endpoint} response`)
+    this.name = 'ProviderValidationError'
+    this.report = report
+  }
+}
+
+// Providers send numbers as JSON numbers or numeric strings
+function toNumber(value: unknown) {
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+}
+
+export const finiteNumber = z.preprocess(toNumber, z.number())
+// Zero when missing, e.g. the 24h change of a coin listed within the day
+export const numberOrZero = z.preprocess(value => value == null ? 0 : toNumber(value), z.number())
+export const numberOrNull = z.preprocess(value => value == null ? null : toNumber(value), z.number().nullable())
+export const stringOrEmpty = z.string().nullish().transform(value => value ?? '')
+
+// Only http(s) URLs are safe to render as links
+export function isWebUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Anything else, including empty padding, becomes undefined
+export const webUrl = z.unknown().transform(value => isWebUrl(value) ? value : undefined)
+
+const MAX_REPORTS = 50
+const MAX_ISSUES = 5
+
+type Listener = () => void
+
+function describeIssues(error: z.ZodError, prefix: (string | number)[] = []): ValidationIssue[] {
+  return error.issues.slice(0, MAX_ISSUES).map(issue => ({
+    path: [...prefix, ...issue.path.map(String)].join('.') || '(root)',
+    message: issue.message
+  }))
+}
+
+export class ValidationReporter {
+  private snapshot: ValidationSnapshot = { reports: [], rejected: {} }
+  private listeners = new Set<Listener>()
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  report(report: ValidationReport) {
+    const key = `${report.provider}:${report.endpoint}`
+    console.warn('Provider response failed validation', report)
+    this.snapshot = {
+      reports: [report, ...this.snapshot.reports].slice(0, MAX_REPORTS),
+      rejected: { ...this.snapshot.rejected, [key]: (this.snapshot.rejected[key] ?? 0) + report.rejected }
+    }
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const validationReporter = new ValidationReporter()
+
+// Parses a whole response, throwing ProviderValidationError if it doesn't match
+export function parseResponse<S extends z.ZodType>(schema: S, data: unknown, provider: string, endpoint: string): z.output<S> {
+  const result = schema.safeParse(data)
+  if (result.success) return result.data
+
+  const report: ValidationReport = {
+    provider,
+    endpoint,
+    kind: 'response',
+    rejected: 1,
+    total: 1,
+    issues: describeIssues(result.error),
+    sample: data,
+    at: Date.now()
+  }
+  validationReporter.report(report)
+  throw new ProviderValidationError(report)
+}
+
+// Parses a list row by row. Rows that don't match are quarantined and
+// reported; only a payload that isn't a list at all is rejected.
+export function parseRows<S extends z.ZodType>(schema: S, data: unknown, provider: string, endpoint: string): z.output<S>[] {
+  const rows = parseResponse(z.array(z.unknown()), data, provider, endpoint)
+  const valid: z.output<S>[] = []
+  const issues: ValidationIssue[] = []
+  let rejected = 0
+  let sample: unknown
+
+  rows.forEach((row, i) => {
+    const result = schema.safeParse(row)
+    if (result.success) {
+      valid.push(result.data)
+      return
+    }
+    if (rejected === 0) sample = row
+    rejected += 1
+    if (issues.length < MAX_ISSUES) issues.push(...describeIssues(result.error, [i]).slice(0, MAX_ISSUES - issues.length))
+  })
+
+  if (rejected > 0) {
+    validationReporter.report({ provider, endpoint, kind: 'rows', rejected, total: rows.length, issues, sample, at: Date.now() })
+  }
+  return valid
+}
@@ -0,0 +1,97 @@
+// Stop-loss and target derivation for trading signals. Stops sit beyond the
+// recent swing low/high when that is a sensible distance away, otherwise a
+// multiple of ATR from entry; targets are placed at a fixed reward:risk ratio.
+import type { Candle } from './candles'
+import { ATR } from './indicators'
+
+export type RiskMethod = 'swing' | 'atr' | 'percent'
+
+export interface RiskConfig {
+  rewardRisk: number
+  atrPeriod: number
+  atrMultiplier: number
+  swingLookback: number
+  // Extra room beyond the swing level, in ATRs
+  swingBufferAtr: number
+  // Swing stops closer or further than this (in ATRs) fall back to the ATR stop
+  minSwingDistanceAtr: number
+  maxSwingDistanceAtr: number
+  // Used only when there is no price history to measure volatility
+  fallbackStopPercent: number
+}
+
+export interface RiskLevels {
+  stopLoss: number
+  targetPrice: number
+  method: RiskMethod
+  riskReward: number
+  atr: number | null
+}
+
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  rewardRisk: 2,
+  atrPeriod: 14,
+  atrMultiplier: 1.5,
+  swingLookback: 20,
+  swingBufferAtr: 0.25,
+  minSwingDistanceAtr: 0.5,
+  maxSwingDistanceAtr: 3,
+  fallbackStopPercent: 0.03
+}
+
+export const RISK_METHOD_LABELS: Record<RiskMethod, string> = {
+  swing: 'Swing stop',
+  atr: 'ATR stop',
+  percent: 'Fixed % stop'
+}
+
+function latestATR(candles: Candle[], period: number): number | null {
+  const atr = new ATR(period)
+  candles.forEach(candle => atr.update(candle))
+  return atr.value
+}
+
+export function computeRiskLevels(
+  side: 'BUY' | 'SELL' | 'HOLD',
+  entry: number,
+  candles: Candle[],
+  overrides: Partial<RiskConfig> = {}
+): RiskLevels | null {
+  if (side === 'HOLD' || entry <= 0) return null
+
+  const config = { ...DEFAULT_RISK_CONFIG, ...overrides }
+  const direction = side === 'BUY' ? 1 : -1
+  const atr = latestATR(candles, config.atrPeriod)
+
+  let method: RiskMethod
+  let stopLoss: number
+
+  if (atr === null || atr <= 0) {
+    method = 'percent'
+    stopLoss = entry * (1 - direction * config.fallbackStopPercent)
+  } else {
+    const recent = candles.slice(-config.swingLookback)
+    const swingLevel = side === 'BUY'
+      ? Math.min(...recent.map(candle => candle.low))
+      : Math.max(...recent.map(candle => candle.high))
+    const swingStop = swingLevel - direction * config.swingBufferAtr * atr
+    const swingDistance = (entry - swingStop) * direction
+
+    if (swingDistance >= config.minSwingDistanceAtr * atr && swingDistance <= config.maxSwingDistanceAtr * atr) {
+      method = 'swing'
+      stopLoss = swingStop
+    } else {
+      method = 'atr'
+      stopLoss = entry - direction * config.atrMultiplier * atr
+    }
+  }
+
+  const risk = Math.abs(entry - stopLoss)
+  return {
+    stopLoss,
+    targetPrice: entry + direction * risk * config.rewardRisk,
+    method,
+    riskReward: config.rewardRisk,
+    atr
+  }
+}
@@ -0,0 +1,66 @@
+// Runs the selected strategies for a coin against its recent hourly candles
+import { lookbackRange, type CandleInterval } from './candles'
+import { cryptoApi } from './cryptoApi'
+import type { MarketCoin } from './market'
+import type { RiskConfig } from './riskLevels'
+import {
+  buildIndicatorContext,
+  strategyRegistry,
+  type MarketSnapshot,
+  type StrategyEvaluation
+} from './strategies'
+
+export const SIGNAL_CANDLE_INTERVAL: CandleInterval = '1h'
+// Covers EMA 50 and ADX warm-up with room to spare
+const SIGNAL_LOOKBACK_BARS = 200
+
+export interface SignalCoin extends MarketSnapshot {
+  id: string
+}
+
+export function signalCoinFromMarket(coin: MarketCoin): SignalCoin {
+  return {
+    id: coin.id,
+    price: coin.currentPrice,
+    priceChangePercentage24h: coin.priceChangePercentage24h,
+    volume24h: coin.volume24h,
+    marketCap: coin.marketCap
+  }
+}
+
+export interface GeneratedSignal extends StrategyEvaluation {
+  // Readings persisted alongside the signal for later review
+  indicators: {
+    rsi: number | null
+    macd: number | null
+    movingAverage: number | null
+    atr: number | null
+    adx: number | null
+  }
+}
+
+export async function generateStrategySignal(
+  coin: SignalCoin,
+  strategyIds: string[],
+  riskConfig?: Partial<RiskConfig>
+): Promise<GeneratedSignal | null> {
+  const candles = await cryptoApi.getCandles(
+    coin.id,
+    SIGNAL_CANDLE_INTERVAL,
+    lookbackRange(SIGNAL_CANDLE_INTERVAL, SIGNAL_LOOKBACK_BARS)
+  )
+  const indicators = buildIndicatorContext(candles)
+  const evaluation = strategyRegistry.evaluateBest(strategyIds, { candles, indicators, market: coin, riskConfig })
+  if (!evaluation) return null
+
+  return {
+    ...evaluation,
+    indicators: {
+      rsi: indicators.rsi,
+      macd: indicators.macd?.macd ?? null,
+      movingAverage: indicators.sma20,
+      atr: indicators.atr,
+      adx: indicators.adx?.adx ?? null
+    }
+  }
+}
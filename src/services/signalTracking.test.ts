@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { notificationStore } from './notifications'
+import { SignalTracker, type SignalUpdate, type TrackedSignal } from './signalTracking'
+
+const writes = vi.hoisted(() => [] as Record<string, unknown>[])
+
+vi.mock('../blink/client', () => {
+  const table = {
+    create: async (row: Record<string, unknown>) => row,
+    delete: async () => {},
+    update: async (id: string, changes: Record<string, unknown>) => {
+      writes.push({ id, ...changes })
+      return changes
+    }
+  }
+  return { blink: { db: { recentSignals: table, signalUpdates: table, notifications: table } } }
+})
+
+function buySignal(overrides: Partial<TrackedSignal> = {}): TrackedSignal {
+  return {
+    id: 'signal_1',
+    symbol: 'BTC',
+    signalType: 'BUY',
+    entryPrice: 60000,
+    currentPrice: 60000,
+    targetPrice: 66000,
+    stopLoss: 57000,
+    isActive: true,
+    performancePercentage: 0,
+    ...overrides
+  }
+}
+
+// Feeds prices one pass at a time, carrying each update into the next like the feed does
+async function track(tracker: SignalTracker, signal: TrackedSignal, prices: number[]) {
+  const updates: SignalUpdate[] = []
+  for (const price of prices) {
+    const [update] = await tracker.update('user_1', [signal], () => price)
+    if (!update) continue
+    updates.push(update)
+    signal = { ...signal, currentPrice: update.currentPrice, performancePercentage: update.performancePercentage, isActive: update.isActive }
+  }
+  return updates
+}
+
+const inboxTitles = () => notificationStore.getSnapshot().notifications.map(n => n.title).reverse()
+
+beforeEach(async () => {
+  writes.length = 0
+  await notificationStore.remove(notificationStore.getSnapshot().notifications.map(n => n.id))
+})
+
+describe('SignalTracker', () => {
+  it('measures every pass from the entry price and files the trade result on a target hit', async () => {
+    const updates = await track(new SignalTracker(), buySignal(), [61000, 63000, 64500, 66300])
+
+    expect(updates.map(u => Number(u.performancePercentage.toFixed(2)))).toEqual([1.67, 5, 7.5, 10.5])
+    expect(updates[updates.length - 1]).toMatchObject({ status: 'hit_target', isActive: false })
+    expect(writes.every(write => write.entryPrice === 60000)).toBe(true)
+
+    expect(inboxTitles()).toEqual(['📈 BTC +7.50%', '🎯 Target hit for BTC! +10.50%'])
+    expect(notificationStore.getSnapshot().notifications[0]).toMatchObject({
+      type: 'signal',
+      severity: 'success',
+      body: 'BUY signal closed successfully',
+      link: { kind: 'signal', signalId: 'signal_1', symbol: 'BTC' }
+    })
+  })
+
+  it('reports the loss from entry when a short is stopped out', async () => {
+    const signal = buySignal({ signalType: 'SELL', targetPrice: 54000, stopLoss: 63000 })
+    const [, stopped] = await track(new SignalTracker(), signal, [61000, 63600])
+
+    expect(stopped).toMatchObject({ status: 'hit_stop_loss', isActive: false })
+    expect(inboxTitles()).toEqual(['🛑 Stop loss hit for BTC! -6.00%'])
+  })
+
+  it('announces a big move again only once it has moved further', async () => {
+    await track(new SignalTracker(), buySignal(), [63600, 63800, 64000, 65000])
+
+    expect(inboxTitles()).toEqual(['📈 BTC +6.00%', '📈 BTC +8.33%'])
+  })
+
+  it('skips signals whose price has not changed since the last write', async () => {
+    const updates = await new SignalTracker().update('user_1', [buySignal({ currentPrice: 61000 })], () => 61000)
+
+    expect(updates).toEqual([])
+    expect(writes).toEqual([])
+  })
+})
@@ -0,0 +1,152 @@
+// Marks live signals to market against their entry price, closes them at their
+// target or stop, and files outcomes and big moves in the notification inbox
+import { blink } from '../blink/client'
+import { notificationStore, type NotificationSeverity } from './notifications'
+
+// A signal this far from its entry is worth a notification...
+const BIG_MOVE_PERCENT = 5
+// ...and another each time it moves this much further
+const BIG_MOVE_STEP_PERCENT = 2
+
+export interface TrackedSignal {
+  id: string
+  symbol: string
+  signalType: 'BUY' | 'SELL' | 'HOLD'
+  entryPrice: number
+  // Last price written for the signal
+  currentPrice: number
+  targetPrice?: number
+  stopLoss?: number
+  isActive: boolean
+  performancePercentage: number
+}
+
+export type SignalStatus = 'active' | 'hit_target' | 'hit_stop_loss'
+
+// What the user is told, as a toast now and in the inbox for later
+export interface SignalEvent {
+  severity: NotificationSeverity
+  title: string
+  description: string
+}
+
+export interface SignalUpdate {
+  signalId: string
+  currentPrice: number
+  performancePercentage: number
+  isActive: boolean
+  status: SignalStatus
+  updatedAt: string
+  events: SignalEvent[]
+}
+
+// Percent gained in the signal's direction since entry
+export function signalPerformance(signal: Pick<TrackedSignal, 'signalType' | 'entryPrice'>, price: number): number {
+  const { entryPrice } = signal
+  if (!(entryPrice > 0)) return 0
+  if (signal.signalType === 'BUY') return ((price - entryPrice) / entryPrice) * 100
+  if (signal.signalType === 'SELL') return ((entryPrice - price) / entryPrice) * 100
+  return 0
+}
+
+export function signalStatus(signal: Pick<TrackedSignal, 'signalType' | 'targetPrice' | 'stopLoss'>, price: number): SignalStatus {
+  const { signalType, targetPrice, stopLoss } = signal
+  if (targetPrice && signalType === 'BUY' && price >= targetPrice) return 'hit_target'
+  if (targetPrice && signalType === 'SELL' && price <= targetPrice) return 'hit_target'
+  if (stopLoss && signalType === 'BUY' && price <= stopLoss) return 'hit_stop_loss'
+  if (stopLoss && signalType === 'SELL' && price >= stopLoss) return 'hit_stop_loss'
+  return 'active'
+}
+
+function signedPercent(value: number) {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+export class SignalTracker {
+  // Performance at the last big-move notification, per signal
+  private announced = new Map<string, number>()
+
+  // Re-prices active signals and persists those whose price moved. Signals
+  // without a price are left alone.
+  async update(userId: string, signals: TrackedSignal[], priceOf: (symbol: string) => number | undefined): Promise<SignalUpdate[]> {
+    const updates: SignalUpdate[] = []
+
+    for (const signal of signals) {
+      if (!signal.isActive) continue
+      const currentPrice = priceOf(signal.symbol)
+      // Nothing to write when the price hasn't moved since the last update
+      if (currentPrice === undefined || currentPrice === signal.currentPrice) continue
+
+      const performancePercentage = signalPerformance(signal, currentPrice)
+      const status = signalStatus(signal, currentPrice)
+      const isActive = status === 'active'
+      const events = isActive
+        ? this.bigMoveEvents(signal, performancePercentage)
+        : [this.outcomeEvent(signal, status, performancePercentage)]
+      const updatedAt = new Date().toISOString()
+
+      // entryPrice is written back so rows saved before it existed stop drifting
+      await blink.db.recentSignals.update(signal.id, {
+        entryPrice: signal.entryPrice,
+        currentPrice,
+        performancePercentage,
+        isActive,
+        updatedAt
+      })
+      await blink.db.signalUpdates.create({
+        id: `update_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        userId,
+        signalId: signal.id,
+        priceAtUpdate: currentPrice,
+        performanceChange: performancePercentage,
+        updateType: isActive ? 'price_update' : status
+      })
+
+      events.forEach(event => notificationStore.notify({
+        type: 'signal',
+        severity: event.severity,
+        title: event.title,
+        body: event.description,
+        link: { kind: 'signal', signalId: signal.id, symbol: signal.symbol }
+      }))
+      if (!isActive) this.announced.delete(signal.id)
+      updates.push({ signalId: signal.id, currentPrice, performancePercentage, isActive, status, updatedAt, events })
+    }
+
+    return updates
+  }
+
+  private outcomeEvent(signal: TrackedSignal, status: Exclude<SignalStatus, 'active'>, performancePercentage: number): SignalEvent {
+    if (status === 'hit_target') {
+      return {
+        severity: 'success',
+        title: `🎯 Target hit for ${signal.symbol}! ${signedPercent(performancePercentage)}`,
+        description: `${signal.signalType} signal closed successfully`
+      }
+    }
+    return {
+      severity: 'critical',
+      title: `🛑 Stop loss hit for ${signal.symbol}! ${signedPercent(performancePercentage)}`,
+      description: `${signal.signalType} signal closed with loss`
+    }
+  }
+
+  // Seeded with the stored performance so a reload doesn't repeat the last announcement
+  private bigMoveEvents(signal: TrackedSignal, performancePercentage: number): SignalEvent[] {
+    const last = this.announced.get(signal.id) ?? signal.performancePercentage
+    if (!this.announced.has(signal.id)) this.announced.set(signal.id, last)
+    if (Math.abs(performancePercentage) <= BIG_MOVE_PERCENT || Math.abs(performancePercentage - last) <= BIG_MOVE_STEP_PERCENT) {
+      return []
+    }
+
+    this.announced.set(signal.id, performancePercentage)
+    const direction = performancePercentage > last ? '📈' : '📉'
+    return [{
+      severity: 'info',
+      title: `${direction} ${signal.symbol} ${signedPercent(performancePercentage)}`,
+      description: `Significant price movement on your ${signal.signalType} ${signal.symbol} signal`
+    }]
+  }
+}
+
+export const signalTracker = new SignalTracker()
@@ -0,0 +1,10 @@
+// Per-user price history, rolled up over time, for sparklines and offline use
+export { PriceSnapshotStore, priceSnapshots } from './store'
+export {
+  RESOLUTION_MS,
+  RETENTION_MS,
+  coinFromSnapshot,
+  rollupSnapshots,
+  type PriceSnapshot,
+  type SnapshotResolution
+} from './types'
@@ -0,0 +1,233 @@
+// Price history kept per user as one row per coin per bucket. Prices are
+// folded into minute and hourly buckets in memory and upserted every minute;
+// minute buckets are rolled up into their hour once past retention, and hourly
+// ones deleted after theirs. Read back for sparklines and as the last resort
+// when no provider answers.
+import { blink } from '../../blink/client'
+import type { MarketCoin } from '../market/types'
+import {
+  RESOLUTION_MS,
+  RETENTION_MS,
+  bucketStart,
+  mergeSnapshots,
+  rollupSnapshots,
+  snapshotFromCoin,
+  snapshotId,
+  type PriceSnapshot,
+  type SnapshotResolution
+} from './types'
+
+const FLUSH_INTERVAL_MS = 60 * 1000
+const COMPACT_INTERVAL_MS = 60 * 60 * 1000
+// Minute rows rolled up per pass; comfortably more than an hour of them
+const COMPACT_BATCH_SIZE = 5000
+// Rows read back per query
+const SERIES_ROW_LIMIT = 2000
+
+const RESOLUTIONS: SnapshotResolution[] = ['1m', '1h']
+
+function snapshotFromRow(row: any): PriceSnapshot {
+  return {
+    coinId: row.coinId,
+    symbol: row.symbol,
+    name: row.name,
+    resolution: row.resolution,
+    bucketStart: Number(row.bucketStart),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume24h: Number(row.volume24h),
+    marketCap: Number(row.marketCap),
+    marketCapRank: Number(row.marketCapRank) || 0,
+    updatedAt: Number(row.updatedAt)
+  }
+}
+
+function rowFromSnapshot(userId: string, snapshot: PriceSnapshot) {
+  return { id: `${userId}_${snapshotId(snapshot)}`, userId, ...snapshot }
+}
+
+export class PriceSnapshotStore {
+  private userId: string | null = null
+  // Buckets this session has prices for, by snapshot id; finished ones are
+  // dropped once written
+  private buckets = new Map<string, PriceSnapshot>()
+  private dirty = new Set<string>()
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private lastCompactedAt = 0
+
+  setUser(userId: string | null) {
+    if (userId === this.userId) return
+    this.userId = userId
+    this.buckets.clear()
+    this.dirty.clear()
+    this.lastCompactedAt = 0
+    if (userId) this.removeLegacyRows(userId)
+  }
+
+  // Folds the coins' current prices into their buckets, timed by each coin's
+  // lastUpdated
+  record(coins: MarketCoin[]) {
+    const now = Date.now()
+    for (const coin of coins) {
+      if (!(coin.currentPrice > 0)) continue
+      const timestamp = Date.parse(coin.lastUpdated) || now
+      for (const resolution of RESOLUTIONS) {
+        const snapshot = snapshotFromCoin(coin, timestamp, resolution)
+        const id = snapshotId(snapshot)
+        const existing = this.buckets.get(id)
+        this.buckets.set(id, existing ? mergeSnapshots(existing, snapshot) : snapshot)
+        this.dirty.add(id)
+      }
+    }
+
+    this.scheduleFlush()
+  }
+
+  async flush() {
+    const userId = this.userId
+    const ids = [...this.dirty]
+    this.dirty.clear()
+    if (!userId || ids.length === 0) return
+
+    try {
+      await blink.db.priceSnapshots.upsertMany(ids.map(id => rowFromSnapshot(userId, this.buckets.get(id)!)))
+    } catch (error) {
+      console.warn('Failed to save price snapshots:', error)
+      ids.forEach(id => this.dirty.add(id))
+      this.scheduleFlush()
+      return
+    }
+
+    // Buckets behind the current one won't get more prices
+    const now = Date.now()
+    this.buckets.forEach((snapshot, id) => {
+      if (!this.dirty.has(id) && snapshot.bucketStart < bucketStart(now, snapshot.resolution)) this.buckets.delete(id)
+    })
+
+    if (now - this.lastCompactedAt >= COMPACT_INTERVAL_MS) await this.compact(now)
+  }
+
+  // Rebuilds hourly buckets from minute ones past retention, which are then
+  // deleted, and deletes hourly buckets past theirs
+  async compact(now = Date.now()) {
+    const userId = this.userId
+    if (!userId) return
+    this.lastCompactedAt = now
+
+    // Whole hours only, so no hour is rebuilt from part of its minutes
+    const minuteCutoff = bucketStart(now - RETENTION_MS['1m'], '1h')
+    try {
+      for (;;) {
+        const rows = await blink.db.priceSnapshots.list({
+          where: { AND: [{ userId }, { resolution: '1m' }, { bucketStart: { lt: minuteCutoff } }] },
+          orderBy: { bucketStart: 'asc' },
+          limit: COMPACT_BATCH_SIZE
+        })
+        if (rows.length === 0) break
+
+        let minutes: PriceSnapshot[] = rows.map(snapshotFromRow)
+        let compactedUntil = minuteCutoff
+        if (rows.length === COMPACT_BATCH_SIZE) {
+          // The batch may end partway through its last hour; leave that hour
+          // for the next pass unless it is all there is
+          const lastHour = bucketStart(minutes[minutes.length - 1].bucketStart, '1h')
+          const complete = minutes.filter(snapshot => snapshot.bucketStart < lastHour)
+          if (complete.length > 0) minutes = complete
+          compactedUntil = complete.length > 0 ? lastHour : lastHour + RESOLUTION_MS['1h']
+        }
+
+        await blink.db.priceSnapshots.upsertMany(rollupSnapshots(minutes, '1h').map(snapshot => rowFromSnapshot(userId, snapshot)))
+        await blink.db.priceSnapshots.deleteMany({
+          where: { AND: [{ userId }, { resolution: '1m' }, { bucketStart: { lt: compactedUntil } }] }
+        })
+        if (rows.length < COMPACT_BATCH_SIZE) break
+      }
+
+      await blink.db.priceSnapshots.deleteMany({
+        where: { AND: [{ userId }, { resolution: '1h' }, { bucketStart: { lt: now - RETENTION_MS['1h'] } }] }
+      })
+    } catch (error) {
+      console.warn('Failed to compact price snapshots:', error)
+    }
+  }
+
+  // Each coin's snapshots at `resolution` from `since` on, oldest first,
+  // including prices not yet written
+  async getSeries(coinIds: string[], resolution: SnapshotResolution, since: number): Promise<Record<string, PriceSnapshot[]>> {
+    const series: Record<string, PriceSnapshot[]> = {}
+    const ids = [...new Set(coinIds)]
+    if (ids.length === 0) return series
+
+    const from = bucketStart(since, resolution)
+    const byId = new Map<string, PriceSnapshot>()
+    if (this.userId) {
+      const rows = await blink.db.priceSnapshots.list({
+        where: { AND: [{ userId: this.userId }, { coinId: { in: ids } }, { resolution }, { bucketStart: { gte: from } }] },
+        orderBy: { bucketStart: 'asc' },
+        limit: SERIES_ROW_LIMIT
+      })
+      const stored: PriceSnapshot[] = rows.map(snapshotFromRow)
+      stored.forEach(snapshot => byId.set(snapshotId(snapshot), snapshot))
+    }
+    this.buckets.forEach((snapshot, id) => {
+      if (snapshot.resolution !== resolution || snapshot.bucketStart < from || !ids.includes(snapshot.coinId)) return
+      const stored = byId.get(id)
+      byId.set(id, stored ? mergeSnapshots(stored, snapshot) : snapshot)
+    })
+
+    byId.forEach(snapshot => {
+      (series[snapshot.coinId] ??= []).push(snapshot)
+    })
+    Object.values(series).forEach(snapshots => snapshots.sort((a, b) => a.bucketStart - b.bucketStart))
+    return series
+  }
+
+  // The newest snapshot of every coin seen in the latest recorded hour (or
+  // the one before), largest market cap first
+  async getLatest(limit: number): Promise<PriceSnapshot[]> {
+    const userId = this.userId
+    if (!userId) return []
+
+    const [newest] = await blink.db.priceSnapshots.list({
+      where: { AND: [{ userId }, { resolution: '1h' }] },
+      orderBy: { bucketStart: 'desc' },
+      limit: 1
+    })
+    if (!newest) return []
+
+    const rows = await blink.db.priceSnapshots.list({
+      where: { AND: [{ userId }, { resolution: '1h' }, { bucketStart: { gte: Number(newest.bucketStart) - RESOLUTION_MS['1h'] } }] },
+      orderBy: { bucketStart: 'desc' },
+      limit: SERIES_ROW_LIMIT
+    })
+    const snapshots: PriceSnapshot[] = rows.map(snapshotFromRow)
+    const latest = new Map<string, PriceSnapshot>()
+    snapshots.forEach(snapshot => {
+      const seen = latest.get(snapshot.coinId)
+      if (!seen || snapshot.updatedAt > seen.updatedAt) latest.set(snapshot.coinId, snapshot)
+    })
+    return [...latest.values()].sort((a, b) => b.marketCap - a.marketCap).slice(0, limit)
+  }
+
+  private scheduleFlush() {
+    if (this.dirty.size === 0 || this.flushTimer) return
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, FLUSH_INTERVAL_MS)
+  }
+
+  // Earlier versions appended a cryptocurrencies row per coin on every
+  // refresh and never removed them
+  private async removeLegacyRows(userId: string) {
+    try {
+      await blink.db.cryptocurrencies.deleteMany({ where: { userId } })
+    } catch (error) {
+      console.warn('Failed to remove legacy market cache rows:', error)
+    }
+  }
+}
+
+export const priceSnapshots = new PriceSnapshotStore()
@@ -0,0 +1,110 @@
+import type { MarketCoin } from '../market/types'
+
+export type SnapshotResolution = '1m' | '1h'
+
+// One coin's prices over one bucket, the bucket starting at `bucketStart`
+export interface PriceSnapshot {
+  coinId: string
+  symbol: string
+  name: string
+  resolution: SnapshotResolution
+  bucketStart: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volume24h: number
+  marketCap: number
+  marketCapRank: number
+  // Time of the last price folded into the bucket
+  updatedAt: number
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+export const RESOLUTION_MS: Record<SnapshotResolution, number> = {
+  '1m': MINUTE_MS,
+  '1h': HOUR_MS
+}
+
+// Minute buckets are rolled up into hourly ones once older than this, and
+// hourly ones deleted after theirs
+export const RETENTION_MS: Record<SnapshotResolution, number> = {
+  '1m': 3 * HOUR_MS,
+  '1h': 90 * DAY_MS
+}
+
+export function bucketStart(timestamp: number, resolution: SnapshotResolution) {
+  return Math.floor(timestamp / RESOLUTION_MS[resolution]) * RESOLUTION_MS[resolution]
+}
+
+// Deterministic, so writing the same bucket again replaces the row
+export function snapshotId(snapshot: Pick<PriceSnapshot, 'coinId' | 'resolution' | 'bucketStart'>) {
+  return `${snapshot.coinId}_${snapshot.resolution}_${snapshot.bucketStart}`
+}
+
+export function snapshotFromCoin(coin: MarketCoin, timestamp: number, resolution: SnapshotResolution): PriceSnapshot {
+  return {
+    coinId: coin.id,
+    symbol: coin.symbol,
+    name: coin.name,
+    resolution,
+    bucketStart: bucketStart(timestamp, resolution),
+    open: coin.currentPrice,
+    high: coin.currentPrice,
+    low: coin.currentPrice,
+    close: coin.currentPrice,
+    volume24h: coin.volume24h,
+    marketCap: coin.marketCap,
+    marketCapRank: coin.marketCapRank,
+    updatedAt: timestamp
+  }
+}
+
+// Folds a later snapshot of the same coin into an earlier one, keeping the
+// earlier open and the later close
+export function mergeSnapshots(earlier: PriceSnapshot, later: PriceSnapshot): PriceSnapshot {
+  if (later.updatedAt < earlier.updatedAt) return mergeSnapshots(later, earlier)
+  return {
+    ...later,
+    resolution: earlier.resolution,
+    bucketStart: earlier.bucketStart,
+    open: earlier.open,
+    high: Math.max(earlier.high, later.high),
+    low: Math.min(earlier.low, later.low)
+  }
+}
+
+// Re-buckets snapshots at a coarser resolution, one per coin per bucket, in
+// time order
+export function rollupSnapshots(snapshots: PriceSnapshot[], resolution: SnapshotResolution): PriceSnapshot[] {
+  const buckets = new Map<string, PriceSnapshot>()
+  const sorted = [...snapshots].sort((a, b) => a.bucketStart - b.bucketStart || a.updatedAt - b.updatedAt)
+
+  for (const snapshot of sorted) {
+    const rebucketed = { ...snapshot, resolution, bucketStart: bucketStart(snapshot.bucketStart, resolution) }
+    const id = snapshotId(rebucketed)
+    const existing = buckets.get(id)
+    buckets.set(id, existing ? mergeSnapshots(existing, rebucketed) : rebucketed)
+  }
+
+  return [...buckets.values()].sort((a, b) => a.bucketStart - b.bucketStart)
+}
+
+// Enough of a coin to show from snapshots alone when no provider answers
+export function coinFromSnapshot(snapshot: PriceSnapshot): MarketCoin {
+  return {
+    id: snapshot.coinId,
+    symbol: snapshot.symbol,
+    name: snapshot.name,
+    currentPrice: snapshot.close,
+    priceChange24h: 0,
+    priceChangePercentage24h: 0,
+    marketCap: snapshot.marketCap,
+    marketCapRank: snapshot.marketCapRank,
+    volume24h: snapshot.volume24h,
+    lastUpdated: new Date(snapshot.updatedAt).toISOString()
+  }
+}
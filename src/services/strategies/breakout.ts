@@ -0,0 +1,47 @@
+import { formatPrice, holdResult, signalResult } from './helpers'
+import type { Strategy } from './types'
+
+const LOOKBACK = 20
+const VOLUME_CONFIRMATION = 1.5
+
+// Close through the prior 20-bar range on above-average volume
+export const breakoutStrategy: Strategy = {
+  id: 'breakout',
+  name: 'Breakout',
+  description: 'Close beyond the previous 20-bar high/low with volume at least 1.5x its average.',
+  minCandles: LOOKBACK + 1,
+  evaluate(input) {
+    const { candles } = input
+    const { averageVolume20 } = input.indicators
+    if (candles.length < LOOKBACK + 1 || averageVolume20 === null) {
+      return holdResult('Not enough price history to define a range.')
+    }
+
+    const last = candles[candles.length - 1]
+    const range = candles.slice(-LOOKBACK - 1, -1)
+    const rangeHigh = Math.max(...range.map(candle => candle.high))
+    const rangeLow = Math.min(...range.map(candle => candle.low))
+    const volumeRatio = averageVolume20 > 0 ? last.volume / averageVolume20 : 0
+    const confirmed = volumeRatio >= VOLUME_CONFIRMATION
+
+    if (last.close > rangeHigh && confirmed) {
+      return signalResult(
+        input, 'BUY', volumeRatio >= 2.5 ? 'STRONG' : 'MODERATE', 60 + Math.min(volumeRatio * 8, 30),
+        `Breakout above the ${LOOKBACK}-bar high of ${formatPrice(rangeHigh)} on ${volumeRatio.toFixed(1)}x average volume.`
+      )
+    }
+    if (last.close < rangeLow && confirmed) {
+      return signalResult(
+        input, 'SELL', volumeRatio >= 2.5 ? 'STRONG' : 'MODERATE', 60 + Math.min(volumeRatio * 8, 30),
+        `Breakdown below the ${LOOKBACK}-bar low of ${formatPrice(rangeLow)} on ${volumeRatio.toFixed(1)}x average volume.`
+      )
+    }
+
+    const outside = last.close > rangeHigh || last.close < rangeLow
+    return holdResult(
+      outside
+        ? `Price left the ${LOOKBACK}-bar range but volume (${volumeRatio.toFixed(1)}x average) does not confirm.`
+        : `Price is inside its ${LOOKBACK}-bar range (${formatPrice(rangeLow)} - ${formatPrice(rangeHigh)}).`
+    )
+  }
+}
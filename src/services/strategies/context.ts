@@ -0,0 +1,62 @@
+import type { Candle } from '../candles'
+import { ADX, ATR, BollingerBands, EMA, MACD, RSI, SMA, Stochastic } from '../indicators'
+import type { IndicatorContext } from './types'
+
+// Keeps every indicator strategies read up to date one bar at a time, so a
+// replay over long histories stays linear
+export class IndicatorContextBuilder {
+  private rsi = new RSI(14)
+  private macd = new MACD()
+  private sma20 = new SMA(20)
+  private ema20 = new EMA(20)
+  private ema50 = new EMA(50)
+  private bollinger = new BollingerBands(20, 2)
+  private atr = new ATR(14)
+  private adx = new ADX(14)
+  private stochastic = new Stochastic(14, 3, 3)
+  private volume20 = new SMA(20)
+
+  private close: number | null = null
+  private previousRsi: number | null = null
+  private previousMacd: IndicatorContext['macd'] = null
+
+  update(candle: Candle) {
+    this.previousRsi = this.rsi.value
+    this.previousMacd = this.macd.value
+    this.close = candle.close
+    this.rsi.update(candle.close)
+    this.macd.update(candle.close)
+    this.sma20.update(candle.close)
+    this.ema20.update(candle.close)
+    this.ema50.update(candle.close)
+    this.bollinger.update(candle.close)
+    this.atr.update(candle)
+    this.adx.update(candle)
+    this.stochastic.update(candle)
+    this.volume20.update(candle.volume)
+  }
+
+  get value(): IndicatorContext {
+    return {
+      close: this.close,
+      rsi: this.rsi.value,
+      previousRsi: this.previousRsi,
+      macd: this.macd.value,
+      previousMacd: this.previousMacd,
+      sma20: this.sma20.value,
+      ema20: this.ema20.value,
+      ema50: this.ema50.value,
+      bollinger: this.bollinger.value,
+      atr: this.atr.value,
+      adx: this.adx.value,
+      stochastic: this.stochastic.value,
+      averageVolume20: this.volume20.value
+    }
+  }
+}
+
+export function buildIndicatorContext(candles: Candle[]): IndicatorContext {
+  const builder = new IndicatorContextBuilder()
+  candles.forEach(candle => builder.update(candle))
+  return builder.value
+}
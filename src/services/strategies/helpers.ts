@@ -0,0 +1,29 @@
+import { computeRiskLevels } from '../riskLevels'
+import type { SignalSide, SignalStrength, StrategyInput, StrategyResult } from './types'
+
+export function holdResult(reasoning: string, strength: SignalStrength = 'WEAK'): StrategyResult {
+  return { side: 'HOLD', strength, confidence: 50, reasoning, levels: null }
+}
+
+export function signalResult(
+  input: StrategyInput,
+  side: SignalSide,
+  strength: SignalStrength,
+  confidence: number,
+  reasoning: string
+): StrategyResult {
+  return {
+    side,
+    strength,
+    confidence: Math.round(Math.min(Math.max(confidence, 0), 95)),
+    reasoning,
+    levels: computeRiskLevels(side, input.market.price, input.candles, input.riskConfig)
+  }
+}
+
+export function formatPrice(price: number) {
+  return price.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: price < 1 ? 6 : 2
+  })
+}
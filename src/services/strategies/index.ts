@@ -0,0 +1,30 @@
+// Signal strategies and the registry the signal generators pick them from
+import { breakoutStrategy } from './breakout'
+import { meanReversionStrategy } from './meanReversion'
+import { momentumStrategy } from './momentum'
+import { priceActionStrategy } from './priceAction'
+import { StrategyRegistry } from './registry'
+import { trendFollowingStrategy } from './trendFollowing'
+
+export { buildIndicatorContext, IndicatorContextBuilder } from './context'
+export { StrategyRegistry, type StrategyEvaluation } from './registry'
+export type {
+  IndicatorContext,
+  MarketSnapshot,
+  SignalSide,
+  SignalStrength,
+  Strategy,
+  StrategyInput,
+  StrategyResult
+} from './types'
+export { breakoutStrategy, meanReversionStrategy, momentumStrategy, priceActionStrategy, trendFollowingStrategy }
+
+export const strategyRegistry = new StrategyRegistry()
+
+strategyRegistry.register(priceActionStrategy)
+strategyRegistry.register(momentumStrategy)
+strategyRegistry.register(meanReversionStrategy)
+strategyRegistry.register(breakoutStrategy)
+strategyRegistry.register(trendFollowingStrategy)
+
+export const DEFAULT_STRATEGY_IDS = [priceActionStrategy.id, momentumStrategy.id, trendFollowingStrategy.id]
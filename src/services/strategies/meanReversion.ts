@@ -0,0 +1,47 @@
+import { formatPrice, holdResult, signalResult } from './helpers'
+import type { Strategy } from './types'
+
+// Fades closes outside the Bollinger Bands when RSI agrees the move is
+// stretched; the target is the middle band rather than a fixed multiple
+export const meanReversionStrategy: Strategy = {
+  id: 'mean-reversion',
+  name: 'Mean Reversion',
+  description: 'Buys closes below the lower Bollinger Band with RSI under 30; sells the mirror case.',
+  minCandles: 21,
+  evaluate(input) {
+    const { close, rsi, bollinger, stochastic } = input.indicators
+    if (close === null || rsi === null || bollinger === null) {
+      return holdResult('Not enough price history to measure the trading range.')
+    }
+
+    let result = null
+    if (close < bollinger.lower && rsi < 30) {
+      const stochConfirms = stochastic !== null && stochastic.k < 20
+      result = signalResult(
+        input, 'BUY', rsi < 25 ? 'STRONG' : 'MODERATE', 62 + (30 - rsi) + (stochConfirms ? 5 : 0),
+        `Oversold: price ${formatPrice(close)} closed below the lower band (${formatPrice(bollinger.lower)}) with RSI ${rsi.toFixed(1)}. Expecting a reversion toward ${formatPrice(bollinger.middle)}.`
+      )
+    } else if (close > bollinger.upper && rsi > 70) {
+      const stochConfirms = stochastic !== null && stochastic.k > 80
+      result = signalResult(
+        input, 'SELL', rsi > 75 ? 'STRONG' : 'MODERATE', 62 + (rsi - 70) + (stochConfirms ? 5 : 0),
+        `Overbought: price ${formatPrice(close)} closed above the upper band (${formatPrice(bollinger.upper)}) with RSI ${rsi.toFixed(1)}. Expecting a reversion toward ${formatPrice(bollinger.middle)}.`
+      )
+    }
+
+    if (!result) {
+      return holdResult(`Price is inside the Bollinger Bands (RSI ${rsi.toFixed(1)}); no stretched move to fade.`)
+    }
+
+    // Aim for the middle band when it sits on the right side of entry
+    const levels = result.levels
+    const entry = input.market.price
+    const direction = result.side === 'BUY' ? 1 : -1
+    if (levels && (bollinger.middle - entry) * direction > 0) {
+      const reward = Math.abs(bollinger.middle - entry)
+      const risk = Math.abs(entry - levels.stopLoss)
+      result.levels = { ...levels, targetPrice: bollinger.middle, riskReward: risk > 0 ? reward / risk : levels.riskReward }
+    }
+    return result
+  }
+}
@@ -0,0 +1,38 @@
+import { holdResult, signalResult } from './helpers'
+import type { Strategy } from './types'
+
+// MACD histogram expanding in the direction of trade while RSI confirms
+// momentum without being stretched
+export const momentumStrategy: Strategy = {
+  id: 'momentum',
+  name: 'Momentum',
+  description: 'Expanding MACD histogram with RSI between 50 and 70 (or 30 and 50 for sells).',
+  minCandles: 35,
+  evaluate(input) {
+    const { rsi, macd, previousMacd } = input.indicators
+    const histogram = macd?.histogram ?? null
+    const previousHistogram = previousMacd?.histogram ?? null
+    if (rsi === null || histogram === null || previousHistogram === null) {
+      return holdResult('Not enough price history to measure momentum.')
+    }
+
+    const expanding = Math.abs(histogram) > Math.abs(previousHistogram)
+
+    if (histogram > 0 && expanding && rsi > 50 && rsi < 70) {
+      const strong = rsi > 60
+      return signalResult(
+        input, 'BUY', strong ? 'STRONG' : 'MODERATE', 60 + (rsi - 50),
+        `Bullish momentum: MACD histogram expanding at ${histogram.toFixed(4)} with RSI ${rsi.toFixed(1)} confirming strength without being overbought.`
+      )
+    }
+    if (histogram < 0 && expanding && rsi < 50 && rsi > 30) {
+      const strong = rsi < 40
+      return signalResult(
+        input, 'SELL', strong ? 'STRONG' : 'MODERATE', 60 + (50 - rsi),
+        `Bearish momentum: MACD histogram expanding at ${histogram.toFixed(4)} with RSI ${rsi.toFixed(1)} confirming weakness without being oversold.`
+      )
+    }
+
+    return holdResult(`No momentum confirmation (RSI ${rsi.toFixed(1)}, MACD histogram ${histogram.toFixed(4)}).`)
+  }
+}
@@ -0,0 +1,36 @@
+import { holdResult, signalResult } from './helpers'
+import type { Strategy } from './types'
+
+// The original rule set: 24h price change confirmed by volume relative to
+// market cap. Needs no price history, so it also covers coins without candles.
+export const priceActionStrategy: Strategy = {
+  id: 'price-action',
+  name: '24h Price Action',
+  description: '24h change with volume confirmation. Works without price history.',
+  minCandles: 0,
+  evaluate(input) {
+    const { priceChangePercentage24h: priceChange, volume24h: volume, marketCap } = input.market
+    const highVolume = marketCap > 0 && volume > marketCap * 0.1
+
+    if (priceChange > 5 && highVolume) {
+      return signalResult(input, 'BUY', 'STRONG', 85, `Strong bullish momentum with ${priceChange.toFixed(2)}% gain and high volume. Technical indicators suggest continued upward movement.`)
+    }
+    if (priceChange > 2) {
+      return signalResult(input, 'BUY', 'MODERATE', 70, `Positive price action with ${priceChange.toFixed(2)}% gain. Moderate bullish sentiment with room for growth.`)
+    }
+    if (priceChange < -5 && highVolume) {
+      return signalResult(input, 'SELL', 'STRONG', 80, `Significant bearish pressure with ${Math.abs(priceChange).toFixed(2)}% decline and high volume. Risk of further downside.`)
+    }
+    if (priceChange < -2) {
+      return signalResult(input, 'SELL', 'MODERATE', 65, `Negative price momentum with ${Math.abs(priceChange).toFixed(2)}% decline. Caution advised as trend may continue.`)
+    }
+
+    return {
+      ...holdResult(
+        `Consolidation phase with ${priceChange.toFixed(2)}% change. Mixed signals suggest waiting for clearer direction.`,
+        Math.abs(priceChange) > 1 ? 'MODERATE' : 'WEAK'
+      ),
+      confidence: 60
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { holdResult } from './helpers'
+import type { Strategy, StrategyInput, StrategyResult } from './types'
+
+export interface StrategyEvaluation extends StrategyResult {
+  strategyId: string
+  strategyName: string
+}
+
+export class StrategyRegistry {
+  private strategies = new Map<string, Strategy>()
+
+  register(strategy: Strategy) {
+    this.strategies.set(strategy.id, strategy)
+  }
+
+  unregister(id: string) {
+    this.strategies.delete(id)
+  }
+
+  get(id: string): Strategy | undefined {
+    return this.strategies.get(id)
+  }
+
+  list(): Strategy[] {
+    return [...this.strategies.values()]
+  }
+
+  evaluateAll(ids: string[], input: StrategyInput): StrategyEvaluation[] {
+    return ids.flatMap(id => {
+      const strategy = this.strategies.get(id)
+      if (!strategy) return []
+
+      const result = input.candles.length < strategy.minCandles
+        ? holdResult(`${strategy.name} needs ${strategy.minCandles} bars of history; only ${input.candles.length} available.`)
+        : strategy.evaluate(input)
+      return [{ ...result, strategyId: strategy.id, strategyName: strategy.name }]
+    })
+  }
+
+  // Run several strategies and keep the most confident actionable call,
+  // falling back to the most confident HOLD
+  evaluateBest(ids: string[], input: StrategyInput): StrategyEvaluation | null {
+    const evaluations = this.evaluateAll(ids, input)
+    const byConfidence = (a: StrategyEvaluation, b: StrategyEvaluation) => b.confidence - a.confidence
+    const actionable = evaluations.filter(evaluation => evaluation.side !== 'HOLD').sort(byConfidence)
+    return actionable[0] ?? evaluations.sort(byConfidence)[0] ?? null
+  }
+}
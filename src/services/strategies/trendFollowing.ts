@@ -0,0 +1,41 @@
+import { holdResult, signalResult } from './helpers'
+import type { Strategy } from './types'
+
+const MIN_ADX = 25
+
+// Trades with an established trend: EMA 20/50 alignment confirmed by ADX
+// strength and directional indicators
+export const trendFollowingStrategy: Strategy = {
+  id: 'trend-following',
+  name: 'Trend Following',
+  description: 'EMA 20 above/below EMA 50 with ADX over 25 and agreeing directional indicators.',
+  minCandles: 50,
+  evaluate(input) {
+    const { close, ema20, ema50, adx } = input.indicators
+    if (close === null || ema20 === null || ema50 === null || adx === null) {
+      return holdResult('Not enough price history to establish a trend.')
+    }
+
+    const strength = adx.adx >= 40 ? 'STRONG' : 'MODERATE'
+    const confidence = 55 + Math.min(adx.adx - MIN_ADX, 30)
+
+    if (adx.adx >= MIN_ADX && ema20 > ema50 && close > ema20 && adx.plusDI > adx.minusDI) {
+      return signalResult(
+        input, 'BUY', strength, confidence,
+        `Uptrend: EMA 20 above EMA 50 with ADX ${adx.adx.toFixed(1)} and +DI ${adx.plusDI.toFixed(1)} leading -DI ${adx.minusDI.toFixed(1)}.`
+      )
+    }
+    if (adx.adx >= MIN_ADX && ema20 < ema50 && close < ema20 && adx.minusDI > adx.plusDI) {
+      return signalResult(
+        input, 'SELL', strength, confidence,
+        `Downtrend: EMA 20 below EMA 50 with ADX ${adx.adx.toFixed(1)} and -DI ${adx.minusDI.toFixed(1)} leading +DI ${adx.plusDI.toFixed(1)}.`
+      )
+    }
+
+    return holdResult(
+      adx.adx < MIN_ADX
+        ? `No established trend (ADX ${adx.adx.toFixed(1)} below ${MIN_ADX}).`
+        : 'Trend indicators disagree; waiting for alignment.'
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import type { Candle } from '../candles'
+import type { ADXValue, BollingerValue, MACDValue, StochasticValue } from '../indicators'
+import type { RiskConfig, RiskLevels } from '../riskLevels'
+
+export type SignalSide = 'BUY' | 'SELL' | 'HOLD'
+export type SignalStrength = 'STRONG' | 'MODERATE' | 'WEAK'
+
+// Latest readings (and the previous bar's where strategies look for a turn)
+export interface IndicatorContext {
+  close: number | null
+  rsi: number | null
+  previousRsi: number | null
+  macd: MACDValue | null
+  previousMacd: MACDValue | null
+  sma20: number | null
+  ema20: number | null
+  ema50: number | null
+  bollinger: BollingerValue | null
+  atr: number | null
+  adx: ADXValue | null
+  stochastic: StochasticValue | null
+  averageVolume20: number | null
+}
+
+// 24h market figures, for strategies that work without price history
+export interface MarketSnapshot {
+  price: number
+  priceChangePercentage24h: number
+  volume24h: number
+  marketCap: number
+}
+
+export interface StrategyInput {
+  candles: Candle[]
+  indicators: IndicatorContext
+  market: MarketSnapshot
+  riskConfig?: Partial<RiskConfig>
+}
+
+export interface StrategyResult {
+  side: SignalSide
+  strength: SignalStrength
+  confidence: number
+  reasoning: string
+  levels: RiskLevels | null
+}
+
+export interface Strategy {
+  id: string
+  name: string
+  description: string
+  // Bars needed before the strategy can say anything but HOLD
+  minCandles: number
+  evaluate(input: StrategyInput): StrategyResult
+}
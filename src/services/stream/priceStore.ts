@@ -0,0 +1,68 @@
+// Shared store of the latest price tick per coin id, fed by the ticker stream
+// (or its polling fallback) and read by components via useSyncExternalStore
+export type TickerStatus = 'idle' | 'connecting' | 'streaming' | 'polling'
+
+export interface PriceTick {
+  id: string
+  price: number
+  open24h?: number
+  high24h?: number
+  low24h?: number
+  volume24h?: number
+  timestamp: number
+  source: 'stream' | 'poll'
+}
+
+export interface PriceStoreSnapshot {
+  prices: Record<string, PriceTick>
+  status: TickerStatus
+  lastTickAt: number | null
+}
+
+type Listener = () => void
+
+export class PriceStore {
+  private snapshot: PriceStoreSnapshot = { prices: {}, status: 'idle', lastTickAt: null }
+  private listeners = new Set<Listener>()
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  getPrice(id: string): PriceTick | undefined {
+    return this.snapshot.prices[id]
+  }
+
+  applyTicks(ticks: PriceTick[]) {
+    if (ticks.length === 0) return
+
+    const prices = { ...this.snapshot.prices }
+    let lastTickAt = this.snapshot.lastTickAt ?? 0
+    for (const tick of ticks) {
+      // Ignore out-of-order ticks so a slow poll can't overwrite a newer stream price
+      const existing = prices[tick.id]
+      if (existing && existing.timestamp > tick.timestamp) continue
+      prices[tick.id] = tick
+      lastTickAt = Math.max(lastTickAt, tick.timestamp)
+    }
+
+    this.setSnapshot({ ...this.snapshot, prices, lastTickAt })
+  }
+
+  setStatus(status: TickerStatus) {
+    if (status === this.snapshot.status) return
+    this.setSnapshot({ ...this.snapshot, status })
+  }
+
+  private setSnapshot(snapshot: PriceStoreSnapshot) {
+    this.snapshot = snapshot
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+export const priceStore = new PriceStore()
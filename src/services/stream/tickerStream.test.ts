@@ -0,0 +1,114 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+import path from 'node:path'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import WebSocket from 'ws'
+import { PriceStore, type PriceTick } from './priceStore'
+import { TickerStream } from './tickerStream'
+
+// Node 20 has no WebSocket global for the stream to use
+vi.stubGlobal('WebSocket', WebSocket)
+
+const SERVER = path.resolve(__dirname, '../../../scripts/mock-ticker-server.mjs')
+const servers: ChildProcess[] = []
+const streams: TickerStream[] = []
+
+// Starts scripts/mock-ticker-server.mjs and resolves once it is listening
+function startServer(port: number, ...args: string[]) {
+  const server = spawn(process.execPath, [SERVER, `--port=${port}`, ...args], { stdio: ['ignore', 'pipe', 'inherit'] })
+  servers.push(server)
+  return new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve()
+    })
+  })
+}
+
+function createStream(port: number, ids: string[]) {
+  const store = new PriceStore()
+  const poll = vi.fn(async (_ids: string[]): Promise<PriceTick[]> => [])
+  const connections = vi.fn((url: string) => new WebSocket(url) as unknown as globalThis.WebSocket)
+  const stream = new TickerStream({
+    url: `ws://localhost:${port}/ws`,
+    store,
+    heartbeatTimeoutMs: 1500,
+    minBackoffMs: 100,
+    maxBackoffMs: 200,
+    pollIntervalMs: 60000,
+    poll,
+    createSocket: connections
+  })
+  streams.push(stream)
+  stream.setSymbols(ids)
+  stream.start()
+  return { stream, store, poll, connections }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+beforeAll(() => Promise.all([
+  startServer(19444),
+  startServer(19445, '--drop-after=2'),
+  startServer(19446, '--silent-after=0')
+]))
+
+afterEach(() => {
+  streams.splice(0).forEach(stream => stream.stop())
+})
+
+afterAll(() => {
+  servers.forEach(server => server.kill())
+})
+
+describe('ticker stream against the mock server', () => {
+  it('subscribes to streamable coins and applies their ticks', async () => {
+    const { store, poll } = createStream(19444, ['bitcoin', 'ethereum', 'not-on-binance'])
+
+    await vi.waitFor(() => {
+      expect(store.getPrice('bitcoin')?.source).toBe('stream')
+      expect(store.getPrice('ethereum')?.source).toBe('stream')
+    }, { timeout: 5000, interval: 100 })
+    expect(store.getSnapshot().status).toBe('streaming')
+    // The first poll runs before the socket opens and covers everything
+    expect(poll).toHaveBeenCalledWith(['bitcoin', 'ethereum', 'not-on-binance'])
+  })
+
+  it('follows symbol changes with SUBSCRIBE and UNSUBSCRIBE', async () => {
+    const { stream, store } = createStream(19444, ['bitcoin'])
+    await vi.waitFor(() => expect(store.getPrice('bitcoin')).toBeDefined(), { timeout: 5000, interval: 100 })
+
+    stream.setSymbols(['solana'])
+    await vi.waitFor(() => expect(store.getPrice('solana')).toBeDefined(), { timeout: 5000, interval: 100 })
+    const bitcoinAt = store.getPrice('bitcoin')!.timestamp
+    await sleep(1500)
+    expect(store.getPrice('bitcoin')!.timestamp).toBe(bitcoinAt)
+  })
+
+  it('falls back to polling and reconnects when the connection drops', async () => {
+    const { store, poll, connections } = createStream(19445, ['bitcoin'])
+    await vi.waitFor(() => expect(store.getPrice('bitcoin')).toBeDefined(), { timeout: 5000, interval: 100 })
+    poll.mockClear()
+
+    await vi.waitFor(() => expect(connections.mock.calls.length).toBeGreaterThanOrEqual(2), { timeout: 5000, interval: 100 })
+    expect(poll).toHaveBeenCalledWith(['bitcoin'])
+    await vi.waitFor(() => expect(store.getSnapshot().status).toBe('streaming'), { timeout: 5000, interval: 100 })
+  }, 15000)
+
+  it('reconnects when a subscribed stream goes silent', async () => {
+    const { connections } = createStream(19446, ['bitcoin'])
+    await vi.waitFor(() => expect(connections.mock.calls.length).toBeGreaterThanOrEqual(2), { timeout: 5000, interval: 100 })
+  })
+
+  it('keeps a quiet connection open while nothing can be streamed', async () => {
+    const { stream, store, connections } = createStream(19446, ['not-on-binance'])
+    await vi.waitFor(() => expect(store.getSnapshot().status).toBe('streaming'), { timeout: 5000, interval: 100 })
+
+    await sleep(3000)
+    expect(connections).toHaveBeenCalledTimes(1)
+    expect(store.getSnapshot().status).toBe('streaming')
+
+    // Once there is something to hear, silence means a stale connection again
+    stream.setSymbols(['not-on-binance', 'bitcoin'])
+    await vi.waitFor(() => expect(connections).toHaveBeenCalledTimes(2), { timeout: 5000, interval: 100 })
+  }, 15000)
+})
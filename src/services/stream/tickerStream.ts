@@ -0,0 +1,276 @@
+// Streaming ticker client speaking the Binance WebSocket protocol
+// (SUBSCRIBE/UNSUBSCRIBE + 24hrMiniTicker events). Falls back to polling the
+// market data chain whenever the socket is down.
+import { z } from 'zod'
+import { marketDataChain } from '../marketData'
+import { EXCHANGE_ASSETS } from '../providers/assets'
+import { finiteNumber, parseResponse } from '../providers/validation'
+import { priceStore, type PriceStore, type PriceTick } from './priceStore'
+
+const DEFAULT_STREAM_URL = import.meta.env.VITE_TICKER_STREAM_URL ?? 'wss://stream.binance.com:9443/ws'
+
+export interface TickerStreamOptions {
+  url?: string
+  store?: PriceStore
+  // No message for this long means the connection is stale
+  heartbeatTimeoutMs?: number
+  minBackoffMs?: number
+  maxBackoffMs?: number
+  pollIntervalMs?: number
+  poll?: (ids: string[]) => Promise<PriceTick[]>
+  createSocket?: (url: string) => WebSocket
+}
+
+const miniTickerSchema = z.object({
+  e: z.literal('24hrMiniTicker'),
+  E: finiteNumber, // event time
+  s: z.string(), // symbol
+  c: finiteNumber, // close price
+  o: finiteNumber, // open price
+  h: finiteNumber, // high price
+  l: finiteNumber, // low price
+  v: finiteNumber, // base asset volume
+  q: finiteNumber // quote asset volume
+})
+
+const STREAM_SYMBOLS = new Map(
+  EXCHANGE_ASSETS.filter(asset => asset.binance).map(asset => [asset.id, asset.binance!])
+)
+const STREAM_IDS = new Map(
+  EXCHANGE_ASSETS.filter(asset => asset.binance).map(asset => [asset.binance!, asset.id])
+)
+
+async function pollMarketData(ids: string[]): Promise<PriceTick[]> {
+  const markets = await marketDataChain.getMarketsByIds(ids)
+  return markets.map(market => ({
+    id: market.id,
+    price: market.current_price,
+    open24h: market.current_price - market.price_change_24h,
+    high24h: market.high_24h,
+    low24h: market.low_24h,
+    volume24h: market.total_volume,
+    timestamp: Date.parse(market.last_updated) || Date.now(),
+    source: 'poll' as const
+  }))
+}
+
+export class TickerStream {
+  private url: string
+  private store: PriceStore
+  private heartbeatTimeoutMs: number
+  private minBackoffMs: number
+  private maxBackoffMs: number
+  private pollIntervalMs: number
+  private poll: (ids: string[]) => Promise<PriceTick[]>
+  private createSocket: (url: string) => WebSocket
+
+  private ids: string[] = []
+  private running = false
+  private socket: WebSocket | null = null
+  private streaming = false
+  private attempts = 0
+  private requestId = 0
+  private subscribed = new Set<string>()
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null
+  private pollTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(options: TickerStreamOptions = {}) {
+    this.url = options.url ?? DEFAULT_STREAM_URL
+    this.store = options.store ?? priceStore
+    this.heartbeatTimeoutMs = options.heartbeatTimeoutMs ?? 30000
+    this.minBackoffMs = options.minBackoffMs ?? 1000
+    this.maxBackoffMs = options.maxBackoffMs ?? 30000
+    this.pollIntervalMs = options.pollIntervalMs ?? 30000
+    this.poll = options.poll ?? pollMarketData
+    this.createSocket = options.createSocket ?? (url => new WebSocket(url))
+  }
+
+  start() {
+    if (this.running) return
+    this.running = true
+    this.connect()
+    this.schedulePoll(0)
+  }
+
+  stop() {
+    this.running = false
+    this.clearTimers()
+    this.dropSocket()
+    this.store.setStatus('idle')
+  }
+
+  setSymbols(ids: string[]) {
+    this.ids = [...new Set(ids)]
+    if (this.streaming) this.syncSubscriptions()
+  }
+
+  private connect() {
+    if (!this.running) return
+    if (this.attempts === 0) this.store.setStatus('connecting')
+
+    let socket: WebSocket
+    try {
+      socket = this.createSocket(this.url)
+    } catch (error) {
+      console.error('Failed to open ticker stream:', error)
+      this.handleDisconnect()
+      return
+    }
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.attempts = 0
+      this.streaming = true
+      this.subscribed.clear()
+      this.syncSubscriptions()
+      this.store.setStatus('streaming')
+      this.resetHeartbeat()
+    }
+    socket.onmessage = event => {
+      this.resetHeartbeat()
+      this.handleMessage(event.data)
+    }
+    socket.onerror = () => {
+      console.warn('Ticker stream error, reconnecting...')
+      this.handleDisconnect()
+    }
+    socket.onclose = () => {
+      if (this.socket === socket) this.handleDisconnect()
+    }
+  }
+
+  private handleDisconnect() {
+    const wasStreaming = this.streaming
+    this.dropSocket()
+    if (!this.running) return
+
+    // Cover the gap straight away when a live stream drops
+    this.store.setStatus('polling')
+    if (wasStreaming) this.schedulePoll(0)
+
+    // Exponential backoff with jitter so many tabs don't reconnect in lockstep
+    const backoff = Math.min(this.minBackoffMs * Math.pow(2, this.attempts), this.maxBackoffMs)
+    const delay = backoff / 2 + Math.random() * backoff / 2
+    this.attempts += 1
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = setTimeout(() => this.connect(), delay)
+  }
+
+  private dropSocket() {
+    const socket = this.socket
+    this.socket = null
+    this.streaming = false
+    this.subscribed.clear()
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer)
+    if (!socket) return
+
+    socket.onopen = null
+    socket.onmessage = null
+    socket.onerror = null
+    socket.onclose = null
+    if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+      socket.close()
+    }
+  }
+
+  private resetHeartbeat() {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer)
+    // With nothing subscribed the server has nothing to send, so silence is expected
+    if (this.subscribed.size === 0) return
+    this.heartbeatTimer = setTimeout(() => {
+      console.warn(`Ticker stream silent for ${this.heartbeatTimeoutMs / 1000}s, reconnecting...`)
+      this.handleDisconnect()
+    }, this.heartbeatTimeoutMs)
+  }
+
+  private syncSubscriptions() {
+    if (!this.socket || !this.streaming) return
+
+    const wanted = new Set(
+      this.ids
+        .map(id => STREAM_SYMBOLS.get(id))
+        .filter((symbol): symbol is string => !!symbol)
+        .map(symbol => `${symbol.toLowerCase()}@miniTicker`)
+    )
+    const toAdd = [...wanted].filter(stream => !this.subscribed.has(stream))
+    const toRemove = [...this.subscribed].filter(stream => !wanted.has(stream))
+
+    if (toRemove.length > 0) {
+      this.socket.send(JSON.stringify({ method: 'UNSUBSCRIBE', params: toRemove, id: ++this.requestId }))
+    }
+    if (toAdd.length > 0) {
+      this.socket.send(JSON.stringify({ method: 'SUBSCRIBE', params: toAdd, id: ++this.requestId }))
+    }
+    this.subscribed = wanted
+    if (toAdd.length > 0 || toRemove.length > 0) this.resetHeartbeat()
+  }
+
+  private handleMessage(raw: unknown) {
+    if (typeof raw !== 'string') return
+
+    let message: any
+    try {
+      message = JSON.parse(raw)
+    } catch {
+      return
+    }
+
+    // Combined streams wrap the payload as { stream, data }
+    const payload = message?.data ?? message
+    if (payload?.e !== '24hrMiniTicker') return
+
+    let event: z.output<typeof miniTickerSchema>
+    try {
+      event = parseResponse(miniTickerSchema, payload, 'binance', 'mini ticker stream')
+    } catch {
+      // Already reported; the next tick will do
+      return
+    }
+
+    const id = STREAM_IDS.get(event.s)
+    if (!id) return
+
+    this.store.applyTicks([{
+      id,
+      price: event.c,
+      open24h: event.o,
+      high24h: event.h,
+      low24h: event.l,
+      volume24h: event.q,
+      timestamp: event.E,
+      source: 'stream'
+    }])
+  }
+
+  // While streaming only coins without a stream pair are polled; when the
+  // socket is down everything is
+  private schedulePoll(delay: number) {
+    if (this.pollTimer) clearTimeout(this.pollTimer)
+    this.pollTimer = setTimeout(async () => {
+      if (!this.running) return
+
+      const ids = this.streaming ? this.ids.filter(id => !STREAM_SYMBOLS.has(id)) : this.ids
+      if (ids.length > 0) {
+        try {
+          this.store.applyTicks(await this.poll(ids))
+        } catch (error) {
+          console.error('Ticker polling fallback failed:', error)
+        }
+      }
+
+      if (this.running) this.schedulePoll(this.pollIntervalMs)
+    }, delay)
+  }
+
+  private clearTimers() {
+    for (const timer of [this.reconnectTimer, this.heartbeatTimer, this.pollTimer]) {
+      if (timer) clearTimeout(timer)
+    }
+    this.reconnectTimer = null
+    this.heartbeatTimer = null
+    this.pollTimer = null
+  }
+}
+
+export const tickerStream = new TickerStream()
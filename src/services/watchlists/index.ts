@@ -0,0 +1,11 @@
+// Named, ordered watchlists with per-coin notes and tags
+export {
+  DEFAULT_WATCHLIST_NAME,
+  WatchlistError,
+  WatchlistStore,
+  normaliseTags,
+  watchlistStore,
+  type WatchlistCoinRef,
+  type WatchlistSnapshot
+} from './store'
+export type { Watchlist, WatchlistItem } from './types'
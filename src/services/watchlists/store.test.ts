@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { WatchlistStore } from './store'
+
+const rows = vi.hoisted(() => ({ watchlists: [] as Record<string, unknown>[], watchlistItems: [] as Record<string, unknown>[] }))
+
+vi.mock('../../blink/client', () => {
+  const table = (name: keyof typeof rows) => ({
+    list: async () => rows[name],
+    upsert: async (row: Record<string, unknown>) => row,
+    upsertMany: async (many: Record<string, unknown>[]) => many,
+    delete: async () => {}
+  })
+  return { blink: { db: { watchlists: table('watchlists'), watchlistItems: table('watchlistItems') } } }
+})
+
+const now = '2024-03-01T00:00:00.000Z'
+
+function list(id: string, position: number) {
+  return { id, name: id, position, createdAt: now, updatedAt: now }
+}
+
+function item(id: string, watchlistId: string, coinId: string, position: number, notes = '', tags: string[] = []) {
+  return { id, watchlistId, coinId, symbol: coinId.slice(0, 3).toUpperCase(), position, notes, tags: JSON.stringify(tags), createdAt: now, updatedAt: now }
+}
+
+async function loadedStore() {
+  const store = new WatchlistStore()
+  await store.load('user_1')
+  return store
+}
+
+const coinIds = (store: WatchlistStore, listId: string) => store.itemsOf(listId).map(i => i.coinId)
+
+beforeEach(() => {
+  rows.watchlists = [list('main', 0), list('defi', 1)]
+  rows.watchlistItems = [
+    item('a', 'main', 'bitcoin', 0, 'Long term', ['core']),
+    item('b', 'main', 'ethereum', 1),
+    item('c', 'main', 'solana', 2),
+    item('d', 'defi', 'uniswap', 0),
+    item('e', 'defi', 'bitcoin', 1, 'Wrapped BTC collateral', ['Core', 'collateral'])
+  ]
+})
+
+describe('WatchlistStore.moveItem', () => {
+  it('reorders items within a list', async () => {
+    const store = await loadedStore()
+
+    store.moveItem('c', 'main', 0)
+    expect(coinIds(store, 'main')).toEqual(['solana', 'bitcoin', 'ethereum'])
+    expect(store.itemsOf('main').map(i => i.position)).toEqual([0, 1, 2])
+  })
+
+  it('moves an item to another list at the given index', async () => {
+    const store = await loadedStore()
+
+    store.moveItem('b', 'defi', 1)
+    expect(coinIds(store, 'main')).toEqual(['bitcoin', 'solana'])
+    expect(coinIds(store, 'defi')).toEqual(['uniswap', 'ethereum', 'bitcoin'])
+    expect(store.itemsOf('defi')[1]).toMatchObject({ id: 'b', watchlistId: 'defi', position: 1 })
+  })
+
+  it('merges notes and tags into an entry for the same coin on the target list', async () => {
+    const store = await loadedStore()
+
+    store.moveItem('e', 'main', 2)
+    expect(coinIds(store, 'defi')).toEqual(['uniswap'])
+    expect(coinIds(store, 'main')).toEqual(['bitcoin', 'ethereum', 'solana'])
+    expect(store.itemsOf('main')[0]).toMatchObject({
+      id: 'a',
+      notes: 'Long term\nWrapped BTC collateral',
+      tags: ['core', 'collateral']
+    })
+  })
+})
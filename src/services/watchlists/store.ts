@@ -0,0 +1,363 @@
+// Named watchlists for the signed-in user, each an ordered list of coins with
+// notes and tags. State lives in memory so drag-and-drop reordering is
+// instant; changed rows are written through to blink.db.
+import { blink } from '../../blink/client'
+import { marketStore, selectTopCoins } from '../market'
+import { EXCHANGE_ASSETS } from '../providers/assets'
+import type { Watchlist, WatchlistItem } from './types'
+
+export const DEFAULT_WATCHLIST_NAME = 'My Watchlist'
+// Top markets loaded this recently are good enough for looking up coin ids
+const TOP_MARKETS_MAX_AGE_MS = 60 * 60 * 1000
+
+export interface WatchlistSnapshot {
+  lists: Watchlist[]
+  items: WatchlistItem[]
+  activeListId: string | null
+  loading: boolean
+}
+
+// Enough to add a coin to a list
+export interface WatchlistCoinRef {
+  id: string
+  symbol: string
+}
+
+export class WatchlistError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WatchlistError'
+  }
+}
+
+function listFromRow(row: any): Watchlist {
+  return {
+    id: row.id,
+    name: row.name,
+    position: Number(row.position) || 0,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+function itemFromRow(row: any): WatchlistItem {
+  let tags: unknown = []
+  try {
+    tags = JSON.parse(row.tags || '[]')
+  } catch {
+    tags = []
+  }
+
+  return {
+    id: row.id,
+    watchlistId: row.watchlistId,
+    coinId: row.coinId || '',
+    symbol: row.symbol,
+    position: Number(row.position) || 0,
+    notes: row.notes || '',
+    tags: Array.isArray(tags) ? tags.map(String) : [],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+// Tags are compared case-insensitively and kept in the order first given
+export function normaliseTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase()
+      if (!tag || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export class WatchlistStore {
+  private userId: string | null = null
+  private snapshot: WatchlistSnapshot = { lists: [], items: [], activeListId: null, loading: false }
+  private listeners = new Set<() => void>()
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  // Items of a list in display order
+  itemsOf(listId: string | null): WatchlistItem[] {
+    return this.snapshot.items
+      .filter(item => item.watchlistId === listId)
+      .sort((a, b) => a.position - b.position)
+  }
+
+  async load(userId: string) {
+    if (this.userId === userId) return
+    this.userId = userId
+    this.update({ lists: [], items: [], activeListId: null, loading: true })
+
+    try {
+      const [listRows, itemRows] = await Promise.all([
+        blink.db.watchlists.list({ where: { userId }, orderBy: { position: 'asc' } }),
+        blink.db.watchlistItems.list({ where: { userId }, orderBy: { position: 'asc' } })
+      ])
+      if (this.userId !== userId) return
+
+      let lists: Watchlist[] = listRows.map(listFromRow)
+      let items: WatchlistItem[] = itemRows.map(itemFromRow)
+      if (lists.length === 0) {
+        ({ lists, items } = await this.migrateLegacyWatchlist(userId))
+      }
+      if (items.some(item => !item.coinId)) {
+        items = await this.resolveCoinIds(items)
+        if (this.userId !== userId) return
+      }
+
+      this.update({ lists, items, activeListId: lists[0]?.id ?? null, loading: false })
+    } catch (error) {
+      console.error('Failed to load watchlists:', error)
+      const now = new Date().toISOString()
+      const fallback: Watchlist = { id: `watchlist_${Date.now()}`, name: DEFAULT_WATCHLIST_NAME, position: 0, createdAt: now, updatedAt: now }
+      this.update({ lists: [fallback], items: [], activeListId: fallback.id, loading: false })
+    }
+  }
+
+  setActiveList(listId: string) {
+    if (this.snapshot.lists.some(list => list.id === listId)) this.update({ activeListId: listId })
+  }
+
+  createList(name: string): Watchlist {
+    const trimmed = name.trim()
+    if (!trimmed) throw new WatchlistError('Give the watchlist a name')
+    if (this.snapshot.lists.some(list => list.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new WatchlistError(`You already have a watchlist called "${trimmed}"`)
+    }
+
+    const now = new Date().toISOString()
+    const list: Watchlist = {
+      id: `watchlist_${Date.now()}`,
+      name: trimmed,
+      position: Math.max(-1, ...this.snapshot.lists.map(l => l.position)) + 1,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.update({ lists: [...this.snapshot.lists, list], activeListId: list.id })
+    this.persistList(list)
+    return list
+  }
+
+  renameList(listId: string, name: string) {
+    const trimmed = name.trim()
+    if (!trimmed) throw new WatchlistError('Give the watchlist a name')
+    if (this.snapshot.lists.some(list => list.id !== listId && list.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new WatchlistError(`You already have a watchlist called "${trimmed}"`)
+    }
+
+    const list = this.snapshot.lists.find(l => l.id === listId)
+    if (!list) return
+    const next = { ...list, name: trimmed, updatedAt: new Date().toISOString() }
+    this.update({ lists: this.snapshot.lists.map(l => (l.id === listId ? next : l)) })
+    this.persistList(next)
+  }
+
+  async deleteList(listId: string) {
+    if (this.snapshot.lists.length <= 1) throw new WatchlistError('You need at least one watchlist')
+
+    const removedItems = this.itemsOf(listId)
+    const lists = this.snapshot.lists.filter(list => list.id !== listId)
+    this.update({
+      lists,
+      items: this.snapshot.items.filter(item => item.watchlistId !== listId),
+      activeListId: this.snapshot.activeListId === listId ? lists[0].id : this.snapshot.activeListId
+    })
+
+    try {
+      await Promise.all([
+        blink.db.watchlists.delete(listId),
+        ...removedItems.map(item => blink.db.watchlistItems.delete(item.id))
+      ])
+    } catch (error) {
+      console.error('Failed to delete watchlist:', error)
+    }
+  }
+
+  has(coinId: string, listId = this.snapshot.activeListId) {
+    return this.snapshot.items.some(item => item.watchlistId === listId && item.coinId === coinId)
+  }
+
+  addItem(coin: WatchlistCoinRef, listId = this.snapshot.activeListId): WatchlistItem | null {
+    if (!listId || this.has(coin.id, listId)) return null
+
+    const now = new Date().toISOString()
+    const item: WatchlistItem = {
+      id: `watchlist_item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      watchlistId: listId,
+      coinId: coin.id,
+      symbol: coin.symbol.toUpperCase(),
+      position: Math.max(-1, ...this.itemsOf(listId).map(i => i.position)) + 1,
+      notes: '',
+      tags: [],
+      createdAt: now,
+      updatedAt: now
+    }
+    this.update({ items: [...this.snapshot.items, item] })
+    this.persistItems([item])
+    return item
+  }
+
+  async removeItem(itemId: string) {
+    if (!this.snapshot.items.some(i => i.id === itemId)) return
+
+    this.update({ items: this.snapshot.items.filter(i => i.id !== itemId) })
+    try {
+      await blink.db.watchlistItems.delete(itemId)
+    } catch (error) {
+      console.error('Failed to remove watchlist item:', error)
+    }
+  }
+
+  // Adds the coin to the list, or removes it if already there; returns whether it is now listed
+  toggleItem(coin: WatchlistCoinRef, listId = this.snapshot.activeListId): boolean {
+    const existing = this.snapshot.items.find(item => item.watchlistId === listId && item.coinId === coin.id)
+    if (existing) {
+      this.removeItem(existing.id)
+      return false
+    }
+    return this.addItem(coin, listId) !== null
+  }
+
+  updateItem(itemId: string, changes: Partial<Pick<WatchlistItem, 'notes' | 'tags'>>) {
+    const item = this.snapshot.items.find(i => i.id === itemId)
+    if (!item) return
+
+    const next = {
+      ...item,
+      ...changes,
+      tags: changes.tags ? normaliseTags(changes.tags) : item.tags,
+      updatedAt: new Date().toISOString()
+    }
+    this.update({ items: this.snapshot.items.map(i => (i.id === itemId ? next : i)) })
+    this.persistItems([next])
+  }
+
+  // Move an item to `index` within `listId`, which may be a different list.
+  // A coin already on the target list is merged into the existing entry,
+  // keeping the notes and tags of both.
+  moveItem(itemId: string, listId: string, index?: number) {
+    const item = this.snapshot.items.find(i => i.id === itemId)
+    if (!item) return
+
+    const target = this.itemsOf(listId).filter(i => i.id !== itemId)
+    const duplicate = item.watchlistId !== listId && item.coinId ? target.find(i => i.coinId === item.coinId) : undefined
+    if (duplicate) {
+      const notes = [...new Set([duplicate.notes, item.notes].map(note => note.trim()).filter(Boolean))]
+      this.updateItem(duplicate.id, { notes: notes.join('\n'), tags: [...duplicate.tags, ...item.tags] })
+      this.removeItem(item.id)
+      return
+    }
+
+    const at = Math.max(0, Math.min(index ?? target.length, target.length))
+    target.splice(at, 0, { ...item, watchlistId: listId })
+    const now = new Date().toISOString()
+    const changed = target
+      .map((i, position) => ({ ...i, position }))
+      .filter(i => {
+        const before = this.snapshot.items.find(existing => existing.id === i.id)
+        return before?.position !== i.position || before?.watchlistId !== i.watchlistId
+      })
+      .map(i => ({ ...i, updatedAt: now }))
+    if (changed.length === 0) return
+
+    const byId = new Map(changed.map(i => [i.id, i]))
+    this.update({ items: this.snapshot.items.map(i => byId.get(i.id) ?? i) })
+    this.persistItems(changed)
+  }
+
+  // First visit after multiple lists were introduced: carry the old flat
+  // watchlist over into a default list
+  private async migrateLegacyWatchlist(userId: string) {
+    const now = new Date().toISOString()
+    const list: Watchlist = { id: `watchlist_${Date.now()}`, name: DEFAULT_WATCHLIST_NAME, position: 0, createdAt: now, updatedAt: now }
+
+    let symbols: string[] = []
+    try {
+      const legacy = await blink.db.userWatchlist.list({ where: { userId } })
+      symbols = [...new Set<string>(legacy.map((row: any) => row.symbol))]
+    } catch (error) {
+      console.warn('Failed to read legacy watchlist:', error)
+    }
+
+    const items: WatchlistItem[] = symbols.map((symbol, position) => ({
+      id: `watchlist_item_${Date.now()}_${position}`,
+      watchlistId: list.id,
+      coinId: '',
+      symbol,
+      position,
+      notes: '',
+      tags: [],
+      createdAt: now,
+      updatedAt: now
+    }))
+
+    this.persistList(list)
+    this.persistItems(items)
+    return { lists: [list], items }
+  }
+
+  // Lists saved before items were keyed by CoinGecko id only know the ticker.
+  // Known exchange assets are matched first, then the highest-ranked coin with
+  // that ticker; anything unmatched stays listed without market data.
+  private async resolveCoinIds(items: WatchlistItem[]): Promise<WatchlistItem[]> {
+    const ids = new Map<string, string>()
+    EXCHANGE_ASSETS.forEach(asset => ids.set(asset.symbol.toLowerCase(), asset.id))
+
+    try {
+      await marketStore.ensureTop(TOP_MARKETS_MAX_AGE_MS)
+      selectTopCoins(marketStore.getSnapshot()).forEach(coin => {
+        const symbol = coin.symbol.toLowerCase()
+        if (!ids.has(symbol)) ids.set(symbol, coin.id)
+      })
+    } catch (error) {
+      console.warn('Failed to look up coin ids for watchlist:', error)
+    }
+
+    const resolved: WatchlistItem[] = []
+    const next = items.map(item => {
+      const coinId = item.coinId || ids.get(item.symbol.toLowerCase())
+      if (item.coinId || !coinId) return item
+      const updated = { ...item, coinId }
+      resolved.push(updated)
+      return updated
+    })
+    this.persistItems(resolved)
+    return next
+  }
+
+  private update(changes: Partial<WatchlistSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private persistList(list: Watchlist) {
+    blink.db.watchlists.upsert({ ...list, userId: this.userId }).catch((error: unknown) => {
+      console.error('Failed to save watchlist:', error)
+    })
+  }
+
+  private persistItems(items: WatchlistItem[]) {
+    if (items.length === 0) return
+    blink.db.watchlistItems.upsertMany(items.map(item => ({
+      ...item,
+      userId: this.userId,
+      tags: JSON.stringify(item.tags)
+    }))).catch((error: unknown) => {
+      console.error('Failed to save watchlist items:', error)
+    })
+  }
+}
+
+export const watchlistStore = new WatchlistStore()
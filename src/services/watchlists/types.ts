@@ -0,0 +1,20 @@
+export interface Watchlist {
+  id: string
+  name: string
+  position: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WatchlistItem {
+  id: string
+  watchlistId: string
+  // CoinGecko id; tickers are not unique across coins
+  coinId: string
+  symbol: string
+  position: number
+  notes: string
+  tags: string[]
+  createdAt: string
+  updatedAt: string
+}
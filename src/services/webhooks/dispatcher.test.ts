@@ -0,0 +1,112 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { WebhookDispatcher } from './dispatcher'
+import { fetchTransport } from './transport'
+import type { WebhookDelivery } from './types'
+
+const saved = vi.hoisted(() => [] as Record<string, unknown>[])
+
+vi.mock('../../blink/client', () => {
+  const table = { upsert: async (row: Record<string, unknown>) => row, list: async () => [], delete: async () => {} }
+  return {
+    blink: {
+      db: {
+        webhookEndpoints: table,
+        webhookDeliveries: {
+          ...table,
+          upsert: async (row: Record<string, unknown>) => {
+            saved.push(row)
+            return row
+          }
+        },
+        notifications: table
+      }
+    }
+  }
+})
+
+const RECEIVER = path.resolve(__dirname, '../../../scripts/mock-webhook-receiver.mjs')
+const SECRET = 's3cret'
+const receivers: ChildProcess[] = []
+
+// Starts scripts/mock-webhook-receiver.mjs and resolves once it is listening
+function startReceiver(port: number, ...args: string[]) {
+  const receiver = spawn(process.execPath, [RECEIVER, `--port=${port}`, ...args], { stdio: ['ignore', 'pipe', 'inherit'] })
+  receivers.push(receiver)
+  return new Promise<void>((resolve, reject) => {
+    receiver.once('error', reject)
+    receiver.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) resolve()
+    })
+  })
+}
+
+function sendTest(url: string, secret?: string): Promise<WebhookDelivery> {
+  const dispatcher = new WebhookDispatcher({ transport: fetchTransport })
+  const endpoint = dispatcher.createEndpoint({ name: 'Mock receiver', url, format: 'json', events: ['signal'], secret })
+  return dispatcher.sendTest(endpoint.id) as Promise<WebhookDelivery>
+}
+
+function savedStates(deliveryId: string) {
+  return saved
+    .filter(row => row.id === deliveryId)
+    .map(row => ({ status: row.status, attempts: row.attempts, responseStatus: row.responseStatus }))
+}
+
+beforeAll(() => Promise.all([
+  startReceiver(19455, `--secret=${SECRET}`),
+  startReceiver(19456, '--fail-first=2', '--retry-after=0'),
+  startReceiver(19457, '--fail-first=1'),
+  startReceiver(19458, '--fail-first=9', '--status=429', '--retry-after=120'),
+  startReceiver(19459, '--fail-first=9', '--status=400')
+]))
+
+afterAll(() => {
+  receivers.forEach(receiver => receiver.kill())
+})
+
+describe('webhook delivery against the mock receiver', () => {
+  it('signs requests the receiver can verify', async () => {
+    const delivery = await sendTest('http://localhost:19455/signed', SECRET)
+    expect(delivery).toMatchObject({ status: 'success', attempts: 1, responseStatus: 200 })
+  })
+
+  it('fails without retrying when the signature is wrong', async () => {
+    const delivery = await sendTest('http://localhost:19455/signed', 'wrong-secret')
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 401, error: 'HTTP 401' })
+  })
+
+  it('retries failed attempts and logs each one', async () => {
+    const delivery = await sendTest('http://localhost:19456/flaky')
+    expect(delivery).toMatchObject({ status: 'success', attempts: 3, responseStatus: 200, error: undefined })
+    expect(delivery.completedAt).toBeDefined()
+    expect(JSON.parse(delivery.payload)).toMatchObject({ event: 'signal' })
+
+    expect(savedStates(delivery.id)).toEqual([
+      { status: 'pending', attempts: 0, responseStatus: null },
+      { status: 'pending', attempts: 1, responseStatus: 503 },
+      { status: 'pending', attempts: 2, responseStatus: 503 },
+      { status: 'success', attempts: 3, responseStatus: 200 }
+    ])
+  })
+
+  it('backs off before retrying when the receiver gives no Retry-After', async () => {
+    const started = Date.now()
+    const delivery = await sendTest('http://localhost:19457/flaky')
+    expect(delivery).toMatchObject({ status: 'success', attempts: 2 })
+    // First backoff is 1s with up to half of it taken off as jitter
+    expect(Date.now() - started).toBeGreaterThanOrEqual(500)
+  })
+
+  it('gives up when Retry-After asks for too long a wait', async () => {
+    const delivery = await sendTest('http://localhost:19458/busy')
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 429, error: 'HTTP 429, retry after 120s' })
+  })
+
+  it('does not retry client errors', async () => {
+    const delivery = await sendTest('http://localhost:19459/bad')
+    expect(delivery).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 400 })
+    expect(savedStates(delivery.id).at(-1)).toEqual({ status: 'failed', attempts: 1, responseStatus: 400 })
+  })
+})
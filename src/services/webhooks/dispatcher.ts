@@ -0,0 +1,356 @@
+// Delivers signal and alert events to the user's webhook endpoints. Failed
+// deliveries are retried with exponential backoff, and every delivery is
+// recorded in a log kept in memory and written through to blink.db.
+import { blink } from '../../blink/client'
+import { notificationStore } from '../notifications'
+import { parseRetryAfter } from '../providers/http'
+import { buildPayload, eventContext, renderTemplate, sampleEvent, WebhookTemplateError } from './payloads'
+import { signPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './signing'
+import { defaultTransport, type WebhookResponse, type WebhookTransport } from './transport'
+import type { WebhookDelivery, WebhookEndpoint, WebhookEndpointInput, WebhookEvent } from './types'
+
+const DELIVERY_LOG_LIMIT = 100
+const MAX_ATTEMPTS = 4
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 30000
+// A receiver asking for a longer wait than this has the delivery fail instead
+const MAX_RETRY_AFTER_MS = 30000
+const REQUEST_TIMEOUT_MS = 10000
+
+export interface WebhookSnapshot {
+  endpoints: WebhookEndpoint[]
+  deliveries: WebhookDelivery[]
+  loading: boolean
+}
+
+export interface WebhookDispatcherOptions {
+  transport?: WebhookTransport
+}
+
+export class WebhookConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookConfigError'
+  }
+}
+
+// Distinguishes responses worth retrying (timeouts, 429, 5xx) from ones that won't change
+class DeliveryAttemptError extends Error {
+  retryable: boolean
+  status?: number
+  retryAfterMs?: number
+
+  constructor(message: string, retryable: boolean, status?: number, retryAfterMs?: number) {
+    super(message)
+    this.name = 'DeliveryAttemptError'
+    this.retryable = retryable
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+function endpointFromRow(row: any): WebhookEndpoint {
+  let events: unknown = []
+  try {
+    events = JSON.parse(row.events)
+  } catch {
+    console.warn(`Webhook ${row.id} has unreadable event types`)
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    format: row.format,
+    events: Array.isArray(events) ? events : [],
+    secret: row.secret || undefined,
+    template: row.template || undefined,
+    telegramChatId: row.telegramChatId || undefined,
+    enabled: Number(row.enabled) > 0,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt
+  }
+}
+
+function deliveryFromRow(row: any): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpointId,
+    endpointName: row.endpointName,
+    eventType: row.eventType,
+    status: row.status,
+    attempts: Number(row.attempts) || 0,
+    responseStatus: row.responseStatus ? Number(row.responseStatus) : undefined,
+    error: row.error || undefined,
+    payload: row.payload,
+    createdAt: row.createdAt,
+    completedAt: row.completedAt || undefined
+  }
+}
+
+function validateEndpoint(input: WebhookEndpointInput) {
+  if (!input.name.trim()) throw new WebhookConfigError('Give the webhook a name')
+
+  let url: URL
+  try {
+    url = new URL(input.url)
+  } catch {
+    throw new WebhookConfigError('Enter a valid URL')
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new WebhookConfigError('Webhook URLs must use http or https')
+  if (input.events.length === 0) throw new WebhookConfigError('Choose at least one event type')
+  if (input.format === 'telegram' && !input.telegramChatId?.trim()) throw new WebhookConfigError('Telegram webhooks need a chat id')
+
+  if (input.format === 'json' && input.template?.trim()) {
+    try {
+      renderTemplate(input.template, eventContext(sampleEvent()))
+    } catch (error) {
+      if (error instanceof WebhookTemplateError) throw new WebhookConfigError(error.message)
+      throw error
+    }
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export class WebhookDispatcher {
+  private transport: WebhookTransport
+  private userId: string | null = null
+  private snapshot: WebhookSnapshot = { endpoints: [], deliveries: [], loading: false }
+  private listeners = new Set<() => void>()
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.transport = options.transport ?? defaultTransport
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  getSnapshot = () => this.snapshot
+
+  async load(userId: string) {
+    if (this.userId === userId) return
+    this.userId = userId
+    this.update({ endpoints: [], deliveries: [], loading: true })
+
+    try {
+      const [endpoints, deliveries] = await Promise.all([
+        blink.db.webhookEndpoints.list({ where: { userId }, orderBy: { createdAt: 'asc' } }),
+        blink.db.webhookDeliveries.list({ where: { userId }, orderBy: { createdAt: 'desc' }, limit: DELIVERY_LOG_LIMIT })
+      ])
+      if (this.userId !== userId) return
+
+      this.update({ endpoints: endpoints.map(endpointFromRow), deliveries: deliveries.map(deliveryFromRow), loading: false })
+    } catch (error) {
+      console.error('Failed to load webhooks:', error)
+      this.update({ loading: false })
+    }
+  }
+
+  createEndpoint(input: WebhookEndpointInput): WebhookEndpoint {
+    validateEndpoint(input)
+    const now = new Date().toISOString()
+    const endpoint: WebhookEndpoint = {
+      ...input,
+      name: input.name.trim(),
+      id: `webhook_${Date.now()}`,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now
+    }
+    this.update({ endpoints: [...this.snapshot.endpoints, endpoint] })
+    this.persistEndpoint(endpoint)
+    return endpoint
+  }
+
+  updateEndpoint(endpointId: string, input: WebhookEndpointInput) {
+    validateEndpoint(input)
+    this.changeEndpoint(endpointId, { ...input, name: input.name.trim() })
+  }
+
+  setEnabled(endpointId: string, enabled: boolean) {
+    this.changeEndpoint(endpointId, { enabled })
+  }
+
+  async deleteEndpoint(endpointId: string) {
+    this.update({ endpoints: this.snapshot.endpoints.filter(endpoint => endpoint.id !== endpointId) })
+    try {
+      await blink.db.webhookEndpoints.delete(endpointId)
+    } catch (error) {
+      console.error('Failed to delete webhook:', error)
+    }
+  }
+
+  // Fan an event out to every enabled endpoint subscribed to its type
+  dispatch(event: WebhookEvent) {
+    if (event.type === 'signal' && event.signal.side === 'HOLD') return
+    this.snapshot.endpoints
+      .filter(endpoint => endpoint.enabled && endpoint.events.includes(event.type))
+      .forEach(endpoint => {
+        this.deliver(endpoint, event).then(delivery => {
+          if (delivery.status !== 'failed') return
+          notificationStore.notify({
+            type: 'system',
+            severity: 'warning',
+            title: `Webhook "${endpoint.name}" failed`,
+            body: `Could not deliver a ${event.type}` +
+              `${delivery.attempts > 0 ? ` after ${delivery.attempts} attempt(s)` : ''}: ${delivery.error}`
+          })
+        })
+      })
+  }
+
+  // Send a sample event regardless of the endpoint's subscriptions
+  sendTest(endpointId: string): Promise<WebhookDelivery | null> {
+    const endpoint = this.snapshot.endpoints.find(e => e.id === endpointId)
+    if (!endpoint) return Promise.resolve(null)
+    return this.deliver(endpoint, sampleEvent(endpoint.events[0]))
+  }
+
+  private async deliver(endpoint: WebhookEndpoint, event: WebhookEvent): Promise<WebhookDelivery> {
+    const createdAt = new Date().toISOString()
+    let delivery: WebhookDelivery = {
+      id: `webhook_delivery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      endpointId: endpoint.id,
+      endpointName: endpoint.name,
+      eventType: event.type,
+      status: 'pending',
+      attempts: 0,
+      payload: '',
+      createdAt
+    }
+
+    try {
+      delivery = { ...delivery, payload: buildPayload(endpoint, event) }
+    } catch (error) {
+      return this.recordDelivery({
+        ...delivery,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date().toISOString()
+      })
+    }
+    this.recordDelivery(delivery)
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        const status = await this.post(endpoint, delivery.id, delivery.payload)
+        return this.recordDelivery({
+          ...delivery,
+          status: 'success',
+          attempts: attempt,
+          responseStatus: status,
+          error: undefined,
+          completedAt: new Date().toISOString()
+        })
+      } catch (error) {
+        const failure = error instanceof DeliveryAttemptError
+          ? error
+          : new DeliveryAttemptError(error instanceof Error ? error.message : String(error), true)
+        const waitTooLong = (failure.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS
+        const final = !failure.retryable || attempt === MAX_ATTEMPTS || waitTooLong
+
+        delivery = this.recordDelivery({
+          ...delivery,
+          status: final ? 'failed' : 'pending',
+          attempts: attempt,
+          responseStatus: failure.status,
+          error: waitTooLong
+            ? `${failure.message}, retry after ${Math.round(failure.retryAfterMs! / 1000)}s`
+            : failure.message,
+          completedAt: final ? new Date().toISOString() : undefined
+        })
+        if (final) {
+          console.warn(`Webhook ${endpoint.name} failed after ${attempt} attempt(s): ${failure.message}`)
+          return delivery
+        }
+
+        // Exponential backoff with jitter, deferring to Retry-After when the receiver sends one
+        const backoff = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt - 1), MAX_BACKOFF_MS)
+        await sleep(failure.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2)
+      }
+    }
+    return delivery
+  }
+
+  private async post(endpoint: WebhookEndpoint, deliveryId: string, body: string): Promise<number> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Delivery': deliveryId
+    }
+    if (endpoint.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      headers[TIMESTAMP_HEADER] = timestamp
+      headers[SIGNATURE_HEADER] = await signPayload(endpoint.secret, timestamp, body)
+    }
+
+    let response: WebhookResponse
+    try {
+      response = await this.transport({ url: endpoint.url, headers, body }, REQUEST_TIMEOUT_MS)
+    } catch (error) {
+      throw new DeliveryAttemptError(error instanceof Error ? error.message : String(error), true)
+    }
+
+    if (response.status >= 200 && response.status < 300) return response.status
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500
+    throw new DeliveryAttemptError(
+      `HTTP ${response.status}`,
+      retryable,
+      response.status,
+      parseRetryAfter(response.retryAfter) ?? undefined
+    )
+  }
+
+  private recordDelivery(delivery: WebhookDelivery): WebhookDelivery {
+    const exists = this.snapshot.deliveries.some(d => d.id === delivery.id)
+    this.update({
+      deliveries: exists
+        ? this.snapshot.deliveries.map(d => (d.id === delivery.id ? delivery : d))
+        : [delivery, ...this.snapshot.deliveries].slice(0, DELIVERY_LOG_LIMIT)
+    })
+
+    blink.db.webhookDeliveries.upsert({
+      ...delivery,
+      userId: this.userId,
+      responseStatus: delivery.responseStatus ?? null,
+      error: delivery.error ?? '',
+      completedAt: delivery.completedAt ?? ''
+    }).catch((error: unknown) => {
+      console.error('Failed to save webhook delivery:', error)
+    })
+    return delivery
+  }
+
+  private changeEndpoint(endpointId: string, changes: Partial<WebhookEndpoint>) {
+    const endpoint = this.snapshot.endpoints.find(e => e.id === endpointId)
+    if (!endpoint) return
+
+    const next = { ...endpoint, ...changes, updatedAt: new Date().toISOString() }
+    this.update({ endpoints: this.snapshot.endpoints.map(e => (e.id === endpointId ? next : e)) })
+    this.persistEndpoint(next)
+  }
+
+  private update(changes: Partial<WebhookSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...changes }
+    this.listeners.forEach(listener => listener())
+  }
+
+  private persistEndpoint(endpoint: WebhookEndpoint) {
+    blink.db.webhookEndpoints.upsert({
+      ...endpoint,
+      userId: this.userId,
+      events: JSON.stringify(endpoint.events),
+      secret: endpoint.secret ?? '',
+      template: endpoint.template ?? '',
+      telegramChatId: endpoint.telegramChatId ?? ''
+    }).catch((error: unknown) => {
+      console.error('Failed to save webhook:', error)
+    })
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher()
@@ -0,0 +1,37 @@
+// Outbound webhook notifications for signals and alerts
+export {
+  WebhookConfigError,
+  WebhookDispatcher,
+  webhookDispatcher,
+  type WebhookDispatcherOptions,
+  type WebhookSnapshot
+} from './dispatcher'
+export {
+  DEFAULT_JSON_TEMPLATE,
+  WEBHOOK_FORMAT_LABELS,
+  WebhookTemplateError,
+  buildPayload,
+  eventContext,
+  quoteSignal,
+  renderTemplate,
+  sampleEvent
+} from './payloads'
+export { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from './signing'
+export {
+  defaultTransport,
+  fetchTransport,
+  proxyTransport,
+  type WebhookRequest,
+  type WebhookResponse,
+  type WebhookTransport
+} from './transport'
+export type {
+  DeliveryStatus,
+  SignalNotification,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookFormat
+} from './types'
@@ -0,0 +1,170 @@
+// Request bodies for each webhook format. Chat formats use the message shapes
+// of Slack incoming webhooks, Discord webhooks and the Telegram Bot API; the
+// plain JSON format can be shaped with a {{placeholder}} template.
+import { formatMoney, toQuote, type Quote } from '../currency'
+import type { SignalNotification, WebhookEndpoint, WebhookEvent, WebhookFormat } from './types'
+
+export const WEBHOOK_FORMAT_LABELS: Record<WebhookFormat, string> = {
+  json: 'Custom JSON',
+  slack: 'Slack',
+  discord: 'Discord',
+  telegram: 'Telegram Bot API'
+}
+
+// {{path}} inserts a value escaped for use inside a JSON string;
+// {{{path}}} inserts the value as raw JSON
+export const DEFAULT_JSON_TEMPLATE = `{
+  "event": "{{type}}",
+  "title": "{{title}}",
+  "text": "{{text}}",
+  "timestamp": "{{timestamp}}",
+  "data": {{{data}}}
+}`
+
+export class WebhookTemplateError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookTemplateError'
+  }
+}
+
+interface TemplateContext {
+  type: string
+  title: string
+  text: string
+  timestamp: string
+  data: unknown
+}
+
+// Signals are generated from dollar prices; subscribers get them in the
+// user's quote currency
+export function quoteSignal(signal: Omit<SignalNotification, 'currency'>, quote: Quote): SignalNotification {
+  return {
+    ...signal,
+    currency: quote.currency,
+    price: toQuote(quote, signal.price),
+    targetPrice: signal.targetPrice !== undefined ? toQuote(quote, signal.targetPrice) : undefined,
+    stopLoss: signal.stopLoss !== undefined ? toQuote(quote, signal.stopLoss) : undefined
+  }
+}
+
+export function eventContext(event: WebhookEvent): TemplateContext {
+  if (event.type === 'signal') {
+    const { signal } = event
+    const formatPrice = (price: number) => formatMoney(price, signal.currency)
+    const levels = [
+      signal.targetPrice !== undefined ? `target ${formatPrice(signal.targetPrice)}` : null,
+      signal.stopLoss !== undefined ? `stop ${formatPrice(signal.stopLoss)}` : null
+    ].filter(Boolean).join(', ')
+    return {
+      type: 'signal',
+      title: `${signal.side} ${signal.symbol} (${signal.strength}, ${signal.confidence}%)`,
+      text: `${signal.side} ${signal.symbol} at ${formatPrice(signal.price)}${levels ? `, ${levels}` : ''}` +
+        `${signal.strategyName ? ` · ${signal.strategyName}` : ''}. ${signal.reasoning}`,
+      timestamp: signal.createdAt,
+      data: signal
+    }
+  }
+
+  const { alert } = event
+  return {
+    type: 'alert',
+    title: `Alert: ${alert.ruleName}`,
+    text: alert.details.join('\n'),
+    timestamp: alert.triggeredAt,
+    data: alert
+  }
+}
+
+function lookup(context: TemplateContext, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context)
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+  const rendered = template
+    .replace(/\{\{\{\s*([\w.]+)\s*\}\}\}/g, (_, path) => JSON.stringify(lookup(context, path) ?? null))
+    .replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path) => {
+      const value = lookup(context, path)
+      if (value === undefined || value === null) return ''
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      return JSON.stringify(text).slice(1, -1)
+    })
+
+  try {
+    JSON.parse(rendered)
+  } catch {
+    throw new WebhookTemplateError('Template does not produce valid JSON')
+  }
+  return rendered
+}
+
+const DISCORD_COLORS = { BUY: 0x22c55e, SELL: 0xef4444, HOLD: 0x9ca3af, alert: 0xf59e0b }
+
+export function buildPayload(endpoint: Pick<WebhookEndpoint, 'format' | 'template' | 'telegramChatId'>, event: WebhookEvent): string {
+  const context = eventContext(event)
+
+  switch (endpoint.format) {
+    case 'json':
+      return renderTemplate(endpoint.template?.trim() || DEFAULT_JSON_TEMPLATE, context)
+    case 'slack':
+      return JSON.stringify({
+        text: `${context.title}: ${context.text}`,
+        blocks: [
+          { type: 'header', text: { type: 'plain_text', text: context.title } },
+          { type: 'section', text: { type: 'mrkdwn', text: context.text } },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: new Date(context.timestamp).toUTCString() }] }
+        ]
+      })
+    case 'discord':
+      return JSON.stringify({
+        embeds: [{
+          title: context.title,
+          description: context.text,
+          color: event.type === 'signal' ? DISCORD_COLORS[event.signal.side] : DISCORD_COLORS.alert,
+          timestamp: context.timestamp
+        }]
+      })
+    case 'telegram':
+      return JSON.stringify({
+        chat_id: endpoint.telegramChatId,
+        text: `${context.title}\n${context.text}`,
+        disable_web_page_preview: true
+      })
+  }
+}
+
+// Sample events for previews and test deliveries
+export function sampleEvent(type: WebhookEvent['type'] = 'signal'): WebhookEvent {
+  const now = new Date().toISOString()
+  if (type === 'alert') {
+    return {
+      type: 'alert',
+      alert: {
+        id: 'alert_event_test',
+        ruleId: 'alert_rule_test',
+        ruleName: 'Test alert',
+        coinIds: ['bitcoin'],
+        details: ['BTC crossed above $100,000 (now $100,250)'],
+        message: 'Test alert: BTC crossed above $100,000 (now $100,250)',
+        triggeredAt: now
+      }
+    }
+  }
+  return {
+    type: 'signal',
+    signal: {
+      coinId: 'bitcoin',
+      symbol: 'BTC',
+      side: 'BUY',
+      strength: 'STRONG',
+      confidence: 82,
+      currency: 'usd',
+      price: 100250,
+      targetPrice: 104000,
+      stopLoss: 98375,
+      strategyName: 'Test',
+      reasoning: 'This is a test delivery.',
+      createdAt: now
+    }
+  }
+}
@@ -0,0 +1,19 @@
+// HMAC-SHA256 request signing. Receivers recompute the signature over
+// `${timestamp}.${body}` with the shared secret and compare it with the
+// X-Webhook-Signature header, rejecting stale timestamps to stop replays.
+export const SIGNATURE_HEADER = 'X-Webhook-Signature'
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp'
+
+export async function signPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  const hex = Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')
+  return `sha256=${hex}`
+}
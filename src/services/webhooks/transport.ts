@@ -0,0 +1,67 @@
+// How a signed delivery reaches its receiver. Browsers preflight a cross-origin
+// JSON POST with custom headers, and Slack, Discord and Telegram don't answer
+// preflights, so deliveries go out through Blink's server-side fetch. Receivers
+// on this machine (the mock receiver, say) can't be reached from there and are
+// called directly; they have to allow the preflight themselves.
+import { blink } from '../../blink/client'
+
+export interface WebhookRequest {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+export interface WebhookResponse {
+  status: number
+  retryAfter: string | null
+}
+
+export type WebhookTransport = (request: WebhookRequest, timeoutMs: number) => Promise<WebhookResponse>
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+function timeoutMessage(timeoutMs: number) {
+  return `Timed out after ${timeoutMs / 1000}s`
+}
+
+export const fetchTransport: WebhookTransport = async (request, timeoutMs) => {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      signal: controller.signal
+    })
+    return { status: response.status, retryAfter: response.headers.get('Retry-After') }
+  } catch (error) {
+    if (controller.signal.aborted) throw new Error(timeoutMessage(timeoutMs))
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export const proxyTransport: WebhookTransport = async (request, timeoutMs) => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(timeoutMessage(timeoutMs))), timeoutMs)
+  })
+  try {
+    const response = await Promise.race([
+      blink.data.fetch({ url: request.url, method: 'POST', headers: request.headers, body: request.body }),
+      timeout
+    ])
+    const retryAfter = Object.entries(response.headers ?? {})
+      .find(([name]) => name.toLowerCase() === 'retry-after')?.[1]
+    return { status: response.status, retryAfter: retryAfter ?? null }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export const defaultTransport: WebhookTransport = (request, timeoutMs) => {
+  const local = LOCAL_HOSTS.includes(new URL(request.url).hostname)
+  return (local ? fetchTransport : proxyTransport)(request, timeoutMs)
+}
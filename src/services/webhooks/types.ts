@@ -0,0 +1,63 @@
+import type { AlertEvent } from '../alerts'
+import type { QuoteCurrency } from '../currency'
+
+export type WebhookFormat = 'json' | 'slack' | 'discord' | 'telegram'
+export type WebhookEventType = 'signal' | 'alert'
+export type DeliveryStatus = 'pending' | 'success' | 'failed'
+
+export interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  format: WebhookFormat
+  events: WebhookEventType[]
+  // Signs each request body with HMAC-SHA256 when set
+  secret?: string
+  // JSON body template for the 'json' format; the default shape is used when empty
+  template?: string
+  // Target chat for the Telegram Bot API sendMessage shape
+  telegramChatId?: string
+  enabled: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type WebhookEndpointInput = Pick<
+  WebhookEndpoint,
+  'name' | 'url' | 'format' | 'events' | 'secret' | 'template' | 'telegramChatId'
+>
+
+export interface SignalNotification {
+  coinId: string
+  symbol: string
+  side: 'BUY' | 'SELL' | 'HOLD'
+  strength: string
+  confidence: number
+  // Currency the prices are in
+  currency: QuoteCurrency
+  price: number
+  targetPrice?: number
+  stopLoss?: number
+  strategyName?: string
+  reasoning: string
+  createdAt: string
+}
+
+export type WebhookEvent =
+  | { type: 'signal'; signal: SignalNotification }
+  | { type: 'alert'; alert: AlertEvent }
+
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  endpointName: string
+  eventType: WebhookEventType
+  status: DeliveryStatus
+  attempts: number
+  responseStatus?: number
+  error?: string
+  // Rendered request body, kept for inspection
+  payload: string
+  createdAt: string
+  completedAt?: string
+}